@@ -1,3 +1,3 @@
 export default {
-    skipFiles: [],
+    skipFiles: ["test"],
 };
@@ -0,0 +1,203 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.7;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+error RGMerkleDistributor__AlreadyClaimed(uint256 distributionId, address account);
+error RGMerkleDistributor__DistributionExpired(uint256 distributionId, uint256 deadline);
+error RGMerkleDistributor__DistributionNotExpired(uint256 distributionId, uint256 deadline);
+error RGMerkleDistributor__ExceedsDistribution(uint256 distributionId, uint256 remaining, uint256 requested);
+error RGMerkleDistributor__InsufficientTokensReceived(uint256 received, uint256 expected);
+error RGMerkleDistributor__InvalidDeadline(uint256 deadline);
+error RGMerkleDistributor__InvalidProof();
+error RGMerkleDistributor__NonexistentDistribution(uint256 distributionId);
+error RGMerkleDistributor__NothingToWithdraw(uint256 distributionId);
+error RGMerkleDistributor__ZeroAmountNotAllowed();
+
+/**
+ * @title RGMerkleDistributor
+ * @author Solomon Botchway @snnbotchway
+ * @dev Pays out token distributions decided off-chain, e.g. bonus campaigns for stakers or compensation before a pool
+ * is sunset. The owner funds each distribution together with the Merkle root of its `(account, amount)` allocations,
+ * and every account can claim its amount once with a proof until the deadline. Leaves are hashed like OpenZeppelin's
+ * StandardMerkleTree, see `utils/merkle-airdrop.ts`. The owner can withdraw what is left unclaimed after the deadline.
+ */
+contract RGMerkleDistributor is Ownable {
+    using SafeERC20 for IERC20;
+
+    struct Distribution {
+        bytes32 merkleRoot;
+        uint256 totalAmount;
+        uint256 claimedAmount;
+        uint256 deadline;
+        bool unclaimedWithdrawn;
+    }
+
+    IERC20 private immutable i_token;
+
+    Distribution[] private s_distributions;
+    // Distribution id => account => whether the account claimed its allocation
+    mapping(uint256 => mapping(address => bool)) private s_claimed;
+
+    /**
+     * @dev Emitted when the owner funds a new distribution.
+     * @param distributionId The id of the distribution, its index in creation order.
+     * @param merkleRoot The root of the Merkle tree of the allocations.
+     * @param totalAmount The amount of tokens funded, i.e. the sum of the allocations.
+     * @param deadline The timestamp after which allocations can no longer be claimed.
+     */
+    event DistributionCreated(
+        uint256 indexed distributionId,
+        bytes32 merkleRoot,
+        uint256 totalAmount,
+        uint256 deadline
+    );
+
+    /**
+     * @dev Emitted when an allocation is claimed.
+     * @param distributionId The id of the distribution.
+     * @param account The address the allocation was paid to.
+     * @param amount The amount of tokens paid.
+     */
+    event Claimed(uint256 indexed distributionId, address indexed account, uint256 amount);
+
+    /**
+     * @dev Emitted when the owner withdraws what was left unclaimed after the deadline.
+     * @param distributionId The id of the distribution.
+     * @param to The address the tokens were sent to.
+     * @param amount The amount of tokens withdrawn.
+     */
+    event UnclaimedWithdrawn(uint256 indexed distributionId, address indexed to, uint256 amount);
+
+    /**
+     * @param _tokenAddress The address of the token distributions are paid in.
+     * @param _owner The address allowed to create distributions and withdraw unclaimed tokens.
+     */
+    constructor(address _tokenAddress, address _owner) {
+        i_token = IERC20(_tokenAddress);
+        _transferOwnership(_owner);
+    }
+
+    /**
+     * @dev Pulls `totalAmount` tokens, approved beforehand, and opens a distribution of them.
+     * @param merkleRoot The root of the Merkle tree of the allocations, which must sum up to `totalAmount`.
+     * @param totalAmount The amount of tokens to distribute.
+     * @param deadline The timestamp after which allocations can no longer be claimed.
+     * @return distributionId The id of the new distribution.
+     */
+    function createDistribution(
+        bytes32 merkleRoot,
+        uint256 totalAmount,
+        uint256 deadline
+    ) external onlyOwner returns (uint256 distributionId) {
+        if (totalAmount == 0) revert RGMerkleDistributor__ZeroAmountNotAllowed();
+        if (deadline <= block.timestamp) revert RGMerkleDistributor__InvalidDeadline(deadline);
+
+        uint256 balanceBefore = i_token.balanceOf(address(this));
+        i_token.safeTransferFrom(msg.sender, address(this), totalAmount);
+        uint256 received = i_token.balanceOf(address(this)) - balanceBefore;
+        if (received < totalAmount) revert RGMerkleDistributor__InsufficientTokensReceived(received, totalAmount);
+
+        distributionId = s_distributions.length;
+        s_distributions.push(Distribution(merkleRoot, totalAmount, 0, deadline, false));
+
+        emit DistributionCreated(distributionId, merkleRoot, totalAmount, deadline);
+    }
+
+    /**
+     * @dev Pays the allocation of `account` in a distribution. Anyone may submit the claim, the tokens always go to
+     * `account`.
+     * @param distributionId The id of the distribution.
+     * @param account The address the allocation belongs to.
+     * @param amount The amount of tokens allocated to `account`.
+     * @param proof The Merkle proof of the `(account, amount)` leaf.
+     */
+    function claim(uint256 distributionId, address account, uint256 amount, bytes32[] calldata proof) external {
+        Distribution storage distribution = getDistributionStorage(distributionId);
+        if (block.timestamp > distribution.deadline) {
+            revert RGMerkleDistributor__DistributionExpired(distributionId, distribution.deadline);
+        }
+        if (s_claimed[distributionId][account]) revert RGMerkleDistributor__AlreadyClaimed(distributionId, account);
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, amount))));
+        if (!MerkleProof.verifyCalldata(proof, distribution.merkleRoot, leaf)) {
+            revert RGMerkleDistributor__InvalidProof();
+        }
+
+        // Only reachable with a root whose allocations exceed the funded amount, which would pay out other
+        // distributions' tokens
+        uint256 remaining = distribution.totalAmount - distribution.claimedAmount;
+        if (amount > remaining) revert RGMerkleDistributor__ExceedsDistribution(distributionId, remaining, amount);
+
+        s_claimed[distributionId][account] = true;
+        distribution.claimedAmount += amount;
+
+        i_token.safeTransfer(account, amount);
+        emit Claimed(distributionId, account, amount);
+    }
+
+    /**
+     * @dev Sends what was left unclaimed in a distribution to `to` once its deadline passed.
+     * @param distributionId The id of the distribution.
+     * @param to The address to send the tokens to.
+     */
+    function withdrawUnclaimed(uint256 distributionId, address to) external onlyOwner {
+        Distribution storage distribution = getDistributionStorage(distributionId);
+        if (block.timestamp <= distribution.deadline) {
+            revert RGMerkleDistributor__DistributionNotExpired(distributionId, distribution.deadline);
+        }
+
+        uint256 unclaimed = distribution.totalAmount - distribution.claimedAmount;
+        if (distribution.unclaimedWithdrawn || unclaimed == 0) {
+            revert RGMerkleDistributor__NothingToWithdraw(distributionId);
+        }
+        distribution.unclaimedWithdrawn = true;
+
+        i_token.safeTransfer(to, unclaimed);
+        emit UnclaimedWithdrawn(distributionId, to, unclaimed);
+    }
+
+    /**
+     * @dev Returns the distribution with the given id.
+     */
+    function getDistributionStorage(uint256 distributionId) private view returns (Distribution storage) {
+        if (distributionId >= s_distributions.length) {
+            revert RGMerkleDistributor__NonexistentDistribution(distributionId);
+        }
+        return s_distributions[distributionId];
+    }
+
+    /**
+     * @dev Returns the address of the token distributions are paid in.
+     */
+    function tokenAddress() external view returns (address) {
+        return address(i_token);
+    }
+
+    /**
+     * @dev Returns the number of distributions created so far.
+     */
+    function distributionCount() external view returns (uint256) {
+        return s_distributions.length;
+    }
+
+    /**
+     * @dev Returns a distribution.
+     * @param distributionId The id of the distribution.
+     */
+    function getDistribution(uint256 distributionId) external view returns (Distribution memory) {
+        return getDistributionStorage(distributionId);
+    }
+
+    /**
+     * @dev Returns whether `account` claimed its allocation in a distribution.
+     * @param distributionId The id of the distribution.
+     * @param account The address of the account.
+     */
+    function isClaimed(uint256 distributionId, address account) external view returns (bool) {
+        return s_claimed[distributionId][account];
+    }
+}
@@ -2,20 +2,63 @@
 pragma solidity 0.8.7;
 
 import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 
 error RGStaking__AlreadyInitialized();
+error RGStaking__BatchTooLarge(uint256 size, uint256 maxSize);
+error RGStaking__CompoundingUnavailable();
+error RGStaking__CompoundingWhileVesting();
+error RGStaking__ExpiredSignature(uint256 deadline);
 error RGStaking__InsufficientAssets(uint256 availableAssets, uint256 requestedAssets);
+error RGStaking__InsufficientRewards(uint256 rewards, uint256 assetPrice);
+error RGStaking__InsufficientTokensReceived(uint256 received, uint256 assetPrice);
+error RGStaking__InsufficientVestingRewards(uint256 lockedRewards, uint256 requestedRewards);
+error RGStaking__InvalidLockTier();
+error RGStaking__InvalidSignature();
+error RGStaking__InvalidVestingTerms();
+error RGStaking__LockTierUnavailable(uint256 tierId);
+error RGStaking__MissingRole(address account, bytes32 role);
 error RGStaking__NoRewardsForSender();
+error RGStaking__NoSurplus();
+error RGStaking__NotPaused();
+error RGStaking__Paused();
+error RGStaking__PositionLocked(uint256 unlockTime);
+error RGStaking__TooManyLockedPositions();
 error RGStaking__Uninitialized();
+error RGStaking__UnknownPosition(uint256 positionId);
 error RGStaking__ZeroAmountNotAllowed();
 
 /**
  * @title RGStaking
  * @author Solomon Botchway @snnbotchway
  * @dev A contract for staking assets and earning rewards in RGT tokens.
+ * Assets are bought with the staking token at a fixed asset price and rewards are paid in the reward token. Both are
+ * RGT by default but can be any ERC20, including tokens that don't return a value or take a fee on transfers: only
+ * what actually arrives is credited.
+ * It is deployed behind a transparent proxy, so state variables must only ever be appended to keep the storage layout
+ * of existing deployments compatible. `yarn hardhat rgs:check-upgrade` checks this before upgrading.
+ * Users can also sign EIP-712 intents to buy, redeem or claim, which anyone (a relayer) can submit on their behalf.
+ * Assets can be locked for one of the lock tiers set by the admin to earn boosted rewards until they unlock.
+ * Rewards can be compounded into assets when the reward token is the staking token, by the user or, for users who opted
+ * in, by a keeper in batches.
+ * It tracks the total assets staked and the number of accounts holding assets, so protocol metrics and the projected
+ * depletion of the reward pool can be read without scanning events.
+ * Claimed rewards can be made to vest linearly by the admin. Users withdraw them as they vest or release them early by
+ * forfeiting part of them to the reward pool.
+ * Admin functions are restricted with roles: DEFAULT_ADMIN_ROLE manages the rewards and the roles, PAUSER_ROLE can stop
+ * purchases and claims. Users can always leave with `emergencyWithdraw`, which skips the reward accounting.
+ * Ownership is only kept for storage compatibility and to let the owner call `initializeRoles` once.
  */
-contract RGStaking {
-    IERC20 private immutable i_rGToken;
+contract RGStaking is Initializable, OwnableUpgradeable, EIP712 {
+    using SafeERC20 for IERC20;
+
+    // The staking token. Named after RGT, which used to be both tokens, because the name is part of the storage layout.
+    IERC20 private s_rGToken;
 
     struct UserData {
         uint256 assets;
@@ -27,9 +70,111 @@ contract RGStaking {
     bool private s_rewardPoolInitialized;
     uint256 private s_totalRewardPool;
 
+    /**
+     * @dev The daily rewards per asset that apply from `startTime` until the start of the next checkpoint.
+     * Rewards are accrued per checkpoint so changing the rate never changes rewards accrued before the change.
+     */
+    struct RateCheckpoint {
+        uint256 startTime;
+        uint256 dailyRewardsPerAsset;
+    }
+    RateCheckpoint[] private s_rateCheckpoints;
+
+    // Next nonce expected in each user's signed intents
+    mapping(address => uint256) private s_nonces;
+
+    /**
+     * @dev A lock period users can opt into. Rewards of locked assets are multiplied by `multiplierBps` / 10000 until
+     * they unlock. Redeeming before then is blocked unless `earlyExitAllowed`, in which case `earlyExitPenaltyBps` of
+     * the asset price goes back to the reward pool. A tier with a zero duration can't be used for new locks.
+     */
+    struct LockTier {
+        uint256 duration;
+        uint256 multiplierBps;
+        uint256 earlyExitPenaltyBps;
+        bool earlyExitAllowed;
+    }
+    LockTier[] private s_lockTiers;
+
+    /**
+     * @dev Assets locked by a user. The tier's terms are copied when locking, so changing a tier only affects new
+     * positions.
+     */
+    struct LockedPosition {
+        uint256 assets;
+        uint256 tierId;
+        uint256 unlockTime;
+        uint256 multiplierBps;
+        uint256 earlyExitPenaltyBps;
+        bool earlyExitAllowed;
+    }
+    mapping(address => LockedPosition[]) private s_lockedPositions;
+
+    // Part of `UserData.assets` held in locked positions, which `redeemAssets` can't redeem
+    mapping(address => uint256) private s_lockedAssets;
+
+    mapping(bytes32 => mapping(address => bool)) private s_roles;
+    bool private s_paused;
+
+    // Totals of `UserData.assets` and `UserData.rewards`, to tell which tokens are owed to users. On deployments made
+    // before they were tracked, they only count the changes since the upgrade until `initializeRoles`.
+    uint256 private s_totalAssets;
+    uint256 private s_totalCreditedRewards;
+
+    // Unset on deployments made before they were configurable, which use the staking token and TOKENS_PER_ASSET
+    IERC20 private s_rewardToken;
+    uint256 private s_assetPrice;
+
+    // Accounts whose rewards anyone can compound with `compoundRewardsFor`
+    mapping(address => bool) private s_autoCompound;
+
+    // Accounts holding assets. On deployments made before it was tracked, it only counts the changes since the upgrade
+    // until `initializeStakerCount`.
+    uint256 private s_activeStakers;
+
+    /**
+     * @dev Rewards claimed while vesting is on. `vested` can be withdrawn and `locked` vests linearly from `startTime`
+     * until `endTime`. Vested rewards are moved out of `locked` whenever the schedule changes, which also moves
+     * `startTime` to that time, so a single schedule holds every claim of a user.
+     */
+    struct VestingSchedule {
+        uint256 vested;
+        uint256 locked;
+        uint256 startTime;
+        uint256 endTime;
+    }
+    mapping(address => VestingSchedule) private s_vestingSchedules;
+
+    // Claims vest over this many seconds, or are paid out immediately if zero
+    uint256 private s_vestingDuration;
+    // Share of the locked rewards forfeited to the reward pool by `accelerateVesting`
+    uint256 private s_vestingForfeitBps;
+    // Total of the vesting schedules, owed to users like the credited rewards
+    uint256 private s_totalVestingRewards;
+
+    bytes32 public constant DEFAULT_ADMIN_ROLE = 0x00;
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
     uint256 private constant ONE_TOKEN = 1e18;
-    uint256 private constant DAILY_REWARDS_PER_ASSET = ONE_TOKEN / 10;
+    uint256 private constant INITIAL_DAILY_REWARDS_PER_ASSET = ONE_TOKEN / 10;
+    // Asset price of deployments made before it was configurable
     uint256 private constant TOKENS_PER_ASSET = ONE_TOKEN * 10;
+    uint256 private constant BPS = 10_000;
+    // Bounds the loop over positions in `calculateAdditionalRewards`
+    uint256 private constant MAX_LOCKED_POSITIONS = 10;
+    // Bounds the loop over accounts in `compoundRewardsFor`
+    uint256 private constant MAX_COMPOUND_BATCH = 100;
+    // Initialized versions set by the migrations. New deployments start at the latest one and skip them all.
+    uint8 private constant TOTALS_VERSION = 2;
+    uint8 private constant STAKER_COUNT_VERSION = 3;
+    uint8 private constant LATEST_VERSION = STAKER_COUNT_VERSION;
+
+    bytes32 private constant BUY_ASSETS_TYPEHASH =
+        keccak256("BuyAssets(address user,uint256 amountOfAssets,uint256 nonce,uint256 deadline)");
+    bytes32 private constant REDEEM_ASSETS_TYPEHASH =
+        keccak256("RedeemAssets(address user,uint256 amountOfAssets,uint256 nonce,uint256 deadline)");
+    bytes32 private constant CLAIM_REWARDS_TYPEHASH =
+        keccak256("ClaimRewards(address user,uint256 nonce,uint256 deadline)");
 
     /**
      * @dev Emitted when the reward pool is initialized with tokens.
@@ -60,11 +205,185 @@ contract RGStaking {
     event RewardsClaimed(address indexed user, uint256 rewardWithdrawn);
 
     /**
-     * @param _rGTokenAddress The address of the deployed RGToken.
+     * @dev Emitted when a user's rewards are turned into assets.
+     * @param user The address of the user whose rewards were compounded.
+     * @param rewardsCompounded The amount of rewards spent on assets.
+     * @param assetsBought The amount of assets bought.
+     */
+    event RewardsCompounded(address indexed user, uint256 rewardsCompounded, uint256 assetsBought);
+
+    /**
+     * @dev Emitted when a user opts in or out of auto-compounding.
+     * @param user The address of the user.
+     * @param enabled Whether anyone can compound the user's rewards.
+     */
+    event AutoCompoundSet(address indexed user, bool enabled);
+
+    /**
+     * @dev Emitted when the owner changes the daily rewards per asset.
+     * @param previousRate The daily rewards per asset before the change.
+     * @param newRate The daily rewards per asset from now on.
+     */
+    event DailyRewardsPerAssetUpdated(uint256 previousRate, uint256 newRate);
+
+    /**
+     * @dev Emitted when the owner adds tokens to an initialized reward pool.
+     * @param sender The address that topped up the reward pool.
+     * @param amount The amount of RGT tokens added to the reward pool.
+     */
+    event RewardPoolToppedUp(address indexed sender, uint256 amount);
+
+    /**
+     * @dev Emitted when the owner adds or changes a lock tier.
+     * @param tierId The id of the tier.
+     * @param duration The lock duration in seconds.
+     * @param multiplierBps The reward multiplier in basis points.
+     * @param earlyExitPenaltyBps The share of the asset price kept on early exit, in basis points.
+     * @param earlyExitAllowed Whether positions can be redeemed before they unlock.
      */
-    constructor(address _rGTokenAddress) {
-        i_rGToken = IERC20(_rGTokenAddress);
-        s_totalRewardPool = 10000 * ONE_TOKEN;
+    event LockTierUpdated(
+        uint256 indexed tierId,
+        uint256 duration,
+        uint256 multiplierBps,
+        uint256 earlyExitPenaltyBps,
+        bool earlyExitAllowed
+    );
+
+    /**
+     * @dev Emitted when a user locks assets.
+     * @param user The address of the user who locked assets.
+     * @param assetsLocked The amount of assets locked.
+     * @param tierId The lock tier.
+     * @param unlockTime The timestamp from which the assets can be redeemed without penalty.
+     */
+    event AssetsLocked(address indexed user, uint256 assetsLocked, uint256 indexed tierId, uint256 unlockTime);
+
+    /**
+     * @dev Emitted when a user redeems a locked position early and pays a penalty to the reward pool.
+     * @param user The address of the user who paid the penalty.
+     * @param penalty The amount of RGT tokens added to the reward pool.
+     */
+    event EarlyExitPenaltyPaid(address indexed user, uint256 penalty);
+
+    /**
+     * @dev Emitted when the admin changes how claimed rewards vest.
+     * @param duration The vesting duration in seconds of new claims, zero if they are paid out immediately.
+     * @param forfeitBps The share of the locked rewards forfeited when accelerating vesting, in basis points.
+     */
+    event VestingTermsUpdated(uint256 duration, uint256 forfeitBps);
+
+    /**
+     * @dev Emitted when claimed rewards start vesting instead of being sent.
+     * @param user The address of the user who claimed.
+     * @param amount The amount of rewards added to the vesting schedule.
+     * @param endTime The timestamp at which the whole schedule has vested.
+     */
+    event VestingStarted(address indexed user, uint256 amount, uint256 endTime);
+
+    /**
+     * @dev Emitted when a user withdraws vesting rewards, whether they vested or were accelerated.
+     * @param user The address of the user who withdrew.
+     * @param amount The amount of rewards sent to the user.
+     */
+    event VestedRewardsWithdrawn(address indexed user, uint256 amount);
+
+    /**
+     * @dev Emitted when a user accelerates vesting and forfeits part of the rewards to the reward pool.
+     * @param user The address of the user who forfeited rewards.
+     * @param forfeited The amount of rewards added to the reward pool.
+     */
+    event VestingRewardsForfeited(address indexed user, uint256 forfeited);
+
+    /**
+     * @dev Emitted when `account` is granted `role`. Same as OpenZeppelin's `IAccessControl`.
+     * @param role The role granted.
+     * @param account The address that received the role.
+     * @param sender The admin that granted the role.
+     */
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /**
+     * @dev Emitted when `account` loses `role`. Same as OpenZeppelin's `IAccessControl`.
+     * @param role The role revoked.
+     * @param account The address that lost the role.
+     * @param sender The admin that revoked the role, or `account` itself when renouncing it.
+     */
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /**
+     * @dev Emitted when purchases and claims are paused.
+     * @param account The pauser.
+     */
+    event Paused(address account);
+
+    /**
+     * @dev Emitted when purchases and claims are resumed.
+     * @param account The pauser.
+     */
+    event Unpaused(address account);
+
+    /**
+     * @dev Emitted when a user withdraws their principal without settling rewards.
+     * @param user The address of the user who withdrew.
+     * @param assetsWithdrawn The amount of assets withdrawn.
+     * @param rewardsForfeited The credited rewards returned to the reward pool.
+     */
+    event EmergencyWithdrawn(address indexed user, uint256 assetsWithdrawn, uint256 rewardsForfeited);
+
+    /**
+     * @dev Emitted when the admin recovers tokens the contract doesn't owe anyone.
+     * @param token The staking or reward token.
+     * @param to The address that received the tokens.
+     * @param amount The amount of tokens recovered.
+     */
+    event SurplusRecovered(address indexed token, address indexed to, uint256 amount);
+
+    /**
+     * @dev Emitted when the admin withdraws the reward pool after a sunset.
+     * @param to The address that received the tokens.
+     * @param amount The amount of RGT tokens taken from the reward pool.
+     */
+    event RewardPoolWithdrawn(address indexed to, uint256 amount);
+
+    /**
+     * @dev The EIP-712 domain only uses immutables, so it doesn't take up proxy storage. The domain separator is
+     * rebuilt with the proxy's address when called through the proxy.
+     */
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    constructor() EIP712("RGStaking", "1") {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializes the proxy's storage. Called once by the proxy on deployment. It sets the latest initialized
+     * version, as the state it sets up needs none of the migrations.
+     * @param _stakingTokenAddress The address of the token assets are bought with.
+     * @param _rewardTokenAddress The address of the token rewards are paid in. May be the staking token.
+     * @param _assetPrice The price of one asset in staking token wei.
+     * @param _totalRewardPool The amount of reward tokens to be paid out as rewards, funded by `initializeRewardPool`.
+     * @param _admin The address granted DEFAULT_ADMIN_ROLE, also made the owner.
+     * @param _pauser The address granted PAUSER_ROLE.
+     */
+    function initialize(
+        address _stakingTokenAddress,
+        address _rewardTokenAddress,
+        uint256 _assetPrice,
+        uint256 _totalRewardPool,
+        address _admin,
+        address _pauser
+    ) external reinitializer(LATEST_VERSION) {
+        if (_assetPrice == 0 || _totalRewardPool == 0) revert RGStaking__ZeroAmountNotAllowed();
+
+        __Ownable_init();
+        _transferOwnership(_admin);
+        grantRoleTo(DEFAULT_ADMIN_ROLE, _admin);
+        grantRoleTo(PAUSER_ROLE, _pauser);
+
+        s_rGToken = IERC20(_stakingTokenAddress);
+        s_rewardToken = IERC20(_rewardTokenAddress);
+        s_assetPrice = _assetPrice;
+        s_totalRewardPool = _totalRewardPool;
+        s_rateCheckpoints.push(RateCheckpoint(block.timestamp, INITIAL_DAILY_REWARDS_PER_ASSET));
     }
 
     /**
@@ -74,45 +393,139 @@ contract RGStaking {
      * @return The additional rewards earned by the account.
      *
      * Formula: ((currentTime - lastUpdateTime) * assets * dailyRewardsPerAsset) / secondsInADay
-     * Since rewards per asset for a duration of 1 day is 0.1, DAILY_REWARDS_PER_ASSET = ONE_TOKEN * 0.1 or DAILY_REWARDS_PER_ASSET = ONE_TOKEN / 10.
+     * The initial rewards per asset for a duration of 1 day is 0.1, so INITIAL_DAILY_REWARDS_PER_ASSET = ONE_TOKEN / 10.
      * This formula computes the additional rewards for the user's assets within the given time duration.
      *
      * For example, if the user has 4 assets (each asset represents 10 tokens) and 24 hours have passed since the last update:
      * Additional Rewards = ((24 hours * 3600 seconds) * 4 assets * 1e17) / (24 hours * 3600 seconds) = 0.4 * 1e18 RGT tokens
      *
+     * Locked positions add the boost of their multiplier on top, from the last update until they unlock.
+     *
      * If the total reward pool is less than the additional reward, then we return the total reward pool as the additional reward
      * since the pool is depleted. When it finishes completely, this function will always return 0. This ensures exactly the
      * amount specified in the pool is given out as rewards.
      */
     function calculateAdditionalRewards(address account) private view returns (uint256) {
         UserData memory userData = s_userData[account];
+        if (userData.assets == 0) return 0;
+
+        uint256 additionalRewards = calculateRewardsBetween(
+            userData.lastUpdateTime,
+            block.timestamp,
+            userData.assets,
+            BPS
+        );
+
+        LockedPosition[] storage positions = s_lockedPositions[account];
+        for (uint256 i = 0; i < positions.length; i++) {
+            LockedPosition memory position = positions[i];
+            uint256 boostEnd = position.unlockTime < block.timestamp ? position.unlockTime : block.timestamp;
+            if (boostEnd <= userData.lastUpdateTime) continue;
 
-        uint256 additionalRewards = ((block.timestamp - userData.lastUpdateTime) *
-            userData.assets *
-            DAILY_REWARDS_PER_ASSET) / 1 days;
+            additionalRewards += calculateRewardsBetween(
+                userData.lastUpdateTime,
+                boostEnd,
+                position.assets,
+                position.multiplierBps - BPS
+            );
+        }
 
         return additionalRewards < s_totalRewardPool ? additionalRewards : s_totalRewardPool;
     }
 
+    /**
+     * @dev Calculates the rewards of `assets` weighted by `weightBps` / 10000 between `from` and `to`.
+     * The formula is applied to each rate checkpoint separately, walking back from the newest one. This loop only
+     * covers the rate changes since `from`.
+     */
+    function calculateRewardsBetween(
+        uint256 from,
+        uint256 to,
+        uint256 assets,
+        uint256 weightBps
+    ) private view returns (uint256 rewards) {
+        uint256 periodEnd = to;
+        for (uint256 i = s_rateCheckpoints.length; i > 0; i--) {
+            RateCheckpoint memory checkpoint = s_rateCheckpoints[i - 1];
+            if (checkpoint.startTime >= periodEnd) continue;
+
+            uint256 periodStart = checkpoint.startTime > from ? checkpoint.startTime : from;
+
+            rewards +=
+                ((periodEnd - periodStart) * assets * checkpoint.dailyRewardsPerAsset * weightBps) /
+                (1 days * BPS);
+
+            if (periodStart == from) break;
+            periodEnd = periodStart;
+        }
+    }
+
     /**
      * @dev Modifier to update rewards for the specified account before function execution.
      * It calculates the additional rewards earned by the account since the last update.
      * @param account The address of the account to update rewards for.
      */
     modifier updateRewards(address account) {
-        uint256 additionalRewards = calculateAdditionalRewards(account);
+        settleRewards(account);
+        _;
+    }
 
-        UserData storage userData = s_userData[account];
-        userData.lastUpdateTime = block.timestamp;
-        userData.rewards += additionalRewards;
-        s_totalRewardPool -= additionalRewards;
+    modifier onlyRole(bytes32 role) {
+        if (!s_roles[role][msg.sender]) revert RGStaking__MissingRole(msg.sender, role);
+        _;
+    }
 
+    modifier whenNotPaused() {
+        if (s_paused) revert RGStaking__Paused();
         _;
     }
 
     /**
-     * @dev Initializes the reward pool by transferring a specific amount of RGT tokens to the contract.
+     * @dev Migrates a deployment made before roles existed, when admin functions were restricted to the owner. The
+     * owner calls this once after the upgrade, see `yarn hardhat rgs:initialize-roles`.
+     * The contract didn't track totals before, so until then they only count the changes since the upgrade, and the
+     * totals at the time of the upgrade are added here, as reconciled from the indexed events.
+     * @param _admin The address granted DEFAULT_ADMIN_ROLE.
+     * @param _pauser The address granted PAUSER_ROLE.
+     * @param _totalAssets The assets bought and not redeemed yet at the time of the upgrade.
+     * @param _totalCreditedRewards The rewards credited to accounts and not claimed yet at the time of the upgrade.
+     */
+    function initializeRoles(
+        address _admin,
+        address _pauser,
+        uint256 _totalAssets,
+        uint256 _totalCreditedRewards
+    ) external onlyOwner reinitializer(TOTALS_VERSION) {
+        grantRoleTo(DEFAULT_ADMIN_ROLE, _admin);
+        grantRoleTo(PAUSER_ROLE, _pauser);
+
+        // The changes since the upgrade may have wrapped around below zero
+        unchecked {
+            s_totalAssets += _totalAssets;
+            s_totalCreditedRewards += _totalCreditedRewards;
+        }
+    }
+
+    /**
+     * @dev Migrates a deployment made before the accounts holding assets were counted. The admin calls this once after
+     * the upgrade, see `yarn hardhat rgs:initialize-stakers`. Deployments made before roles existed must run
+     * `initializeRoles` first. Until then the count only counts the changes since the upgrade, and the count at the
+     * time of the upgrade is added here.
+     * @param _activeStakers The accounts holding assets at the time of the upgrade, as reconciled from the indexed events.
+     */
+    function initializeStakerCount(
+        uint256 _activeStakers
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) reinitializer(STAKER_COUNT_VERSION) {
+        // The changes since the upgrade may have wrapped around below zero
+        unchecked {
+            s_activeStakers += _activeStakers;
+        }
+    }
+
+    /**
+     * @dev Initializes the reward pool by transferring a specific amount of reward tokens to the contract.
      * This function can only be called once to set up the reward pool before users can interact with the contract.
+     * For a fee-on-transfer reward token, the pool is what actually arrived.
      *
      * Requirements:
      * - The reward pool must not be already initialized to prevent double initialization.
@@ -127,64 +540,469 @@ contract RGStaking {
         if (s_rewardPoolInitialized) revert RGStaking__AlreadyInitialized();
 
         s_rewardPoolInitialized = true;
-
-        i_rGToken.transferFrom(msg.sender, address(this), s_totalRewardPool);
+        s_totalRewardPool = pullTokens(getRewardToken(), msg.sender, s_totalRewardPool);
 
         emit RewardPoolInitialized(msg.sender, s_totalRewardPool);
     }
 
     /**
-     * @dev Allows users to buy assets by transferring RGT tokens to the contract.
-     * @notice The reward pool must be initialized before users can buy assets.
-     * @param amountOfAssets The amount of assets to buy. The price of one asset is 10 tokens.
+     * @dev Changes the daily rewards per asset from the current block onwards. Rewards accrued before the change keep
+     * the previous rate.
+     * @param newRate The new daily rewards per asset in RGT wei. Zero stops rewards from accruing.
      */
-    function buyAssets(uint256 amountOfAssets) external updateRewards(msg.sender) {
+    function setDailyRewardsPerAsset(uint256 newRate) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        RateCheckpoint storage latest = s_rateCheckpoints[s_rateCheckpoints.length - 1];
+        uint256 previousRate = latest.dailyRewardsPerAsset;
+
+        if (latest.startTime == block.timestamp) {
+            latest.dailyRewardsPerAsset = newRate;
+        } else {
+            s_rateCheckpoints.push(RateCheckpoint(block.timestamp, newRate));
+        }
+
+        emit DailyRewardsPerAssetUpdated(previousRate, newRate);
+    }
+
+    /**
+     * @dev Adds reward tokens to an initialized reward pool. Can be called any number of times, e.g. to revive a
+     * depleted pool.
+     * @param amount The amount of reward tokens to add to the reward pool. Fees taken by the token aren't added.
+     */
+    function topUpRewardPool(uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
         if (!s_rewardPoolInitialized) revert RGStaking__Uninitialized();
-        if (amountOfAssets == 0) revert RGStaking__ZeroAmountNotAllowed();
+        if (amount == 0) revert RGStaking__ZeroAmountNotAllowed();
 
-        i_rGToken.transferFrom(msg.sender, address(this), getAssetPriceInTokens(amountOfAssets));
+        uint256 received = pullTokens(getRewardToken(), msg.sender, amount);
+        s_totalRewardPool += received;
 
-        UserData storage userData = s_userData[msg.sender];
-        userData.assets += amountOfAssets;
+        emit RewardPoolToppedUp(msg.sender, received);
+    }
 
-        emit AssetsBought(msg.sender, amountOfAssets);
+    /**
+     * @dev Adds a lock tier or changes an existing one. Positions already locked keep the terms they were locked with.
+     * @param tierId The id of the tier to change, or the number of tiers to add a new one.
+     * @param duration The lock duration in seconds. Zero stops the tier from being used for new locks.
+     * @param multiplierBps The reward multiplier in basis points, at least 10000.
+     * @param earlyExitPenaltyBps The share of the asset price kept on early exit, in basis points.
+     * @param earlyExitAllowed Whether positions can be redeemed before they unlock.
+     */
+    function setLockTier(
+        uint256 tierId,
+        uint256 duration,
+        uint256 multiplierBps,
+        uint256 earlyExitPenaltyBps,
+        bool earlyExitAllowed
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (tierId > s_lockTiers.length || multiplierBps < BPS || earlyExitPenaltyBps > BPS) {
+            revert RGStaking__InvalidLockTier();
+        }
+
+        LockTier memory tier = LockTier(duration, multiplierBps, earlyExitPenaltyBps, earlyExitAllowed);
+        if (tierId == s_lockTiers.length) {
+            s_lockTiers.push(tier);
+        } else {
+            s_lockTiers[tierId] = tier;
+        }
+
+        emit LockTierUpdated(tierId, duration, multiplierBps, earlyExitPenaltyBps, earlyExitAllowed);
     }
 
     /**
-     * @dev Allows users to redeem assets by transferring RGT tokens from the contract to the user.
-     * @param amountOfAssets The amount of assets to redeem. The price of one asset is 10 tokens.
+     * @dev Changes how claimed rewards vest. Existing schedules keep their end time, but accelerating them forfeits the
+     * current share.
+     * @param duration The vesting duration in seconds of new claims. Zero pays claims out immediately.
+     * @param forfeitBps The share of the locked rewards forfeited when accelerating vesting, in basis points.
      */
-    function redeemAssets(uint256 amountOfAssets) external updateRewards(msg.sender) {
-        UserData storage userData = s_userData[msg.sender];
+    function setVestingTerms(uint256 duration, uint256 forfeitBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (forfeitBps > BPS) revert RGStaking__InvalidVestingTerms();
+
+        s_vestingDuration = duration;
+        s_vestingForfeitBps = forfeitBps;
+
+        emit VestingTermsUpdated(duration, forfeitBps);
+    }
+
+    /**
+     * @dev Grants `role` to `account`. DEFAULT_ADMIN_ROLE administers all roles.
+     */
+    function grantRole(bytes32 role, address account) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        grantRoleTo(role, account);
+    }
+
+    /**
+     * @dev Revokes `role` from `account`. An admin can revoke its own DEFAULT_ADMIN_ROLE, leaving no admin at all.
+     */
+    function revokeRole(bytes32 role, address account) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        revokeRoleFrom(role, account);
+    }
+
+    /**
+     * @dev Gives up a role of the caller, e.g. if the account is compromised.
+     */
+    function renounceRole(bytes32 role) external {
+        revokeRoleFrom(role, msg.sender);
+    }
+
+    /**
+     * @dev Stops purchases and claims, e.g. while a bug is investigated. Redemptions and `emergencyWithdraw` keep
+     * working.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        if (s_paused) revert RGStaking__Paused();
+
+        s_paused = true;
+
+        emit Paused(msg.sender);
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        if (!s_paused) revert RGStaking__NotPaused();
+
+        s_paused = false;
+
+        emit Unpaused(msg.sender);
+    }
+
+    /**
+     * @dev Sends tokens the contract doesn't owe anyone to `to`: tokens beyond the principal of all assets, the
+     * credited and vesting rewards and the reward pool, e.g. sent to the contract by mistake or early-exit penalties paid in a
+     * staking token that isn't the reward token. After a sunset, i.e. while paused with no assets left, nobody can earn
+     * the reward pool anymore and it is withdrawn too.
+     * @param to The address to send the tokens to.
+     */
+    function recoverSurplusRewards(address to) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 surplus = surplusRewards();
+        uint256 stakingSurplus = surplusStakingTokens();
+        uint256 rewardPool = isSunset() ? s_totalRewardPool : 0;
+        if (surplus + stakingSurplus + rewardPool == 0) revert RGStaking__NoSurplus();
+
+        s_totalRewardPool -= rewardPool;
 
+        IERC20 rewardToken = getRewardToken();
+        if (surplus + rewardPool > 0) rewardToken.safeTransfer(to, surplus + rewardPool);
+        if (stakingSurplus > 0) s_rGToken.safeTransfer(to, stakingSurplus);
+
+        if (surplus > 0) emit SurplusRecovered(address(rewardToken), to, surplus);
+        if (stakingSurplus > 0) emit SurplusRecovered(address(s_rGToken), to, stakingSurplus);
+        if (rewardPool > 0) emit RewardPoolWithdrawn(to, rewardPool);
+    }
+
+    /**
+     * @dev Allows users to buy assets by transferring staking tokens to the contract.
+     * @notice The reward pool must be initialized before users can buy assets.
+     * @param amountOfAssets The amount of assets to buy at `assetPrice` each. If the staking token takes a fee on
+     * transfers, only the whole assets paid for by what arrived are bought and the rest is refunded.
+     */
+    function buyAssets(uint256 amountOfAssets) external {
+        _buyAssets(msg.sender, amountOfAssets);
+    }
+
+    /**
+     * @dev Same as `buyAssets`, but approves the asset price with an ERC-2612 permit instead of a separate approval.
+     * A failing permit is ignored, since it may have been front-run: the purchase then relies on the allowance.
+     * @param amountOfAssets The amount of assets to buy.
+     * @param deadline The permit's deadline.
+     * @param v The permit signature's `v`.
+     * @param r The permit signature's `r`.
+     * @param s The permit signature's `s`.
+     */
+    function buyAssetsWithPermit(uint256 amountOfAssets, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+        if (block.timestamp > deadline) revert RGStaking__ExpiredSignature(deadline);
+
+        try
+            IERC20Permit(address(s_rGToken)).permit(
+                msg.sender,
+                address(this),
+                getAssetPriceInTokens(amountOfAssets),
+                deadline,
+                v,
+                r,
+                s
+            )
+        {} catch {} // solhint-disable-line no-empty-blocks
+
+        _buyAssets(msg.sender, amountOfAssets);
+    }
+
+    /**
+     * @dev Buys assets for `user` with a `BuyAssets` intent signed by `user`. The tokens are paid by `user`, who must
+     * have approved them, e.g. with a permit submitted by the relayer.
+     * @param user The address that signed the intent.
+     * @param amountOfAssets The amount of assets to buy.
+     * @param deadline The last timestamp at which the intent can be executed.
+     * @param signature The EIP-712 signature of the intent.
+     */
+    function buyAssetsBySig(address user, uint256 amountOfAssets, uint256 deadline, bytes calldata signature) external {
+        verifyIntent(
+            user,
+            keccak256(abi.encode(BUY_ASSETS_TYPEHASH, user, amountOfAssets, useNonce(user), deadline)),
+            deadline,
+            signature
+        );
+        _buyAssets(user, amountOfAssets);
+    }
+
+    /**
+     * @dev Allows users to redeem assets by transferring staking tokens from the contract to the user.
+     * @param amountOfAssets The amount of assets to redeem at `assetPrice` each.
+     */
+    function redeemAssets(uint256 amountOfAssets) external {
+        _redeemAssets(msg.sender, amountOfAssets);
+    }
+
+    /**
+     * @dev Redeems assets of `user` with a `RedeemAssets` intent signed by `user`. The tokens are sent to `user`.
+     * @param user The address that signed the intent.
+     * @param amountOfAssets The amount of assets to redeem.
+     * @param deadline The last timestamp at which the intent can be executed.
+     * @param signature The EIP-712 signature of the intent.
+     */
+    function redeemAssetsBySig(
+        address user,
+        uint256 amountOfAssets,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        verifyIntent(
+            user,
+            keccak256(abi.encode(REDEEM_ASSETS_TYPEHASH, user, amountOfAssets, useNonce(user), deadline)),
+            deadline,
+            signature
+        );
+        _redeemAssets(user, amountOfAssets);
+    }
+
+    /**
+     * @dev Locks assets the caller owns and hasn't locked yet into a new position of the given tier.
+     * @param amountOfAssets The amount of assets to lock.
+     * @param tierId The lock tier.
+     */
+    function lockAssets(uint256 amountOfAssets, uint256 tierId) external updateRewards(msg.sender) {
         if (amountOfAssets == 0) revert RGStaking__ZeroAmountNotAllowed();
-        if (userData.assets < amountOfAssets) revert RGStaking__InsufficientAssets(userData.assets, amountOfAssets);
+        if (tierId >= s_lockTiers.length || s_lockTiers[tierId].duration == 0) {
+            revert RGStaking__LockTierUnavailable(tierId);
+        }
+
+        uint256 unlockedAssets = s_userData[msg.sender].assets - s_lockedAssets[msg.sender];
+        if (unlockedAssets < amountOfAssets) revert RGStaking__InsufficientAssets(unlockedAssets, amountOfAssets);
+
+        LockedPosition[] storage positions = s_lockedPositions[msg.sender];
+        if (positions.length == MAX_LOCKED_POSITIONS) revert RGStaking__TooManyLockedPositions();
+
+        LockTier memory tier = s_lockTiers[tierId];
+        uint256 unlockTime = block.timestamp + tier.duration;
+        positions.push(
+            LockedPosition(
+                amountOfAssets,
+                tierId,
+                unlockTime,
+                tier.multiplierBps,
+                tier.earlyExitPenaltyBps,
+                tier.earlyExitAllowed
+            )
+        );
+        s_lockedAssets[msg.sender] += amountOfAssets;
+
+        emit AssetsLocked(msg.sender, amountOfAssets, tierId, unlockTime);
+    }
+
+    /**
+     * @dev Redeems all the assets of a locked position. Before the unlock time this reverts unless the tier allowed
+     * early exits, in which case the penalty is kept. It is added to the reward pool if the staking token is the reward
+     * token and can be recovered as surplus otherwise.
+     * The last position takes the place of the redeemed one, so position ids can change.
+     * @param positionId The index of the position in `lockedPositions`.
+     */
+    function redeemLockedAssets(uint256 positionId) external updateRewards(msg.sender) {
+        LockedPosition[] storage positions = s_lockedPositions[msg.sender];
+        if (positionId >= positions.length) revert RGStaking__UnknownPosition(positionId);
 
-        userData.assets -= amountOfAssets;
+        LockedPosition memory position = positions[positionId];
+        uint256 price = getAssetPriceInTokens(position.assets);
+        uint256 penalty;
+        if (block.timestamp < position.unlockTime) {
+            if (!position.earlyExitAllowed) revert RGStaking__PositionLocked(position.unlockTime);
+            penalty = (price * position.earlyExitPenaltyBps) / BPS;
+        }
 
-        i_rGToken.transfer(msg.sender, getAssetPriceInTokens(amountOfAssets));
+        positions[positionId] = positions[positions.length - 1];
+        positions.pop();
+        s_lockedAssets[msg.sender] -= position.assets;
+        removeAssets(msg.sender, position.assets);
+        if (isRewardTokenStaked()) s_totalRewardPool += penalty;
 
-        emit AssetsRedeemed(msg.sender, amountOfAssets);
+        s_rGToken.safeTransfer(msg.sender, price - penalty);
+
+        emit AssetsRedeemed(msg.sender, position.assets);
+        if (penalty > 0) emit EarlyExitPenaltyPaid(msg.sender, penalty);
     }
 
     /**
-     * @dev Allows users to withdraw their earned rewards in RGT tokens.
+     * @dev Returns the principal of the caller's assets without settling rewards, in case the reward accounting
+     * reverts. Rewards credited so far go back to the reward pool and rewards since the last update are forfeited.
+     * Locked positions are only released while the contract is paused, and then without early-exit penalties.
      */
-    function claimRewards() external updateRewards(msg.sender) {
+    function emergencyWithdraw() external {
         UserData storage userData = s_userData[msg.sender];
-        uint256 rewards = userData.rewards;
+        uint256 assets = userData.assets;
+        uint256 forfeitedRewards = userData.rewards;
 
-        if (rewards == 0) revert RGStaking__NoRewardsForSender();
+        if (s_paused) {
+            delete s_lockedPositions[msg.sender];
+            s_lockedAssets[msg.sender] = 0;
+        } else {
+            assets -= s_lockedAssets[msg.sender];
+        }
+        if (assets == 0) revert RGStaking__ZeroAmountNotAllowed();
 
+        removeAssets(msg.sender, assets);
         userData.rewards = 0;
+        userData.lastUpdateTime = block.timestamp;
+        s_totalCreditedRewards = decreaseTotal(s_totalCreditedRewards, forfeitedRewards, TOTALS_VERSION);
+        s_totalRewardPool += forfeitedRewards;
+
+        s_rGToken.safeTransfer(msg.sender, getAssetPriceInTokens(assets));
+
+        emit EmergencyWithdrawn(msg.sender, assets, forfeitedRewards);
+    }
+
+    /**
+     * @dev Allows users to withdraw their earned rewards in RGT tokens. While vesting is on, the rewards are added to
+     * the user's vesting schedule instead, see `withdrawVestedRewards`.
+     */
+    function claimRewards() external {
+        _claimRewards(msg.sender);
+    }
+
+    /**
+     * @dev Claims the rewards of `user` with a `ClaimRewards` intent signed by `user`. The rewards are sent to `user`.
+     * @param user The address that signed the intent.
+     * @param deadline The last timestamp at which the intent can be executed.
+     * @param signature The EIP-712 signature of the intent.
+     */
+    function claimRewardsBySig(address user, uint256 deadline, bytes calldata signature) external {
+        verifyIntent(
+            user,
+            keccak256(abi.encode(CLAIM_REWARDS_TYPEHASH, user, useNonce(user), deadline)),
+            deadline,
+            signature
+        );
+        _claimRewards(user);
+    }
+
+    /**
+     * @dev Sends the caller the rewards of its vesting schedule that have vested.
+     */
+    function withdrawVestedRewards() external whenNotPaused {
+        VestingSchedule storage schedule = updateVesting(msg.sender);
+        uint256 vested = schedule.vested;
 
-        i_rGToken.transfer(msg.sender, rewards);
+        if (vested == 0) revert RGStaking__NoRewardsForSender();
 
-        emit RewardsClaimed(msg.sender, rewards);
+        schedule.vested = 0;
+        s_totalVestingRewards -= vested;
+
+        getRewardToken().safeTransfer(msg.sender, vested);
+
+        emit VestedRewardsWithdrawn(msg.sender, vested);
+    }
+
+    /**
+     * @dev Sends the caller rewards of its vesting schedule that haven't vested yet, minus `vestingForfeitBps` of them
+     * which go back to the reward pool. The rest of the schedule keeps vesting until the same end time.
+     * @param amount The locked rewards to release, forfeit included. type(uint256).max releases all of them, since they
+     * keep vesting until the transaction is mined.
+     */
+    function accelerateVesting(uint256 amount) external whenNotPaused {
+        VestingSchedule storage schedule = updateVesting(msg.sender);
+        if (amount == type(uint256).max) amount = schedule.locked;
+
+        if (amount == 0) revert RGStaking__ZeroAmountNotAllowed();
+        if (schedule.locked < amount) revert RGStaking__InsufficientVestingRewards(schedule.locked, amount);
+
+        uint256 forfeited = (amount * s_vestingForfeitBps) / BPS;
+        schedule.locked -= amount;
+        s_totalVestingRewards -= amount;
+        s_totalRewardPool += forfeited;
+
+        getRewardToken().safeTransfer(msg.sender, amount - forfeited);
+
+        emit VestedRewardsWithdrawn(msg.sender, amount - forfeited);
+        if (forfeited > 0) emit VestingRewardsForfeited(msg.sender, forfeited);
+    }
+
+    /**
+     * @dev Turns the caller's rewards into as many whole assets as they pay for at `assetPrice`, without moving any
+     * tokens. What is left below the asset price stays claimable. Only possible if the staking token is the reward
+     * token, and not while vesting is on, as the assets could be redeemed right away.
+     */
+    function compoundRewards() external whenNotPaused updateRewards(msg.sender) {
+        if (!isRewardTokenStaked()) revert RGStaking__CompoundingUnavailable();
+        if (s_vestingDuration > 0) revert RGStaking__CompoundingWhileVesting();
+
+        uint256 rewards = s_userData[msg.sender].rewards;
+        uint256 price = getAssetPriceInTokens(1);
+        if (rewards < price) revert RGStaking__InsufficientRewards(rewards, price);
+
+        compound(msg.sender, price);
+    }
+
+    /**
+     * @dev Opts the caller in or out of having its rewards compounded by anyone with `compoundRewardsFor`.
+     * @param enabled Whether to opt in.
+     */
+    function setAutoCompound(bool enabled) external {
+        s_autoCompound[msg.sender] = enabled;
+
+        emit AutoCompoundSet(msg.sender, enabled);
+    }
+
+    /**
+     * @dev Compounds the rewards of the accounts that opted in with `setAutoCompound`. Anyone can call it, e.g. a
+     * keeper, since compounding only turns an account's rewards into its own assets. Accounts that didn't opt in or
+     * can't afford an asset with their rewards are skipped, so a single account can't make the batch revert. Not
+     * possible while vesting is on, like `compoundRewards`.
+     * @param accounts The accounts to compound, at most 100.
+     * @return compounded The number of accounts whose rewards were compounded.
+     */
+    function compoundRewardsFor(address[] calldata accounts) external whenNotPaused returns (uint256 compounded) {
+        if (accounts.length > MAX_COMPOUND_BATCH) revert RGStaking__BatchTooLarge(accounts.length, MAX_COMPOUND_BATCH);
+        if (!isRewardTokenStaked()) revert RGStaking__CompoundingUnavailable();
+        if (s_vestingDuration > 0) revert RGStaking__CompoundingWhileVesting();
+
+        uint256 price = getAssetPriceInTokens(1);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            address account = accounts[i];
+            if (!s_autoCompound[account]) continue;
+
+            settleRewards(account);
+            if (s_userData[account].rewards < price) continue;
+
+            compound(account, price);
+            compounded++;
+        }
     }
 
+    /**
+     * @dev Returns the staking token. Kept from when RGT was both the staking and the reward token.
+     */
     function rGTokenAddress() external view returns (address) {
-        return address(i_rGToken);
+        return address(s_rGToken);
+    }
+
+    function stakingTokenAddress() external view returns (address) {
+        return address(s_rGToken);
+    }
+
+    function rewardTokenAddress() external view returns (address) {
+        return address(getRewardToken());
+    }
+
+    /**
+     * @dev Returns the price of one asset in staking token wei.
+     */
+    function assetPrice() external view returns (uint256) {
+        return getAssetPriceInTokens(1);
     }
 
     function isRewardPoolInitialized() external view returns (bool) {
@@ -203,11 +1021,386 @@ contract RGStaking {
         return s_totalRewardPool;
     }
 
+    function totalAssetsStaked() external view returns (uint256) {
+        return s_totalAssets;
+    }
+
+    function totalCreditedRewards() external view returns (uint256) {
+        return s_totalCreditedRewards;
+    }
+
+    function activeStakers() external view returns (uint256) {
+        return s_activeStakers;
+    }
+
+    /**
+     * @dev Returns the stored data of each account. `rewards` only holds the rewards credited at `lastUpdateTime`, see
+     * `currentRewardsClaimable` for the rewards accrued since.
+     */
+    function userDataOf(address[] calldata accounts) external view returns (UserData[] memory data) {
+        data = new UserData[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            data[i] = s_userData[accounts[i]];
+        }
+    }
+
+    /**
+     * @dev Returns when the reward pool runs dry if the assets staked now keep earning the current rate, or
+     * type(uint256).max if nothing earns rewards. Lock boosts and the rewards accrued since each account's last update,
+     * which are only taken from the pool when they are credited, are left out, so the pool runs dry no later than this.
+     */
+    function projectedDepletionTime() external view returns (uint256) {
+        uint256 dailyEmission = s_totalAssets * s_rateCheckpoints[s_rateCheckpoints.length - 1].dailyRewardsPerAsset;
+        if (dailyEmission == 0) return type(uint256).max;
+
+        return block.timestamp + (s_totalRewardPool * 1 days) / dailyEmission;
+    }
+
+    function dailyRewardsPerAsset() external view returns (uint256) {
+        return s_rateCheckpoints[s_rateCheckpoints.length - 1].dailyRewardsPerAsset;
+    }
+
+    function lockedAssetBalance(address account) external view returns (uint256) {
+        return s_lockedAssets[account];
+    }
+
+    function lockedPositions(address account) external view returns (LockedPosition[] memory) {
+        return s_lockedPositions[account];
+    }
+
+    function lockTiers() external view returns (LockTier[] memory) {
+        return s_lockTiers;
+    }
+
+    /**
+     * @dev Returns the assets compounding the rewards of `account` would buy now. Always zero if the staking token
+     * isn't the reward token.
+     */
+    function compoundableAssets(address account) external view returns (uint256) {
+        if (!isRewardTokenStaked()) return 0;
+
+        return (s_userData[account].rewards + calculateAdditionalRewards(account)) / getAssetPriceInTokens(1);
+    }
+
+    function isAutoCompounding(address account) external view returns (bool) {
+        return s_autoCompound[account];
+    }
+
+    function vestingDuration() external view returns (uint256) {
+        return s_vestingDuration;
+    }
+
+    function vestingForfeitBps() external view returns (uint256) {
+        return s_vestingForfeitBps;
+    }
+
+    function totalVestingRewards() external view returns (uint256) {
+        return s_totalVestingRewards;
+    }
+
+    /**
+     * @dev Returns the stored vesting schedule of `account`. Its `vested` and `locked` are as of `startTime`, see
+     * `vestedRewards` and `lockedVestingRewards` for the current ones.
+     */
+    function vestingSchedule(address account) external view returns (VestingSchedule memory) {
+        return s_vestingSchedules[account];
+    }
+
+    /**
+     * @dev Returns the rewards of the vesting schedule of `account` that have vested and can be withdrawn.
+     */
+    function vestedRewards(address account) external view returns (uint256) {
+        VestingSchedule memory schedule = s_vestingSchedules[account];
+        return schedule.vested + calculateNewlyVested(schedule);
+    }
+
+    /**
+     * @dev Returns the rewards of the vesting schedule of `account` that haven't vested yet.
+     */
+    function lockedVestingRewards(address account) external view returns (uint256) {
+        VestingSchedule memory schedule = s_vestingSchedules[account];
+        return schedule.locked - calculateNewlyVested(schedule);
+    }
+
+    function hasRole(bytes32 role, address account) external view returns (bool) {
+        return s_roles[role][account];
+    }
+
+    function paused() external view returns (bool) {
+        return s_paused;
+    }
+
+    /**
+     * @dev Returns the reward tokens `recoverSurplusRewards` would send, including the reward pool after a sunset.
+     */
+    function recoverableRewards() external view returns (uint256) {
+        return surplusRewards() + (isSunset() ? s_totalRewardPool : 0);
+    }
+
+    /**
+     * @dev Returns the staking tokens `recoverSurplusRewards` would send. Always zero if they are the reward token.
+     */
+    function recoverableStakingTokens() external view returns (uint256) {
+        return surplusStakingTokens();
+    }
+
+    function nonces(address user) external view returns (uint256) {
+        return s_nonces[user];
+    }
+
+    function domainSeparator() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    function _buyAssets(address user, uint256 amountOfAssets) private whenNotPaused updateRewards(user) {
+        if (!s_rewardPoolInitialized) revert RGStaking__Uninitialized();
+        if (amountOfAssets == 0) revert RGStaking__ZeroAmountNotAllowed();
+
+        uint256 price = getAssetPriceInTokens(1);
+        uint256 received = pullTokens(s_rGToken, user, amountOfAssets * price);
+        uint256 assetsBought = received / price;
+        if (assetsBought == 0) revert RGStaking__InsufficientTokensReceived(received, price);
+
+        addAssets(user, assetsBought);
+
+        // What fees left of a started asset goes back to the user
+        uint256 change = received - assetsBought * price;
+        if (change > 0) s_rGToken.safeTransfer(user, change);
+
+        emit AssetsBought(user, assetsBought);
+    }
+
+    function _redeemAssets(address user, uint256 amountOfAssets) private updateRewards(user) {
+        UserData storage userData = s_userData[user];
+        uint256 unlockedAssets = userData.assets - s_lockedAssets[user];
+
+        if (amountOfAssets == 0) revert RGStaking__ZeroAmountNotAllowed();
+        if (unlockedAssets < amountOfAssets) revert RGStaking__InsufficientAssets(unlockedAssets, amountOfAssets);
+
+        removeAssets(user, amountOfAssets);
+
+        s_rGToken.safeTransfer(user, getAssetPriceInTokens(amountOfAssets));
+
+        emit AssetsRedeemed(user, amountOfAssets);
+    }
+
+    function _claimRewards(address user) private whenNotPaused updateRewards(user) {
+        UserData storage userData = s_userData[user];
+        uint256 rewards = userData.rewards;
+
+        if (rewards == 0) revert RGStaking__NoRewardsForSender();
+
+        userData.rewards = 0;
+        s_totalCreditedRewards = decreaseTotal(s_totalCreditedRewards, rewards, TOTALS_VERSION);
+
+        if (s_vestingDuration == 0) {
+            getRewardToken().safeTransfer(user, rewards);
+        } else {
+            startVesting(user, rewards);
+        }
+
+        emit RewardsClaimed(user, rewards);
+    }
+
+    /**
+     * @dev Credits the rewards `account` earned since its last update, taking them from the reward pool.
+     */
+    function settleRewards(address account) private {
+        uint256 additionalRewards = calculateAdditionalRewards(account);
+
+        UserData storage userData = s_userData[account];
+        userData.lastUpdateTime = block.timestamp;
+        userData.rewards += additionalRewards;
+        s_totalRewardPool -= additionalRewards;
+        s_totalCreditedRewards = increaseTotal(s_totalCreditedRewards, additionalRewards, TOTALS_VERSION);
+    }
+
+    /**
+     * @dev Buys `user` the whole assets its credited rewards pay for at `price` each. The reward tokens stay in the
+     * contract as the principal of the assets.
+     */
+    function compound(address user, uint256 price) private {
+        UserData storage userData = s_userData[user];
+        uint256 assetsBought = userData.rewards / price;
+        uint256 rewardsCompounded = assetsBought * price;
+
+        userData.rewards -= rewardsCompounded;
+        s_totalCreditedRewards = decreaseTotal(s_totalCreditedRewards, rewardsCompounded, TOTALS_VERSION);
+        addAssets(user, assetsBought);
+
+        emit RewardsCompounded(user, rewardsCompounded, assetsBought);
+    }
+
+    /**
+     * @dev Adds `rewards` to the vesting schedule of `user`, vesting over `vestingDuration`. Rewards already locked in
+     * the schedule don't start over: it ends at the average of their end time and the new one, weighted by amount.
+     */
+    function startVesting(address user, uint256 rewards) private {
+        VestingSchedule storage schedule = updateVesting(user);
+        uint256 duration = s_vestingDuration;
+        if (schedule.locked > 0) {
+            duration =
+                (schedule.locked * (schedule.endTime - block.timestamp) + rewards * duration) /
+                (schedule.locked + rewards);
+        }
+
+        schedule.locked += rewards;
+        schedule.endTime = block.timestamp + duration;
+        s_totalVestingRewards += rewards;
+
+        emit VestingStarted(user, rewards, schedule.endTime);
+    }
+
+    /**
+     * @dev Moves the rewards of the vesting schedule of `account` that vested since its start time to `vested`.
+     */
+    function updateVesting(address account) private returns (VestingSchedule storage schedule) {
+        schedule = s_vestingSchedules[account];
+        uint256 newlyVested = calculateNewlyVested(schedule);
+
+        schedule.vested += newlyVested;
+        schedule.locked -= newlyVested;
+        schedule.startTime = block.timestamp;
+    }
+
+    /**
+     * @dev Returns the locked rewards of `schedule` that vested between its start time and now.
+     */
+    function calculateNewlyVested(VestingSchedule memory schedule) private view returns (uint256) {
+        if (block.timestamp >= schedule.endTime) return schedule.locked;
+
+        return (schedule.locked * (block.timestamp - schedule.startTime)) / (schedule.endTime - schedule.startTime);
+    }
+
+    /**
+     * @dev Gives `account` assets, counting it as a staker if it had none.
+     */
+    function addAssets(address account, uint256 assets) private {
+        UserData storage userData = s_userData[account];
+        if (userData.assets == 0) s_activeStakers = increaseTotal(s_activeStakers, 1, STAKER_COUNT_VERSION);
+
+        userData.assets += assets;
+        s_totalAssets = increaseTotal(s_totalAssets, assets, TOTALS_VERSION);
+    }
+
+    /**
+     * @dev Takes assets from `account`, no longer counting it as a staker if it has none left.
+     */
+    function removeAssets(address account, uint256 assets) private {
+        UserData storage userData = s_userData[account];
+        userData.assets -= assets;
+        s_totalAssets = decreaseTotal(s_totalAssets, assets, TOTALS_VERSION);
+
+        if (userData.assets == 0) s_activeStakers = decreaseTotal(s_activeStakers, 1, STAKER_COUNT_VERSION);
+    }
+
+    /**
+     * @dev Returns `total` plus `amount`. Totals that the migration of `version` completes wrap around instead of
+     * reverting until it ran, as they only count the changes since the upgrade, which may be negative.
+     */
+    function increaseTotal(uint256 total, uint256 amount, uint8 version) private view returns (uint256) {
+        if (_getInitializedVersion() >= version) return total + amount;
+        unchecked {
+            return total + amount;
+        }
+    }
+
+    /**
+     * @dev Returns `total` minus `amount`, wrapping around like `increaseTotal` until the migration of `version` ran.
+     */
+    function decreaseTotal(uint256 total, uint256 amount, uint8 version) private view returns (uint256) {
+        if (_getInitializedVersion() >= version) return total - amount;
+        unchecked {
+            return total - amount;
+        }
+    }
+
+    function grantRoleTo(bytes32 role, address account) private {
+        if (s_roles[role][account]) return;
+
+        s_roles[role][account] = true;
+
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function revokeRoleFrom(bytes32 role, address account) private {
+        if (!s_roles[role][account]) return;
+
+        s_roles[role][account] = false;
+
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    /**
+     * @dev Returns the reward tokens beyond the credited and vesting rewards, the reward pool and, if they are also
+     * staked, the principal of all assets.
+     */
+    function surplusRewards() private view returns (uint256) {
+        uint256 owed = s_totalCreditedRewards + s_totalVestingRewards + s_totalRewardPool;
+        if (isRewardTokenStaked()) owed += getAssetPriceInTokens(s_totalAssets);
+        uint256 balance = getRewardToken().balanceOf(address(this));
+
+        return balance > owed ? balance - owed : 0;
+    }
+
+    /**
+     * @dev Returns the staking tokens beyond the principal of all assets, if they aren't the reward token.
+     */
+    function surplusStakingTokens() private view returns (uint256) {
+        if (isRewardTokenStaked()) return 0;
+
+        uint256 principal = getAssetPriceInTokens(s_totalAssets);
+        uint256 balance = s_rGToken.balanceOf(address(this));
+
+        return balance > principal ? balance - principal : 0;
+    }
+
+    // Nobody can earn the funded reward pool anymore while purchases are paused and no assets are left
+    function isSunset() private view returns (bool) {
+        return s_rewardPoolInitialized && s_paused && s_totalAssets == 0;
+    }
+
+    /**
+     * @dev Consumes and returns the current nonce of `user`, so that each signed intent can only be executed once.
+     */
+    function useNonce(address user) private returns (uint256) {
+        return s_nonces[user]++;
+    }
+
+    /**
+     * @dev Reverts unless the intent with the given struct hash was signed by `user` and hasn't expired.
+     */
+    function verifyIntent(address user, bytes32 structHash, uint256 deadline, bytes calldata signature) private view {
+        if (block.timestamp > deadline) revert RGStaking__ExpiredSignature(deadline);
+
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(_hashTypedDataV4(structHash), signature);
+        if (error != ECDSA.RecoverError.NoError || signer != user) revert RGStaking__InvalidSignature();
+    }
+
+    /**
+     * @dev Transfers `amount` of `token` from `from` to the contract and returns how much arrived, which is less for
+     * tokens that take a fee on transfers.
+     */
+    function pullTokens(IERC20 token, address from, uint256 amount) private returns (uint256) {
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(from, address(this), amount);
+
+        return token.balanceOf(address(this)) - balanceBefore;
+    }
+
+    function getRewardToken() private view returns (IERC20) {
+        return address(s_rewardToken) == address(0) ? s_rGToken : s_rewardToken;
+    }
+
+    function isRewardTokenStaked() private view returns (bool) {
+        return address(getRewardToken()) == address(s_rGToken);
+    }
+
     /**
-     * @dev Get the price of a certain number of assets in RGT tokens.
+     * @dev Get the price of a certain number of assets in staking tokens.
      * @param amountOfAssets The amount of assets for which you want the price.
      */
-    function getAssetPriceInTokens(uint256 amountOfAssets) private pure returns (uint256) {
-        return amountOfAssets * TOKENS_PER_ASSET;
+    function getAssetPriceInTokens(uint256 amountOfAssets) private view returns (uint256) {
+        return amountOfAssets * (s_assetPrice == 0 ? TOKENS_PER_ASSET : s_assetPrice);
     }
 }
@@ -0,0 +1,265 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.7;
+
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+error RGStakingAccumulator__InsufficientAssets(uint256 availableAssets, uint256 requestedAssets);
+error RGStakingAccumulator__InvalidEmissionSchedule();
+error RGStakingAccumulator__NoRewardsForSender();
+error RGStakingAccumulator__ZeroAmountNotAllowed();
+
+/**
+ * @title RGStakingAccumulator
+ * @author Solomon Botchway @snnbotchway
+ * @dev Staking of RGStaking assets with accumulator ("reward per asset stored") accounting.
+ * RGStaking pays a fixed rate per asset and clamps rewards to what is left in the pool, so once the pool runs low the
+ * first account to update takes the remainder. Here the owner funds an emission schedule instead: rewards are emitted
+ * at a constant rate until the schedule ends and every second's emission is split between all assets staked at the
+ * time. The pool can't run out before the schedule ends, and stakers share it pro-rata.
+ * It is deployed behind a transparent proxy, so state variables must only ever be appended.
+ */
+contract RGStakingAccumulator is Initializable, OwnableUpgradeable {
+    using SafeERC20 for IERC20;
+
+    IERC20 private s_rGToken;
+
+    struct UserData {
+        uint256 assets;
+        uint256 rewards;
+        // `s_rewardPerAssetStored` when the rewards of the account were last updated
+        uint256 rewardPerAssetPaid;
+    }
+    mapping(address => UserData) private s_userData;
+
+    uint256 private s_totalAssets;
+
+    // RGT wei emitted per second until `s_emissionEnd`
+    uint256 private s_emissionRate;
+    uint256 private s_emissionEnd;
+
+    // Rewards emitted per asset since deployment, scaled by REWARD_PER_ASSET_PRECISION
+    uint256 private s_rewardPerAssetStored;
+    uint256 private s_lastUpdateTime;
+
+    // Funded rewards that aren't part of the current schedule, e.g. emitted while nothing was staked
+    uint256 private s_unallocatedRewards;
+
+    uint256 private constant ONE_TOKEN = 1e18;
+    uint256 private constant TOKENS_PER_ASSET = ONE_TOKEN * 10;
+    uint256 private constant REWARD_PER_ASSET_PRECISION = 1e18;
+
+    /**
+     * @dev Emitted when the owner funds and starts a new emission schedule.
+     * @param sender The address that funded the schedule.
+     * @param amount The amount of RGT tokens added.
+     * @param emissionRate The RGT wei emitted per second until `emissionEnd`, including rolled over rewards.
+     * @param emissionEnd The timestamp at which the emission ends.
+     */
+    event EmissionScheduled(address indexed sender, uint256 amount, uint256 emissionRate, uint256 emissionEnd);
+
+    /**
+     * @dev Emitted when a user buys assets.
+     * @param user The address of the user who bought assets.
+     * @param assetsBought The amount of assets bought.
+     */
+    event AssetsBought(address indexed user, uint256 assetsBought);
+
+    /**
+     * @dev Emitted when a user redeems assets.
+     * @param user The address of the user who redeemed assets.
+     * @param assetsRedeemed The amount of assets redeemed.
+     */
+    event AssetsRedeemed(address indexed user, uint256 assetsRedeemed);
+
+    /**
+     * @dev Emitted when a user withdraws rewards.
+     * @param user The address of the user who withdrew rewards.
+     * @param rewardWithdrawn The amount of rewards withdrawn.
+     */
+    event RewardsClaimed(address indexed user, uint256 rewardWithdrawn);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializes the proxy's storage. Called once by the proxy on deployment.
+     * @param _rGTokenAddress The address of the deployed RGToken.
+     * @param _owner The address allowed to fund emission schedules.
+     */
+    function initialize(address _rGTokenAddress, address _owner) external initializer {
+        __Ownable_init();
+        _transferOwnership(_owner);
+
+        s_rGToken = IERC20(_rGTokenAddress);
+    }
+
+    /**
+     * @dev Modifier to update the reward per asset, and the rewards of the specified account unless it is the zero
+     * address, before function execution.
+     * @param account The address of the account for which to update rewards.
+     */
+    modifier updateRewards(address account) {
+        (s_rewardPerAssetStored, s_unallocatedRewards) = calculateRewardPerAsset();
+        s_lastUpdateTime = lastTimeRewardApplicable();
+
+        if (account != address(0)) {
+            UserData storage userData = s_userData[account];
+            userData.rewards = calculateRewards(userData, s_rewardPerAssetStored);
+            userData.rewardPerAssetPaid = s_rewardPerAssetStored;
+        }
+        _;
+    }
+
+    /**
+     * @dev Funds a new emission schedule that emits `amount` plus the rewards not emitted yet evenly over `duration`.
+     * A schedule that is still running is replaced, its remaining rewards roll over into the new one.
+     * @param amount The amount of RGT tokens to add, approved beforehand. May be zero to only reschedule.
+     * @param duration The duration of the emission in seconds.
+     */
+    function startEmission(uint256 amount, uint256 duration) external onlyOwner updateRewards(address(0)) {
+        if (duration == 0) revert RGStakingAccumulator__InvalidEmissionSchedule();
+
+        s_rGToken.safeTransferFrom(msg.sender, address(this), amount);
+
+        uint256 rewardsToEmit = amount + remainingScheduledRewards() + s_unallocatedRewards;
+        uint256 newEmissionRate = rewardsToEmit / duration;
+        if (newEmissionRate == 0) revert RGStakingAccumulator__InvalidEmissionSchedule();
+
+        s_emissionRate = newEmissionRate;
+        s_emissionEnd = block.timestamp + duration;
+        s_lastUpdateTime = block.timestamp;
+        // The rounding remainder is kept for the next schedule
+        s_unallocatedRewards = rewardsToEmit - newEmissionRate * duration;
+
+        emit EmissionScheduled(msg.sender, amount, newEmissionRate, s_emissionEnd);
+    }
+
+    /**
+     * @dev Allows users to buy assets by transferring RGT tokens to the contract.
+     * @param amountOfAssets The amount of assets to buy.
+     */
+    function buyAssets(uint256 amountOfAssets) external updateRewards(msg.sender) {
+        if (amountOfAssets == 0) revert RGStakingAccumulator__ZeroAmountNotAllowed();
+
+        s_rGToken.safeTransferFrom(msg.sender, address(this), getAssetPriceInTokens(amountOfAssets));
+
+        s_userData[msg.sender].assets += amountOfAssets;
+        s_totalAssets += amountOfAssets;
+
+        emit AssetsBought(msg.sender, amountOfAssets);
+    }
+
+    /**
+     * @dev Allows users to redeem assets for RGT tokens.
+     * @param amountOfAssets The amount of assets to redeem.
+     */
+    function redeemAssets(uint256 amountOfAssets) external updateRewards(msg.sender) {
+        UserData storage userData = s_userData[msg.sender];
+
+        if (amountOfAssets == 0) revert RGStakingAccumulator__ZeroAmountNotAllowed();
+        if (userData.assets < amountOfAssets) {
+            revert RGStakingAccumulator__InsufficientAssets(userData.assets, amountOfAssets);
+        }
+
+        userData.assets -= amountOfAssets;
+        s_totalAssets -= amountOfAssets;
+
+        s_rGToken.safeTransfer(msg.sender, getAssetPriceInTokens(amountOfAssets));
+
+        emit AssetsRedeemed(msg.sender, amountOfAssets);
+    }
+
+    /**
+     * @dev Allows users to withdraw their earned rewards in RGT tokens.
+     */
+    function claimRewards() external updateRewards(msg.sender) {
+        UserData storage userData = s_userData[msg.sender];
+        uint256 rewards = userData.rewards;
+
+        if (rewards == 0) revert RGStakingAccumulator__NoRewardsForSender();
+
+        userData.rewards = 0;
+
+        s_rGToken.safeTransfer(msg.sender, rewards);
+
+        emit RewardsClaimed(msg.sender, rewards);
+    }
+
+    function rGTokenAddress() external view returns (address) {
+        return address(s_rGToken);
+    }
+
+    function currentRewardsClaimable(address account) external view returns (uint256) {
+        (uint256 rewardPerAsset, ) = calculateRewardPerAsset();
+        return calculateRewards(s_userData[account], rewardPerAsset);
+    }
+
+    function assetBalance(address account) external view returns (uint256) {
+        return s_userData[account].assets;
+    }
+
+    function totalAssets() external view returns (uint256) {
+        return s_totalAssets;
+    }
+
+    /**
+     * @dev Returns the funded rewards that haven't been emitted to stakers yet.
+     */
+    function totalRewardPool() external view returns (uint256) {
+        (, uint256 unallocatedRewards) = calculateRewardPerAsset();
+        return remainingScheduledRewards() + unallocatedRewards;
+    }
+
+    function rewardPerAsset() external view returns (uint256) {
+        (uint256 rewardPerAssetStored, ) = calculateRewardPerAsset();
+        return rewardPerAssetStored;
+    }
+
+    function emissionRate() external view returns (uint256) {
+        return s_emissionRate;
+    }
+
+    function emissionEnd() external view returns (uint256) {
+        return s_emissionEnd;
+    }
+
+    /**
+     * @dev Returns the reward per asset and the unallocated rewards after the emission since the last update.
+     * The emission is split between the staked assets. While nothing is staked it stays unallocated and rolls over
+     * into the next schedule.
+     */
+    function calculateRewardPerAsset() private view returns (uint256, uint256) {
+        uint256 lastTime = lastTimeRewardApplicable();
+        if (lastTime <= s_lastUpdateTime) return (s_rewardPerAssetStored, s_unallocatedRewards);
+
+        uint256 emitted = (lastTime - s_lastUpdateTime) * s_emissionRate;
+        if (s_totalAssets == 0) return (s_rewardPerAssetStored, s_unallocatedRewards + emitted);
+
+        return (s_rewardPerAssetStored + (emitted * REWARD_PER_ASSET_PRECISION) / s_totalAssets, s_unallocatedRewards);
+    }
+
+    function calculateRewards(UserData memory userData, uint256 rewardPerAssetStored) private pure returns (uint256) {
+        return
+            userData.rewards +
+            (userData.assets * (rewardPerAssetStored - userData.rewardPerAssetPaid)) /
+            REWARD_PER_ASSET_PRECISION;
+    }
+
+    function lastTimeRewardApplicable() private view returns (uint256) {
+        return block.timestamp < s_emissionEnd ? block.timestamp : s_emissionEnd;
+    }
+
+    // Rewards of the current schedule that haven't been emitted yet
+    function remainingScheduledRewards() private view returns (uint256) {
+        return block.timestamp < s_emissionEnd ? (s_emissionEnd - block.timestamp) * s_emissionRate : 0;
+    }
+
+    function getAssetPriceInTokens(uint256 amountOfAssets) private pure returns (uint256) {
+        return amountOfAssets * TOKENS_PER_ASSET;
+    }
+}
@@ -1,14 +1,122 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.7;
 
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+import {ERC20Votes} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+
+error RGToken__CapExceeded(uint256 mintable, uint256 requested);
+error RGToken__InvalidCap(uint256 cap);
+error RGToken__InvalidInitialDistribution();
+error RGToken__ZeroAmountNotAllowed();
 
 /**
  * @title RGToken
- * @dev A basic ERC20 token for Really Great Token (RGT).
+ * @author Solomon Botchway @snnbotchway
+ * @dev The Really Great Token (RGT). Supports ERC-2612 permits, so approvals can be signed off-chain instead of sent as
+ * a separate transaction.
+ * The total supply never exceeds the cap set at deployment. Accounts with MINTER_ROLE can mint up to it and accounts
+ * with BURNER_ROLE can burn their own tokens, or other accounts' tokens they were approved to spend, which makes room
+ * under the cap again. DEFAULT_ADMIN_ROLE manages the roles.
+ * Balances are checkpointed per block for governance (ERC20Votes): an account's tokens only count as votes once it
+ * delegates them, to itself or to another account.
  */
-contract RGToken is ERC20 {
-    constructor(uint256 initialSupply) ERC20("Really Great Token", "RGT") {
-        _mint(msg.sender, initialSupply);
+contract RGToken is ERC20, ERC20Permit, ERC20Votes, AccessControl {
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+
+    uint256 private immutable i_cap;
+
+    /**
+     * @param _cap The maximum total supply, at most what ERC20Votes can checkpoint (2^224 - 1).
+     * @param _admin The address granted DEFAULT_ADMIN_ROLE.
+     * @param _minter The address granted MINTER_ROLE and BURNER_ROLE.
+     * @param _recipients The addresses the initial supply is minted to.
+     * @param _amounts The amount minted to each of `_recipients`, which must not add up to more than `_cap`.
+     */
+    constructor(
+        uint256 _cap,
+        address _admin,
+        address _minter,
+        address[] memory _recipients,
+        uint256[] memory _amounts
+    ) ERC20("Really Great Token", "RGT") ERC20Permit("Really Great Token") {
+        if (_cap == 0 || _cap > type(uint224).max) revert RGToken__InvalidCap(_cap);
+        if (_recipients.length != _amounts.length) revert RGToken__InvalidInitialDistribution();
+
+        i_cap = _cap;
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(MINTER_ROLE, _minter);
+        _grantRole(BURNER_ROLE, _minter);
+
+        uint256 initialSupply;
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            initialSupply += _amounts[i];
+            // The cap can't be read back from the immutable during construction
+            if (initialSupply > _cap) revert RGToken__CapExceeded(_cap, initialSupply);
+            _mint(_recipients[i], _amounts[i]);
+        }
+    }
+
+    /**
+     * @dev Mints `amount` tokens to `to`. Reverts if the total supply would exceed the cap.
+     * @param to The address to mint the tokens to.
+     * @param amount The amount of tokens to mint.
+     */
+    function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
+        if (amount == 0) revert RGToken__ZeroAmountNotAllowed();
+        uint256 mintable = i_cap - totalSupply();
+        if (amount > mintable) revert RGToken__CapExceeded(mintable, amount);
+
+        _mint(to, amount);
+    }
+
+    /**
+     * @dev Burns `amount` of the sender's tokens.
+     * @param amount The amount of tokens to burn.
+     */
+    function burn(uint256 amount) external onlyRole(BURNER_ROLE) {
+        if (amount == 0) revert RGToken__ZeroAmountNotAllowed();
+
+        _burn(msg.sender, amount);
+    }
+
+    /**
+     * @dev Burns `amount` of `account`'s tokens, spending the allowance `account` gave the sender.
+     * @param account The address to burn the tokens of.
+     * @param amount The amount of tokens to burn.
+     */
+    function burnFrom(address account, uint256 amount) external onlyRole(BURNER_ROLE) {
+        if (amount == 0) revert RGToken__ZeroAmountNotAllowed();
+
+        _spendAllowance(account, msg.sender, amount);
+        _burn(account, amount);
+    }
+
+    /**
+     * @dev Returns the maximum total supply.
+     */
+    function cap() external view returns (uint256) {
+        return i_cap;
+    }
+
+    /**
+     * @dev Returns how many tokens can still be minted before reaching the cap.
+     */
+    function mintableSupply() external view returns (uint256) {
+        return i_cap - totalSupply();
+    }
+
+    function _afterTokenTransfer(address from, address to, uint256 amount) internal override(ERC20, ERC20Votes) {
+        super._afterTokenTransfer(from, to, amount);
+    }
+
+    function _mint(address to, uint256 amount) internal override(ERC20, ERC20Votes) {
+        super._mint(to, amount);
+    }
+
+    function _burn(address account, uint256 amount) internal override(ERC20, ERC20Votes) {
+        super._burn(account, amount);
     }
 }
@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.7;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @dev Like USDT on mainnet: `transfer`, `transferFrom` and `approve` revert on failure and don't return a value, so
+ * calling them through `IERC20` reverts when decoding the missing return value.
+ */
+contract NoReturnERC20Mock {
+    string public constant name = "No Return Token";
+    string public constant symbol = "NRT";
+    uint8 public constant decimals = 18;
+
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    constructor(uint256 initialSupply) {
+        totalSupply = initialSupply;
+        balanceOf[msg.sender] = initialSupply;
+        emit Transfer(address(0), msg.sender, initialSupply);
+    }
+
+    function approve(address spender, uint256 value) external {
+        allowance[msg.sender][spender] = value;
+        emit Approval(msg.sender, spender, value);
+    }
+
+    function transfer(address to, uint256 value) external {
+        move(msg.sender, to, value);
+    }
+
+    function transferFrom(address from, address to, uint256 value) external {
+        require(allowance[from][msg.sender] >= value, "NoReturnERC20Mock: insufficient allowance");
+        allowance[from][msg.sender] -= value;
+        move(from, to, value);
+    }
+
+    function move(address from, address to, uint256 value) private {
+        require(balanceOf[from] >= value, "NoReturnERC20Mock: insufficient balance");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+    }
+}
+
+/**
+ * @dev Burns `feeBps` of every transfer, so the recipient gets less than the amount sent.
+ */
+contract FeeOnTransferERC20Mock is ERC20 {
+    uint256 private immutable i_feeBps;
+
+    constructor(uint256 initialSupply, uint256 feeBps) ERC20("Fee On Transfer Token", "FOT") {
+        i_feeBps = feeBps;
+        _mint(msg.sender, initialSupply);
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        uint256 fee = (amount * i_feeBps) / 10_000;
+
+        _burn(from, fee);
+        super._transfer(from, to, amount - fee);
+    }
+}
+
+/**
+ * @dev Reverts every transfer while `failing` is set, e.g. a token that was paused or blocklisted the contract.
+ */
+contract RevertingERC20Mock is ERC20 {
+    bool public failing;
+
+    constructor(uint256 initialSupply) ERC20("Reverting Token", "RVT") {
+        _mint(msg.sender, initialSupply);
+    }
+
+    function setFailing(bool _failing) external {
+        failing = _failing;
+    }
+
+    function _transfer(address from, address to, uint256 amount) internal override {
+        require(!failing, "RevertingERC20Mock: transfers are disabled");
+
+        super._transfer(from, to, amount);
+    }
+}
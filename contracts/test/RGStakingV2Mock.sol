@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.7;
+
+import {RGStaking} from "../RGStaking.sol";
+
+/**
+ * @dev Upgrade target for the upgrade tests. Appends a state variable to RGStaking.
+ */
+contract RGStakingV2Mock is RGStaking {
+    uint256 private s_appendedValue;
+
+    function setAppendedValue(uint256 value) external {
+        s_appendedValue = value;
+    }
+
+    function appendedValue() external view returns (uint256) {
+        return s_appendedValue;
+    }
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
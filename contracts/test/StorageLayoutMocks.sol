@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.7;
+
+/**
+ * @dev Contracts with known storage layouts for the storage layout checker tests.
+ */
+contract StorageLayoutV1 {
+    struct Data {
+        uint256 amount;
+        uint256 timestamp;
+    }
+
+    uint256 public s_total;
+    address public s_token;
+    bool public s_initialized;
+    mapping(address => Data) public s_data;
+}
+
+contract StorageLayoutV2Appended {
+    struct Data {
+        uint256 amount;
+        uint256 timestamp;
+    }
+
+    uint256 public s_total;
+    address public s_token;
+    bool public s_initialized;
+    mapping(address => Data) public s_data;
+    uint256 public s_newTotal;
+}
+
+contract StorageLayoutV2Inserted {
+    struct Data {
+        uint256 amount;
+        uint256 timestamp;
+    }
+
+    uint256 public s_total;
+    uint256 public s_newTotal;
+    address public s_token;
+    bool public s_initialized;
+    mapping(address => Data) public s_data;
+}
+
+contract StorageLayoutV2Retyped {
+    struct Data {
+        uint256 amount;
+        uint128 timestamp;
+    }
+
+    uint256 public s_total;
+    address public s_token;
+    bool public s_initialized;
+    mapping(address => Data) public s_data;
+}
+
+contract StorageLayoutV2Renamed {
+    struct Data {
+        uint256 amount;
+        uint256 timestamp;
+    }
+
+    uint256 public s_total;
+    address public s_rewardToken;
+    bool public s_initialized;
+    mapping(address => Data) public s_data;
+}
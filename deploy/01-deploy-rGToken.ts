@@ -1,21 +1,45 @@
-import { network } from "hardhat"
+import { ethers, network } from "hardhat"
 import { DeployFunction } from "hardhat-deploy/types"
 
 import { HardhatRuntimeEnvironment } from "hardhat/types"
 
-import { parseRGT, verify } from "../helper-functions"
-import { isLocalNetwork, networkConfig } from "../helper-hardhat-config"
+import { queueVerification } from "../helper-functions"
+import { getNetworkConfig } from "../helper-hardhat-config"
 
 const func: DeployFunction = async ({ getNamedAccounts, deployments }: HardhatRuntimeEnvironment) => {
-    const { deploy, log } = deployments
-    const { deployer } = await getNamedAccounts()
-    const chainId = network.config.chainId!
-    const currentNetwork = networkConfig[chainId]
+    const { deploy, getArtifact, log, save } = deployments
+    const namedAccounts = await getNamedAccounts()
+    const { deployer, admin, minter } = namedAccounts
+    const currentNetwork = getNetworkConfig(network.name)
 
-    const initialSupplyTokens = 100_000_000_000 // 100 billion tokens
-    const initialSupply = parseRGT(initialSupplyTokens)
+    if (currentNetwork.rGTokenAddress) {
+        const { abi } = await getArtifact("RGToken")
+        await save("RGToken", { address: currentNetwork.rGTokenAddress, abi })
+        log(`Reusing RGToken at ${currentNetwork.rGTokenAddress}`)
+        log("=====================================================================")
+        return
+    }
+
+    // The deployer gets what isn't distributed to other accounts
+    const distribution = currentNetwork.initialDistribution.map(({ account, amount }) => {
+        const address = namedAccounts[account] ?? account
+        if (!ethers.utils.isAddress(address)) {
+            throw new Error(`initialDistribution: "${account}" is neither a named account nor an address`)
+        }
+        return { address, amount }
+    })
+    const distributed = distribution.reduce((total, { amount }) => total.add(amount), ethers.BigNumber.from(0))
+    if (distributed.lt(currentNetwork.initialSupply)) {
+        distribution.push({ address: deployer, amount: currentNetwork.initialSupply.sub(distributed) })
+    }
 
-    const args = [initialSupply]
+    const args = [
+        currentNetwork.supplyCap,
+        admin,
+        minter,
+        distribution.map(({ address }) => address),
+        distribution.map(({ amount }) => amount),
+    ]
     const rGToken = await deploy("RGToken", {
         from: deployer,
         args,
@@ -24,8 +48,8 @@ const func: DeployFunction = async ({ getNamedAccounts, deployments }: HardhatRu
     })
     log("=====================================================================")
 
-    if (!isLocalNetwork && process.env.SNOWTRACE_API_KEY) {
-        await verify(rGToken.address, "contracts/RGToken.sol:RGToken", args)
+    if (currentNetwork.verification) {
+        queueVerification(rGToken.address, "contracts/RGToken.sol:RGToken", args)
         log("=====================================================================")
     }
 }
@@ -1,42 +1,131 @@
 import { ethers, network } from "hardhat"
-import { DeployFunction } from "hardhat-deploy/types"
+import { DeployFunction, Deployment } from "hardhat-deploy/types"
 
 import { HardhatRuntimeEnvironment } from "hardhat/types"
 
-import { initializeRewardPool, verify } from "../helper-functions"
-import { isLocalNetwork, networkConfig } from "../helper-hardhat-config"
-import { RGToken } from "../typechain"
+import {
+    batchProxyUpgrade,
+    initializeRewardPool,
+    queueVerification,
+    safeBatchFile,
+    sendAdminTransaction,
+} from "../helper-functions"
+import { getNetworkConfig, networkConfig } from "../helper-hardhat-config"
+import { ERC20, RGStaking, RGToken } from "../typechain"
+import { checkUpgradeSafety } from "../utils/storage-layout"
 
-const func: DeployFunction = async ({ getNamedAccounts, deployments }: HardhatRuntimeEnvironment) => {
+const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+    const { getNamedAccounts, deployments } = hre
     const { deploy, log } = deployments
-    const { deployer } = await getNamedAccounts()
-    const chainId = network.config.chainId!
-    const currentNetwork = networkConfig[chainId]
+    const { deployer, owner, admin, pauser } = await getNamedAccounts()
+    const currentNetwork = getNetworkConfig(network.name)
 
     const rGToken: RGToken = await ethers.getContract("RGToken")
+    const stakingToken: ERC20 = await ethers.getContractAt(
+        "ERC20",
+        currentNetwork.stakingTokenAddress ?? rGToken.address
+    )
+    const rewardToken: ERC20 = await ethers.getContractAt("ERC20", currentNetwork.rewardTokenAddress ?? rGToken.address)
 
-    const args = [rGToken.address]
-    let rGStaking = await deploy("RGStaking", {
-        from: deployer,
-        args,
-        log: true,
-        waitConfirmations: currentNetwork.waitConfirmations,
-    })
+    // Refuse to upgrade an existing proxy to an implementation that would corrupt its storage
+    const { implementation, errors } = await checkUpgradeSafety(hre, "RGStaking")
+    if (errors.length > 0) {
+        throw new Error(`RGStaking at ${implementation} can't be upgraded:\n${errors.join("\n")}`)
+    }
+
+    // Amounts are in the units of their token, which may not have 18 decimals
+    const args = [
+        stakingToken.address,
+        rewardToken.address,
+        ethers.utils.parseUnits(currentNetwork.assetPrice, await stakingToken.decimals()),
+        ethers.utils.parseUnits(networkConfig[network.name].rewardPool, await rewardToken.decimals()),
+        admin,
+        pauser,
+    ]
+
+    // With SAFE_BATCH set, an existing proxy is upgraded by the owner's Safe rather than from the owner
+    let rGStaking: Deployment | null = await deployments.getOrNull("RGStaking")
+    if (rGStaking && safeBatchFile()) {
+        const implementation = await batchProxyUpgrade("RGStaking", deployer, owner, currentNetwork.waitConfirmations)
+        rGStaking = { ...rGStaking, implementation: implementation.address }
+    } else {
+        rGStaking = await deploy("RGStaking", {
+            from: deployer,
+            log: true,
+            waitConfirmations: currentNetwork.waitConfirmations,
+            proxy: {
+                proxyContract: "OpenZeppelinTransparentProxy",
+                owner,
+                execute: {
+                    init: {
+                        methodName: "initialize",
+                        args,
+                    },
+                },
+            },
+        })
+    }
+    log("=====================================================================")
+
+    // Admin transactions are sent by the admin, or batched for it to sign when SAFE_BATCH is set
+    const rGStakingContract: RGStaking = await ethers.getContractAt("RGStaking", rGStaking.address, admin)
+    const [adminRole, pauserRole] = await Promise.all([
+        rGStakingContract.DEFAULT_ADMIN_ROLE(),
+        rGStakingContract.PAUSER_ROLE(),
+    ])
+    if (!(await rGStakingContract.hasRole(adminRole, admin))) {
+        throw new Error(
+            `The admin ${admin} doesn't have DEFAULT_ADMIN_ROLE on RGStaking at ${rGStaking.address}. ` +
+                "Run rgs:initialize-roles if it was deployed before roles existed, otherwise grant it with rgs:grant-role."
+        )
+    }
+    if (!(await rGStakingContract.hasRole(pauserRole, pauser))) {
+        log(`Granting PAUSER_ROLE to ${pauser}...`)
+        await sendAdminTransaction(rGStakingContract, "grantRole", [pauserRole, pauser])
+    }
+
+    // Add or change the lock tiers that differ from the config. Tiers beyond the config are left as they are.
+    const lockTiers = await rGStakingContract.lockTiers()
+    for (const [tierId, tier] of currentNetwork.lockTiers.entries()) {
+        const duration = tier.durationDays * 24 * 60 * 60
+        const current = lockTiers[tierId]
+        if (
+            current?.duration.eq(duration) &&
+            current.multiplierBps.eq(tier.multiplierBps) &&
+            current.earlyExitPenaltyBps.eq(tier.earlyExitPenaltyBps) &&
+            current.earlyExitAllowed === tier.earlyExitAllowed
+        ) {
+            continue
+        }
+
+        log(`Setting lock tier ${tierId}...`)
+        await sendAdminTransaction(rGStakingContract, "setLockTier", [
+            tierId,
+            duration,
+            tier.multiplierBps,
+            tier.earlyExitPenaltyBps,
+            tier.earlyExitAllowed,
+        ])
+    }
     log("=====================================================================")
 
-    if (!isLocalNetwork) {
-        const initialBalance = (await rGToken.balanceOf(rGStaking.address)).toString()
+    if (currentNetwork.autoInitializeRewardPool) {
+        const initialBalance = (await rewardToken.balanceOf(rGStaking.address)).toString()
         console.log(`Initializing rewards pool...Current balance: ${ethers.utils.formatEther(initialBalance)}`)
 
-        await initializeRewardPool(deployer)
+        await initializeRewardPool(admin)
 
-        const finalBalance = (await rGToken.balanceOf(rGStaking.address)).toString()
-        console.log(`Rewards pool initialized. Current balance: ${ethers.utils.formatUnits(finalBalance)}`)
+        if (safeBatchFile()) {
+            console.log(`Rewards pool initialization batched for ${admin} in ${safeBatchFile()}`)
+        } else {
+            const finalBalance = (await rewardToken.balanceOf(rGStaking.address)).toString()
+            console.log(`Rewards pool initialized. Current balance: ${ethers.utils.formatUnits(finalBalance)}`)
+        }
         log("=====================================================================")
     }
 
-    if (!isLocalNetwork && process.env.SNOWTRACE_API_KEY) {
-        await verify(rGStaking.address, "contracts/RGStaking.sol:RGStaking", args)
+    if (currentNetwork.verification) {
+        queueVerification(rGStaking.implementation!, "contracts/RGStaking.sol:RGStaking", [])
         log("=====================================================================")
     }
 }
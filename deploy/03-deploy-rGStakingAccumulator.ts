@@ -0,0 +1,66 @@
+import { ethers, network } from "hardhat"
+import { DeployFunction, Deployment } from "hardhat-deploy/types"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { batchProxyUpgrade, queueVerification, safeBatchFile } from "../helper-functions"
+import { getNetworkConfig } from "../helper-hardhat-config"
+import { RGToken } from "../typechain"
+import { checkUpgradeSafety } from "../utils/storage-layout"
+
+const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+    const { getNamedAccounts, deployments } = hre
+    const { deploy, log } = deployments
+    const { deployer, owner } = await getNamedAccounts()
+    const currentNetwork = getNetworkConfig(network.name)
+
+    const rGToken: RGToken = await ethers.getContract("RGToken")
+
+    const { implementation, errors } = await checkUpgradeSafety(hre, "RGStakingAccumulator")
+    if (errors.length > 0) {
+        throw new Error(`RGStakingAccumulator at ${implementation} can't be upgraded:\n${errors.join("\n")}`)
+    }
+
+    // The owner funds emission schedules with `rgs:start-emission`. With SAFE_BATCH set, an existing proxy is upgraded
+    // by the owner's Safe rather than from the owner.
+    let rGStakingAccumulator: Deployment | null = await deployments.getOrNull("RGStakingAccumulator")
+    if (rGStakingAccumulator && safeBatchFile()) {
+        const implementation = await batchProxyUpgrade(
+            "RGStakingAccumulator",
+            deployer,
+            owner,
+            currentNetwork.waitConfirmations
+        )
+        rGStakingAccumulator = { ...rGStakingAccumulator, implementation: implementation.address }
+    } else {
+        rGStakingAccumulator = await deploy("RGStakingAccumulator", {
+            from: deployer,
+            log: true,
+            waitConfirmations: currentNetwork.waitConfirmations,
+            proxy: {
+                proxyContract: "OpenZeppelinTransparentProxy",
+                owner,
+                execute: {
+                    init: {
+                        methodName: "initialize",
+                        args: [rGToken.address, owner],
+                    },
+                },
+            },
+        })
+    }
+    log("=====================================================================")
+
+    if (currentNetwork.verification) {
+        queueVerification(
+            rGStakingAccumulator.implementation!,
+            "contracts/RGStakingAccumulator.sol:RGStakingAccumulator",
+            []
+        )
+        log("=====================================================================")
+    }
+}
+
+func.tags = ["rGStakingAccumulator"]
+func.skip = async ({ network }) => !getNetworkConfig(network.name).accumulatorStaking
+export default func
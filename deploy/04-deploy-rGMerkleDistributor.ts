@@ -0,0 +1,34 @@
+import { ethers, network } from "hardhat"
+import { DeployFunction } from "hardhat-deploy/types"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { queueVerification } from "../helper-functions"
+import { getNetworkConfig } from "../helper-hardhat-config"
+import { RGStaking } from "../typechain"
+
+const func: DeployFunction = async ({ getNamedAccounts, deployments }: HardhatRuntimeEnvironment) => {
+    const { deploy, log } = deployments
+    const { deployer, admin } = await getNamedAccounts()
+    const currentNetwork = getNetworkConfig(network.name)
+
+    // Bonuses are paid in the reward token, and the admin who manages the rewards creates the distributions
+    const rGStaking: RGStaking = await ethers.getContract("RGStaking")
+    const args = [await rGStaking.rewardTokenAddress(), admin]
+    const rGMerkleDistributor = await deploy("RGMerkleDistributor", {
+        from: deployer,
+        args,
+        log: true,
+        waitConfirmations: currentNetwork.waitConfirmations,
+    })
+    log("=====================================================================")
+
+    if (currentNetwork.verification) {
+        queueVerification(rGMerkleDistributor.address, "contracts/RGMerkleDistributor.sol:RGMerkleDistributor", args)
+        log("=====================================================================")
+    }
+}
+
+func.tags = ["rGMerkleDistributor"]
+func.skip = async ({ network }) => !getNetworkConfig(network.name).merkleDistributor
+export default func
@@ -1,70 +1,30 @@
-import fs from "fs-extra"
-import { ethers, network } from "hardhat"
+import { config, deployments, network } from "hardhat"
 import path from "path"
 
-const contractNames = ["RGStaking", "RGToken"]
-const clientFolderName = "nextJs"
-let constantsPath: string
+import { clientSdkConfig } from "../helper-hardhat-config"
+import { SDK_CONTRACT_NAMES, SdkContractName, SdkDeployment, writeClientSdk } from "../utils/client-sdk"
 
 export default async () => {
     if (!process.env.UPDATE_CLIENT) return
 
-    console.log("Updating Client...")
-    constantsPath = path.resolve(__dirname, `../../${clientFolderName}/constants/`)
+    console.log(`Updating Client (${clientSdkConfig.format})...`)
 
-    for (let contractName of contractNames) {
-        const contract = await ethers.getContract(contractName)
-
-        writeAbi(contractName)
-        writeAddress(contract.address, contractName)
-
-        console.log(`Client updated with ${contractName}.`)
+    const sdkDeployments = {} as { [contractName in SdkContractName]: SdkDeployment }
+    for (const contractName of SDK_CONTRACT_NAMES) {
+        const { address, receipt, transactionHash } = await deployments.get(contractName)
+        sdkDeployments[contractName] = { address, blockNumber: receipt?.blockNumber, transactionHash }
     }
-    console.log("Client updates successful.")
-    console.log("=====================================================================")
-}
-
-const writeAbi = (contractName: string) => {
-    const abiDir = path.resolve(__dirname, `../artifacts/contracts/${contractName}.sol/${contractName}.json`)
-    const abi = fs.readJSONSync(abiDir, "utf8").abi
-    fs.outputJSONSync(path.resolve(constantsPath, `${contractName}.json`), abi)
-}
-
-const writeAddress = (address: string, contractName: string) => {
-    const addressesFile = path.resolve(constantsPath, `${contractName}Addresses.json`)
-
-    const contractAddresses = getCurrentAddresses(addressesFile)
-    const updatedAddresses = updateAddresses(contractAddresses, address)
-
-    fs.outputJSONSync(addressesFile, updatedAddresses)
-}
 
-const getCurrentAddresses = (addressesFile: string) => {
-    fs.ensureFileSync(addressesFile)
-    let contractAddresses = {}
-
-    try {
-        contractAddresses = fs.readJSONSync(addressesFile)
-    } catch (error) {
-        if (!(error instanceof SyntaxError)) {
-            console.log(error)
-            process.exit(1)
-        }
-    }
-
-    return contractAddresses
-}
-
-const updateAddresses = (contractAddresses: any, newAddress: string) => {
-    const chainId = network.config.chainId!.toString()
-
-    if (chainId in contractAddresses) {
-        if (!contractAddresses[chainId].includes(newAddress)) {
-            contractAddresses[chainId].push(newAddress)
-        }
-    } else {
-        contractAddresses[chainId] = [newAddress]
-    }
-
-    return contractAddresses
+    const outDir = path.resolve(config.paths.root, clientSdkConfig.outDir)
+    writeClientSdk({
+        outDir,
+        format: clientSdkConfig.format,
+        chainId: network.config.chainId!,
+        deployments: sdkDeployments,
+        typechainDir: path.resolve(config.paths.root, config.typechain.outDir),
+        artifactsDir: config.paths.artifacts,
+    })
+
+    console.log(`Client SDK written to ${outDir}.`)
+    console.log("=====================================================================")
 }
@@ -4,16 +4,36 @@ import "hardhat-gas-reporter"
 import "solidity-coverage"
 
 import { HardhatUserConfig } from "hardhat/config"
+import { NetworksUserConfig } from "hardhat/types"
 
 import "@nomicfoundation/hardhat-toolbox"
 
 import "@nomiclabs/hardhat-etherscan"
 import "@nomiclabs/hardhat-solhint"
 
-const FUJI_RPC_URL = process.env.FUJI_RPC_URL
+import { developmentChains, networkConfig } from "./helper-hardhat-config"
+import "./tasks"
+
 const PRIVATE_KEY = process.env.PRIVATE_KEY
 const COINMARKETCAP_API_KEY = process.env.COINMARKETCAP_API_KEY
-const SNOWTRACE_API_KEY = process.env.SNOWTRACE_API_KEY || "Your snowtrace API key"
+
+const remoteNetworks = Object.entries(networkConfig).filter(([name]) => !developmentChains.includes(name))
+
+const networks: NetworksUserConfig = {
+    localhost: {
+        chainId: networkConfig.localhost.chainId,
+    },
+}
+for (const [name, { chainId, rpcUrlEnvVar }] of remoteNetworks) {
+    networks[name] = {
+        url: process.env[rpcUrlEnvVar!] ?? "",
+        accounts: PRIVATE_KEY !== undefined ? [PRIVATE_KEY] : [],
+        saveDeployments: true,
+        chainId,
+    }
+}
+
+const verifiableNetworks = remoteNetworks.filter(([, { verification }]) => verification !== undefined)
 
 const config: HardhatUserConfig = {
     solidity: {
@@ -30,19 +50,19 @@ const config: HardhatUserConfig = {
         ],
     },
     defaultNetwork: "hardhat",
-    networks: {
-        localhost: {
-            chainId: 31337,
-        },
-        fuji: {
-            url: FUJI_RPC_URL !== undefined ? FUJI_RPC_URL : "",
-            accounts: PRIVATE_KEY !== undefined ? [PRIVATE_KEY] : [],
-            saveDeployments: true,
-            chainId: 43113,
-        },
-    },
+    networks,
     etherscan: {
-        apiKey: SNOWTRACE_API_KEY,
+        apiKey: Object.fromEntries(
+            verifiableNetworks.map(([name, { verification }]) => [
+                name,
+                process.env[verification![0].apiKeyEnvVar] ?? "",
+            ])
+        ),
+        customChains: verifiableNetworks.map(([name, { chainId, verification }]) => ({
+            network: name,
+            chainId,
+            urls: { apiURL: verification![0].apiUrl, browserURL: verification![0].browserUrl },
+        })),
     },
     gasReporter: {
         enabled: process.env.REPORT_GAS !== undefined,
@@ -56,6 +76,22 @@ const config: HardhatUserConfig = {
         deployer: {
             default: 0,
         },
+        // Owns the proxy admin, i.e. can upgrade the staking contracts, and funds RGStakingAccumulator emissions
+        owner: {
+            default: 0,
+        },
+        // Granted DEFAULT_ADMIN_ROLE on RGStaking: manages the rewards, the lock tiers and the roles
+        admin: {
+            default: 0,
+        },
+        // Granted PAUSER_ROLE on RGStaking: can pause purchases and claims
+        pauser: {
+            default: 0,
+        },
+        // Granted MINTER_ROLE and BURNER_ROLE on RGToken, whose DEFAULT_ADMIN_ROLE goes to the admin
+        minter: {
+            default: 0,
+        },
     },
     mocha: {
         timeout: 200000, // 200 seconds max for running tests
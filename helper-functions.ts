@@ -1,32 +1,98 @@
-import { BigNumber, BigNumberish } from "ethers"
-import { ethers, run } from "hardhat"
-import { Address } from "hardhat-deploy/types"
+import { BaseContract, BigNumber, BigNumberish, ContractReceipt } from "ethers"
+import { config, deployments, ethers, network } from "hardhat"
+import { Address, DeployResult } from "hardhat-deploy/types"
+import path from "path"
 
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
 
-import { TOTAL_REWARD_POOL } from "./helper-hardhat-config"
-import { RGStaking, RGToken } from "./typechain"
-
-export const verify = async (contractAddress: string, contract: string, args: any[]) => {
-    console.log("Verifying contract...")
-    try {
-        await run("verify:verify", {
-            address: contractAddress,
-            constructorArguments: args,
-            contract,
-        })
-    } catch (e: any) {
-        if (e.message.toLowerCase().includes("already verified")) {
-            console.log("Already verified!")
-        } else {
-            console.log(e)
-        }
+import { developmentChains, getNetworkConfig } from "./helper-hardhat-config"
+import { ERC20, RGStaking } from "./typechain"
+import { appendToSafeBatch } from "./utils/safe-batch"
+import { defaultVerificationQueueFile, enqueueVerification } from "./utils/verification-queue"
+
+export const currentNetworkConfig = getNetworkConfig(network.name)
+export const isLocalNetwork = developmentChains.includes(network.name)
+export const TOTAL_REWARD_POOL = currentNetworkConfig.rewardPool
+
+/**
+ * Records a deployment in the network's verification queue. `verify:pending` submits it to the explorers.
+ */
+export const queueVerification = (contractAddress: string, contract: string, args: any[]) => {
+    enqueueVerification(defaultVerificationQueueFile(config.paths.root, network.name), {
+        network: network.name,
+        address: contractAddress,
+        contract,
+        constructorArgs: args,
+    })
+    console.log(`Queued ${contract} at ${contractAddress} for verification. Run verify:pending to submit it.`)
+}
+
+// Path of the Safe Transaction Builder batch admin transactions are written to instead of being sent, if any
+export const safeBatchFile = () => process.env.SAFE_BATCH && path.resolve(process.env.SAFE_BATCH)
+
+/**
+ * Sends a transaction of an admin helper or deploy step from the contract's signer. When SAFE_BATCH is set, the
+ * transaction is appended to that batch instead, for the signer's address, a Safe, to sign. Returns the receipt, or
+ * undefined when the transaction was batched.
+ */
+export const sendAdminTransaction = async (
+    contract: BaseContract,
+    method: string,
+    args: unknown[] = [],
+    value: BigNumberish = 0
+): Promise<ContractReceipt | undefined> => {
+    const from = await contract.signer.getAddress()
+    const data = contract.interface.encodeFunctionData(method, args)
+    const batchFile = safeBatchFile()
+
+    if (batchFile) {
+        appendToSafeBatch(
+            batchFile,
+            { chainId: currentNetworkConfig.chainId, safeAddress: from },
+            { to: contract.address, value, data },
+            `${method} on ${contract.address}`
+        )
+        console.log(`Added ${method} on ${contract.address} to the Safe batch ${batchFile} for ${from}`)
+        return undefined
     }
+
+    const tx = await contract.signer.sendTransaction({ to: contract.address, data, value })
+    return tx.wait(1)
+}
+
+/**
+ * Upgrades a proxy hardhat-deploy deployed behind its DefaultProxyAdmin when the proxy admin is owned by a Safe. Deploys
+ * the implementation from `from` like hardhat-deploy would, then appends the upgrade to the SAFE_BATCH for the owner to
+ * sign instead of sending it from the owner. Nothing is batched if the proxy runs that implementation already. Re-run
+ * the deploy scripts without SAFE_BATCH once the Safe executed the batch to record the upgrade.
+ */
+export const batchProxyUpgrade = async (
+    name: string,
+    from: Address,
+    owner: Address,
+    waitConfirmations?: number
+): Promise<DeployResult> => {
+    const proxy = await deployments.get(name)
+    const implementation = await deployments.deploy(`${name}_Implementation`, {
+        contract: name,
+        from,
+        log: true,
+        waitConfirmations,
+    })
+
+    const proxyAdmin = await ethers.getContract("DefaultProxyAdmin", owner)
+    if ((await proxyAdmin.getProxyImplementation(proxy.address)) === implementation.address) {
+        console.log(`${name} at ${proxy.address} runs ${implementation.address} already`)
+    } else {
+        await sendAdminTransaction(proxyAdmin, "upgrade", [proxy.address, implementation.address])
+    }
+
+    return implementation
 }
 
 export const initializeRewardPool = async (signer: Address | SignerWithAddress) => {
-    const rGToken: RGToken = await ethers.getContract("RGToken")
     const rGStaking: RGStaking = await ethers.getContract("RGStaking", signer)
+    const rewardToken: ERC20 = await ethers.getContractAt("ERC20", await rGStaking.rewardTokenAddress(), signer)
 
     const isInitialized = await rGStaking.isRewardPoolInitialized()
 
@@ -35,11 +101,8 @@ export const initializeRewardPool = async (signer: Address | SignerWithAddress)
         return
     }
 
-    const approveTx = await rGToken.approve(rGStaking.address, TOTAL_REWARD_POOL)
-    await approveTx.wait(1)
-
-    const initTx = await rGStaking.initializeRewardPool()
-    await initTx.wait(1)
+    await sendAdminTransaction(rewardToken, "approve", [rGStaking.address, await rGStaking.totalRewardPool()])
+    await sendAdminTransaction(rGStaking, "initializeRewardPool")
 }
 
 export const parseRGT = (rGTAmount: BigNumberish): BigNumber => {
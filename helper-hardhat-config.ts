@@ -1,32 +1,272 @@
-import { ethers, network } from "hardhat"
+import { BigNumber, ethers } from "ethers"
 
-type NetworkConfigItem = {
+import { ClientSdkFormat } from "./utils/client-sdk"
+
+/**
+ * Per-network deployment settings. This file is imported by `hardhat.config.ts`, so it must not import the hardhat
+ * runtime. Adding a network is a matter of adding an entry to `networkConfig`.
+ */
+
+// An Etherscan compatible block explorer the deployed contracts are verified on
+type ExplorerConfig = {
     name: string
+    apiKeyEnvVar: string
+    apiUrl: string
+    browserUrl: string
+}
+
+// How long the staging suite waits for rewards to accrue and for transactions, see test/staging
+type StagingConfig = {
+    rewardWaitSeconds: number
+    pollIntervalMs: number
+    timeoutMs: number
+}
+
+// A lock tier of RGStaking, see `setLockTier`. Multiplier and penalty are in basis points, e.g. 12_500 is 1.25x.
+export type LockTierConfig = {
+    durationDays: number
+    multiplierBps: number
+    earlyExitPenaltyBps: number
+    earlyExitAllowed: boolean
+}
+
+type NetworkConfigItem = {
+    chainId: number
+    // Name of the env var holding the RPC URL. Not needed for the in-process hardhat network and localhost.
+    rpcUrlEnvVar?: string
     waitConfirmations: number
+    // Human RGT amounts, e.g. "10000"
+    initialSupply: string
+    // Maximum total supply of RGToken, at least `initialSupply`
+    supplyCap: string
+    // Parts of `initialSupply` minted to named accounts or addresses instead of the deployer, e.g. { admin: "1000" }.
+    // The deployer gets the rest.
+    initialDistribution?: { [account: string]: string }
+    rewardPool: string
+    autoInitializeRewardPool: boolean
+    // Reuse an already deployed RGToken instead of deploying one
+    rGTokenAddress?: string
+    // Tokens RGStaking is deployed with, default to RGToken. Only used when the proxy is first deployed.
+    stakingTokenAddress?: string
+    rewardTokenAddress?: string
+    // Price of one asset in human staking token units, e.g. "10". `rewardPool` is in human reward token units.
+    assetPrice?: string
+    // Explorers `verify:pending` verifies the deployed contracts on. hardhat-etherscan's `verify` uses the first one.
+    verification?: ExplorerConfig[]
+    staging?: StagingConfig
+    // Lock tiers the deploy script makes sure are set, in tier id order. Defaults to DEFAULT_LOCK_TIERS.
+    lockTiers?: LockTierConfig[]
+    // Also deploy RGStakingAccumulator, which splits an emission schedule pro-rata instead of paying a fixed rate
+    accumulatorStaking?: boolean
+    // Also deploy RGMerkleDistributor, which pays bonuses and compensations to stakers from a snapshot
+    merkleDistributor?: boolean
+    // Named accounts or addresses allowed to sign off deployment manifests, e.g. the owners of the admin's Safe.
+    // Defaults to the admin.
+    manifestSigners?: string[]
 }
 
 type NetworkConfigMap = {
-    [chainId: string]: NetworkConfigItem
+    [networkName: string]: NetworkConfigItem
 }
 
+export const DEFAULT_LOCK_TIERS: LockTierConfig[] = [
+    { durationDays: 30, multiplierBps: 12_500, earlyExitPenaltyBps: 1_000, earlyExitAllowed: true },
+    { durationDays: 90, multiplierBps: 15_000, earlyExitPenaltyBps: 2_000, earlyExitAllowed: true },
+    { durationDays: 180, multiplierBps: 20_000, earlyExitPenaltyBps: 0, earlyExitAllowed: false },
+]
+
 export const networkConfig: NetworkConfigMap = {
-    default: {
-        name: "hardhat",
+    hardhat: {
+        chainId: 31337,
         waitConfirmations: 1,
+        initialSupply: "100000000000", // 100 billion tokens
+        supplyCap: "200000000000",
+        rewardPool: "10000",
+        autoInitializeRewardPool: false,
+        accumulatorStaking: true,
+        merkleDistributor: true,
     },
-    31337: {
-        name: "localhost",
+    localhost: {
+        chainId: 31337,
         waitConfirmations: 1,
+        initialSupply: "100000000000",
+        supplyCap: "200000000000",
+        rewardPool: "10000",
+        autoInitializeRewardPool: false,
+        accumulatorStaking: true,
+        merkleDistributor: true,
+        staging: { rewardWaitSeconds: 5, pollIntervalMs: 1_000, timeoutMs: 60_000 },
     },
-    43113: {
-        name: "fuji",
+    fuji: {
+        chainId: 43113,
+        rpcUrlEnvVar: "FUJI_RPC_URL",
         waitConfirmations: 6,
+        initialSupply: "100000000000",
+        supplyCap: "200000000000",
+        rewardPool: "10000",
+        autoInitializeRewardPool: true,
+        verification: [
+            {
+                name: "snowtrace",
+                apiKeyEnvVar: "SNOWTRACE_API_KEY",
+                apiUrl: "https://api-testnet.snowtrace.io/api",
+                browserUrl: "https://testnet.snowtrace.io",
+            },
+        ],
+        staging: { rewardWaitSeconds: 30, pollIntervalMs: 5_000, timeoutMs: 600_000 },
+    },
+    avalanche: {
+        chainId: 43114,
+        rpcUrlEnvVar: "AVALANCHE_RPC_URL",
+        waitConfirmations: 6,
+        initialSupply: "100000000000",
+        supplyCap: "200000000000",
+        rewardPool: "10000",
+        autoInitializeRewardPool: false,
+        verification: [
+            {
+                name: "snowtrace",
+                apiKeyEnvVar: "SNOWTRACE_API_KEY",
+                apiUrl: "https://api.snowtrace.io/api",
+                browserUrl: "https://snowtrace.io",
+            },
+        ],
     },
 }
 
-const developmentChains: string[] = ["hardhat", "localhost"]
-export const isLocalNetwork = developmentChains.includes(network.name)
-export const VERIFICATION_BLOCK_CONFIRMATIONS = 6
+export const developmentChains: string[] = ["hardhat", "localhost"]
+
+const parseAmount = (networkName: string, field: string, amount: string): BigNumber => {
+    try {
+        return ethers.utils.parseUnits(amount, 18)
+    } catch (e) {
+        throw new Error(`networkConfig.${networkName}.${field} is not a valid RGT amount: "${amount}"`)
+    }
+}
+
+const validateNetworkConfig = (networkName: string, item: NetworkConfigItem) => {
+    const fail = (reason: string) => {
+        throw new Error(`Invalid networkConfig.${networkName}: ${reason}`)
+    }
+
+    if (!Number.isInteger(item.chainId) || item.chainId <= 0) fail("chainId must be a positive integer")
+    if (!Number.isInteger(item.waitConfirmations) || item.waitConfirmations < 1) {
+        fail("waitConfirmations must be at least 1")
+    }
+    if (!developmentChains.includes(networkName) && !item.rpcUrlEnvVar) fail("rpcUrlEnvVar is required")
+
+    const initialSupply = parseAmount(networkName, "initialSupply", item.initialSupply)
+    if (initialSupply.isZero()) fail("initialSupply must be positive")
+    if (parseAmount(networkName, "rewardPool", item.rewardPool).isZero()) fail("rewardPool must be positive")
+    if (parseAmount(networkName, "supplyCap", item.supplyCap).lt(initialSupply)) {
+        fail("supplyCap must be at least initialSupply")
+    }
+    const distributed = Object.entries(item.initialDistribution ?? {}).reduce(
+        (total, [account, amount]) => total.add(parseAmount(networkName, `initialDistribution.${account}`, amount)),
+        BigNumber.from(0)
+    )
+    if (distributed.gt(initialSupply)) fail("initialDistribution must not add up to more than initialSupply")
+
+    for (const field of ["rGTokenAddress", "stakingTokenAddress", "rewardTokenAddress"] as const) {
+        if (item[field] !== undefined && !ethers.utils.isAddress(item[field]!)) fail(`${field} is not a valid address`)
+    }
+    if (item.assetPrice !== undefined && (!/^\d+(\.\d+)?$/.test(item.assetPrice) || Number(item.assetPrice) === 0)) {
+        fail(`assetPrice must be a positive token amount, got "${item.assetPrice}"`)
+    }
+
+    if (item.staging) {
+        const { rewardWaitSeconds, pollIntervalMs, timeoutMs } = item.staging
+        if ([rewardWaitSeconds, pollIntervalMs, timeoutMs].some((value) => !Number.isInteger(value) || value < 0)) {
+            fail("staging waits must be non-negative integers")
+        }
+    }
+
+    item.lockTiers?.forEach(({ durationDays, multiplierBps, earlyExitPenaltyBps }, tierId) => {
+        if (!Number.isInteger(durationDays) || durationDays < 0) {
+            fail(`lockTiers[${tierId}].durationDays must be a non-negative integer`)
+        }
+        if (!Number.isInteger(multiplierBps) || multiplierBps < 10_000) {
+            fail(`lockTiers[${tierId}].multiplierBps must be an integer of at least 10000`)
+        }
+        if (!Number.isInteger(earlyExitPenaltyBps) || earlyExitPenaltyBps < 0 || earlyExitPenaltyBps > 10_000) {
+            fail(`lockTiers[${tierId}].earlyExitPenaltyBps must be an integer between 0 and 10000`)
+        }
+    })
+
+    if (item.verification) {
+        if (item.verification.length === 0) fail("verification must list at least one explorer")
+        item.verification.forEach(({ name, apiKeyEnvVar, apiUrl, browserUrl }, index) => {
+            if (!name) fail(`verification[${index}].name is required`)
+            if (item.verification!.findIndex((explorer) => explorer.name === name) !== index) {
+                fail(`verification lists the explorer "${name}" twice`)
+            }
+            if (!apiKeyEnvVar) fail(`verification[${index}].apiKeyEnvVar is required`)
+            for (const url of [apiUrl, browserUrl]) {
+                if (!/^https?:\/\/\S+$/.test(url)) fail(`verification url "${url}" is not a valid URL`)
+            }
+        })
+    }
+}
+
+for (const [networkName, item] of Object.entries(networkConfig)) validateNetworkConfig(networkName, item)
+
+/**
+ * Returns the config of a network together with its amounts parsed to wei.
+ */
+export const getNetworkConfig = (networkName: string) => {
+    const item = networkConfig[networkName]
+    if (!item) throw new Error(`No networkConfig entry for network "${networkName}"`)
+
+    return {
+        ...item,
+        initialSupply: ethers.utils.parseUnits(item.initialSupply, 18),
+        supplyCap: ethers.utils.parseUnits(item.supplyCap, 18),
+        initialDistribution: Object.entries(item.initialDistribution ?? {}).map(([account, amount]) => ({
+            account,
+            amount: ethers.utils.parseUnits(amount, 18),
+        })),
+        rewardPool: ethers.utils.parseUnits(item.rewardPool, 18),
+        lockTiers: item.lockTiers ?? DEFAULT_LOCK_TIERS,
+        assetPrice: item.assetPrice ?? DEFAULT_ASSET_PRICE,
+        manifestSigners: item.manifestSigners ?? ["admin"],
+    }
+}
+
+const DEFAULT_STAGING_CONFIG: StagingConfig = { rewardWaitSeconds: 30, pollIntervalMs: 5_000, timeoutMs: 600_000 }
+
+/**
+ * Returns the staging suite's waits for a network. STAGING_REWARD_WAIT_SECONDS, STAGING_POLL_INTERVAL_MS and
+ * STAGING_TIMEOUT_MS override the configured values.
+ */
+export const getStagingConfig = (networkName: string): StagingConfig => {
+    const configured = networkConfig[networkName]?.staging ?? DEFAULT_STAGING_CONFIG
+    const fromEnv = (name: string, fallback: number) => {
+        const value = process.env[name]
+        if (value === undefined) return fallback
+        if (!/^\d+$/.test(value)) throw new Error(`${name} must be a non-negative integer, got "${value}"`)
+        return Number(value)
+    }
+
+    return {
+        rewardWaitSeconds: fromEnv("STAGING_REWARD_WAIT_SECONDS", configured.rewardWaitSeconds),
+        pollIntervalMs: fromEnv("STAGING_POLL_INTERVAL_MS", configured.pollIntervalMs),
+        timeoutMs: fromEnv("STAGING_TIMEOUT_MS", configured.timeoutMs),
+    }
+}
+
+/**
+ * Where and in which format `deploy/99-update-client.ts` writes the client SDK. The path is relative to the project root.
+ */
+export const clientSdkConfig = {
+    outDir: process.env.CLIENT_SDK_DIR ?? "../nextJs/sdk",
+    format: (process.env.CLIENT_SDK_FORMAT ?? "typescript") as ClientSdkFormat,
+}
+
+if (!["typescript", "json"].includes(clientSdkConfig.format)) {
+    throw new Error(`CLIENT_SDK_FORMAT must be "typescript" or "json", got "${clientSdkConfig.format}"`)
+}
 
-const rewardsPoolAmount = 10_000
-export const TOTAL_REWARD_POOL = ethers.utils.parseUnits(rewardsPoolAmount.toString(), 18)
+const tokensPerAsset = 10
+// The default asset price, see `assetPrice` in `networkConfig`
+export const DEFAULT_ASSET_PRICE = tokensPerAsset.toString()
+export const TOKENS_PER_ASSET = ethers.utils.parseUnits(tokensPerAsset.toString(), 18)
@@ -0,0 +1,58 @@
+import hre from "hardhat"
+
+import { getContracts, getSigner } from "../tasks/helpers"
+import {
+    MAX_COMPOUND_BATCH,
+    collectAutoCompoundingAccounts,
+    compoundInBatches,
+    findCompoundableAccounts,
+} from "../utils/keeper"
+
+/**
+ * Compounds the rewards of the accounts that opted into auto-compounding, in batches.
+ *
+ * KEEPER_ACCOUNT: named account, signer index or address paying for the gas (default: deployer)
+ * KEEPER_BATCH_SIZE: accounts per transaction, at most 100 (default: 100)
+ * KEEPER_FROM_BLOCK: block to start looking for opted-in accounts from (default: the RGStaking deployment block)
+ * KEEPER_INTERVAL: seconds between rounds. Runs a single round when unset.
+ */
+async function main() {
+    const signer = await getSigner(hre, process.env.KEEPER_ACCOUNT ?? "deployer")
+    const { rGStaking } = await getContracts(hre, signer)
+    const batchSize = Number(process.env.KEEPER_BATCH_SIZE ?? MAX_COMPOUND_BATCH)
+    const interval = process.env.KEEPER_INTERVAL && Number(process.env.KEEPER_INTERVAL)
+
+    let fromBlock = Number(
+        process.env.KEEPER_FROM_BLOCK ?? (await hre.deployments.get("RGStaking")).receipt?.blockNumber ?? 0
+    )
+    const optedIn = new Set<string>()
+
+    console.log(
+        `Compounding for RGStaking at ${rGStaking.address} on ${hre.network.name}, paying gas from ${signer.address}`
+    )
+    for (;;) {
+        const toBlock = await hre.ethers.provider.getBlockNumber()
+        await collectAutoCompoundingAccounts(rGStaking, { fromBlock, toBlock, optedIn })
+        fromBlock = toBlock + 1
+
+        const compoundable = await findCompoundableAccounts(rGStaking, optedIn)
+        console.log(`${optedIn.size} accounts opted in, ${compoundable.length} can compound`)
+
+        const results = await compoundInBatches(
+            rGStaking,
+            compoundable.map(({ account }) => account),
+            batchSize
+        )
+        for (const { transactionHash, accounts, compounded, gasUsed } of results) {
+            console.log(`Compounded ${compounded}/${accounts.length} accounts in ${transactionHash} (${gasUsed} gas)`)
+        }
+
+        if (!interval) return
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+    }
+}
+
+main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+})
@@ -0,0 +1,27 @@
+import hre from "hardhat"
+
+import { getContracts, getSigner } from "../tasks/helpers"
+import { createRelayerServer } from "../utils/relayer"
+
+/**
+ * Starts a local relayer submitting signed intents, e.g. from `yarn hardhat rgs:sign-intent --relayer <url>`.
+ *
+ * RELAYER_ACCOUNT: named account, signer index or address paying for the gas (default: deployer)
+ * RELAYER_PORT: port to listen on (default: 3001)
+ */
+async function main() {
+    const signer = await getSigner(hre, process.env.RELAYER_ACCOUNT ?? "deployer")
+    const { rGToken, rGStaking } = await getContracts(hre, signer)
+    const port = Number(process.env.RELAYER_PORT ?? 3001)
+
+    const server = createRelayerServer(rGStaking, rGToken)
+    server.listen(port, () => {
+        console.log(`Relaying intents for RGStaking at ${rGStaking.address} on ${hre.network.name}`)
+        console.log(`Paying gas from ${signer.address}, listening on http://localhost:${port}/intents`)
+    })
+}
+
+main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+})
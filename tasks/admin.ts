@@ -0,0 +1,304 @@
+import { task, types } from "hardhat/config"
+
+import { RGStaking, RGStakingAccumulator } from "../typechain"
+import { buildAccountHistories, readIndexerCache, reconcile, untrackedAmount } from "../utils/event-indexer"
+import { getContracts, getSigner } from "./helpers"
+
+task("rgs:set-rate", "Changes the daily rewards per asset from now on")
+    .addParam("rate", "Daily rewards per asset in RGT, e.g. 0.2")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ rate, account }, hre) => {
+        const { parseRGT, sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+        const { formatEther } = hre.ethers.utils
+
+        const previousRate = await rGStaking.dailyRewardsPerAsset()
+
+        console.log(`Changing the daily rewards per asset to ${rate} RGT...`)
+        if (!(await sendAdminTransaction(rGStaking, "setDailyRewardsPerAsset", [parseRGT(rate)]))) return
+
+        console.table({
+            "Daily rewards per asset": {
+                Before: formatEther(previousRate),
+                After: formatEther(await rGStaking.dailyRewardsPerAsset()),
+            },
+        })
+    })
+
+task("rgs:top-up", "Approves the reward token if needed and adds it to the reward pool")
+    .addParam("amount", "Amount of reward tokens to add, e.g. 500")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ amount, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking, rewardToken } = await getContracts(hre, signer)
+        const { formatUnits, parseUnits } = hre.ethers.utils
+
+        const [decimals, symbol] = await Promise.all([rewardToken.decimals(), rewardToken.symbol()])
+        const topUpAmount = parseUnits(amount, decimals)
+        const previousPool = await rGStaking.totalRewardPool()
+
+        const allowance = await rewardToken.allowance(signer.address, rGStaking.address)
+        if (allowance.lt(topUpAmount)) {
+            console.log(`Approving ${amount} ${symbol}...`)
+            await sendAdminTransaction(rewardToken, "approve", [rGStaking.address, topUpAmount])
+        }
+
+        console.log(`Topping up the reward pool with ${amount} ${symbol}...`)
+        if (!(await sendAdminTransaction(rGStaking, "topUpRewardPool", [topUpAmount]))) return
+
+        console.table({
+            "Total reward pool": {
+                Before: formatUnits(previousPool, decimals),
+                After: formatUnits(await rGStaking.totalRewardPool(), decimals),
+            },
+        })
+    })
+
+task("rgs:set-tier", "Adds a lock tier or changes an existing one. Locked positions keep their terms.")
+    .addParam("tier", "Id of the tier to change, or the number of tiers to add one", undefined, types.int)
+    .addParam("days", "Lock duration in days, 0 disables the tier", undefined, types.int)
+    .addParam("multiplier", "Reward multiplier in basis points, e.g. 12500 for 1.25x", undefined, types.int)
+    .addOptionalParam("penalty", "Early-exit penalty in basis points, e.g. 1000 for 10%", 0, types.int)
+    .addFlag("blockEarlyExit", "Block redemptions before the unlock time instead of charging the penalty")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ tier, days, multiplier, penalty, blockEarlyExit, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log(`Setting lock tier ${tier}...`)
+        const args = [tier, days * 86_400, multiplier, penalty, !blockEarlyExit]
+        if (!(await sendAdminTransaction(rGStaking, "setLockTier", args))) return
+
+        await hre.run("rgs:tiers")
+    })
+
+task("rgs:set-vesting", "Makes claimed rewards vest linearly, or pays claims out immediately with --days 0")
+    .addParam("days", "Vesting duration of new claims in days, 0 turns vesting off", undefined, types.float)
+    .addOptionalParam("forfeit", "Share forfeited to release rewards early in basis points, e.g. 5000", 0, types.int)
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ days, forfeit, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log(`Setting the vesting of claims to ${days} days with a ${forfeit / 100}% forfeit...`)
+        const args = [Math.round(days * 86_400), forfeit]
+        if (!(await sendAdminTransaction(rGStaking, "setVestingTerms", args))) return
+
+        console.table({
+            "Vesting duration (days)": (await rGStaking.vestingDuration()).toNumber() / 86_400,
+            "Forfeit to accelerate": `${(await rGStaking.vestingForfeitBps()).toNumber() / 100}%`,
+        })
+    })
+
+task("rgs:start-emission", "Funds RGStakingAccumulator and emits the rewards evenly over the given number of days")
+    .addParam("amount", "Amount of RGT to add, e.g. 5000. Rewards not emitted yet roll over.")
+    .addParam("days", "Duration of the emission in days", undefined, types.int)
+    .addOptionalParam("account", "Named account, signer index or address of the owner", "owner")
+    .setAction(async ({ amount, days, account }, hre) => {
+        const { parseRGT, sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGToken } = await getContracts(hre, signer)
+        const rGStakingAccumulator: RGStakingAccumulator = await hre.ethers.getContract("RGStakingAccumulator", signer)
+        const { formatEther } = hre.ethers.utils
+
+        const fundedAmount = parseRGT(amount)
+        const allowance = await rGToken.allowance(signer.address, rGStakingAccumulator.address)
+        if (allowance.lt(fundedAmount)) {
+            console.log(`Approving ${amount} RGT...`)
+            await sendAdminTransaction(rGToken, "approve", [rGStakingAccumulator.address, fundedAmount])
+        }
+
+        console.log(`Emitting ${amount} RGT and the rewards not emitted yet over ${days} days...`)
+        if (!(await sendAdminTransaction(rGStakingAccumulator, "startEmission", [fundedAmount, days * 86_400]))) return
+
+        const [emissionRate, emissionEnd, totalRewardPool] = await Promise.all([
+            rGStakingAccumulator.emissionRate(),
+            rGStakingAccumulator.emissionEnd(),
+            rGStakingAccumulator.totalRewardPool(),
+        ])
+        console.table({
+            "Emission per day": formatEther(emissionRate.mul(86_400)),
+            "Emission end": new Date(emissionEnd.toNumber() * 1000).toISOString(),
+            "Rewards not emitted yet": formatEther(totalRewardPool),
+        })
+    })
+
+const ROLE_NAMES = ["admin", "pauser"] as const
+
+const getRole = async (rGStaking: RGStaking, role: string) => {
+    if (role === "admin") return rGStaking.DEFAULT_ADMIN_ROLE()
+    if (role === "pauser") return rGStaking.PAUSER_ROLE()
+    throw new Error(`Unknown role "${role}". Use one of: ${ROLE_NAMES.join(", ")}.`)
+}
+
+task("rgs:roles", "Prints the RGStaking roles of an account and whether the contract is paused")
+    .addOptionalParam("address", "Named account, signer index or address", "admin")
+    .setAction(async ({ address }, hre) => {
+        const account = hre.ethers.utils.isAddress(address) ? address : (await getSigner(hre, address)).address
+        const { rGStaking } = await getContracts(hre)
+
+        console.log(`Account: ${account}`)
+        console.table(
+            Object.fromEntries(
+                await Promise.all(
+                    ROLE_NAMES.map(async (role) => [
+                        role,
+                        { Granted: await rGStaking.hasRole(await getRole(rGStaking, role), account) },
+                    ])
+                )
+            )
+        )
+        console.log(`Paused: ${await rGStaking.paused()}`)
+    })
+
+task("rgs:grant-role", "Grants an RGStaking role to an address")
+    .addParam("role", `One of: ${ROLE_NAMES.join(", ")}`)
+    .addParam("address", "Address to grant the role to")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ role, address, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log(`Granting ${role} to ${address}...`)
+        if (!(await sendAdminTransaction(rGStaking, "grantRole", [await getRole(rGStaking, role), address]))) return
+
+        await hre.run("rgs:roles", { address })
+    })
+
+task("rgs:revoke-role", "Revokes an RGStaking role from an address")
+    .addParam("role", `One of: ${ROLE_NAMES.join(", ")}`)
+    .addParam("address", "Address to revoke the role from")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ role, address, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log(`Revoking ${role} from ${address}...`)
+        if (!(await sendAdminTransaction(rGStaking, "revokeRole", [await getRole(rGStaking, role), address]))) return
+
+        await hre.run("rgs:roles", { address })
+    })
+
+task("rgs:pause", "Pauses purchases and claims. Redemptions and emergency withdrawals keep working.")
+    .addOptionalParam("account", "Named account, signer index or address of the pauser", "pauser")
+    .setAction(async ({ account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log("Pausing RGStaking...")
+        if (!(await sendAdminTransaction(rGStaking, "pause"))) return
+
+        console.log(`Paused: ${await rGStaking.paused()}`)
+    })
+
+task("rgs:unpause", "Resumes purchases and claims")
+    .addOptionalParam("account", "Named account, signer index or address of the pauser", "pauser")
+    .setAction(async ({ account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log("Unpausing RGStaking...")
+        if (!(await sendAdminTransaction(rGStaking, "unpause"))) return
+
+        console.log(`Paused: ${await rGStaking.paused()}`)
+    })
+
+task(
+    "rgs:recover-surplus",
+    "Sends the tokens RGStaking doesn't owe anyone, and the reward pool after a sunset, to an address"
+)
+    .addOptionalParam("to", "Address to send the tokens to (defaults to the admin)")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ to, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking, stakingToken, rewardToken } = await getContracts(hre, signer)
+        const { formatUnits } = hre.ethers.utils
+
+        const [rewards, stakingTokens] = await Promise.all([
+            rGStaking.recoverableRewards(),
+            rGStaking.recoverableStakingTokens(),
+        ])
+        if (rewards.isZero() && stakingTokens.isZero()) return console.log("Nothing to recover.")
+
+        const [rewardDecimals, rewardSymbol, stakingDecimals, stakingSymbol] = await Promise.all([
+            rewardToken.decimals(),
+            rewardToken.symbol(),
+            stakingToken.decimals(),
+            stakingToken.symbol(),
+        ])
+        const amounts = [
+            `${formatUnits(rewards, rewardDecimals)} ${rewardSymbol}`,
+            ...(stakingTokens.isZero() ? [] : [`${formatUnits(stakingTokens, stakingDecimals)} ${stakingSymbol}`]),
+        ]
+
+        console.log(`Recovering ${amounts.join(" and ")}...`)
+        if (!(await sendAdminTransaction(rGStaking, "recoverSurplusRewards", [to ?? signer.address]))) return
+
+        console.log(
+            `Total reward pool: ${formatUnits(await rGStaking.totalRewardPool(), rewardDecimals)} ${rewardSymbol}`
+        )
+    })
+
+task("rgs:initialize-roles", "Grants the roles of an RGStaking deployed before roles existed, as its owner")
+    .addOptionalParam("account", "Named account, signer index or address of the owner", "owner")
+    .setAction(async ({ account }, hre) => {
+        const { defaultCacheFile } = await import("./indexer")
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+        const { admin, pauser } = await hre.getNamedAccounts()
+
+        // The totals only count the changes since the upgrade, so reconstruct the rest from the events. Reading the
+        // contract at the last indexed block keeps transactions mined meanwhile from being counted twice.
+        const cacheFile = defaultCacheFile(hre)
+        await hre.run("rgs:index", { cache: cacheFile })
+        const { events, lastIndexedBlock: blockTag } = readIndexerCache(cacheFile)!
+        const { assetsOutstanding, rewardsSettledUnclaimed } = reconcile(
+            events,
+            await rGStaking.totalRewardPool({ blockTag })
+        )
+        const assetsAtUpgrade = untrackedAmount(assetsOutstanding, await rGStaking.totalAssetsStaked({ blockTag }))
+        const rewardsAtUpgrade = untrackedAmount(
+            rewardsSettledUnclaimed,
+            await rGStaking.totalCreditedRewards({ blockTag })
+        )
+
+        console.log(`Granting admin to ${admin} and pauser to ${pauser}...`)
+        console.log(`Assets outstanding: ${assetsOutstanding}, rewards credited: ${rewardsSettledUnclaimed}`)
+        const args = [admin, pauser, assetsAtUpgrade, rewardsAtUpgrade]
+        if (!(await sendAdminTransaction(rGStaking, "initializeRoles", args))) return
+
+        await hre.run("rgs:roles", { address: admin })
+    })
+
+task("rgs:initialize-stakers", "Sets the active staker count of an RGStaking deployed before it was tracked")
+    .addOptionalParam("account", "Named account, signer index or address of the admin", "admin")
+    .setAction(async ({ account }, hre) => {
+        const { defaultCacheFile } = await import("./indexer")
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        // The count only counts the changes since the upgrade, so reconstruct the rest from the events, as of the last
+        // indexed block like rgs:initialize-roles
+        const cacheFile = defaultCacheFile(hre)
+        await hre.run("rgs:index", { cache: cacheFile })
+        const { events, lastIndexedBlock: blockTag } = readIndexerCache(cacheFile)!
+        const histories = Object.values(buildAccountHistories(events))
+        const activeStakers = histories.filter(({ assetBalance }) => assetBalance.gt(0)).length
+        const stakersAtUpgrade = untrackedAmount(activeStakers, await rGStaking.activeStakers({ blockTag }))
+
+        console.log(`Active stakers at block ${blockTag}: ${activeStakers}`)
+        if (!(await sendAdminTransaction(rGStaking, "initializeStakerCount", [stakersAtUpgrade]))) return
+
+        console.log(`Active stakers: ${await rGStaking.activeStakers()}`)
+    })
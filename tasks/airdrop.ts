@@ -0,0 +1,187 @@
+import { ethers } from "ethers"
+import fs from "fs-extra"
+import path from "path"
+
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { ERC20, RGMerkleDistributor } from "../typechain"
+import {
+    AllocationFormula,
+    MerkleAirdrop,
+    allocate,
+    allocationFormulas,
+    buildMerkleAirdrop,
+    snapshotStakers,
+    verifyMerkleProof,
+} from "../utils/merkle-airdrop"
+import { getContracts, getSigner } from "./helpers"
+
+// What `rgs:airdrop-snapshot` writes, and `rgs:airdrop-create` completes with the id of the funded distribution
+type AirdropFile = MerkleAirdrop & {
+    network: string
+    blockNumber: number
+    formula: string
+    tokenAddress: string
+    snapshot: { account: string; assetBalance: string; rewardsClaimable: string }[]
+    distributionId?: number
+}
+
+const FORMULAS = ["per-asset", "rewards-match", "pro-rata-assets", "pro-rata-rewards"]
+
+const getDistributor = async (hre: HardhatRuntimeEnvironment, signer?: string) => {
+    const rGMerkleDistributor: RGMerkleDistributor = await hre.ethers.getContract("RGMerkleDistributor", signer)
+    const token: ERC20 = await hre.ethers.getContractAt("ERC20", await rGMerkleDistributor.tokenAddress(), signer)
+    return { rGMerkleDistributor, token }
+}
+
+const readAirdropFile = (file: string): AirdropFile => {
+    if (!fs.existsSync(file)) throw new Error(`No airdrop at ${file}. Run rgs:airdrop-snapshot first.`)
+    return fs.readJSONSync(file)
+}
+
+const parseFormula = (
+    formula: string,
+    { amount, bps }: { amount?: string; bps?: number },
+    decimals: number
+): AllocationFormula => {
+    const required = <T>(value: T | undefined, name: string): T => {
+        if (value === undefined) throw new Error(`--${name} is required by the ${formula} formula`)
+        return value
+    }
+    const tokenAmount = () => ethers.utils.parseUnits(required(amount, "amount"), decimals)
+
+    switch (formula) {
+        case "per-asset":
+            return allocationFormulas.perAsset(tokenAmount())
+        case "rewards-match":
+            return allocationFormulas.rewardsMatch(required(bps, "bps"))
+        case "pro-rata-assets":
+            return allocationFormulas.proRata(tokenAmount(), "assets")
+        case "pro-rata-rewards":
+            return allocationFormulas.proRata(tokenAmount(), "rewards")
+        default:
+            throw new Error(`Unknown formula "${formula}". Use one of: ${FORMULAS.join(", ")}.`)
+    }
+}
+
+task("rgs:airdrop-snapshot", "Snapshots every staker and writes the Merkle tree of their allocations")
+    .addOptionalParam("block", "Block to snapshot (defaults to the latest block)", undefined, types.int)
+    .addParam("formula", `Allocation formula: ${FORMULAS.join(", ")}`)
+    .addOptionalParam("amount", "Tokens per asset for per-asset, tokens to split for the pro-rata formulas")
+    .addOptionalParam(
+        "bps",
+        "Share of the claimable rewards for rewards-match, e.g. 5000 for half",
+        undefined,
+        types.int
+    )
+    .addOptionalParam("out", "Path to write the airdrop to (defaults to airdrops/<network>-<block>.json)")
+    .setAction(async ({ block, formula, amount, bps, out }, hre) => {
+        const { rGStaking } = await getContracts(hre)
+        const { token } = await getDistributor(hre)
+        const blockNumber: number = block ?? (await hre.ethers.provider.getBlockNumber())
+
+        const allocationFormula = parseFormula(formula, { amount, bps }, await token.decimals())
+
+        const deployment = await hre.deployments.get("RGStaking")
+        const snapshot = await snapshotStakers(rGStaking, {
+            fromBlock: deployment.receipt?.blockNumber ?? 0,
+            blockNumber,
+        })
+        const airdrop = buildMerkleAirdrop(allocate(snapshot, allocationFormula))
+
+        const file = out ?? path.resolve(hre.config.paths.root, "airdrops", `${hre.network.name}-${blockNumber}.json`)
+        const airdropFile: AirdropFile = {
+            network: hre.network.name,
+            blockNumber,
+            formula: [formula, amount ?? bps].join(" "),
+            tokenAddress: token.address,
+            snapshot: snapshot.map(({ account, assetBalance, rewardsClaimable }) => ({
+                account,
+                assetBalance: assetBalance.toString(),
+                rewardsClaimable: rewardsClaimable.toString(),
+            })),
+            ...airdrop,
+        }
+        fs.outputJSONSync(file, airdropFile, { spaces: 4 })
+
+        const { formatUnits } = ethers.utils
+        console.log(`Snapshotted ${snapshot.length} stakers at block ${blockNumber}.`)
+        console.log(
+            `Allocated ${formatUnits(airdrop.totalAmount, await token.decimals())} ${await token.symbol()} to ` +
+                `${Object.keys(airdrop.claims).length} accounts, Merkle root ${airdrop.merkleRoot}. Wrote ${file}`
+        )
+    })
+
+task("rgs:airdrop-create", "Funds an RGMerkleDistributor distribution with an airdrop written by rgs:airdrop-snapshot")
+    .addParam("file", "Path to the airdrop")
+    .addOptionalParam("days", "Days the allocations can be claimed for", 90, types.int)
+    .addOptionalParam("account", "Named account, signer index or address of the distributor owner", "admin")
+    .setAction(async ({ file, days, account }, hre) => {
+        const airdrop = readAirdropFile(file)
+        if (airdrop.distributionId !== undefined) {
+            throw new Error(`${file} is already distribution ${airdrop.distributionId}`)
+        }
+
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGMerkleDistributor, token } = await getDistributor(hre, signer.address)
+        if (token.address !== airdrop.tokenAddress) {
+            throw new Error(`${file} allocates ${airdrop.tokenAddress}, but the distributor pays ${token.address}`)
+        }
+
+        const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+        const allowance = await token.allowance(signer.address, rGMerkleDistributor.address)
+        if (allowance.lt(airdrop.totalAmount)) {
+            console.log(`Approving ${ethers.utils.formatUnits(airdrop.totalAmount, decimals)} ${symbol}...`)
+            await sendAdminTransaction(token, "approve", [rGMerkleDistributor.address, airdrop.totalAmount])
+        }
+
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+        const receipt = await sendAdminTransaction(rGMerkleDistributor, "createDistribution", [
+            airdrop.merkleRoot,
+            airdrop.totalAmount,
+            timestamp + days * 86_400,
+        ])
+        if (!receipt) {
+            // The id is only known once the Safe executes the batch
+            console.log(
+                `Set "distributionId" in ${file} to the id of its DistributionCreated event once it's executed.`
+            )
+            return
+        }
+        const { args } = rGMerkleDistributor.interface.parseLog(
+            receipt.logs.find(({ address }) => address === rGMerkleDistributor.address)!
+        )
+
+        fs.outputJSONSync(file, { ...airdrop, distributionId: args.distributionId.toNumber() }, { spaces: 4 })
+        console.log(`Created distribution ${args.distributionId} claimable for ${days} days. Updated ${file}`)
+    })
+
+task("rgs:airdrop-claim", "Claims an account's allocation from an airdrop funded with rgs:airdrop-create")
+    .addParam("file", "Path to the airdrop")
+    .addOptionalParam("account", "Named account, signer index or address sending the claim", "deployer")
+    .addOptionalParam("for", "Address to claim for (defaults to the sending account)")
+    .setAction(async ({ file, account, for: claimFor }, hre) => {
+        const airdrop = readAirdropFile(file)
+        if (airdrop.distributionId === undefined) throw new Error(`${file} wasn't funded yet. Run rgs:airdrop-create.`)
+
+        const signer = await getSigner(hre, account)
+        const beneficiary = ethers.utils.getAddress(claimFor ?? signer.address)
+        const claim = airdrop.claims[beneficiary]
+        if (!claim) throw new Error(`${beneficiary} isn't allocated anything in ${file}`)
+        if (!verifyMerkleProof(airdrop.merkleRoot, beneficiary, claim.amount, claim.proof)) {
+            throw new Error(`The proof of ${beneficiary} in ${file} doesn't match its Merkle root`)
+        }
+
+        const { rGMerkleDistributor, token } = await getDistributor(hre, signer.address)
+        if (await rGMerkleDistributor.isClaimed(airdrop.distributionId, beneficiary)) {
+            console.log(`${beneficiary} already claimed its allocation.`)
+            return
+        }
+
+        const claimTx = await rGMerkleDistributor.claim(airdrop.distributionId, beneficiary, claim.amount, claim.proof)
+        await claimTx.wait(1)
+        const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()])
+        console.log(`Claimed ${ethers.utils.formatUnits(claim.amount, decimals)} ${symbol} for ${beneficiary}.`)
+    })
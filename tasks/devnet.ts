@@ -0,0 +1,118 @@
+import fs from "fs-extra"
+import path from "path"
+
+import { TASK_NODE, TASK_NODE_SERVER_READY } from "hardhat/builtin-tasks/task-names"
+import { subtask, task, types } from "hardhat/config"
+
+import { assignScenarioAccounts, fundAccounts, seedScenario } from "../utils/devnet"
+import { parseScenario } from "../utils/reward-simulator"
+import { getContracts, getSigner, getStakingSummary } from "./helpers"
+
+type DevnetOptions = {
+    accounts: number
+    fund: string
+    scenario?: string
+}
+
+// Set by the devnet task so the node seeds the chain once its server is up, unset for a plain `hardhat node`
+let devnetOptions: DevnetOptions | undefined
+
+task("devnet", "Starts a local node, deploys the contracts and funds test accounts, seeding them from a scenario")
+    .addOptionalParam("accounts", "Number of test accounts to fund, from signer 1 on", 5, types.int)
+    .addOptionalParam("fund", "RGT sent to each test account, e.g. 10000", "10000", types.string)
+    .addOptionalParam("scenario", "Path to a simulator scenario JSON file to replay, see scenarios/")
+    .addOptionalParam("hostname", "The host to which to bind to for new connections", "127.0.0.1", types.string)
+    .addOptionalParam("port", "The port on which to listen for new connections", 8545, types.int)
+    .setAction(async ({ accounts, fund, scenario, hostname, port }, hre) => {
+        if (hre.network.name !== "hardhat") throw new Error("The devnet runs on the hardhat network, drop --network.")
+
+        devnetOptions = { accounts, fund, scenario }
+        await hre.run(TASK_NODE, { hostname, port })
+    })
+
+subtask(TASK_NODE_SERVER_READY).setAction(async (args, hre, runSuper) => {
+    await runSuper(args)
+    if (!devnetOptions) return
+
+    const { accounts, fund, scenario: scenarioPath } = devnetOptions
+    // Parsed before sending anything, so a bad scenario fails fast
+    const scenario = scenarioPath && parseScenario(fs.readJSONSync(path.resolve(scenarioPath)))
+
+    const deployer = await getSigner(hre, "deployer")
+    const contracts = await getContracts(hre)
+    const testAccounts = (await hre.ethers.getSigners()).slice(1, accounts + 1)
+    if (testAccounts.length < accounts) {
+        throw new Error(`The hardhat network only has ${testAccounts.length} test accounts`)
+    }
+
+    console.log(`Funding ${testAccounts.length} accounts with ${fund} RGT each...`)
+    await fundAccounts(contracts, deployer, testAccounts, hre.ethers.utils.parseUnits(fund, 18))
+
+    if (scenario) {
+        console.log(`Replaying ${scenarioPath}...`)
+        const seeded = await seedScenario(hre, contracts, scenario, {
+            admin: await getSigner(hre, "admin"),
+            accounts: assignScenarioAccounts(scenario, testAccounts),
+        })
+        console.table(
+            seeded.map(({ event, account, timestamp, revertedWith }) => ({
+                Time: new Date(timestamp * 1000).toISOString(),
+                Event: event.type,
+                Account: account ?? "admin",
+                Result: revertedWith ?? "ok",
+            }))
+        )
+    }
+
+    await hre.run("devnet:dashboard", { accounts })
+    console.log("Devnet ready. Use --network localhost to talk to it.")
+})
+
+task("devnet:time-travel", "Moves the time of a local chain forward and mines a block")
+    .addOptionalParam("days", "Days to move forward", 0, types.float)
+    .addOptionalParam("hours", "Hours to move forward", 0, types.float)
+    .addOptionalParam("seconds", "Seconds to move forward", 0, types.int)
+    .setAction(async ({ days, hours, seconds }, hre) => {
+        const { isLocalNetwork } = await import("../helper-functions")
+        if (!isLocalNetwork) throw new Error(`Time can't be moved on ${hre.network.name}, only on local networks.`)
+
+        const total = Math.floor(days * 86_400 + hours * 3_600 + seconds)
+        if (total <= 0) throw new Error("Pass a positive --days, --hours or --seconds.")
+
+        await hre.network.provider.send("evm_increaseTime", [total])
+        await hre.network.provider.send("evm_mine")
+
+        const { number, timestamp } = await hre.ethers.provider.getBlock("latest")
+        console.log(
+            `Moved ${total} seconds forward. Block ${number} is at ${new Date(timestamp * 1000).toISOString()}.`
+        )
+    })
+
+task("devnet:dashboard", "Prints the staking position of the deployer and the test accounts")
+    .addOptionalParam("accounts", "Number of test accounts to include, from signer 1 on", 5, types.int)
+    .setAction(async ({ accounts }, hre) => {
+        const { rGToken, rGStaking } = await getContracts(hre)
+        const signers = (await hre.ethers.getSigners()).slice(0, accounts + 1)
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+        const { formatEther } = hre.ethers.utils
+
+        console.log(`Block time: ${new Date(timestamp * 1000).toISOString()}`)
+        console.log(`Reward pool initialized: ${await rGStaking.isRewardPoolInitialized()}`)
+        console.log(`Total reward pool: ${formatEther(await rGStaking.totalRewardPool())} RGT`)
+        console.log(`Daily rewards per asset: ${formatEther(await rGStaking.dailyRewardsPerAsset())} RGT`)
+
+        // Keyed by signer index, which the other tasks take as --account
+        const rows: { [signer: number]: object } = {}
+        for (const [index, { address }] of signers.entries()) {
+            const summary = await getStakingSummary(rGToken, rGStaking, address)
+            rows[index] = {
+                Address: address,
+                "RGT balance": formatEther(summary.rGTBalance),
+                Assets: summary.assetBalance.toString(),
+                Locked: (await rGStaking.lockedAssetBalance(address)).toString(),
+                "Rewards claimable": formatEther(summary.currentRewardsClaimable),
+                "Auto-compound": await rGStaking.isAutoCompounding(address),
+            }
+        }
+        console.table(rows)
+    })
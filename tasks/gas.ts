@@ -0,0 +1,82 @@
+import fs from "fs-extra"
+import path from "path"
+
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import {
+    GasBaseline,
+    buildGasBaseline,
+    compareGas,
+    describeGasFailures,
+    formatGasDiff,
+    measureGasScenarios,
+} from "../utils/gas-benchmark"
+import { getContracts } from "./helpers"
+
+export const defaultGasBaselineFile = ({ config }: HardhatRuntimeEnvironment) =>
+    path.resolve(config.paths.root, "gas-baseline.json")
+
+task("rgs:gas", "Measures the gas of the RGStaking entry points and fails on regressions against the baseline")
+    .addOptionalParam("baseline", "Path to the baseline (defaults to gas-baseline.json)")
+    .addOptionalParam("tolerance", "Allowed increase in percent, overriding the baseline's", undefined, types.float)
+    .addOptionalParam("toleranceGas", "Allowed increase in gas, overriding the baseline's", undefined, types.int)
+    .addOptionalParam("gasPrice", "Gas price in gwei to estimate the costs at", 25, types.float)
+    .addFlag("update", "Writes the measurements to the baseline instead of comparing them")
+    .setAction(async ({ baseline: baselinePath, tolerance, toleranceGas, gasPrice, update }, hre) => {
+        if (hre.network.name !== "hardhat") throw new Error("rgs:gas measures on the hardhat network.")
+        const { formatEther, parseUnits } = hre.ethers.utils
+
+        await hre.deployments.fixture()
+        const measured = await measureGasScenarios(hre, await getContracts(hre))
+
+        const file = baselinePath ?? defaultGasBaselineFile(hre)
+        const baseline: GasBaseline | undefined = fs.existsSync(file) ? fs.readJSONSync(file) : undefined
+        const cost = (gas: number) => formatEther(parseUnits(gasPrice.toString(), "gwei").mul(gas))
+
+        if (update || !baseline) {
+            fs.outputJSONSync(file, buildGasBaseline(measured, baseline), { spaces: 4 })
+            console.table(
+                Object.fromEntries(
+                    Object.entries(measured).map(([scenario, gasUsed]) => [
+                        scenario,
+                        { "Gas used": gasUsed, [`Cost at ${gasPrice} gwei`]: cost(gasUsed) },
+                    ])
+                )
+            )
+            console.log(`Wrote the gas baseline to ${file}`)
+            return
+        }
+
+        const comparisons = compareGas(baseline, measured, {
+            ...(tolerance !== undefined && { percent: tolerance }),
+            ...(toleranceGas !== undefined && { gas: toleranceGas }),
+        })
+        console.table(
+            Object.fromEntries(
+                comparisons.map(({ scenario, baseline: expected, measured: gasUsed, allowed, status }) => [
+                    scenario,
+                    {
+                        Baseline: expected ?? "",
+                        Measured: gasUsed ?? "",
+                        Diff: expected !== undefined && gasUsed !== undefined ? formatGasDiff(expected, gasUsed) : "",
+                        Allowed: allowed ?? "",
+                        [`Cost at ${gasPrice} gwei`]: gasUsed !== undefined ? cost(gasUsed) : "",
+                        Status: status,
+                    },
+                ])
+            )
+        )
+
+        const failures = describeGasFailures(comparisons)
+        if (failures.length > 0) {
+            throw new Error(
+                `Gas doesn't match ${file}:\n${failures.join("\n")}\n` +
+                    "Run rgs:gas --update to accept the new measurements."
+            )
+        }
+        if (comparisons.some(({ status }) => status === "improvement")) {
+            console.log("Some scenarios got cheaper, run rgs:gas --update to record it.")
+        }
+        console.log("Gas is within the tolerances of the baseline.")
+    })
@@ -0,0 +1,127 @@
+import { BigNumber, utils } from "ethers"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+
+import { ERC20, RGStaking, RGToken } from "../typechain"
+
+export type StakingSummary = {
+    rGTBalance: BigNumber
+    assetBalance: BigNumber
+    currentRewardsClaimable: BigNumber
+    totalRewardPool: BigNumber
+}
+
+/**
+ * Resolves the signer to act as. `account` may be a named account from `namedAccounts`, a signer index or an address.
+ * Defaults to the deployer.
+ */
+export const getSigner = async (
+    { ethers, getNamedAccounts }: HardhatRuntimeEnvironment,
+    account: string = "deployer"
+): Promise<SignerWithAddress> => {
+    const namedAccounts = await getNamedAccounts()
+
+    if (account in namedAccounts) return ethers.getSigner(namedAccounts[account])
+    if (ethers.utils.isAddress(account)) return ethers.getSigner(account)
+
+    const signers = await ethers.getSigners()
+    const signer = /^\d+$/.test(account) ? signers[Number(account)] : undefined
+    if (!signer) throw new Error(`Unknown account "${account}". Use a named account, a signer index or an address.`)
+
+    return signer
+}
+
+/**
+ * Resolves the deployed RGToken and RGStaking recorded by hardhat-deploy for the selected network, and the tokens
+ * RGStaking sells assets for and pays rewards in, which are RGToken unless it was deployed with other tokens.
+ */
+export const getContracts = async ({ ethers }: HardhatRuntimeEnvironment, signer?: SignerWithAddress) => {
+    const rGToken: RGToken = await ethers.getContract("RGToken", signer)
+    const rGStaking: RGStaking = await ethers.getContract("RGStaking", signer)
+    const stakingToken: ERC20 = await ethers.getContractAt("ERC20", await rGStaking.stakingTokenAddress(), signer)
+    const rewardToken: ERC20 = await ethers.getContractAt("ERC20", await rGStaking.rewardTokenAddress(), signer)
+
+    return { rGToken, rGStaking, stakingToken, rewardToken }
+}
+
+/**
+ * Converts either a number of assets or a human staking token amount into a number of assets.
+ * A token amount must buy a whole number of assets.
+ */
+export const resolveAssets = async (
+    { rGStaking, stakingToken }: { rGStaking: RGStaking; stakingToken: ERC20 },
+    assets?: number,
+    tokens?: string
+): Promise<BigNumber> => {
+    if ((assets === undefined) === (tokens === undefined)) throw new Error("Pass exactly one of --assets or --tokens.")
+    if (assets !== undefined) return BigNumber.from(assets)
+
+    const [assetPrice, decimals, symbol] = await Promise.all([
+        rGStaking.assetPrice(),
+        stakingToken.decimals(),
+        stakingToken.symbol(),
+    ])
+    const amount = utils.parseUnits(tokens!, decimals)
+    if (!amount.mod(assetPrice).isZero()) {
+        throw new Error(
+            `${tokens} ${symbol} is not a whole number of assets (1 asset = ${utils.formatUnits(
+                assetPrice,
+                decimals
+            )} ${symbol}).`
+        )
+    }
+
+    return amount.div(assetPrice)
+}
+
+export const getStakingSummary = async (
+    rGToken: RGToken,
+    rGStaking: RGStaking,
+    account: string
+): Promise<StakingSummary> => {
+    const [rGTBalance, assetBalance, currentRewardsClaimable, totalRewardPool] = await Promise.all([
+        rGToken.balanceOf(account),
+        rGStaking.assetBalance(account),
+        rGStaking.currentRewardsClaimable(account),
+        rGStaking.totalRewardPool(),
+    ])
+
+    return { rGTBalance, assetBalance, currentRewardsClaimable, totalRewardPool }
+}
+
+const formatSummary = ({ ethers }: HardhatRuntimeEnvironment, summary: StakingSummary) => ({
+    "RGT balance": ethers.utils.formatEther(summary.rGTBalance),
+    "Asset balance": summary.assetBalance.toString(),
+    "Rewards claimable": ethers.utils.formatEther(summary.currentRewardsClaimable),
+    "Total reward pool": ethers.utils.formatEther(summary.totalRewardPool),
+})
+
+export const printSummary = (hre: HardhatRuntimeEnvironment, account: string, summary: StakingSummary) => {
+    console.log(`Account: ${account}`)
+    console.table(formatSummary(hre, summary))
+}
+
+export const printBeforeAfter = (
+    hre: HardhatRuntimeEnvironment,
+    account: string,
+    before: StakingSummary,
+    after: StakingSummary
+) => {
+    const beforeRows = formatSummary(hre, before)
+    const afterRows = formatSummary(hre, after)
+
+    console.log(`Account: ${account}`)
+    console.table(
+        Object.fromEntries(
+            Object.keys(beforeRows).map((key) => [
+                key,
+                {
+                    Before: beforeRows[key as keyof typeof beforeRows],
+                    After: afterRows[key as keyof typeof afterRows],
+                },
+            ])
+        )
+    )
+}
@@ -0,0 +1,14 @@
+import "./admin"
+import "./airdrop"
+import "./devnet"
+import "./gas"
+import "./indexer"
+import "./intents"
+import "./manifest"
+import "./safe"
+import "./simulate"
+import "./staging"
+import "./staking"
+import "./token"
+import "./upgrade"
+import "./verify"
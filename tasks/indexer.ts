@@ -0,0 +1,80 @@
+import path from "path"
+
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import {
+    buildAccountHistories,
+    exportStatements,
+    indexEvents,
+    readIndexerCache,
+    reconcile,
+} from "../utils/event-indexer"
+import { getContracts } from "./helpers"
+
+export const defaultCacheFile = ({ config, network }: HardhatRuntimeEnvironment) =>
+    path.resolve(config.paths.root, ".indexer", `${network.name}.json`)
+
+task("rgs:index", "Indexes RGStaking events into a local cache, resuming where the last run stopped")
+    .addOptionalParam(
+        "fromBlock",
+        "First block to scan (defaults to the RGStaking deployment block)",
+        undefined,
+        types.int
+    )
+    .addOptionalParam("toBlock", "Last block to scan (defaults to the latest block)", undefined, types.int)
+    .addOptionalParam("chunkSize", "Number of blocks per getLogs request", 2_000, types.int)
+    .addOptionalParam("cache", "Path to the cache file (defaults to .indexer/<network>.json)")
+    .setAction(async ({ fromBlock, toBlock, chunkSize, cache }, hre) => {
+        const { rGStaking } = await getContracts(hre)
+        const deployment = await hre.deployments.get("RGStaking")
+
+        const indexed = await indexEvents(rGStaking, {
+            cacheFile: cache ?? defaultCacheFile(hre),
+            fromBlock: fromBlock ?? deployment.receipt?.blockNumber ?? 0,
+            toBlock: toBlock ?? (await hre.ethers.provider.getBlockNumber()),
+            chunkSize,
+            onChunk: (start, end, eventCount) => console.log(`Indexed blocks ${start}-${end}: ${eventCount} events`),
+        })
+
+        console.log(`${indexed.events.length} events indexed up to block ${indexed.lastIndexedBlock}.`)
+    })
+
+task("rgs:export", "Exports per-account statements from the indexer cache and reconciles the reward pool")
+    .addOptionalParam("format", "csv or json", "csv")
+    .addOptionalParam("out", "Directory to write the statements to", "statements")
+    .addOptionalParam("account", "Only export this account")
+    .addOptionalParam("cache", "Path to the cache file (defaults to .indexer/<network>.json)")
+    .setAction(async ({ format, out, account, cache }, hre) => {
+        if (!["csv", "json"].includes(format)) throw new Error('--format must be "csv" or "json"')
+
+        const cacheFile = cache ?? defaultCacheFile(hre)
+        const indexed = readIndexerCache(cacheFile)
+        if (!indexed) throw new Error(`No indexer cache at ${cacheFile}. Run rgs:index first.`)
+
+        const histories = Object.values(buildAccountHistories(indexed.events)).filter(
+            (history) => !account || history.account.toLowerCase() === account.toLowerCase()
+        )
+        const files = exportStatements(histories, path.resolve(out), format)
+        console.log(`Wrote ${files.length} statements to ${path.resolve(out)}`)
+
+        // The reward pool as of the last indexed block, as later events aren't in the cache
+        const { rGStaking } = await getContracts(hre)
+        const reconciliation = reconcile(
+            indexed.events,
+            await rGStaking.totalRewardPool({ blockTag: indexed.lastIndexedBlock }),
+            (await rGStaking.stakingTokenAddress()) === (await rGStaking.rewardTokenAddress())
+        )
+        const { formatEther } = hre.ethers.utils
+
+        console.log(`Reconciliation up to block ${indexed.lastIndexedBlock}:`)
+        console.table({
+            "Reward pool funded": formatEther(reconciliation.rewardPoolFunded),
+            "Rewards claimed": formatEther(reconciliation.rewardsClaimed),
+            "Rewards compounded": formatEther(reconciliation.rewardsCompounded),
+            "Rewards forfeited": formatEther(reconciliation.rewardsForfeited),
+            "Total reward pool": formatEther(reconciliation.totalRewardPool),
+            "Settled, unclaimed": formatEther(reconciliation.rewardsSettledUnclaimed),
+            "Assets outstanding": reconciliation.assetsOutstanding.toString(),
+        })
+    })
@@ -0,0 +1,46 @@
+import { task, types } from "hardhat/config"
+
+import { SignedPermit, isIntentAction, signIntent, signPermit } from "../utils/intents"
+import { postToRelayer } from "../utils/relayer"
+import { getContracts, getSigner, resolveAssets } from "./helpers"
+
+task("rgs:sign-intent", "Signs a buy, redeem or claim intent and prints it or sends it to a relayer")
+    .addPositionalParam("action", "buy, redeem or claim")
+    .addOptionalParam("assets", "Number of assets to buy or redeem", undefined, types.int)
+    .addOptionalParam("tokens", "Amount of the staking token to buy or redeem, e.g. 50", undefined, types.string)
+    .addOptionalParam("expiresIn", "Seconds until the intent expires", 3600, types.int)
+    .addOptionalParam("relayer", "URL of a relayer started with scripts/relayer.ts, e.g. http://localhost:3001")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ action, assets, tokens, expiresIn, relayer, account }, hre) => {
+        if (!isIntentAction(action)) throw new Error(`Unknown action "${action}". Use buy, redeem or claim.`)
+
+        const signer = await getSigner(hre, account)
+        const contracts = await getContracts(hre, signer)
+        const { rGToken, rGStaking, stakingToken } = contracts
+        const amountOfAssets = action === "claim" ? 0 : await resolveAssets(contracts, assets, tokens)
+
+        const deadline = (await hre.ethers.provider.getBlock("latest")).timestamp + expiresIn
+        const intent = await signIntent(rGStaking, signer, action, amountOfAssets, deadline)
+
+        // Let the relayer approve the asset price too, unless the allowance already covers it
+        let permit: SignedPermit | undefined
+        if (action === "buy") {
+            const price = (await rGStaking.assetPrice()).mul(amountOfAssets)
+            if ((await stakingToken.allowance(signer.address, rGStaking.address)).lt(price)) {
+                if (stakingToken.address !== rGToken.address) {
+                    throw new Error("Only RGT supports permits. Approve the staking token with a transaction first.")
+                }
+                permit = await signPermit(rGToken, signer, rGStaking.address, price, deadline)
+            }
+        }
+
+        if (!relayer) {
+            console.log(JSON.stringify({ intent, permit }, null, 2))
+            return
+        }
+
+        console.log(`Sending the ${action} intent of ${signer.address} to ${relayer}...`)
+        const { permitTransactionHash, transactionHash } = await postToRelayer(relayer, { intent, permit })
+        if (permitTransactionHash) console.log(`Permit submitted in ${permitTransactionHash}`)
+        console.log(`Intent executed in ${transactionHash}`)
+    })
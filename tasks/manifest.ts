@@ -0,0 +1,56 @@
+import fs from "fs-extra"
+import path from "path"
+
+import { task } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import {
+    SignedDeploymentManifest,
+    buildManifest,
+    checkManifest,
+    getManifestSigners,
+    signManifest,
+} from "../utils/deployment-manifest"
+import { getSigner } from "./helpers"
+
+export const defaultManifestFile = ({ config, network }: HardhatRuntimeEnvironment) =>
+    path.resolve(config.paths.root, "manifests", `${network.name}.json`)
+
+task("rgs:manifest", "Writes a signed-off manifest of the network's deployments and RGStaking state")
+    .addOptionalParam("account", "Named account, signer index or address signing off the manifest", "admin")
+    .addOptionalParam("out", "Path to write the manifest to (defaults to manifests/<network>.json)")
+    .setAction(async ({ account, out }, hre) => {
+        const signer = await getSigner(hre, account)
+        if (!(await getManifestSigners(hre)).includes(signer.address)) {
+            throw new Error(`${signer.address} isn't one of the manifestSigners of ${hre.network.name}`)
+        }
+        const manifest = await signManifest(await buildManifest(hre), signer)
+
+        const file = out ?? defaultManifestFile(hre)
+        fs.outputJSONSync(file, manifest, { spaces: 4 })
+
+        console.log(`Wrote the manifest of ${Object.keys(manifest.contracts).length} deployments to ${file}`)
+        console.log(`Signed off by ${manifest.signOff.signer} (manifest hash ${manifest.signOff.manifestHash})`)
+    })
+
+task("rgs:check-manifest", "Fails when the live chain or the compiled contracts drifted from the signed-off manifest")
+    .addOptionalParam("file", "Path to the manifest (defaults to manifests/<network>.json)")
+    .setAction(async ({ file }, hre) => {
+        const manifestFile = file ?? defaultManifestFile(hre)
+        if (!fs.existsSync(manifestFile)) throw new Error(`No manifest at ${manifestFile}. Run rgs:manifest first.`)
+
+        await hre.run("compile")
+
+        const manifest: SignedDeploymentManifest = fs.readJSONSync(manifestFile)
+        if (manifest.network !== hre.network.name) {
+            throw new Error(`${manifestFile} is the manifest of ${manifest.network}, not ${hre.network.name}`)
+        }
+
+        const { signOffErrors, drift } = await checkManifest(hre, manifest)
+        if (signOffErrors.length > 0 || drift.length > 0) {
+            throw new Error(
+                `${hre.network.name} doesn't match ${manifestFile}:\n${[...signOffErrors, ...drift].join("\n")}`
+            )
+        }
+        console.log(`${hre.network.name} matches the manifest signed off by ${manifest.signOff.signer}.`)
+    })
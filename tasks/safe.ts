@@ -0,0 +1,84 @@
+import fs from "fs-extra"
+import path from "path"
+
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types"
+
+import { BatchContracts, readSafeBatch, simulateSafeBatch } from "../utils/safe-batch"
+
+// The contracts a network's deployment records on disk point to
+const readDeploymentRecords = (hre: HardhatRuntimeEnvironment, networkName: string): BatchContracts => {
+    const dir = path.join(hre.config.paths.deployments, networkName)
+    if (!fs.existsSync(dir)) throw new Error(`No deployments of ${networkName} at ${dir}`)
+
+    return Object.fromEntries(
+        fs
+            .readdirSync(dir)
+            .filter((file) => file.endsWith(".json"))
+            .map((file) => {
+                const { address, abi } = fs.readJSONSync(path.join(dir, file))
+                return [path.basename(file, ".json"), { address, abi }]
+            })
+    )
+}
+
+task("rgs:simulate-batch", "Simulates a Safe batch written with SAFE_BATCH and checks the resulting state")
+    .addParam("file", "Path to the Safe Transaction Builder batch")
+    .addOptionalParam("fork", "Network to fork, e.g. fuji (defaults to a fresh deployment on the hardhat network)")
+    .addOptionalParam("block", "Block to fork at (defaults to the latest block)", undefined, types.int)
+    .addOptionalParam("expect", 'JSON file of the values views must have afterwards, e.g. {"RGStaking.paused": true}')
+    .setAction(async ({ file, fork, block, expect }, hre) => {
+        if (hre.network.name !== "hardhat") {
+            throw new Error(
+                "rgs:simulate-batch runs on the hardhat network. Pass --fork to simulate on a network's state."
+            )
+        }
+        if (process.env.SAFE_BATCH) throw new Error("Unset SAFE_BATCH, the simulation would add to the batch.")
+        const batch = readSafeBatch(file)
+        if (!batch) throw new Error(`No Safe batch at ${file}`)
+
+        let contracts: BatchContracts
+        if (fork) {
+            const { url, chainId } = (hre.config.networks[fork] ?? {}) as Partial<HttpNetworkConfig>
+            if (!url) throw new Error(`The ${fork} network has no RPC URL to fork`)
+            if (batch.chainId !== String(chainId)) {
+                throw new Error(`${file} is a batch for chain ${batch.chainId}, ${fork} is chain ${chainId}`)
+            }
+
+            console.log(`Forking ${fork}${block ? ` at block ${block}` : ""}...`)
+            await hre.network.provider.send("hardhat_reset", [{ forking: { jsonRpcUrl: url, blockNumber: block } }])
+            contracts = readDeploymentRecords(hre, fork)
+        } else {
+            if (batch.chainId !== String(hre.network.config.chainId)) {
+                throw new Error(
+                    `${file} is a batch for chain ${batch.chainId}. Pass --fork to simulate it on that chain.`
+                )
+            }
+
+            await hre.deployments.fixture()
+            contracts = Object.fromEntries(
+                Object.entries(await hre.deployments.all()).map(([name, { address, abi }]) => [name, { address, abi }])
+            )
+        }
+
+        const expected = expect ? fs.readJSONSync(expect) : {}
+        const { transactions, changes, failures } = await simulateSafeBatch(hre, batch, contracts, expected)
+
+        console.log(`Safe: ${batch.meta.createdFromSafeAddress}`)
+        console.table(
+            transactions.map(({ call, status, gasUsed, error }) => ({
+                Call: call,
+                Status: status,
+                "Gas used": gasUsed ?? "",
+                ...(error && { Error: error }),
+            }))
+        )
+        console.table(
+            Object.fromEntries(changes.map(({ key, before, after }) => [key, { Before: before, After: after }]))
+        )
+
+        const reverted = transactions.find(({ status }) => status === "reverted")
+        if (reverted) throw new Error(`The batch reverts: ${reverted.call} failed with ${reverted.error}`)
+        if (failures.length > 0) throw new Error(`The state after the batch isn't as expected:\n${failures.join("\n")}`)
+        console.log("The batch succeeds and the state is as expected.")
+    })
@@ -0,0 +1,71 @@
+import { BigNumber, utils } from "ethers"
+import fs from "fs-extra"
+import path from "path"
+
+import { task, types } from "hardhat/config"
+
+import { SimulationReport, parseScenario, simulate } from "../utils/reward-simulator"
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp * 1000).toISOString()
+
+const serializeReport = (report: SimulationReport) =>
+    JSON.parse(
+        JSON.stringify(report, (_key, value) =>
+            value?.type === "BigNumber" ? BigNumber.from(value.hex).toString() : value
+        )
+    )
+
+task("simulate", "Forecasts RGStaking rewards and reward pool depletion from a JSON scenario")
+    .addParam("scenario", "Path to the scenario JSON file")
+    .addOptionalParam("start", "Unix timestamp the scenario starts at (defaults to now)", undefined, types.int)
+    .addOptionalParam("out", "Write the full report as JSON to this path")
+    .setAction(async ({ scenario: scenarioPath, start, out }) => {
+        const scenario = parseScenario(fs.readJSONSync(path.resolve(scenarioPath)))
+        const startTimestamp = start ?? Math.floor(Date.now() / 1000)
+
+        const report = simulate(scenario, startTimestamp)
+
+        console.log("Events:")
+        console.table(
+            report.events.map(({ event, timestamp, revertedWith, rewardsClaimed, totalRewardPool }) => ({
+                Time: formatTimestamp(timestamp),
+                Account: event.account ?? "owner",
+                Action:
+                    event.type === "claim"
+                        ? "claim"
+                        : event.type === "setRate"
+                        ? `setRate ${event.dailyRewardsPerAsset}`
+                        : event.type === "topUp"
+                        ? `topUp ${event.amount}`
+                        : `${event.type} ${event.assets}`,
+                Result: revertedWith ?? (rewardsClaimed ? `claimed ${utils.formatEther(rewardsClaimed)}` : "ok"),
+                "Total reward pool": utils.formatEther(totalRewardPool),
+            }))
+        )
+
+        console.log(`Accounts at ${formatTimestamp(report.endTimestamp)}:`)
+        console.table(
+            Object.fromEntries(
+                Object.entries(report.accounts).map(([account, data]) => [
+                    account,
+                    {
+                        Assets: data.assets.toString(),
+                        Claimed: utils.formatEther(data.claimed),
+                        "Rewards claimable": utils.formatEther(data.currentRewardsClaimable),
+                    },
+                ])
+            )
+        )
+
+        console.log(`Total reward pool after last event: ${utils.formatEther(report.totalRewardPool)} RGT`)
+        console.log(
+            report.depletionTimestamp === undefined
+                ? "The reward pool does not deplete: nothing is staked."
+                : `Reward pool depletes at: ${formatTimestamp(report.depletionTimestamp)}`
+        )
+
+        if (out) {
+            fs.outputJSONSync(path.resolve(out), serializeReport(report), { spaces: 2 })
+            console.log(`Report written to ${out}`)
+        }
+    })
@@ -0,0 +1,94 @@
+import { ChildProcess, spawn } from "child_process"
+import path from "path"
+
+import { TASK_TEST } from "hardhat/builtin-tasks/task-names"
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types"
+
+const STAGING_TESTS = "test/staging/RGStaking.staging.spec.ts"
+
+const isNodeRunning = async ({ network }: HardhatRuntimeEnvironment) => {
+    try {
+        await network.provider.send("eth_chainId")
+        return true
+    } catch (e) {
+        return false
+    }
+}
+
+/**
+ * Starts `hardhat node` on the port of the localhost network and resolves once it answers requests. The node also
+ * mines a block every `blockTimeMs` like a live chain, otherwise an idle node's views never see time pass.
+ */
+const startNode = async (
+    hre: HardhatRuntimeEnvironment,
+    startupTimeoutMs: number,
+    blockTimeMs: number
+): Promise<ChildProcess> => {
+    const { port } = new URL((hre.network.config as HttpNetworkConfig).url)
+    const node = spawn(
+        process.execPath,
+        [
+            require.resolve("hardhat/internal/cli/cli"),
+            "node",
+            "--no-deploy",
+            "--port",
+            port || "8545",
+            "--config",
+            hre.config.paths.configFile,
+        ],
+        { cwd: hre.config.paths.root, stdio: "ignore" }
+    )
+
+    const startedAt = Date.now()
+    while (!(await isNodeRunning(hre))) {
+        if (node.exitCode !== null) throw new Error(`hardhat node exited with code ${node.exitCode}`)
+        if (Date.now() - startedAt > startupTimeoutMs) {
+            node.kill()
+            throw new Error(`hardhat node didn't start within ${startupTimeoutMs}ms`)
+        }
+        await new Promise((resolve) => setTimeout(resolve, 500))
+    }
+    await hre.network.provider.send("evm_setIntervalMining", [blockTimeMs])
+
+    return node
+}
+
+task("rgs:staging", "Runs the staging suite against the deployment recorded for the selected network")
+    .addOptionalParam("report", "Write a JUnit XML report to this file, e.g. for CI")
+    .addOptionalParam("startupTimeout", "Milliseconds to wait for a local node to start", 60_000, types.int)
+    .addOptionalParam(
+        "blockTime",
+        "Milliseconds between the blocks of a local node started by this task",
+        2_000,
+        types.int
+    )
+    .setAction(async ({ report, startupTimeout, blockTime }, hre) => {
+        if (hre.network.name === "hardhat") {
+            throw new Error("The staging suite needs a live network, e.g. --network localhost or --network fuji")
+        }
+
+        let node: ChildProcess | undefined
+        try {
+            // Without a running node on localhost, start one and deploy to it so the suite also works offline
+            if (hre.network.name === "localhost" && !(await isNodeRunning(hre))) {
+                console.log("Starting a local hardhat node...")
+                node = await startNode(hre, startupTimeout, blockTime)
+
+                await hre.run("deploy", { reset: true, silent: true })
+                await hre.run("rgs:init-pool")
+            }
+
+            if (report) {
+                hre.config.mocha.reporter = "xunit"
+                hre.config.mocha.reporterOptions = { output: path.resolve(report), suiteName: "RGStaking Staging" }
+            }
+
+            const failures: number = await hre.run(TASK_TEST, {
+                testFiles: [path.resolve(hre.config.paths.root, STAGING_TESTS)],
+            })
+            if (report) console.log(`${failures} failing. JUnit report written to ${report}`)
+        } finally {
+            node?.kill()
+        }
+    })
@@ -0,0 +1,373 @@
+import { BigNumber } from "ethers"
+
+import { task, types } from "hardhat/config"
+
+import { getContracts, getSigner, getStakingSummary, printBeforeAfter, printSummary, resolveAssets } from "./helpers"
+
+// Last second of the year 9999, the latest an ISO date can show
+const MAX_DATE_TIMESTAMP = 253_402_300_799
+
+task("rgs:status", "Prints the staking position of an account")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const address = hre.ethers.utils.isAddress(account) ? account : (await getSigner(hre, account)).address
+        const { rGToken, rGStaking } = await getContracts(hre)
+
+        console.log(`RGToken:   ${rGToken.address}`)
+        console.log(`RGStaking: ${rGStaking.address}`)
+        console.log(`Reward pool initialized: ${await rGStaking.isRewardPoolInitialized()}`)
+        console.log(
+            `Daily rewards per asset: ${hre.ethers.utils.formatEther(await rGStaking.dailyRewardsPerAsset())} RGT`
+        )
+        printSummary(hre, address, await getStakingSummary(rGToken, rGStaking, address))
+    })
+
+task("rgs:stats", "Prints protocol-level metrics of RGStaking")
+    .addOptionalParam("accounts", "Comma-separated addresses to also print the stored data of")
+    .setAction(async ({ accounts }, hre) => {
+        const { rGStaking, stakingToken, rewardToken } = await getContracts(hre)
+        const { formatUnits } = hre.ethers.utils
+
+        const [totalAssets, activeStakers, assetPrice, dailyRewardsPerAsset, totalRewardPool, depletion, vesting] =
+            await Promise.all([
+                rGStaking.totalAssetsStaked(),
+                rGStaking.activeStakers(),
+                rGStaking.assetPrice(),
+                rGStaking.dailyRewardsPerAsset(),
+                rGStaking.totalRewardPool(),
+                rGStaking.projectedDepletionTime(),
+                rGStaking.totalVestingRewards(),
+            ])
+        const [decimals, symbol, rewardDecimals, rewardSymbol] = await Promise.all([
+            stakingToken.decimals(),
+            stakingToken.symbol(),
+            rewardToken.decimals(),
+            rewardToken.symbol(),
+        ])
+        const formatRewards = (amount: BigNumber) => `${formatUnits(amount, rewardDecimals)} ${rewardSymbol}`
+        // Rewards and principal only compare when they are the same token
+        const sameToken = rewardToken.address === stakingToken.address
+        const aprBps = dailyRewardsPerAsset.mul(365 * 10_000).div(assetPrice)
+
+        const formatDepletion = () => {
+            if (depletion.eq(hre.ethers.constants.MaxUint256)) {
+                return totalAssets.isZero() ? "Never, nothing is staked" : "Never, no rewards accruing"
+            }
+            // A pool that outlasts the year 9999 can't be shown as a date
+            if (depletion.gt(MAX_DATE_TIMESTAMP)) return `Beyond year 9999 (timestamp ${depletion})`
+            return `${new Date(depletion.toNumber() * 1000).toISOString()} at the latest`
+        }
+
+        console.log(`RGStaking: ${rGStaking.address}`)
+        console.table({
+            "Total assets staked": totalAssets.toString(),
+            "Total value staked": `${formatUnits(totalAssets.mul(assetPrice), decimals)} ${symbol}`,
+            "Active stakers": activeStakers.toString(),
+            "Average assets per staker": activeStakers.isZero() ? "-" : totalAssets.div(activeStakers).toString(),
+            "Total reward pool": formatRewards(totalRewardPool),
+            "Daily rewards per asset": formatRewards(dailyRewardsPerAsset),
+            "Daily emission": formatRewards(totalAssets.mul(dailyRewardsPerAsset)),
+            APR: sameToken ? `${aprBps.toNumber() / 100}%` : "-",
+            "Projected depletion": formatDepletion(),
+            "Claimed rewards vesting": formatRewards(vesting),
+            Paused: await rGStaking.paused(),
+        })
+
+        if (!accounts) return
+        const addresses: string[] = accounts.split(",").map((address: string) => address.trim())
+        const data = await rGStaking.userDataOf(addresses)
+        console.table(
+            Object.fromEntries(
+                addresses.map((address, i) => [
+                    address,
+                    {
+                        Assets: data[i].assets.toString(),
+                        "Rewards credited": formatUnits(data[i].rewards, rewardDecimals),
+                        "Last update": data[i].lastUpdateTime.isZero()
+                            ? "Never"
+                            : new Date(data[i].lastUpdateTime.toNumber() * 1000).toISOString(),
+                    },
+                ])
+            )
+        )
+    })
+
+task("rgs:init-pool", "Approves and initializes the RGStaking reward pool")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const { initializeRewardPool, safeBatchFile } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGToken, rGStaking } = await getContracts(hre, signer)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+        await initializeRewardPool(signer)
+        if (safeBatchFile()) return
+        const after = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        printBeforeAfter(hre, signer.address, before, after)
+    })
+
+task("rgs:buy", "Approves the staking token if needed and buys assets")
+    .addOptionalParam("assets", "Number of assets to buy", undefined, types.int)
+    .addOptionalParam("tokens", "Amount of the staking token to spend, e.g. 50", undefined, types.string)
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ assets, tokens, account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const contracts = await getContracts(hre, signer)
+        const { rGToken, rGStaking, stakingToken } = contracts
+        const amountOfAssets = await resolveAssets(contracts, assets, tokens)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        const price = amountOfAssets.mul(await rGStaking.assetPrice())
+        const allowance = await stakingToken.allowance(signer.address, rGStaking.address)
+        if (allowance.lt(price)) {
+            const formattedPrice = hre.ethers.utils.formatUnits(price, await stakingToken.decimals())
+            console.log(`Approving ${formattedPrice} ${await stakingToken.symbol()}...`)
+            const approveTx = await stakingToken.approve(rGStaking.address, price)
+            await approveTx.wait(1)
+        }
+
+        console.log(`Buying ${amountOfAssets} assets...`)
+        const buyTx = await rGStaking.buyAssets(amountOfAssets)
+        await buyTx.wait(1)
+
+        printBeforeAfter(hre, signer.address, before, await getStakingSummary(rGToken, rGStaking, signer.address))
+    })
+
+task("rgs:redeem", "Redeems assets for the staking token")
+    .addOptionalParam("assets", "Number of assets to redeem", undefined, types.int)
+    .addOptionalParam("tokens", "Amount of the staking token to redeem, e.g. 50", undefined, types.string)
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ assets, tokens, account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const contracts = await getContracts(hre, signer)
+        const { rGToken, rGStaking } = contracts
+        const amountOfAssets = await resolveAssets(contracts, assets, tokens)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        console.log(`Redeeming ${amountOfAssets} assets...`)
+        const redeemTx = await rGStaking.redeemAssets(amountOfAssets)
+        await redeemTx.wait(1)
+
+        printBeforeAfter(hre, signer.address, before, await getStakingSummary(rGToken, rGStaking, signer.address))
+    })
+
+task("rgs:claim", "Claims all accrued rewards")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGToken, rGStaking } = await getContracts(hre, signer)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        console.log("Claiming rewards...")
+        const claimTx = await rGStaking.claimRewards()
+        const receipt = await claimTx.wait(1)
+
+        printBeforeAfter(hre, signer.address, before, await getStakingSummary(rGToken, rGStaking, signer.address))
+
+        const vesting = receipt.events?.find(({ event }) => event === "VestingStarted")?.args
+        if (vesting) {
+            const endTime = new Date(vesting.endTime.toNumber() * 1000).toISOString()
+            console.log(`${hre.ethers.utils.formatEther(vesting.amount)} RGT started vesting, all vested at ${endTime}`)
+            console.log("See rgs:vesting to withdraw it as it vests.")
+        }
+    })
+
+task("rgs:vesting", "Prints the vesting schedule of an account's claimed rewards")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const address = hre.ethers.utils.isAddress(account) ? account : (await getSigner(hre, account)).address
+        const { rGStaking } = await getContracts(hre)
+        const { formatEther } = hre.ethers.utils
+
+        const [duration, forfeitBps, schedule, vested, locked] = await Promise.all([
+            rGStaking.vestingDuration(),
+            rGStaking.vestingForfeitBps(),
+            rGStaking.vestingSchedule(address),
+            rGStaking.vestedRewards(address),
+            rGStaking.lockedVestingRewards(address),
+        ])
+
+        console.log(
+            duration.isZero()
+                ? "Vesting is off, claims are paid out immediately."
+                : `Claims vest over ${duration.toNumber() / 86_400} days.`
+        )
+        console.log(`Account: ${address}`)
+        console.table({
+            "Vested, withdrawable": `${formatEther(vested)} RGT`,
+            Locked: `${formatEther(locked)} RGT`,
+            "All vested at": locked.isZero() ? "-" : new Date(schedule.endTime.toNumber() * 1000).toISOString(),
+            "Releasing the locked rewards now": locked.isZero()
+                ? "-"
+                : `${formatEther(locked.mul(forfeitBps).div(10_000))} RGT forfeited (${forfeitBps.toNumber() / 100}%)`,
+        })
+    })
+
+task("rgs:withdraw-vested", "Withdraws the claimed rewards that have vested")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log("Withdrawing the vested rewards...")
+        const withdrawTx = await rGStaking.withdrawVestedRewards()
+        const receipt = await withdrawTx.wait(1)
+
+        // Rewards keep vesting until the transaction is mined, so the amount is read from the event
+        const withdrawn = receipt.events?.find(({ event }) => event === "VestedRewardsWithdrawn")?.args?.amount
+        console.log(`Withdrew ${hre.ethers.utils.formatEther(withdrawn)} RGT`)
+
+        await hre.run("rgs:vesting", { account: signer.address })
+    })
+
+task("rgs:accelerate-vesting", "Withdraws claimed rewards before they vest, forfeiting part of them to the reward pool")
+    .addOptionalParam("amount", "Locked rewards to release in RGT, forfeit included. Defaults to all of them.")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ amount, account }, hre) => {
+        const { parseRGT } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+        const { formatEther } = hre.ethers.utils
+
+        // Locked rewards keep vesting until the transaction is mined, so all of them are released with MaxUint256
+        const rewards = amount ? parseRGT(amount) : hre.ethers.constants.MaxUint256
+
+        console.log(`Releasing ${amount ? `${amount} RGT of the` : "all the"} locked rewards...`)
+        const accelerateTx = await rGStaking.accelerateVesting(rewards)
+        const receipt = await accelerateTx.wait(1)
+
+        const forfeited = receipt.events?.find(({ event }) => event === "VestingRewardsForfeited")?.args?.forfeited
+        if (forfeited) console.log(`Forfeited ${formatEther(forfeited)} RGT to the reward pool`)
+
+        await hre.run("rgs:vesting", { account: signer.address })
+    })
+
+task("rgs:compound", "Turns accrued rewards into whole assets, keeping the rest as rewards")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGToken, rGStaking } = await getContracts(hre, signer)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        console.log(`Compounding rewards into ${await rGStaking.compoundableAssets(signer.address)} assets...`)
+        const compoundTx = await rGStaking.compoundRewards()
+        await compoundTx.wait(1)
+
+        printBeforeAfter(hre, signer.address, before, await getStakingSummary(rGToken, rGStaking, signer.address))
+    })
+
+task("rgs:auto-compound", "Opts an account in or out of having its rewards compounded by keepers")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .addFlag("disable", "Opts out instead")
+    .setAction(async ({ account, disable }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log(`${disable ? "Disabling" : "Enabling"} auto-compounding for ${signer.address}...`)
+        const setTx = await rGStaking.setAutoCompound(!disable)
+        await setTx.wait(1)
+
+        console.log(`Auto-compounding: ${await rGStaking.isAutoCompounding(signer.address)}`)
+    })
+
+task("rgs:tiers", "Prints the lock tiers users can lock assets for").setAction(async (_, hre) => {
+    const { rGStaking } = await getContracts(hre)
+
+    const tiers = await rGStaking.lockTiers()
+    if (tiers.length === 0) return console.log("No lock tiers set.")
+
+    console.table(
+        tiers.map(({ duration, multiplierBps, earlyExitPenaltyBps, earlyExitAllowed }) => ({
+            "Duration (days)": duration.toNumber() / 86_400,
+            Multiplier: `${multiplierBps.toNumber() / 10_000}x`,
+            "Early exit": duration.isZero()
+                ? "Tier disabled"
+                : earlyExitAllowed
+                ? `${earlyExitPenaltyBps.toNumber() / 100}% penalty`
+                : "Blocked",
+        }))
+    )
+})
+
+task("rgs:lock", "Locks assets the account owns for a lock tier to earn boosted rewards")
+    .addParam("assets", "Number of assets to lock", undefined, types.int)
+    .addParam("tier", "Id of the lock tier, see rgs:tiers", undefined, types.int)
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ assets, tier, account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGStaking } = await getContracts(hre, signer)
+
+        console.log(`Locking ${assets} assets for tier ${tier}...`)
+        const lockTx = await rGStaking.lockAssets(assets, tier)
+        await lockTx.wait(1)
+
+        await hre.run("rgs:positions", { account: signer.address })
+    })
+
+task("rgs:positions", "Prints the locked positions of an account")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const address = hre.ethers.utils.isAddress(account) ? account : (await getSigner(hre, account)).address
+        const { rGStaking } = await getContracts(hre)
+        const { timestamp } = await hre.ethers.provider.getBlock("latest")
+
+        const positions = await rGStaking.lockedPositions(address)
+        console.log(`Account: ${address}`)
+        console.log(
+            `Locked assets: ${await rGStaking.lockedAssetBalance(address)} of ${await rGStaking.assetBalance(address)}`
+        )
+        if (positions.length === 0) return
+
+        console.table(
+            positions.map((position) => ({
+                Assets: position.assets.toString(),
+                Tier: position.tierId.toString(),
+                Multiplier: `${position.multiplierBps.toNumber() / 10_000}x`,
+                "Unlocks at": new Date(position.unlockTime.toNumber() * 1000).toISOString(),
+                "Early exit": position.unlockTime.lte(timestamp)
+                    ? "Unlocked"
+                    : position.earlyExitAllowed
+                    ? `${position.earlyExitPenaltyBps.toNumber() / 100}% penalty`
+                    : "Blocked",
+            }))
+        )
+    })
+
+task("rgs:redeem-locked", "Redeems a locked position, paying the early-exit penalty if it hasn't unlocked yet")
+    .addParam("position", "Index of the position, see rgs:positions", undefined, types.int)
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ position, account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGToken, rGStaking } = await getContracts(hre, signer)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        console.log(`Redeeming locked position ${position}...`)
+        const redeemTx = await rGStaking.redeemLockedAssets(position)
+        const receipt = await redeemTx.wait(1)
+
+        const penalty = receipt.events?.find(({ event }) => event === "EarlyExitPenaltyPaid")?.args?.penalty
+        if (penalty) console.log(`Paid an early-exit penalty of ${hre.ethers.utils.formatEther(penalty)} RGT`)
+
+        printBeforeAfter(hre, signer.address, before, await getStakingSummary(rGToken, rGStaking, signer.address))
+    })
+
+task("rgs:emergency-withdraw", "Withdraws the principal without settling rewards, forfeiting them")
+    .addOptionalParam("account", "Named account, signer index or address", "deployer")
+    .setAction(async ({ account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGToken, rGStaking } = await getContracts(hre, signer)
+
+        const before = await getStakingSummary(rGToken, rGStaking, signer.address)
+
+        console.log("Withdrawing the principal and forfeiting rewards...")
+        const withdrawTx = await rGStaking.emergencyWithdraw()
+        await withdrawTx.wait(1)
+
+        printBeforeAfter(hre, signer.address, before, await getStakingSummary(rGToken, rGStaking, signer.address))
+    })
@@ -0,0 +1,109 @@
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { RGToken } from "../typechain"
+import { getContracts, getSigner } from "./helpers"
+
+const resolveAddress = async (hre: HardhatRuntimeEnvironment, account: string) =>
+    hre.ethers.utils.isAddress(account) ? account : (await getSigner(hre, account)).address
+
+const printSupply = async ({ ethers }: HardhatRuntimeEnvironment, rGToken: RGToken) => {
+    const { formatEther } = ethers.utils
+    const [totalSupply, cap, mintableSupply] = await Promise.all([
+        rGToken.totalSupply(),
+        rGToken.cap(),
+        rGToken.mintableSupply(),
+    ])
+
+    console.table({
+        "Total supply": formatEther(totalSupply),
+        Cap: formatEther(cap),
+        Mintable: formatEther(mintableSupply),
+    })
+}
+
+task("rgs:mint", "Mints RGT up to the supply cap")
+    .addParam("amount", "Amount of RGT to mint, e.g. 500")
+    .addOptionalParam("to", "Named account, signer index or address to mint to (defaults to the minter)")
+    .addOptionalParam("account", "Named account, signer index or address of the minter", "minter")
+    .setAction(async ({ amount, to, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGToken } = await getContracts(hre, signer)
+        const recipient = to ? await resolveAddress(hre, to) : signer.address
+
+        console.log(`Minting ${amount} RGT to ${recipient}...`)
+        if (!(await sendAdminTransaction(rGToken, "mint", [recipient, hre.ethers.utils.parseEther(amount)]))) return
+
+        await printSupply(hre, rGToken)
+    })
+
+task("rgs:burn", "Burns the burner's RGT, or RGT another account approved the burner to spend")
+    .addParam("amount", "Amount of RGT to burn, e.g. 500")
+    .addOptionalParam("from", "Address whose approved RGT to burn (defaults to the burner's own)")
+    .addOptionalParam("account", "Named account, signer index or address of the burner", "minter")
+    .setAction(async ({ amount, from, account }, hre) => {
+        const { sendAdminTransaction } = await import("../helper-functions")
+        const signer = await getSigner(hre, account)
+        const { rGToken } = await getContracts(hre, signer)
+        const value = hre.ethers.utils.parseEther(amount)
+
+        console.log(`Burning ${amount} RGT of ${from ?? signer.address}...`)
+        const receipt = from
+            ? await sendAdminTransaction(rGToken, "burnFrom", [from, value])
+            : await sendAdminTransaction(rGToken, "burn", [value])
+        if (!receipt) return
+
+        await printSupply(hre, rGToken)
+    })
+
+task("rgs:delegate", "Delegates an account's RGT votes, to itself by default")
+    .addOptionalParam("to", "Named account, signer index or address to delegate to (defaults to the account)")
+    .addOptionalParam("account", "Named account, signer index or address delegating", "deployer")
+    .setAction(async ({ to, account }, hre) => {
+        const signer = await getSigner(hre, account)
+        const { rGToken } = await getContracts(hre, signer)
+        const delegatee = to ? await resolveAddress(hre, to) : signer.address
+
+        console.log(`Delegating the votes of ${signer.address} to ${delegatee}...`)
+        const delegateTx = await rGToken.delegate(delegatee)
+        await delegateTx.wait(1)
+
+        await hre.run("rgs:votes", { address: delegatee })
+    })
+
+task("rgs:votes", "Prints an account's RGT votes, now or as of a past block")
+    .addOptionalParam("address", "Named account, signer index or address", "deployer")
+    .addOptionalParam("block", "Past block to read the votes at (defaults to now)", undefined, types.int)
+    .setAction(async ({ address, block }, hre) => {
+        const account = await resolveAddress(hre, address)
+        const { rGToken } = await getContracts(hre)
+        const { formatEther } = hre.ethers.utils
+
+        if (block !== undefined) {
+            const latest = await hre.ethers.provider.getBlockNumber()
+            if (block >= latest) throw new Error(`Block ${block} isn't in the past, the latest block is ${latest}.`)
+
+            const [votes, totalSupply] = await Promise.all([
+                rGToken.getPastVotes(account, block),
+                rGToken.getPastTotalSupply(block),
+            ])
+            console.log(`Account: ${account} at block ${block}`)
+            console.table({ Votes: formatEther(votes), "Total supply": formatEther(totalSupply) })
+            return
+        }
+
+        const [balance, delegatee, votes, totalSupply] = await Promise.all([
+            rGToken.balanceOf(account),
+            rGToken.delegates(account),
+            rGToken.getVotes(account),
+            rGToken.totalSupply(),
+        ])
+        console.log(`Account: ${account}`)
+        console.table({
+            "RGT balance": formatEther(balance),
+            "Delegates to": delegatee === hre.ethers.constants.AddressZero ? "nobody" : delegatee,
+            Votes: formatEther(votes),
+            "Total supply": formatEther(totalSupply),
+        })
+    })
@@ -0,0 +1,20 @@
+import { task } from "hardhat/config"
+
+import { checkUpgradeSafety } from "../utils/storage-layout"
+
+task("rgs:check-upgrade", "Checks that the compiled RGStaking keeps the storage layout of the deployed implementation")
+    .addOptionalParam("contract", "Artifact to upgrade to", "RGStaking")
+    .setAction(async ({ contract }, hre) => {
+        await hre.run("compile")
+
+        const { implementation, errors } = await checkUpgradeSafety(hre, "RGStaking", contract)
+        if (!implementation) {
+            console.log(`RGStaking isn't deployed behind a proxy on ${hre.network.name}. Nothing to check.`)
+            return
+        }
+
+        if (errors.length > 0) {
+            throw new Error(`${contract} is not storage compatible with ${implementation}:\n${errors.join("\n")}`)
+        }
+        console.log(`${contract} is storage compatible with the implementation at ${implementation}.`)
+    })
@@ -0,0 +1,72 @@
+import { task, types } from "hardhat/config"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { networkConfig } from "../helper-hardhat-config"
+import {
+    Explorer,
+    buildVerificationRequest,
+    defaultVerificationQueueFile,
+    processVerificationQueue,
+} from "../utils/verification-queue"
+
+/**
+ * Resolves the explorers configured for the network together with their API keys.
+ */
+const getExplorers = ({ network }: HardhatRuntimeEnvironment, only?: string): Explorer[] => {
+    const configured = (networkConfig[network.name]?.verification ?? []).filter(({ name }) => !only || name === only)
+    if (configured.length === 0) {
+        throw new Error(
+            only ? `No explorer "${only}" configured for ${network.name}` : `${network.name} has no explorers`
+        )
+    }
+
+    return configured.map(({ name, apiKeyEnvVar, apiUrl }) => {
+        const apiKey = process.env[apiKeyEnvVar]
+        if (!apiKey) throw new Error(`Set ${apiKeyEnvVar} to verify on ${name}`)
+        return { name, apiUrl, apiKey }
+    })
+}
+
+task("verify:pending", "Submits the queued verifications to the network's explorers, retrying with backoff")
+    .addOptionalParam("explorer", "Only verify on this explorer")
+    .addOptionalParam("maxAttempts", "Attempts per explorer before an entry is marked failed", 5, types.int)
+    .addOptionalParam("backoff", "Delay before the first retry in ms, doubled on every retry", 5_000, types.int)
+    .addOptionalParam("pollInterval", "Delay between verification status checks in ms", 5_000, types.int)
+    .addFlag("retryFailed", "Also retry the entries that failed on a previous run")
+    .addOptionalParam("queue", "Path to the queue (defaults to .verification/<network>.json)")
+    .setAction(async ({ explorer, maxAttempts, backoff, pollInterval, retryFailed, queue }, hre) => {
+        const explorers = getExplorers(hre, explorer)
+        const networkExplorers = (networkConfig[hre.network.name]?.verification ?? []).map(({ name }) => name)
+        const file = queue ?? defaultVerificationQueueFile(hre.config.paths.root, hre.network.name)
+
+        await hre.run("compile")
+
+        const entries = await processVerificationQueue(file, {
+            explorers,
+            networkExplorers,
+            buildRequest: (entry) => buildVerificationRequest(hre, entry),
+            maxAttempts,
+            backoffMs: backoff,
+            pollIntervalMs: pollInterval,
+            retryFailed,
+            log: console.log,
+        })
+
+        console.table(
+            entries.map(({ contract, address, status, explorers: attempts }) => ({
+                Contract: contract,
+                Address: address,
+                Status: status,
+                ...Object.fromEntries(
+                    Object.entries(attempts).map(([name, { status, attempts }]) => [name, `${status} (${attempts})`])
+                ),
+            }))
+        )
+
+        const failed = entries.filter(({ status }) => status === "failed")
+        if (failed.length > 0) {
+            throw new Error(
+                `${failed.length} verifications failed, see ${file}. Rerun with --retry-failed to retry them.`
+            )
+        }
+    })
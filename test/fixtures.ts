@@ -0,0 +1,82 @@
+import { deployments, ethers } from "hardhat"
+
+import { loadFixture, setStorageAt, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { initializeRewardPool, parseRGT } from "../helper-functions"
+import { RGStaking, RGStakingAccumulator, RGToken } from "../typechain"
+
+export async function deployContractsFixture() {
+    const [deployer, account2] = await ethers.getSigners()
+
+    await deployments.fixture()
+
+    const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
+    const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
+
+    return { rGToken, rGStaking, deployer, account2 }
+}
+
+export async function initializeRewardsPoolFixture() {
+    const result = await loadFixture(deployContractsFixture)
+
+    // Initialize the rewards pool with the REWARD_POOL_TOKEN_AMOUNT
+    await initializeRewardPool(result.deployer)
+
+    return result
+}
+
+export async function buyAssetsFixture() {
+    const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
+    const amountOfAssets = 5
+    const expectedTokenPrice = parseRGT(amountOfAssets).mul(10)
+
+    // Buy assets by approving and calling the buyAssets function
+    await rGToken.approve(rGStaking.address, expectedTokenPrice)
+    await rGStaking.buyAssets(amountOfAssets)
+
+    return { rGToken, rGStaking, deployer, amountOfAssets, account2 }
+}
+
+export async function buyAssetsAndWait24hours() {
+    const result = await loadFixture(buyAssetsFixture)
+
+    // Fast forward 24 hours
+    const currentBlockTimestamp = await time.latest()
+    const secondsInADay = time.duration.days(1)
+    const nextBlockTimestamp = currentBlockTimestamp + secondsInADay
+    const expectedRewardsEarned = parseRGT(result.amountOfAssets / 10)
+
+    // Calculate expected rewards earned after 24 hours
+    await time.setNextBlockTimestamp(nextBlockTimestamp)
+
+    return { ...result, expectedRewardsEarned }
+}
+
+export async function accumulatorFixture() {
+    const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
+    const rGStakingAccumulator: RGStakingAccumulator = await ethers.getContract("RGStakingAccumulator", deployer)
+    const [, , ...stakers] = await ethers.getSigners()
+
+    // Fund three stakers and approve both staking contracts
+    for (const staker of stakers.slice(0, 3)) {
+        await rGToken.transfer(staker.address, parseRGT(1000))
+        await rGToken.connect(staker).approve(rGStaking.address, ethers.constants.MaxUint256)
+        await rGToken.connect(staker).approve(rGStakingAccumulator.address, ethers.constants.MaxUint256)
+    }
+    await rGToken.approve(rGStakingAccumulator.address, ethers.constants.MaxUint256)
+
+    return { rGToken, rGStaking, rGStakingAccumulator, deployer, account2, stakers: stakers.slice(0, 3) }
+}
+
+/**
+ * Makes `rGStaking` look like a proxy initialized at `version` that was just upgraded to the current implementation, so
+ * the `totals` completed by the later migrations haven't counted anything yet.
+ */
+export async function rollBackToVersion(rGStaking: RGStaking, version: number, totals: string[]) {
+    const { storage } = (await deployments.getExtendedArtifact("RGStaking")).storageLayout
+    const slotOf = (label: string) =>
+        Number(storage.find((variable: { label: string }) => variable.label === label).slot)
+
+    await setStorageAt(rGStaking.address, slotOf("_initialized"), version)
+    for (const total of totals) await setStorageAt(rGStaking.address, slotOf(total), 0)
+}
@@ -0,0 +1,304 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import fs from "fs-extra"
+import { deployments, ethers } from "hardhat"
+import path from "path"
+
+import { loadFixture, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+
+import { TOTAL_REWARD_POOL, initializeRewardPool, isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { RGStaking, RGToken } from "../../typechain"
+import {
+    Failure,
+    FuzzAction,
+    GeneratorOptions,
+    Random,
+    generateActions,
+    getFuzzConfig,
+    reportFailure,
+    shrink,
+} from "./harness"
+
+const ACCOUNTS = 6
+const FUNDS_PER_ACCOUNT = parseRGT(500)
+const FAILURES_DIR = path.resolve(__dirname, "../../cache/fuzz")
+
+type AccountState = {
+    assets: BigNumber
+    currentRewardsClaimable: BigNumber
+    rGTBalance: BigNumber
+    bought: number
+    redeemed: number
+}
+
+type State = {
+    contractBalance: BigNumber
+    totalRewardPool: BigNumber
+    previousTotalRewardPool: BigNumber
+    rewardsPaid: BigNumber
+    totalAssetsStaked: BigNumber
+    activeStakers: BigNumber
+    accounts: AccountState[]
+}
+
+type Invariant = [name: string, check: (state: State) => string | undefined]
+
+const sum = (values: BigNumber[]) => values.reduce((total, value) => total.add(value), BigNumber.from(0))
+
+const INVARIANTS: Invariant[] = [
+    [
+        "contract balance covers principal and unclaimed rewards",
+        ({ contractBalance, totalRewardPool, rewardsPaid, accounts }) => {
+            const principal = sum(accounts.map(({ assets }) => assets.mul(TOKENS_PER_ASSET)))
+            // Rewards credited to accounts are no longer in `totalRewardPool` but haven't been paid either
+            const creditedRewards = TOTAL_REWARD_POOL.sub(totalRewardPool).sub(rewardsPaid)
+            const liabilities = principal.add(creditedRewards).add(totalRewardPool)
+
+            if (contractBalance.lt(liabilities)) return `balance ${contractBalance} < liabilities ${liabilities}`
+        },
+    ],
+    [
+        "totalRewardPool never increases",
+        ({ totalRewardPool, previousTotalRewardPool }) => {
+            if (totalRewardPool.gt(previousTotalRewardPool)) {
+                return `totalRewardPool went from ${previousTotalRewardPool} to ${totalRewardPool}`
+            }
+        },
+    ],
+    [
+        "rewards paid never exceed the initial pool",
+        ({ rewardsPaid }) => {
+            if (rewardsPaid.gt(TOTAL_REWARD_POOL)) return `paid ${rewardsPaid} out of ${TOTAL_REWARD_POOL}`
+        },
+    ],
+    [
+        "asset balances match purchases minus redemptions",
+        ({ accounts }) => {
+            const index = accounts.findIndex(({ assets, bought, redeemed }) => !assets.eq(bought - redeemed))
+            if (index !== -1) {
+                const { assets, bought, redeemed } = accounts[index]
+                return `account ${index} holds ${assets} assets after buying ${bought} and redeeming ${redeemed}`
+            }
+        },
+    ],
+    [
+        "aggregates match the accounts",
+        ({ totalAssetsStaked, activeStakers, accounts }) => {
+            const totalAssets = sum(accounts.map(({ assets }) => assets))
+            const stakers = accounts.filter(({ assets }) => assets.gt(0)).length
+            if (!totalAssetsStaked.eq(totalAssets)) return `totalAssetsStaked ${totalAssetsStaked} != ${totalAssets}`
+            if (!activeStakers.eq(stakers)) return `activeStakers ${activeStakers} != ${stakers}`
+        },
+    ],
+]
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Invariant Tests", () => {
+          async function invariantFixture() {
+              const [deployer, ...others] = await ethers.getSigners()
+
+              await deployments.fixture()
+              await initializeRewardPool(deployer)
+
+              const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
+              const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
+
+              // A high rate makes sequences regularly run the reward pool dry within a few warps
+              await rGStaking.setDailyRewardsPerAsset(parseRGT(10))
+
+              const signers = others.slice(0, ACCOUNTS)
+              for (const signer of signers) {
+                  await rGToken.transfer(signer.address, FUNDS_PER_ACCOUNT)
+                  await rGToken.connect(signer).approve(rGStaking.address, ethers.constants.MaxUint256)
+              }
+
+              return { rGToken, rGStaking, signers }
+          }
+
+          /**
+           * Returns a function running a sequence from the fixture's state and returning the first violation, if any.
+           */
+          const createRunner = async (extraInvariants: Invariant[] = []) => {
+              const { rGToken, rGStaking, signers } = await loadFixture(invariantFixture)
+              const snapshot = await takeSnapshot()
+
+              const readState = async (
+                  models: { bought: number; redeemed: number }[],
+                  rewardsPaid: BigNumber,
+                  previousTotalRewardPool: BigNumber
+              ): Promise<State> => ({
+                  contractBalance: await rGToken.balanceOf(rGStaking.address),
+                  totalRewardPool: await rGStaking.totalRewardPool(),
+                  previousTotalRewardPool,
+                  rewardsPaid,
+                  totalAssetsStaked: await rGStaking.totalAssetsStaked(),
+                  activeStakers: await rGStaking.activeStakers(),
+                  accounts: await Promise.all(
+                      signers.map(async ({ address }, i) => ({
+                          assets: await rGStaking.assetBalance(address),
+                          currentRewardsClaimable: await rGStaking.currentRewardsClaimable(address),
+                          rGTBalance: await rGToken.balanceOf(address),
+                          ...models[i],
+                      }))
+                  ),
+              })
+
+              // Sends the action and returns why it failed when it should have succeeded or vice versa
+              const applyAction = async (
+                  action: FuzzAction,
+                  signer: SignerWithAddress,
+                  account: AccountState
+              ): Promise<{ succeeded?: boolean; rewardsClaimed?: BigNumber; violation?: string }> => {
+                  const rGStakingAsAccount = rGStaking.connect(signer)
+                  const expectedToSucceed =
+                      action.type === "buy"
+                          ? account.rGTBalance.gte(TOKENS_PER_ASSET.mul(action.assets))
+                          : action.type === "redeem"
+                          ? action.assets <= account.bought - account.redeemed
+                          : undefined
+
+                  let receipt
+                  try {
+                      const tx =
+                          action.type === "buy"
+                              ? await rGStakingAsAccount.buyAssets(action.assets)
+                              : action.type === "redeem"
+                              ? await rGStakingAsAccount.redeemAssets(action.assets)
+                              : await rGStakingAsAccount.claimRewards()
+                      receipt = await tx.wait()
+                  } catch (error: any) {
+                      if (expectedToSucceed) return { violation: `${action.type} reverted: ${error.message}` }
+                      // Rewards were already claimable, so the claim must not revert
+                      if (action.type === "claim" && !account.currentRewardsClaimable.isZero()) {
+                          return { violation: `claim of ${account.currentRewardsClaimable} reverted: ${error.message}` }
+                      }
+                      return {}
+                  }
+
+                  if (expectedToSucceed === false) return { violation: `${action.type} succeeded but should revert` }
+
+                  const claimed = receipt.events?.find(({ event }) => event === "RewardsClaimed")
+                  return { succeeded: true, rewardsClaimed: claimed?.args?.rewardWithdrawn }
+              }
+
+              return async (actions: FuzzAction[]): Promise<Failure | undefined> => {
+                  await snapshot.restore()
+
+                  const models = signers.map(() => ({ bought: 0, redeemed: 0 }))
+                  let rewardsPaid = BigNumber.from(0)
+                  let state = await readState(models, rewardsPaid, TOTAL_REWARD_POOL)
+
+                  for (let step = 0; step < actions.length; step++) {
+                      const action = actions[step]
+
+                      if (action.type === "warp") {
+                          await time.increase(action.seconds)
+                      } else {
+                          const { succeeded, rewardsClaimed, violation } = await applyAction(
+                              action,
+                              signers[action.account],
+                              state.accounts[action.account]
+                          )
+                          if (violation) return { invariant: "actions within limits behave", message: violation, step }
+
+                          if (succeeded && action.type === "buy") models[action.account].bought += action.assets
+                          if (succeeded && action.type === "redeem") models[action.account].redeemed += action.assets
+                          if (rewardsClaimed) rewardsPaid = rewardsPaid.add(rewardsClaimed)
+                      }
+
+                      state = await readState(models, rewardsPaid, state.totalRewardPool)
+                      for (const [invariant, check] of [...INVARIANTS, ...extraInvariants]) {
+                          const message = check(state)
+                          if (message) return { invariant, message, step }
+                      }
+                  }
+              }
+          }
+
+          const generatorOptions = (steps: number): GeneratorOptions => ({
+              steps,
+              accounts: ACCOUNTS,
+              maxAssets: 20,
+              maxWarpSeconds: time.duration.days(30),
+          })
+
+          it("Holds the invariants for random action sequences", async () => {
+              const { runs, steps, seed, replayFile } = getFuzzConfig()
+              const run = await createRunner()
+
+              if (replayFile) {
+                  const actions: FuzzAction[] = fs.readJSONSync(replayFile)
+                  const failure = await run(actions)
+                  if (failure) {
+                      throw new Error(
+                          reportFailure(
+                              actions,
+                              failure,
+                              { seed, run: 0, originalLength: actions.length },
+                              FAILURES_DIR
+                          )
+                      )
+                  }
+                  return
+              }
+
+              const random = new Random(seed)
+              for (let i = 0; i < runs; i++) {
+                  const actions = generateActions(random, generatorOptions(steps))
+                  const failure = await run(actions)
+                  if (!failure) continue
+
+                  const shrunk = await shrink(actions, failure, run)
+                  throw new Error(
+                      reportFailure(
+                          shrunk.actions,
+                          shrunk.failure,
+                          { seed, run: i, originalLength: actions.length },
+                          FAILURES_DIR
+                      )
+                  )
+              }
+          }).timeout(0)
+
+          it("Shrinks failing sequences to a minimal replayable reproduction", async () => {
+              // A deliberately false invariant: any account holding more than 20 assets violates it
+              const run = await createRunner([
+                  [
+                      "at most 20 assets per account",
+                      ({ accounts }) => (accounts.some(({ assets }) => assets.gt(20)) ? "too many assets" : undefined),
+                  ],
+              ])
+
+              const random = new Random(1)
+              let actions: FuzzAction[] = []
+              let failure: Failure | undefined
+              while (!failure) {
+                  actions = generateActions(random, generatorOptions(30))
+                  failure = await run(actions)
+              }
+
+              const shrunk = await shrink(actions, failure, run)
+
+              // Two purchases by the same account are the smallest way to exceed 20 assets
+              expect(shrunk.actions).to.have.lengthOf(2)
+              const [first, second] = shrunk.actions
+              expect(first.type === "buy" && second.type === "buy" && first.account === second.account).to.be.true
+              expect(shrunk.failure.invariant).to.equal("at most 20 assets per account")
+
+              const report = reportFailure(
+                  shrunk.actions,
+                  shrunk.failure,
+                  { seed: 1, run: 0, originalLength: 30 },
+                  FAILURES_DIR
+              )
+              expect(report).to.contain("1. buyAssets(")
+              expect(report).to.contain("FUZZ_REPLAY=")
+              expect(await run(fs.readJSONSync(path.join(FAILURES_DIR, "seed-1-run-0.json")))).to.deep.equal(
+                  shrunk.failure
+              )
+          }).timeout(0)
+      })
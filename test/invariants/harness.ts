@@ -0,0 +1,191 @@
+import fs from "fs-extra"
+import path from "path"
+
+/**
+ * A small property-based testing harness: generates random action sequences from a seed, shrinks failing sequences to
+ * a minimal reproduction and saves them so they can be replayed with `FUZZ_REPLAY`.
+ */
+
+export type FuzzAction =
+    | { type: "buy"; account: number; assets: number }
+    | { type: "redeem"; account: number; assets: number }
+    | { type: "claim"; account: number }
+    | { type: "warp"; seconds: number }
+
+export type GeneratorOptions = {
+    steps: number
+    accounts: number
+    maxAssets: number
+    maxWarpSeconds: number
+}
+
+export type Failure = {
+    // Name of the violated invariant. Shrinking only keeps sequences violating the same one.
+    invariant: string
+    message: string
+    step: number
+}
+
+export type FuzzConfig = {
+    runs: number
+    steps: number
+    seed: number
+    replayFile?: string
+}
+
+/**
+ * Deterministic PRNG (mulberry32), so that a seed always generates the same sequences.
+ */
+export class Random {
+    constructor(private state: number) {}
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) | 0
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    // Integer in [min, max]
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1))
+    }
+}
+
+export const generateActions = (random: Random, options: GeneratorOptions): FuzzAction[] => {
+    const { steps, accounts, maxAssets, maxWarpSeconds } = options
+    const actions: FuzzAction[] = []
+
+    for (let i = 0; i < steps; i++) {
+        const account = random.int(0, accounts - 1)
+        const roll = random.next()
+
+        if (roll < 0.35) actions.push({ type: "buy", account, assets: random.int(1, maxAssets) })
+        else if (roll < 0.6) actions.push({ type: "redeem", account, assets: random.int(1, maxAssets) })
+        else if (roll < 0.8) actions.push({ type: "claim", account })
+        // Mostly short warps, sometimes long ones that get close to depleting the reward pool
+        else if (random.next() < 0.8) actions.push({ type: "warp", seconds: random.int(1, 86_400) })
+        else actions.push({ type: "warp", seconds: random.int(86_400, maxWarpSeconds) })
+    }
+
+    return actions
+}
+
+const simplifications = (action: FuzzAction): FuzzAction[] => {
+    const candidates: FuzzAction[] = []
+
+    if (action.type === "warp") {
+        if (action.seconds > 1) candidates.push({ ...action, seconds: 1 }, { ...action, seconds: action.seconds >> 1 })
+        return candidates
+    }
+
+    if (action.type !== "claim" && action.assets > 1) {
+        candidates.push({ ...action, assets: 1 }, { ...action, assets: action.assets >> 1 })
+    }
+    if (action.account !== 0) candidates.push({ ...action, account: 0 })
+
+    return candidates
+}
+
+/**
+ * Shrinks a failing sequence by removing chunks of actions, then simplifying single actions (fewer assets, shorter
+ * warps, lower account indexes), for as long as the sequence still violates the same invariant.
+ */
+export const shrink = async (
+    actions: FuzzAction[],
+    failure: Failure,
+    run: (actions: FuzzAction[]) => Promise<Failure | undefined>,
+    maxAttempts: number = 300
+): Promise<{ actions: FuzzAction[]; failure: Failure }> => {
+    let current = { actions, failure }
+    let attempts = 0
+
+    const tryCandidate = async (candidate: FuzzAction[]) => {
+        if (attempts++ >= maxAttempts) return false
+
+        const candidateFailure = await run(candidate)
+        if (candidateFailure?.invariant !== failure.invariant) return false
+
+        current = { actions: candidate, failure: candidateFailure }
+        return true
+    }
+
+    let improved = true
+    while (improved && attempts < maxAttempts) {
+        improved = false
+
+        for (let size = current.actions.length >> 1; size >= 1; size >>= 1) {
+            for (let start = 0; start + size <= current.actions.length; ) {
+                const { actions: previous } = current
+                if (await tryCandidate([...previous.slice(0, start), ...previous.slice(start + size)])) improved = true
+                else start += size
+            }
+        }
+        // Actions after the failing step are never needed
+        if (current.actions.length > current.failure.step + 1) {
+            improved = (await tryCandidate(current.actions.slice(0, current.failure.step + 1))) || improved
+        }
+
+        for (let i = 0; i < current.actions.length; i++) {
+            for (const simpler of simplifications(current.actions[i])) {
+                const candidate = [...current.actions]
+                candidate[i] = simpler
+                if (await tryCandidate(candidate)) {
+                    improved = true
+                    break
+                }
+            }
+        }
+    }
+
+    return current
+}
+
+export const formatAction = (action: FuzzAction): string => {
+    switch (action.type) {
+        case "buy":
+            return `buyAssets(${action.assets}) from account ${action.account}`
+        case "redeem":
+            return `redeemAssets(${action.assets}) from account ${action.account}`
+        case "claim":
+            return `claimRewards() from account ${action.account}`
+        case "warp":
+            return `time.increase(${action.seconds})`
+    }
+}
+
+/**
+ * Saves the sequence for `FUZZ_REPLAY` and describes it as a numbered script.
+ */
+export const reportFailure = (
+    actions: FuzzAction[],
+    failure: Failure,
+    { seed, run, originalLength }: { seed: number; run: number; originalLength: number },
+    outDir: string
+): string => {
+    const file = path.join(outDir, `seed-${seed}-run-${run}.json`)
+    fs.outputJSONSync(file, actions, { spaces: 2 })
+
+    return [
+        `Invariant "${failure.invariant}" violated after step ${failure.step + 1}: ${failure.message}`,
+        `Shrunk from ${originalLength} to ${actions.length} steps (seed ${seed}, run ${run}):`,
+        ...actions.map((action, i) => `  ${i + 1}. ${formatAction(action)}`),
+        `Replay with: FUZZ_REPLAY=${path.relative(process.cwd(), file)} yarn test:invariants`,
+    ].join("\n")
+}
+
+const readIntEnv = (name: string, fallback: number): number => {
+    const value = process.env[name]
+    if (value === undefined) return fallback
+    if (!/^\d+$/.test(value)) throw new Error(`${name} must be a non-negative integer, got "${value}"`)
+
+    return Number(value)
+}
+
+export const getFuzzConfig = (): FuzzConfig => ({
+    runs: readIntEnv("FUZZ_RUNS", 10),
+    steps: readIntEnv("FUZZ_STEPS", 30),
+    seed: readIntEnv("FUZZ_SEED", Math.floor(Math.random() * 2 ** 31)),
+    replayFile: process.env.FUZZ_REPLAY,
+})
@@ -0,0 +1,129 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { deployments, ethers, network } from "hardhat"
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+
+import { currentNetworkConfig } from "../../helper-functions"
+import { getStagingConfig } from "../../helper-hardhat-config"
+import { ERC20, RGStaking } from "../../typechain"
+
+/**
+ * Runs the staking lifecycle against the deployment recorded for the selected network, in real time. The tests depend
+ * on each other and run in order. See `yarn hardhat rgs:staging`.
+ */
+
+const { waitConfirmations } = currentNetworkConfig
+const { rewardWaitSeconds, pollIntervalMs, timeoutMs } = getStagingConfig(network.name)
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Calls `read` every `pollIntervalMs` until `done` accepts its result, failing after `timeoutMs`.
+ */
+const pollUntil = async <T>(read: () => Promise<T>, done: (value: T) => boolean, description: string): Promise<T> => {
+    const startedAt = Date.now()
+    for (;;) {
+        const value = await read()
+        if (done(value)) return value
+        if (Date.now() - startedAt > timeoutMs)
+            throw new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`)
+        await sleep(pollIntervalMs)
+    }
+}
+
+network.name === "hardhat"
+    ? describe.skip
+    : describe("RGStaking Staging Tests", function () {
+          // Leave room for the polling to time out with its own, more helpful error
+          this.timeout(rewardWaitSeconds * 1_000 + timeoutMs * 2)
+
+          let deployer: SignerWithAddress
+          let rGStaking: RGStaking
+          let stakingToken: ERC20
+          let rewardToken: ERC20
+          let assetPrice: BigNumber
+          let initialAssets: BigNumber
+          let rewardsBeforeWait: BigNumber
+
+          before(async () => {
+              if (!(await deployments.getOrNull("RGStaking"))) {
+                  throw new Error(`No RGStaking deployment recorded for ${network.name}. Run the deploy scripts first.`)
+              }
+
+              ;[deployer] = await ethers.getSigners()
+              rGStaking = await ethers.getContract("RGStaking", deployer)
+              stakingToken = await ethers.getContractAt("ERC20", await rGStaking.stakingTokenAddress(), deployer)
+              rewardToken = await ethers.getContractAt("ERC20", await rGStaking.rewardTokenAddress(), deployer)
+              assetPrice = await rGStaking.assetPrice()
+              initialAssets = await rGStaking.assetBalance(deployer.address)
+          })
+
+          it("Has an initialized and funded reward pool", async () => {
+              expect(await rGStaking.isRewardPoolInitialized()).to.be.true
+              expect(await rGStaking.totalRewardPool()).to.be.gt(0)
+              expect(await rewardToken.balanceOf(rGStaking.address)).to.be.gte(await rGStaking.totalRewardPool())
+          })
+
+          it("Approves the price and buys an asset", async () => {
+              const balanceBefore = await stakingToken.balanceOf(deployer.address)
+
+              if ((await stakingToken.allowance(deployer.address, rGStaking.address)).lt(assetPrice)) {
+                  await (await stakingToken.approve(rGStaking.address, assetPrice)).wait(waitConfirmations)
+              }
+              await (await rGStaking.buyAssets(1)).wait(waitConfirmations)
+
+              expect(await rGStaking.assetBalance(deployer.address)).to.equal(initialAssets.add(1))
+              expect(await stakingToken.balanceOf(deployer.address)).to.equal(balanceBefore.sub(assetPrice))
+              rewardsBeforeWait = await rGStaking.currentRewardsClaimable(deployer.address)
+          })
+
+          it("Accrues rewards over time", async () => {
+              await sleep(rewardWaitSeconds * 1_000)
+
+              // Views are evaluated at the latest block, so rewards only show up once new blocks are mined
+              const rewards = await pollUntil(
+                  () => rGStaking.currentRewardsClaimable(deployer.address),
+                  (value) => value.gt(rewardsBeforeWait),
+                  "currentRewardsClaimable to increase"
+              )
+              expect(rewards).to.be.gt(rewardsBeforeWait)
+          })
+
+          it("Claims the accrued rewards", async () => {
+              const balanceBefore = await rewardToken.balanceOf(deployer.address)
+              const claimable = await rGStaking.currentRewardsClaimable(deployer.address)
+              const vestingDuration = await rGStaking.vestingDuration()
+              const scheduleBefore = await rGStaking.vestingSchedule(deployer.address)
+
+              const receipt = await (await rGStaking.claimRewards()).wait(waitConfirmations)
+              const claimed: BigNumber = receipt.events!.find(({ event }) => event === "RewardsClaimed")!.args!
+                  .rewardWithdrawn
+
+              // Rewards keep accruing until the claim is mined
+              expect(claimed).to.be.gte(claimable)
+              if (vestingDuration.isZero()) {
+                  expect(await rewardToken.balanceOf(deployer.address)).to.equal(balanceBefore.add(claimed))
+                  return
+              }
+
+              // With vesting on, the claim is added to the vesting schedule instead of being sent
+              const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber)
+              const schedule = await rGStaking.vestingSchedule(deployer.address)
+              expect(await rewardToken.balanceOf(deployer.address)).to.equal(balanceBefore)
+              expect(schedule.vested.add(schedule.locked)).to.equal(
+                  scheduleBefore.vested.add(scheduleBefore.locked).add(claimed)
+              )
+              expect(schedule.startTime).to.equal(timestamp)
+              expect(schedule.endTime).to.be.gt(timestamp)
+          })
+
+          it("Redeems the asset", async () => {
+              const balanceBefore = await stakingToken.balanceOf(deployer.address)
+
+              await (await rGStaking.redeemAssets(1)).wait(waitConfirmations)
+
+              expect(await rGStaking.assetBalance(deployer.address)).to.equal(initialAssets)
+              expect(await stakingToken.balanceOf(deployer.address)).to.equal(balanceBefore.add(assetPrice))
+          })
+      })
@@ -0,0 +1,112 @@
+import { expect } from "chai"
+import fs from "fs-extra"
+import { config, deployments, ethers, network } from "hardhat"
+import path from "path"
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers"
+
+import { initializeRewardPool, isLocalNetwork } from "../../helper-functions"
+import { RGStaking, RGToken } from "../../typechain"
+import { SDK_CONTRACT_NAMES, SdkContractName, SdkDeployment, writeClientSdk } from "../../utils/client-sdk"
+
+// Generated inside the project so the SDK resolves `ethers` from our node_modules
+const outDir = path.resolve(config.paths.cache, "client-sdk-test")
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Client SDK Unit Tests", () => {
+          async function generateSdkFixture() {
+              const [deployer, account2] = await ethers.getSigners()
+
+              await deployments.fixture()
+              await initializeRewardPool(deployer)
+
+              const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
+              const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
+
+              const sdkDeployments = {} as { [contractName in SdkContractName]: SdkDeployment }
+              for (const contractName of SDK_CONTRACT_NAMES) {
+                  const { address, receipt, transactionHash } = await deployments.get(contractName)
+                  sdkDeployments[contractName] = { address, blockNumber: receipt?.blockNumber, transactionHash }
+              }
+
+              fs.removeSync(outDir)
+              const options = {
+                  outDir,
+                  chainId: network.config.chainId!,
+                  deployments: sdkDeployments,
+                  typechainDir: path.resolve(config.paths.root, config.typechain.outDir),
+                  artifactsDir: config.paths.artifacts,
+              }
+              writeClientSdk({ ...options, format: "typescript" })
+
+              const sdk = require(outDir)
+
+              return { rGToken, rGStaking, deployer, account2, options, sdk }
+          }
+
+          after(() => fs.removeSync(outDir))
+
+          it("Connects to the latest deployment of the chain", async () => {
+              const { rGStaking, rGToken, deployer, sdk } = await loadFixture(generateSdkFixture)
+
+              expect(sdk.getRGStaking(network.config.chainId, deployer).address).to.equal(rGStaking.address)
+              expect(sdk.getRGToken(network.config.chainId, deployer).address).to.equal(rGToken.address)
+          })
+
+          it("Throws for chains without a deployment", async () => {
+              const { deployer, sdk } = await loadFixture(generateSdkFixture)
+
+              expect(() => sdk.getRGStaking(1, deployer)).to.throw("RGStaking is not deployed on chain 1")
+          })
+
+          it("Replaces the recorded deployment of a chain instead of appending to it", async () => {
+              const { options } = await loadFixture(generateSdkFixture)
+              const newAddress = ethers.Wallet.createRandom().address
+
+              writeClientSdk({
+                  ...options,
+                  format: "typescript",
+                  deployments: { ...options.deployments, RGStaking: { address: newAddress } },
+              })
+
+              const recorded = fs.readJSONSync(path.resolve(outDir, "deployments.json"))
+              expect(recorded[network.config.chainId!].RGStaking).to.deep.equal({ address: newAddress })
+          })
+
+          it("Approves and buys assets in one call", async () => {
+              const { rGStaking, rGToken, deployer, account2, sdk } = await loadFixture(generateSdkFixture)
+              const price = sdk.assetsToTokens(3, await rGStaking.assetPrice())
+              await rGToken.transfer(account2.address, price)
+
+              const rGStakingAsAccount2 = sdk.getRGStaking(network.config.chainId, account2)
+              await expect(sdk.buyAssets(rGStakingAsAccount2, 3)).to.changeTokenBalances(
+                  rGToken,
+                  [account2, rGStaking],
+                  [price.mul(-1), price]
+              )
+
+              expect(await rGStaking.assetBalance(account2.address)).to.equal(3)
+              expect(await rGToken.allowance(account2.address, rGStaking.address)).to.equal(0)
+              expect(await rGStaking.assetBalance(deployer.address)).to.equal(0)
+          })
+
+          it("Formats RGT amounts and converts assets at a given price", async () => {
+              const { sdk } = await loadFixture(generateSdkFixture)
+
+              expect(sdk.parseRGT("1.5")).to.equal(ethers.utils.parseEther("1.5"))
+              expect(sdk.formatRGT(ethers.utils.parseEther("2.25"))).to.equal("2.25")
+              expect(sdk.tokensToAssets(sdk.parseRGT(25), sdk.parseRGT(10))).to.equal(2)
+              expect(sdk.assetsToTokens(3, sdk.parseRGT(2.5))).to.equal(sdk.parseRGT(7.5))
+          })
+
+          it("Writes only ABIs and deployments in the json format", async () => {
+              const { options } = await loadFixture(generateSdkFixture)
+              const jsonOutDir = path.resolve(outDir, "json")
+
+              writeClientSdk({ ...options, outDir: jsonOutDir, format: "json" })
+
+              expect(fs.readdirSync(jsonOutDir).sort()).to.deep.equal(["abis", "deployments.json"])
+              expect(fs.readJSONSync(path.resolve(jsonOutDir, "abis/RGStaking.json"))).to.be.an("array")
+          })
+      })
@@ -0,0 +1,166 @@
+import { expect } from "chai"
+import hre, { deployments, ethers } from "hardhat"
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers"
+
+import { initializeRewardPool, isLocalNetwork, parseRGT } from "../../helper-functions"
+import { getNetworkConfig } from "../../helper-hardhat-config"
+import { RGStaking, RGToken } from "../../typechain"
+import {
+    SignedDeploymentManifest,
+    buildManifest,
+    checkManifest,
+    diffManifests,
+    getManifestSigners,
+    signManifest,
+    verifySignOff,
+} from "../../utils/deployment-manifest"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Deployment Manifest Unit Tests", () => {
+          async function manifestFixture() {
+              await deployments.fixture()
+              const [deployer, account2] = await ethers.getSigners()
+              const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
+
+              const manifest = await signManifest(await buildManifest(hre), deployer)
+              const manifestSigners = await getManifestSigners(hre)
+
+              return { rGStaking, deployer, account2, manifest, manifestSigners }
+          }
+
+          // Copies the manifest so a test can tamper with it without affecting the fixture
+          const copy = (manifest: SignedDeploymentManifest): SignedDeploymentManifest =>
+              JSON.parse(JSON.stringify(manifest))
+
+          describe("Generation", () => {
+              it("Records the deploy scripts' deployments and the reward pool state", async () => {
+                  const { rGStaking, deployer, manifest } = await loadFixture(manifestFixture)
+                  const { contracts, state } = manifest
+                  const rGToken = await deployments.get("RGToken")
+
+                  expect(contracts.RGToken).to.include({
+                      address: rGToken.address,
+                      contract: "contracts/RGToken.sol:RGToken",
+                      deployer: deployer.address,
+                      transactionHash: rGToken.transactionHash,
+                      codeHash: ethers.utils.keccak256(await ethers.provider.getCode(rGToken.address)),
+                  })
+                  const { supplyCap, initialSupply } = getNetworkConfig(hre.network.name)
+                  const { admin, minter } = await hre.getNamedAccounts()
+                  expect(contracts.RGToken.args).to.deep.equal([
+                      supplyCap.toString(),
+                      admin,
+                      minter,
+                      [deployer.address],
+                      [initialSupply.toString()],
+                  ])
+                  expect(contracts.RGToken.compiler!.version).to.match(/^0\.8\.7\+commit/)
+                  expect(contracts.RGStaking_Implementation.contract).to.equal("contracts/RGStaking.sol:RGStaking")
+                  expect(contracts.RGStaking.implementation).to.equal(contracts.RGStaking_Implementation.address)
+
+                  expect(manifest.blockNumber).to.equal(await ethers.provider.getBlockNumber())
+                  expect(state).to.deep.equal({
+                      isRewardPoolInitialized: false,
+                      totalRewardPool: (await rGStaking.totalRewardPool()).toString(),
+                      stakingTokenAddress: rGToken.address,
+                      rewardTokenAddress: rGToken.address,
+                  })
+              })
+
+              it("Is signed off by the given account", async () => {
+                  const { deployer, manifest, manifestSigners } = await loadFixture(manifestFixture)
+
+                  expect(manifest.signOff.signer).to.equal(deployer.address)
+                  expect(verifySignOff(manifest, manifestSigners)).to.be.empty
+              })
+
+              it("Rejects a manifest edited after the sign-off", async () => {
+                  const { manifest, manifestSigners } = await loadFixture(manifestFixture)
+                  const edited = copy(manifest)
+                  edited.state!.totalRewardPool = "1"
+
+                  expect(verifySignOff(edited, manifestSigners))
+                      .to.have.lengthOf(1)
+                      .and.to.match(/was signed off/)
+              })
+
+              it("Rejects a sign-off claimed for another account", async () => {
+                  const { account2, manifest, manifestSigners } = await loadFixture(manifestFixture)
+                  const forged = copy(manifest)
+                  forged.signOff.signer = account2.address
+
+                  expect(verifySignOff(forged, manifestSigners)).to.deep.equal([
+                      `The sign-off signature wasn't made by ${account2.address}`,
+                  ])
+              })
+
+              it("Rejects a sign-off by an account that isn't one of the manifest signers", async () => {
+                  const { account2, manifest, manifestSigners } = await loadFixture(manifestFixture)
+                  const { admin } = await hre.getNamedAccounts()
+                  const signedByAccount2 = await signManifest(copy(manifest), account2)
+
+                  expect(manifestSigners).to.deep.equal([admin])
+                  expect(verifySignOff(signedByAccount2, manifestSigners)).to.deep.equal([
+                      `The sign-off was made by ${account2.address}, who isn't one of the manifest signers`,
+                  ])
+                  expect((await checkManifest(hre, signedByAccount2)).signOffErrors).to.have.lengthOf(1)
+              })
+          })
+
+          describe("Check", () => {
+              it("Finds no drift on the network the manifest was generated for", async () => {
+                  const { manifest } = await loadFixture(manifestFixture)
+
+                  expect(await checkManifest(hre, manifest)).to.deep.equal({ signOffErrors: [], drift: [] })
+              })
+
+              it("Reports the reward pool initialization but not the live reward pool", async () => {
+                  const { rGStaking, deployer, manifest } = await loadFixture(manifestFixture)
+                  const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
+                  await initializeRewardPool(deployer)
+                  await rGToken.approve(rGStaking.address, parseRGT(100))
+                  await rGStaking.topUpRewardPool(parseRGT(100))
+
+                  const { drift } = await checkManifest(hre, manifest)
+
+                  expect(drift).to.deep.equal(["state.isRewardPoolInitialized: expected false, found true"])
+              })
+
+              it("Reports an upgrade that bypassed the deploy scripts", async () => {
+                  const { rGStaking, deployer, manifest } = await loadFixture(manifestFixture)
+                  const implementation = await (await ethers.getContractFactory("RGStakingV2Mock", deployer)).deploy()
+                  const proxyAdmin = await ethers.getContract("DefaultProxyAdmin", deployer)
+                  await proxyAdmin.upgrade(rGStaking.address, implementation.address)
+
+                  const { drift } = await checkManifest(hre, manifest)
+
+                  expect(drift).to.deep.equal([
+                      `contracts.RGStaking.implementation: expected "${manifest.contracts.RGStaking.implementation}", ` +
+                          `found "${implementation.address}"`,
+                  ])
+              })
+
+              it("Reports deployments that were added or removed", async () => {
+                  const { manifest } = await loadFixture(manifestFixture)
+                  const withoutToken = copy(manifest)
+                  delete withoutToken.contracts.RGToken
+
+                  expect(diffManifests(withoutToken, await buildManifest(hre))).to.have.lengthOf(1)
+                  expect(diffManifests(manifest, withoutToken)[0]).to.match(/^contracts\.RGToken: expected \{/)
+              })
+
+              it("Reports compiled contracts that no longer match the deployed bytecode", async () => {
+                  const { manifest } = await loadFixture(manifestFixture)
+                  const outdated = copy(manifest)
+                  outdated.contracts.RGToken.bytecodeHash = ethers.constants.HashZero
+
+                  const { drift } = await checkManifest(hre, outdated)
+
+                  expect(drift).to.include(
+                      "contracts.RGToken: the compiled contracts/RGToken.sol:RGToken no longer matches the deployed bytecode"
+                  )
+              })
+          })
+      })
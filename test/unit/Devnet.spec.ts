@@ -0,0 +1,132 @@
+import { expect } from "chai"
+import hre from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { assignScenarioAccounts, fundAccounts, seedScenario } from "../../utils/devnet"
+import { Scenario, parseScenario } from "../../utils/reward-simulator"
+import { deployContractsFixture } from "../fixtures"
+
+const scenario: Scenario = parseScenario({
+    endAt: 10 * 86_400,
+    events: [
+        { type: "buy", account: "alice", at: 0, assets: 10 },
+        { type: "buy", account: "bob", at: 3_600, assets: 5 },
+        { type: "claim", account: "carol", at: 86_400 },
+        { type: "redeem", account: "alice", at: 2 * 86_400, assets: 4 },
+        { type: "setRate", at: 3 * 86_400, dailyRewardsPerAsset: "0.2" },
+        { type: "topUp", at: 3 * 86_400 + 1, amount: "500" },
+    ],
+})
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Devnet Unit Tests", () => {
+          async function fundedAccountsFixture() {
+              const { rGToken, rGStaking, deployer } = await loadFixture(deployContractsFixture)
+              const accounts = (await hre.ethers.getSigners()).slice(1, 4)
+
+              await fundAccounts({ rGToken, rGStaking }, deployer, accounts, parseRGT(1000))
+
+              return { rGToken, rGStaking, deployer, accounts }
+          }
+
+          describe("fundAccounts", () => {
+              it("Sends RGT to each account and approves RGStaking to spend it", async () => {
+                  const { rGToken, rGStaking, accounts } = await loadFixture(fundedAccountsFixture)
+
+                  for (const { address } of accounts) {
+                      expect(await rGToken.balanceOf(address)).to.equal(parseRGT(1000))
+                      expect(await rGToken.allowance(address, rGStaking.address)).to.equal(
+                          hre.ethers.constants.MaxUint256
+                      )
+                  }
+              })
+
+              it("Refuses to fund more than the holder has", async () => {
+                  const { rGToken, rGStaking, accounts } = await loadFixture(fundedAccountsFixture)
+                  const [poorHolder, ...others] = accounts
+
+                  await expect(
+                      fundAccounts({ rGToken, rGStaking }, poorHolder, others, parseRGT(600))
+                  ).to.be.rejectedWith(`${poorHolder.address} can't fund 2 accounts with its RGT balance`)
+              })
+          })
+
+          describe("assignScenarioAccounts", () => {
+              it("Maps the scenario accounts to the funded ones in order of first appearance", async () => {
+                  const { accounts } = await loadFixture(fundedAccountsFixture)
+
+                  const assigned = assignScenarioAccounts(scenario, accounts)
+
+                  expect(Object.keys(assigned)).to.deep.equal(["alice", "bob", "carol"])
+                  expect(Object.values(assigned)).to.deep.equal(accounts)
+              })
+
+              it("Refuses scenarios with more accounts than were funded", async () => {
+                  const { accounts } = await loadFixture(fundedAccountsFixture)
+
+                  expect(() => assignScenarioAccounts(scenario, accounts.slice(0, 2))).to.throw(
+                      "The scenario has 3 accounts but only 2 are funded"
+                  )
+              })
+          })
+
+          describe("seedScenario", () => {
+              async function seededFixture() {
+                  const { rGToken, rGStaking, deployer, accounts } = await loadFixture(fundedAccountsFixture)
+
+                  const seeded = await seedScenario(hre, { rGToken, rGStaking }, scenario, {
+                      admin: deployer,
+                      accounts: assignScenarioAccounts(scenario, accounts),
+                  })
+
+                  // The first event is at 0
+                  return { rGStaking, accounts, seeded, startTimestamp: seeded[0].timestamp }
+              }
+
+              it("Initializes the reward pool and replays the events with the assigned accounts", async () => {
+                  const { rGStaking, accounts, seeded } = await loadFixture(seededFixture)
+                  const [alice, bob] = accounts
+
+                  expect(await rGStaking.isRewardPoolInitialized()).to.equal(true)
+                  expect(seeded.map(({ account }) => account)).to.deep.equal([
+                      alice.address,
+                      bob.address,
+                      accounts[2].address,
+                      alice.address,
+                      undefined,
+                      undefined,
+                  ])
+                  expect(await rGStaking.assetBalance(alice.address)).to.equal(6)
+                  expect(await rGStaking.assetBalance(bob.address)).to.equal(5)
+                  expect(await rGStaking.dailyRewardsPerAsset()).to.equal(parseRGT(0.2))
+                  expect(await rGStaking.totalRewardPool()).to.be.gt(parseRGT(10_000))
+              })
+
+              it("Records the events the contract reverts and carries on", async () => {
+                  const { seeded } = await loadFixture(seededFixture)
+
+                  expect(seeded.map(({ revertedWith }) => revertedWith)).to.deep.equal([
+                      undefined,
+                      undefined,
+                      "RGStaking__NoRewardsForSender()",
+                      undefined,
+                      undefined,
+                      undefined,
+                  ])
+              })
+
+              it("Mines the events at their time and moves time to the end of the scenario", async () => {
+                  const { rGStaking, accounts, seeded, startTimestamp } = await loadFixture(seededFixture)
+                  const [bought] = await rGStaking.queryFilter(rGStaking.filters.AssetsBought(accounts[1].address))
+
+                  expect(seeded.map(({ timestamp }) => timestamp - startTimestamp)).to.deep.equal(
+                      scenario.events.map(({ at }) => at)
+                  )
+                  expect((await bought.getBlock()).timestamp).to.equal(startTimestamp + 3_600)
+                  expect(await time.latest()).to.equal(startTimestamp + scenario.endAt!)
+              })
+          })
+      })
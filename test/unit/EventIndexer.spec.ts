@@ -0,0 +1,216 @@
+import { expect } from "chai"
+import fs from "fs-extra"
+import { config, deployments, ethers } from "hardhat"
+import path from "path"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { TOTAL_REWARD_POOL, isLocalNetwork, parseRGT } from "../../helper-functions"
+import {
+    buildAccountHistories,
+    exportStatements,
+    indexEvents,
+    readIndexerCache,
+    reconcile,
+    statementToCsv,
+} from "../../utils/event-indexer"
+import { buyAssetsAndWait24hours } from "../fixtures"
+
+const cacheDir = path.resolve(config.paths.cache, "indexer-test")
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Event Indexer Unit Tests", () => {
+          async function stakingActivityFixture() {
+              const result = await loadFixture(buyAssetsAndWait24hours)
+              const { rGToken, rGStaking, account2 } = result
+              const deploymentBlock = (await deployments.get("RGStaking")).receipt!.blockNumber
+
+              // deployer: claims after 24 hours and redeems 2 assets; account2: buys 3 assets
+              await rGStaking.claimRewards()
+              await rGStaking.redeemAssets(2)
+              await rGToken.transfer(account2.address, parseRGT(30))
+              await rGToken.connect(account2).approve(rGStaking.address, parseRGT(30))
+              await rGStaking.connect(account2).buyAssets(3)
+              await time.increase(time.duration.hours(6))
+
+              fs.removeSync(cacheDir)
+
+              return { ...result, deploymentBlock, latestBlock: await ethers.provider.getBlockNumber() }
+          }
+
+          after(() => fs.removeSync(cacheDir))
+
+          it("Indexes every staking event in the block range", async () => {
+              const { rGStaking, deploymentBlock, latestBlock } = await loadFixture(stakingActivityFixture)
+
+              const { events, lastIndexedBlock } = await indexEvents(rGStaking, {
+                  cacheFile: path.resolve(cacheDir, "all.json"),
+                  fromBlock: deploymentBlock,
+                  toBlock: latestBlock,
+              })
+
+              expect(lastIndexedBlock).to.equal(latestBlock)
+              expect(events.map((event) => event.name)).to.deep.equal([
+                  "RewardPoolInitialized",
+                  "AssetsBought",
+                  "RewardsClaimed",
+                  "AssetsRedeemed",
+                  "AssetsBought",
+              ])
+          })
+
+          it("Resumes from the cache in chunks without duplicating events", async () => {
+              const { rGStaking, deploymentBlock, latestBlock } = await loadFixture(stakingActivityFixture)
+              const cacheFile = path.resolve(cacheDir, "resume.json")
+              const chunks: number[][] = []
+
+              await indexEvents(rGStaking, { cacheFile, fromBlock: deploymentBlock, toBlock: latestBlock - 3 })
+              expect(readIndexerCache(cacheFile)!.lastIndexedBlock).to.equal(latestBlock - 3)
+
+              const { events } = await indexEvents(rGStaking, {
+                  cacheFile,
+                  fromBlock: deploymentBlock,
+                  toBlock: latestBlock,
+                  chunkSize: 2,
+                  onChunk: (start, end) => chunks.push([start, end]),
+              })
+
+              expect(chunks).to.deep.equal([
+                  [latestBlock - 2, latestBlock - 1],
+                  [latestBlock, latestBlock],
+              ])
+              expect(events).to.have.lengthOf(5)
+          })
+
+          it("Refuses a cache built for another contract", async () => {
+              const { rGStaking, rGToken, deploymentBlock, latestBlock } = await loadFixture(stakingActivityFixture)
+              const cacheFile = path.resolve(cacheDir, "other.json")
+              await indexEvents(rGStaking, { cacheFile, fromBlock: deploymentBlock, toBlock: latestBlock })
+
+              await expect(
+                  indexEvents(rGStaking.attach(rGToken.address), {
+                      cacheFile,
+                      fromBlock: deploymentBlock,
+                      toBlock: latestBlock,
+                  })
+              ).to.be.rejectedWith("was built for another contract")
+          })
+
+          it("Rebuilds every account's asset and claim history", async () => {
+              const { rGStaking, deployer, account2, expectedRewardsEarned, deploymentBlock, latestBlock } =
+                  await loadFixture(stakingActivityFixture)
+              const { events } = await indexEvents(rGStaking, {
+                  cacheFile: path.resolve(cacheDir, "histories.json"),
+                  fromBlock: deploymentBlock,
+                  toBlock: latestBlock,
+              })
+
+              const histories = buildAccountHistories(events)
+
+              expect(histories[deployer.address].entries.map((entry) => entry.action)).to.deep.equal([
+                  "buy",
+                  "claim",
+                  "redeem",
+              ])
+              expect(histories[deployer.address].rewardsClaimed).to.equal(expectedRewardsEarned)
+              for (const signer of [deployer, account2]) {
+                  expect(histories[signer.address].assetBalance).to.equal(await rGStaking.assetBalance(signer.address))
+              }
+          })
+
+          it("Reconciles the indexed events with the reward pool", async () => {
+              const { rGStaking, deployer, account2, expectedRewardsEarned, deploymentBlock, latestBlock } =
+                  await loadFixture(stakingActivityFixture)
+              const { events } = await indexEvents(rGStaking, {
+                  cacheFile: path.resolve(cacheDir, "reconcile.json"),
+                  fromBlock: deploymentBlock,
+                  toBlock: latestBlock,
+              })
+
+              const reconciliation = reconcile(events, await rGStaking.totalRewardPool())
+
+              expect(reconciliation.rewardPoolFunded).to.equal(TOTAL_REWARD_POOL)
+              expect(reconciliation.rewardsClaimed).to.equal(expectedRewardsEarned)
+              expect(reconciliation.assetsOutstanding).to.equal(6)
+
+              // Only the deployer's redeem settled rewards that haven't been claimed since
+              const settled = await rGStaking.currentRewardsClaimable(deployer.address)
+              expect(reconciliation.rewardsSettledUnclaimed).to.be.gt(0).and.lte(settled)
+              expect(await rGStaking.currentRewardsClaimable(account2.address)).to.be.gt(0)
+          })
+
+          it("Counts emergency withdrawals as redemptions", async () => {
+              const { rGStaking, deployer, account2, deploymentBlock } = await loadFixture(stakingActivityFixture)
+              // The deployer's redeem credited rewards that the withdrawal forfeits
+              const [{ rewards: forfeited }] = await rGStaking.userDataOf([deployer.address])
+              await rGStaking.emergencyWithdraw()
+              const { events } = await indexEvents(rGStaking, {
+                  cacheFile: path.resolve(cacheDir, "emergency.json"),
+                  fromBlock: deploymentBlock,
+                  toBlock: await ethers.provider.getBlockNumber(),
+              })
+
+              const history = buildAccountHistories(events)[deployer.address]
+              const reconciliation = reconcile(events, await rGStaking.totalRewardPool())
+
+              expect(history.entries[history.entries.length - 1]).to.include({
+                  action: "emergencyWithdraw",
+                  rewards: forfeited.toString(),
+              })
+              expect(history.assetBalance).to.equal(0)
+              expect(reconciliation.assetsOutstanding).to.equal(3)
+              expect(forfeited).to.be.gt(0)
+              expect(reconciliation.rewardsForfeited).to.equal(forfeited)
+              expect(reconciliation.rewardPoolFunded).to.equal(TOTAL_REWARD_POOL.add(forfeited))
+              // The deployer's settled rewards went back to the pool, only account2's accrual is left outside it
+              const [deployerData, account2Data] = await rGStaking.userDataOf([deployer.address, account2.address])
+              expect(reconciliation.rewardsSettledUnclaimed).to.equal(deployerData.rewards.add(account2Data.rewards))
+          })
+
+          it("Counts vesting forfeits as funding the reward pool", async () => {
+              const { rGStaking, deployer, account2, deploymentBlock } = await loadFixture(stakingActivityFixture)
+              await rGStaking.setVestingTerms(time.duration.days(30), 5_000)
+              await rGStaking.connect(account2).claimRewards()
+              const accelerateTx = await rGStaking.connect(account2).accelerateVesting(ethers.constants.MaxUint256)
+              const { forfeited } = (await accelerateTx.wait()).events!.find(
+                  ({ event }) => event === "VestingRewardsForfeited"
+              )!.args!
+              const { events } = await indexEvents(rGStaking, {
+                  cacheFile: path.resolve(cacheDir, "vesting.json"),
+                  fromBlock: deploymentBlock,
+                  toBlock: await ethers.provider.getBlockNumber(),
+              })
+
+              const reconciliation = reconcile(events, await rGStaking.totalRewardPool())
+
+              expect(forfeited).to.be.gt(0)
+              expect(reconciliation.rewardPoolFunded).to.equal(TOTAL_REWARD_POOL.add(forfeited))
+              const [deployerData, account2Data] = await rGStaking.userDataOf([deployer.address, account2.address])
+              expect(reconciliation.rewardsSettledUnclaimed).to.equal(deployerData.rewards.add(account2Data.rewards))
+              expect(buildAccountHistories(events)[account2.address].entries.map(({ action }) => action)).to.deep.equal(
+                  ["buy", "claim"]
+              )
+          })
+
+          it("Exports per-account statements as CSV and JSON", async () => {
+              const { rGStaking, deployer, deploymentBlock, latestBlock } = await loadFixture(stakingActivityFixture)
+              const { events } = await indexEvents(rGStaking, {
+                  cacheFile: path.resolve(cacheDir, "export.json"),
+                  fromBlock: deploymentBlock,
+                  toBlock: latestBlock,
+              })
+              const history = buildAccountHistories(events)[deployer.address]
+
+              const [csvFile] = exportStatements([history], path.resolve(cacheDir, "statements"), "csv")
+              const [jsonFile] = exportStatements([history], path.resolve(cacheDir, "statements"), "json")
+
+              const csvLines = fs.readFileSync(csvFile, "utf8").trim().split("\n")
+              expect(csvLines[0]).to.equal(
+                  "blockNumber,timestamp,transactionHash,action,assets,rewards,assetBalance,totalRewardsClaimed"
+              )
+              expect(csvLines).to.have.lengthOf(4)
+              expect(fs.readFileSync(csvFile, "utf8")).to.equal(statementToCsv(history))
+              expect(fs.readJSONSync(jsonFile).assetBalance).to.equal("3")
+          })
+      })
@@ -0,0 +1,139 @@
+import { expect } from "chai"
+import fs from "fs-extra"
+import hre from "hardhat"
+import path from "path"
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork } from "../../helper-functions"
+import {
+    GasBaseline,
+    buildGasBaseline,
+    compareGas,
+    describeGasFailures,
+    measureGasScenarios,
+} from "../../utils/gas-benchmark"
+import { deployContractsFixture } from "../fixtures"
+
+const baseline: GasBaseline = {
+    tolerance: { percent: 1, gas: 100 },
+    scenarios: {
+        buyAssets: { gasUsed: 100_000 },
+        redeemAssets: { gasUsed: 5_000 },
+        claimRewards: { gasUsed: 80_000, tolerance: { percent: 5 } },
+    },
+}
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Gas Benchmark Unit Tests", () => {
+          describe("compareGas", () => {
+              it("Allows the larger of the percentage and the gas tolerance", async () => {
+                  const comparisons = compareGas(baseline, {
+                      buyAssets: 101_000,
+                      redeemAssets: 5_100,
+                      claimRewards: 84_000,
+                  })
+
+                  expect(comparisons.map(({ allowed, status }) => [allowed, status])).to.deep.equal([
+                      [1_000, "ok"],
+                      [100, "ok"],
+                      [4_000, "ok"],
+                  ])
+              })
+
+              it("Flags regressions and improvements beyond the tolerance", async () => {
+                  const comparisons = compareGas(baseline, {
+                      buyAssets: 101_001,
+                      redeemAssets: 4_899,
+                      claimRewards: 84_001,
+                  })
+
+                  expect(comparisons.map(({ status }) => status)).to.deep.equal([
+                      "regression",
+                      "improvement",
+                      "regression",
+                  ])
+              })
+
+              it("Lets the caller's tolerance override the baseline's", async () => {
+                  const comparisons = compareGas(
+                      baseline,
+                      { buyAssets: 101_001, redeemAssets: 5_000, claimRewards: 80_500 },
+                      { percent: 0, gas: 2_000 }
+                  )
+
+                  expect(comparisons.map(({ allowed, status }) => [allowed, status])).to.deep.equal([
+                      [2_000, "ok"],
+                      [2_000, "ok"],
+                      [2_000, "ok"],
+                  ])
+              })
+
+              it("Reports scenarios missing from either side", async () => {
+                  const comparisons = compareGas(baseline, {
+                      buyAssets: 100_000,
+                      claimRewards: 80_000,
+                      lockAssets: 120_000,
+                  })
+
+                  expect(comparisons.map(({ scenario, status }) => [scenario, status])).to.deep.equal([
+                      ["buyAssets", "ok"],
+                      ["redeemAssets", "missing"],
+                      ["claimRewards", "ok"],
+                      ["lockAssets", "new"],
+                  ])
+              })
+          })
+
+          describe("describeGasFailures", () => {
+              it("Describes regressions with their diff and skips improvements", async () => {
+                  const failures = describeGasFailures(
+                      compareGas(baseline, { buyAssets: 102_500, redeemAssets: 4_000, lockAssets: 120_000 })
+                  )
+
+                  expect(failures).to.deep.equal([
+                      "buyAssets: 100000 -> 102500 gas (+2500 gas, +2.50%), 1000 allowed",
+                      "claimRewards: in the baseline but not measured anymore",
+                      "lockAssets: not in the baseline, measured 120000 gas",
+                  ])
+              })
+          })
+
+          describe("buildGasBaseline", () => {
+              it("Records the measurements and keeps the previous tolerances", async () => {
+                  expect(buildGasBaseline({ buyAssets: 99_000, claimRewards: 81_000 }, baseline)).to.deep.equal({
+                      tolerance: { percent: 1, gas: 100 },
+                      scenarios: {
+                          buyAssets: { gasUsed: 99_000 },
+                          claimRewards: { gasUsed: 81_000, tolerance: { percent: 5 } },
+                      },
+                  })
+              })
+          })
+
+          describe("measureGasScenarios", () => {
+              it("Stays within the committed baseline", async function () {
+                  // Coverage instruments the contracts, which costs gas
+                  if ((hre as { __SOLIDITY_COVERAGE_RUNNING?: boolean }).__SOLIDITY_COVERAGE_RUNNING) this.skip()
+                  const contracts = await loadFixture(deployContractsFixture)
+
+                  const measured = await measureGasScenarios(hre, contracts)
+
+                  const committed: GasBaseline = fs.readJSONSync(
+                      path.resolve(hre.config.paths.root, "gas-baseline.json")
+                  )
+                  expect(describeGasFailures(compareGas(committed, measured))).to.be.empty
+              })
+
+              it("Needs a reward pool that isn't initialized yet", async () => {
+                  const { rGToken, rGStaking } = await loadFixture(deployContractsFixture)
+                  await rGToken.approve(rGStaking.address, await rGStaking.totalRewardPool())
+                  await rGStaking.initializeRewardPool()
+
+                  await expect(measureGasScenarios(hre, { rGToken, rGStaking })).to.be.rejectedWith(
+                      "The gas scenarios need a deployment whose reward pool isn't initialized"
+                  )
+              })
+          })
+      })
@@ -0,0 +1,259 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+import { AddressInfo } from "net"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { RGStaking, RGToken } from "../../typechain"
+import { signIntent, signPermit, submitIntent, submitPermit } from "../../utils/intents"
+import { createRelayerServer, postToRelayer } from "../../utils/relayer"
+import { buyAssetsFixture } from "../fixtures"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Gasless Staking Unit Tests", () => {
+          async function gaslessFixture() {
+              const { rGToken, rGStaking, deployer, account2, amountOfAssets } = await loadFixture(buyAssetsFixture)
+              const [, , user, relayer] = await ethers.getSigners()
+
+              // The user holds tokens but never sends a transaction
+              await rGToken.transfer(user.address, parseRGT(100))
+              const deadline = (await time.latest()) + time.duration.hours(1)
+
+              return {
+                  rGToken,
+                  rGStaking,
+                  deployer,
+                  account2,
+                  amountOfAssets,
+                  user,
+                  relayer,
+                  deadline,
+                  rGStakingAsRelayer: rGStaking.connect(relayer),
+                  rGTokenAsRelayer: rGToken.connect(relayer),
+              }
+          }
+
+          describe("Permit", () => {
+              it("Approves with a signed permit", async () => {
+                  const { rGToken, rGStaking, user, rGTokenAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  const permit = await signPermit(rGToken, user, rGStaking.address, parseRGT(50), deadline)
+                  await submitPermit(rGTokenAsRelayer, permit)
+
+                  expect(await rGToken.allowance(user.address, rGStaking.address)).to.equal(parseRGT(50))
+                  expect(await rGToken.nonces(user.address)).to.equal(1)
+              })
+
+              it("Buys assets without a separate approval", async () => {
+                  const { rGToken, rGStaking, user, deadline } = await loadFixture(gaslessFixture)
+
+                  const { v, r, s } = await signPermit(rGToken, user, rGStaking.address, parseRGT(50), deadline)
+
+                  await expect(rGStaking.connect(user).buyAssetsWithPermit(5, deadline, v, r, s))
+                      .to.emit(rGStaking, "AssetsBought")
+                      .withArgs(user.address, 5)
+                  expect(await rGToken.balanceOf(user.address)).to.equal(parseRGT(50))
+              })
+
+              it("Buys with an existing allowance when the permit was already used", async () => {
+                  const { rGToken, rGStaking, user, rGTokenAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  // Someone front-runs the purchase by submitting the permit
+                  const permit = await signPermit(rGToken, user, rGStaking.address, parseRGT(50), deadline)
+                  await submitPermit(rGTokenAsRelayer, permit)
+
+                  await rGStaking.connect(user).buyAssetsWithPermit(5, deadline, permit.v, permit.r, permit.s)
+                  expect(await rGStaking.assetBalance(user.address)).to.equal(5)
+              })
+
+              it("Reverts when the permit has expired", async () => {
+                  const { rGToken, rGStaking, user, deadline } = await loadFixture(gaslessFixture)
+
+                  const { v, r, s } = await signPermit(rGToken, user, rGStaking.address, parseRGT(50), deadline)
+                  await time.increaseTo(deadline + 1)
+
+                  await expect(rGStaking.connect(user).buyAssetsWithPermit(5, deadline, v, r, s))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__ExpiredSignature")
+                      .withArgs(deadline)
+              })
+
+              it("Reverts when the permit was signed by someone else", async () => {
+                  const { rGToken, rGStaking, user, account2, deadline } = await loadFixture(gaslessFixture)
+
+                  const { v, r, s } = await signPermit(rGToken, account2, rGStaking.address, parseRGT(50), deadline)
+
+                  await expect(rGStaking.connect(user).buyAssetsWithPermit(5, deadline, v, r, s)).to.be.revertedWith(
+                      "ERC20: insufficient allowance"
+                  )
+              })
+          })
+
+          describe("Signed intents", () => {
+              it("Buys assets for the signer, paid by the signer", async () => {
+                  const { rGToken, rGStaking, user, relayer, rGStakingAsRelayer, rGTokenAsRelayer, deadline } =
+                      await loadFixture(gaslessFixture)
+
+                  await submitPermit(
+                      rGTokenAsRelayer,
+                      await signPermit(rGToken, user, rGStaking.address, parseRGT(50), deadline)
+                  )
+                  const intent = await signIntent(rGStaking, user, "buy", 5, deadline)
+
+                  await expect(submitIntent(rGStakingAsRelayer, intent))
+                      .to.emit(rGStaking, "AssetsBought")
+                      .withArgs(user.address, 5)
+                  expect(await rGStaking.assetBalance(user.address)).to.equal(5)
+                  expect(await rGStaking.assetBalance(relayer.address)).to.equal(0)
+                  expect(await rGToken.balanceOf(user.address)).to.equal(parseRGT(50))
+                  expect(await rGStaking.nonces(user.address)).to.equal(1)
+              })
+
+              it("Redeems assets and claims rewards to the signer", async () => {
+                  const { rGToken, rGStaking, deployer, amountOfAssets, rGStakingAsRelayer } = await loadFixture(
+                      gaslessFixture
+                  )
+                  await time.increase(time.duration.days(1))
+                  const deadline = (await time.latest()) + time.duration.hours(1)
+
+                  const redeemIntent = await signIntent(rGStaking, deployer, "redeem", amountOfAssets, deadline)
+                  await expect(submitIntent(rGStakingAsRelayer, redeemIntent)).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      parseRGT(amountOfAssets).mul(10)
+                  )
+
+                  const rewards = await rGStaking.currentRewardsClaimable(deployer.address)
+                  const claimIntent = await signIntent(rGStaking, deployer, "claim", 0, deadline)
+                  await expect(submitIntent(rGStakingAsRelayer, claimIntent))
+                      .to.emit(rGStaking, "RewardsClaimed")
+                      .withArgs(deployer.address, rewards)
+                  expect(await rGStaking.nonces(deployer.address)).to.equal(2)
+              })
+
+              it("Can't be replayed", async () => {
+                  const { rGStaking, deployer, rGStakingAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  const intent = await signIntent(rGStaking, deployer, "redeem", 1, deadline)
+                  await submitIntent(rGStakingAsRelayer, intent)
+
+                  await expect(submitIntent(rGStakingAsRelayer, intent)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__InvalidSignature"
+                  )
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(4)
+              })
+
+              it("Is invalidated by another intent of the same user", async () => {
+                  const { rGStaking, deployer, rGStakingAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  // Both intents are signed with the same nonce, so only one of them can be executed
+                  const first = await signIntent(rGStaking, deployer, "redeem", 1, deadline)
+                  const second = await signIntent(rGStaking, deployer, "redeem", 2, deadline)
+                  await submitIntent(rGStakingAsRelayer, second)
+
+                  await expect(submitIntent(rGStakingAsRelayer, first)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__InvalidSignature"
+                  )
+              })
+
+              it("Reverts when the deadline has passed", async () => {
+                  const { rGStaking, user, rGStakingAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  const intent = await signIntent(rGStaking, user, "claim", 0, deadline)
+                  await time.increaseTo(deadline + 1)
+
+                  await expect(submitIntent(rGStakingAsRelayer, intent))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__ExpiredSignature")
+                      .withArgs(deadline)
+              })
+
+              it("Reverts when signed by someone other than the user", async () => {
+                  const { rGStaking, deployer, account2, rGStakingAsRelayer, deadline } = await loadFixture(
+                      gaslessFixture
+                  )
+
+                  // account2 signs an intent to redeem the deployer's assets
+                  const intent = await signIntent(rGStaking, account2, "redeem", 5, deadline)
+
+                  await expect(
+                      submitIntent(rGStakingAsRelayer, { ...intent, user: deployer.address })
+                  ).to.be.revertedWithCustomError(rGStaking, "RGStaking__InvalidSignature")
+              })
+
+              it("Reverts when the signed amount or action is changed", async () => {
+                  const { rGStaking, deployer, rGStakingAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  const intent = await signIntent(rGStaking, deployer, "redeem", 1, deadline)
+
+                  await expect(
+                      submitIntent(rGStakingAsRelayer, { ...intent, amountOfAssets: "5" })
+                  ).to.be.revertedWithCustomError(rGStaking, "RGStaking__InvalidSignature")
+                  await expect(
+                      submitIntent(rGStakingAsRelayer, { ...intent, action: "buy" })
+                  ).to.be.revertedWithCustomError(rGStaking, "RGStaking__InvalidSignature")
+              })
+
+              it("Reverts when the signature is malformed", async () => {
+                  const { rGStaking, user, rGStakingAsRelayer, deadline } = await loadFixture(gaslessFixture)
+
+                  const intent = await signIntent(rGStaking, user, "claim", 0, deadline)
+
+                  await expect(
+                      submitIntent(rGStakingAsRelayer, { ...intent, signature: "0x1234" })
+                  ).to.be.revertedWithCustomError(rGStaking, "RGStaking__InvalidSignature")
+              })
+          })
+
+          describe("Relayer", () => {
+              const startRelayer = async (rGStaking: RGStaking, rGToken: RGToken) => {
+                  const server = createRelayerServer(rGStaking, rGToken)
+                  await new Promise<void>((resolve) => server.listen(0, resolve))
+
+                  return { server, url: `http://localhost:${(server.address() as AddressInfo).port}` }
+              }
+
+              it("Submits a permit and a buy intent", async () => {
+                  const { rGToken, rGStaking, user, relayer, rGStakingAsRelayer, rGTokenAsRelayer, deadline } =
+                      await loadFixture(gaslessFixture)
+                  const { server, url } = await startRelayer(rGStakingAsRelayer, rGTokenAsRelayer)
+
+                  try {
+                      const relayerBalance = await relayer.getBalance()
+                      const permit = await signPermit(rGToken, user, rGStaking.address, parseRGT(30), deadline)
+                      const intent = await signIntent(rGStaking, user, "buy", 3, deadline)
+
+                      const response = await postToRelayer(url, { intent, permit })
+
+                      expect(response.permitTransactionHash).to.be.a("string")
+                      expect(response.transactionHash).to.be.a("string")
+                      expect(await rGStaking.assetBalance(user.address)).to.equal(3)
+                      expect(await relayer.getBalance()).to.be.lt(relayerBalance)
+                  } finally {
+                      server.close()
+                  }
+              })
+
+              it("Responds with the revert reason of invalid intents", async () => {
+                  const { rGStaking, user, rGStakingAsRelayer, rGTokenAsRelayer, deadline } = await loadFixture(
+                      gaslessFixture
+                  )
+                  const { server, url } = await startRelayer(rGStakingAsRelayer, rGTokenAsRelayer)
+
+                  try {
+                      const intent = await signIntent(rGStaking, user, "claim", 0, deadline)
+
+                      await expect(postToRelayer(url, { intent })).to.be.rejectedWith(
+                          "Relayer rejected the intent: RGStaking__NoRewardsForSender()"
+                      )
+                      await expect(
+                          postToRelayer(url, { intent: { ...intent, signature: "0x1234" } })
+                      ).to.be.rejectedWith("Relayer rejected the intent: RGStaking__InvalidSignature()")
+                  } finally {
+                      server.close()
+                  }
+              })
+          })
+      })
@@ -0,0 +1,208 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { deployments, ethers } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { RGMerkleDistributor } from "../../typechain"
+import {
+    allocate,
+    allocationFormulas,
+    buildMerkleAirdrop,
+    hashLeaf,
+    snapshotStakers,
+    verifyMerkleProof,
+} from "../../utils/merkle-airdrop"
+import { initializeRewardsPoolFixture } from "../fixtures"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Merkle Airdrop Unit Tests", () => {
+          async function stakersFixture() {
+              const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
+              const [, , account3] = await ethers.getSigners()
+              const rGMerkleDistributor: RGMerkleDistributor = await ethers.getContract("RGMerkleDistributor", deployer)
+              const deploymentBlock = (await deployments.get("RGStaking")).receipt!.blockNumber
+
+              // deployer holds 5 assets, account2 3 assets and account3 redeemed its 2 assets but has rewards left
+              for (const [signer, assets] of [
+                  [deployer, 5],
+                  [account2, 3],
+                  [account3, 2],
+              ] as const) {
+                  await rGToken.transfer(signer.address, parseRGT(100))
+                  await rGToken.connect(signer).approve(rGStaking.address, ethers.constants.MaxUint256)
+                  await rGStaking.connect(signer).buyAssets(assets)
+              }
+              await time.increase(time.duration.days(1))
+              await rGStaking.connect(account3).redeemAssets(2)
+              const snapshotBlock = await ethers.provider.getBlockNumber()
+
+              // Activity after the snapshot must not change it
+              await rGStaking.connect(account2).buyAssets(4)
+              await time.increase(time.duration.days(1))
+
+              return {
+                  rGToken,
+                  rGStaking,
+                  rGMerkleDistributor,
+                  deployer,
+                  account2,
+                  account3,
+                  deploymentBlock,
+                  snapshotBlock,
+              }
+          }
+
+          async function snapshotFixture() {
+              const result = await loadFixture(stakersFixture)
+              const snapshot = await snapshotStakers(result.rGStaking, {
+                  fromBlock: result.deploymentBlock,
+                  blockNumber: result.snapshotBlock,
+              })
+
+              return { ...result, snapshot }
+          }
+
+          describe("Snapshot", () => {
+              it("Finds every staker that bought assets and snapshots it at the block", async () => {
+                  const { rGStaking, deployer, account2, account3, snapshot, snapshotBlock } = await loadFixture(
+                      snapshotFixture
+                  )
+
+                  expect(snapshot.map(({ account }) => account)).to.deep.equal(
+                      [deployer.address, account2.address, account3.address].sort()
+                  )
+                  const byAccount = Object.fromEntries(snapshot.map((staker) => [staker.account, staker]))
+                  expect(byAccount[deployer.address].assetBalance).to.equal(5)
+                  expect(byAccount[account2.address].assetBalance).to.equal(3)
+                  expect(byAccount[account3.address].assetBalance).to.equal(0)
+                  for (const { account, rewardsClaimable } of snapshot) {
+                      expect(rewardsClaimable).to.be.gt(0)
+                      expect(rewardsClaimable).to.equal(
+                          await rGStaking.currentRewardsClaimable(account, { blockTag: snapshotBlock })
+                      )
+                  }
+                  expect(byAccount[account2.address].rewardsClaimable).to.be.lt(
+                      await rGStaking.currentRewardsClaimable(account2.address)
+                  )
+              })
+
+              it("Scans the events in chunks", async () => {
+                  const { rGStaking, deploymentBlock, snapshotBlock, snapshot } = await loadFixture(snapshotFixture)
+
+                  expect(
+                      await snapshotStakers(rGStaking, {
+                          fromBlock: deploymentBlock,
+                          blockNumber: snapshotBlock,
+                          chunkSize: 2,
+                      })
+                  ).to.deep.equal(snapshot)
+              })
+          })
+
+          describe("Allocation", () => {
+              it("Allocates a fixed amount per asset", async () => {
+                  const { deployer, account2, snapshot } = await loadFixture(snapshotFixture)
+
+                  const allocations = allocate(snapshot, allocationFormulas.perAsset(parseRGT(2)))
+
+                  // account3 holds no assets, so it's left out
+                  expect(Object.fromEntries(allocations.map(({ account, amount }) => [account, amount]))).to.deep.equal(
+                      {
+                          [deployer.address]: parseRGT(10),
+                          [account2.address]: parseRGT(6),
+                      }
+                  )
+              })
+
+              it("Matches a share of the claimable rewards", async () => {
+                  const { snapshot } = await loadFixture(snapshotFixture)
+
+                  const allocations = allocate(snapshot, allocationFormulas.rewardsMatch(5_000))
+
+                  expect(allocations.map(({ amount }) => amount)).to.deep.equal(
+                      snapshot.map(({ rewardsClaimable }) => rewardsClaimable.div(2))
+                  )
+              })
+
+              it("Splits a fixed amount pro-rata without allocating more than it", async () => {
+                  const { deployer, account2, snapshot } = await loadFixture(snapshotFixture)
+
+                  const byAssets = allocate(snapshot, allocationFormulas.proRata(parseRGT(100), "assets"))
+                  const byRewards = allocate(snapshot, allocationFormulas.proRata(parseRGT(100), "rewards"))
+
+                  expect(Object.fromEntries(byAssets.map(({ account, amount }) => [account, amount]))).to.deep.equal({
+                      [deployer.address]: parseRGT("62.5"),
+                      [account2.address]: parseRGT("37.5"),
+                  })
+                  expect(byRewards).to.have.lengthOf(3)
+                  const total = byRewards.reduce((sum, { amount }) => sum.add(amount), BigNumber.from(0))
+                  expect(total).to.be.lte(parseRGT(100)).and.gte(parseRGT(100).sub(3))
+              })
+          })
+
+          describe("Merkle tree", () => {
+              it("Builds a proof per account that verifies against the root", async () => {
+                  const { snapshot } = await loadFixture(snapshotFixture)
+                  const allocations = allocate(snapshot, allocationFormulas.rewardsMatch(10_000))
+
+                  const airdrop = buildMerkleAirdrop(allocations)
+
+                  expect(airdrop.totalAmount).to.equal(
+                      allocations.reduce((sum, { amount }) => sum.add(amount), BigNumber.from(0)).toString()
+                  )
+                  for (const { account, amount } of allocations) {
+                      const claim = airdrop.claims[account]
+                      expect(claim.amount).to.equal(amount.toString())
+                      expect(verifyMerkleProof(airdrop.merkleRoot, account, amount, claim.proof)).to.equal(true)
+                      expect(verifyMerkleProof(airdrop.merkleRoot, account, amount.add(1), claim.proof)).to.equal(false)
+                  }
+              })
+
+              it("Uses the leaf as the root of a single allocation", async () => {
+                  const [deployer] = await ethers.getSigners()
+
+                  const airdrop = buildMerkleAirdrop([{ account: deployer.address, amount: parseRGT(1) }])
+
+                  expect(airdrop.merkleRoot).to.equal(hashLeaf(deployer.address, parseRGT(1)))
+                  expect(airdrop.claims[deployer.address].proof).to.deep.equal([])
+              })
+
+              it("Rejects empty and duplicate allocations", async () => {
+                  const [deployer] = await ethers.getSigners()
+                  const allocation = { account: deployer.address, amount: parseRGT(1) }
+
+                  expect(() => buildMerkleAirdrop([])).to.throw("Nothing to airdrop")
+                  expect(() =>
+                      buildMerkleAirdrop([allocation, { ...allocation, account: deployer.address.toLowerCase() }])
+                  ).to.throw(`${deployer.address} is allocated twice`)
+              })
+          })
+
+          describe("Distribution", () => {
+              it("Pays every staker its allocation with the generated proofs", async () => {
+                  const { rGToken, rGMerkleDistributor, account3, snapshot } = await loadFixture(snapshotFixture)
+                  const airdrop = buildMerkleAirdrop(
+                      allocate(snapshot, allocationFormulas.proRata(parseRGT(1000), "rewards"))
+                  )
+                  await rGToken.approve(rGMerkleDistributor.address, airdrop.totalAmount)
+                  await rGMerkleDistributor.createDistribution(
+                      airdrop.merkleRoot,
+                      airdrop.totalAmount,
+                      (await time.latest()) + time.duration.days(30)
+                  )
+
+                  // account3 submits every claim, the tokens go to each staker
+                  for (const [account, { amount, proof }] of Object.entries(airdrop.claims)) {
+                      await expect(
+                          rGMerkleDistributor.connect(account3).claim(0, account, amount, proof)
+                      ).to.changeTokenBalance(rGToken, account, amount)
+                  }
+
+                  expect((await rGMerkleDistributor.getDistribution(0)).claimedAmount).to.equal(airdrop.totalAmount)
+                  expect(await rGToken.balanceOf(rGMerkleDistributor.address)).to.equal(0)
+              })
+          })
+      })
@@ -0,0 +1,227 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { ethers, getNamedAccounts } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { RGMerkleDistributor } from "../../typechain"
+import { MerkleAirdrop, buildMerkleAirdrop } from "../../utils/merkle-airdrop"
+import { deployContractsFixture } from "../fixtures"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGMerkleDistributor Unit Tests", () => {
+          async function distributorFixture() {
+              const { rGToken, deployer, account2 } = await loadFixture(deployContractsFixture)
+              const [, , account3] = await ethers.getSigners()
+              const rGMerkleDistributor: RGMerkleDistributor = await ethers.getContract("RGMerkleDistributor", deployer)
+
+              const airdrop = buildMerkleAirdrop([
+                  { account: account2.address, amount: parseRGT(10) },
+                  { account: account3.address, amount: parseRGT(20) },
+                  { account: deployer.address, amount: parseRGT(5) },
+              ])
+              await rGToken.approve(rGMerkleDistributor.address, ethers.constants.MaxUint256)
+
+              return { rGToken, rGMerkleDistributor, deployer, account2, account3, airdrop }
+          }
+
+          async function distributionFixture() {
+              const result = await loadFixture(distributorFixture)
+              const deadline = (await time.latest()) + time.duration.days(30)
+              await result.rGMerkleDistributor.createDistribution(
+                  result.airdrop.merkleRoot,
+                  result.airdrop.totalAmount,
+                  deadline
+              )
+
+              return { ...result, deadline }
+          }
+
+          const claimOf = (airdrop: MerkleAirdrop, account: string) => {
+              const { amount, proof } = airdrop.claims[account]
+              return [BigNumber.from(amount), proof] as const
+          }
+
+          describe("Deployment", () => {
+              it("Pays in the reward token and is owned by the admin", async () => {
+                  const { rGToken, rGMerkleDistributor } = await loadFixture(distributorFixture)
+                  const { admin } = await getNamedAccounts()
+
+                  expect(await rGMerkleDistributor.tokenAddress()).to.equal(rGToken.address)
+                  expect(await rGMerkleDistributor.owner()).to.equal(admin)
+                  expect(await rGMerkleDistributor.distributionCount()).to.equal(0)
+              })
+          })
+
+          describe("createDistribution", () => {
+              it("Pulls the tokens and stores the distribution", async () => {
+                  const { rGToken, rGMerkleDistributor, deployer, airdrop } = await loadFixture(distributorFixture)
+                  const deadline = (await time.latest()) + time.duration.days(30)
+
+                  await expect(
+                      rGMerkleDistributor.createDistribution(airdrop.merkleRoot, airdrop.totalAmount, deadline)
+                  )
+                      .to.emit(rGMerkleDistributor, "DistributionCreated")
+                      .withArgs(0, airdrop.merkleRoot, airdrop.totalAmount, deadline)
+                      .and.to.changeTokenBalances(
+                          rGToken,
+                          [deployer, rGMerkleDistributor],
+                          [BigNumber.from(airdrop.totalAmount).mul(-1), airdrop.totalAmount]
+                      )
+
+                  const distribution = await rGMerkleDistributor.getDistribution(0)
+                  expect(distribution.merkleRoot).to.equal(airdrop.merkleRoot)
+                  expect(distribution.totalAmount).to.equal(airdrop.totalAmount)
+                  expect(distribution.claimedAmount).to.equal(0)
+                  expect(distribution.deadline).to.equal(deadline)
+                  expect(await rGMerkleDistributor.distributionCount()).to.equal(1)
+              })
+
+              it("Numbers distributions in creation order", async () => {
+                  const { rGMerkleDistributor, airdrop, deadline } = await loadFixture(distributionFixture)
+
+                  await expect(
+                      rGMerkleDistributor.createDistribution(airdrop.merkleRoot, airdrop.totalAmount, deadline)
+                  )
+                      .to.emit(rGMerkleDistributor, "DistributionCreated")
+                      .withArgs(1, airdrop.merkleRoot, airdrop.totalAmount, deadline)
+              })
+
+              it("Reverts for anyone but the owner", async () => {
+                  const { rGMerkleDistributor, account2, airdrop } = await loadFixture(distributorFixture)
+                  const deadline = (await time.latest()) + time.duration.days(30)
+
+                  await expect(
+                      rGMerkleDistributor
+                          .connect(account2)
+                          .createDistribution(airdrop.merkleRoot, airdrop.totalAmount, deadline)
+                  ).to.be.revertedWith("Ownable: caller is not the owner")
+              })
+
+              it("Reverts without tokens or with a past deadline", async () => {
+                  const { rGMerkleDistributor, airdrop } = await loadFixture(distributorFixture)
+                  const now = await time.latest()
+
+                  await expect(
+                      rGMerkleDistributor.createDistribution(airdrop.merkleRoot, 0, now + 100)
+                  ).to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__ZeroAmountNotAllowed")
+                  await expect(rGMerkleDistributor.createDistribution(airdrop.merkleRoot, airdrop.totalAmount, now))
+                      .to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__InvalidDeadline")
+                      .withArgs(now)
+              })
+          })
+
+          describe("claim", () => {
+              it("Pays the allocation to the account, whoever submits the claim", async () => {
+                  const { rGToken, rGMerkleDistributor, account2, account3, airdrop } = await loadFixture(
+                      distributionFixture
+                  )
+                  const [amount, proof] = claimOf(airdrop, account2.address)
+
+                  await expect(rGMerkleDistributor.connect(account3).claim(0, account2.address, amount, proof))
+                      .to.emit(rGMerkleDistributor, "Claimed")
+                      .withArgs(0, account2.address, amount)
+                      .and.to.changeTokenBalances(rGToken, [account2, account3], [amount, 0])
+
+                  expect(await rGMerkleDistributor.isClaimed(0, account2.address)).to.equal(true)
+                  expect(await rGMerkleDistributor.isClaimed(0, account3.address)).to.equal(false)
+                  expect((await rGMerkleDistributor.getDistribution(0)).claimedAmount).to.equal(amount)
+              })
+
+              it("Reverts when the allocation was already claimed", async () => {
+                  const { rGMerkleDistributor, account2, airdrop } = await loadFixture(distributionFixture)
+                  const [amount, proof] = claimOf(airdrop, account2.address)
+                  await rGMerkleDistributor.claim(0, account2.address, amount, proof)
+
+                  await expect(rGMerkleDistributor.claim(0, account2.address, amount, proof))
+                      .to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__AlreadyClaimed")
+                      .withArgs(0, account2.address)
+              })
+
+              it("Reverts with another amount or another account's proof", async () => {
+                  const { rGMerkleDistributor, account2, account3, airdrop } = await loadFixture(distributionFixture)
+                  const [amount, proof] = claimOf(airdrop, account2.address)
+
+                  for (const [account, claimed] of [
+                      [account2.address, amount.add(1)],
+                      [account3.address, amount],
+                  ] as const) {
+                      await expect(rGMerkleDistributor.claim(0, account, claimed, proof)).to.be.revertedWithCustomError(
+                          rGMerkleDistributor,
+                          "RGMerkleDistributor__InvalidProof"
+                      )
+                  }
+              })
+
+              it("Reverts for unknown and expired distributions", async () => {
+                  const { rGMerkleDistributor, account2, airdrop, deadline } = await loadFixture(distributionFixture)
+                  const [amount, proof] = claimOf(airdrop, account2.address)
+
+                  await expect(rGMerkleDistributor.claim(1, account2.address, amount, proof))
+                      .to.be.revertedWithCustomError(
+                          rGMerkleDistributor,
+                          "RGMerkleDistributor__NonexistentDistribution"
+                      )
+                      .withArgs(1)
+
+                  await time.increaseTo(deadline + 1)
+                  await expect(rGMerkleDistributor.claim(0, account2.address, amount, proof))
+                      .to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__DistributionExpired")
+                      .withArgs(0, deadline)
+              })
+
+              it("Never pays out more than the distribution was funded with", async () => {
+                  const { rGMerkleDistributor, account2, account3, airdrop, deadline } = await loadFixture(
+                      distributionFixture
+                  )
+                  // A second distribution funded with less than its allocations
+                  await rGMerkleDistributor.createDistribution(airdrop.merkleRoot, parseRGT(25), deadline)
+                  const [amount2, proof2] = claimOf(airdrop, account2.address)
+                  const [amount3, proof3] = claimOf(airdrop, account3.address)
+                  await rGMerkleDistributor.claim(1, account2.address, amount2, proof2)
+
+                  await expect(rGMerkleDistributor.claim(1, account3.address, amount3, proof3))
+                      .to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__ExceedsDistribution")
+                      .withArgs(1, parseRGT(15), amount3)
+                  // The first distribution can still pay everyone
+                  await expect(rGMerkleDistributor.claim(0, account3.address, amount3, proof3)).not.to.be.reverted
+              })
+          })
+
+          describe("withdrawUnclaimed", () => {
+              it("Reverts before the deadline", async () => {
+                  const { rGMerkleDistributor, deployer, deadline } = await loadFixture(distributionFixture)
+
+                  await expect(rGMerkleDistributor.withdrawUnclaimed(0, deployer.address))
+                      .to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__DistributionNotExpired")
+                      .withArgs(0, deadline)
+              })
+
+              it("Sends what was left unclaimed to the owner's recipient once", async () => {
+                  const { rGToken, rGMerkleDistributor, account2, account3, airdrop, deadline } = await loadFixture(
+                      distributionFixture
+                  )
+                  const [amount, proof] = claimOf(airdrop, account2.address)
+                  await rGMerkleDistributor.claim(0, account2.address, amount, proof)
+                  await time.increaseTo(deadline + 1)
+                  const unclaimed = BigNumber.from(airdrop.totalAmount).sub(amount)
+
+                  await expect(rGMerkleDistributor.connect(account3).withdrawUnclaimed(0, account3.address)).to.be
+                      .reverted
+                  await expect(rGMerkleDistributor.withdrawUnclaimed(0, account3.address))
+                      .to.emit(rGMerkleDistributor, "UnclaimedWithdrawn")
+                      .withArgs(0, account3.address, unclaimed)
+                      .and.to.changeTokenBalances(
+                          rGToken,
+                          [rGMerkleDistributor, account3],
+                          [unclaimed.mul(-1), unclaimed]
+                      )
+
+                  await expect(rGMerkleDistributor.withdrawUnclaimed(0, account3.address))
+                      .to.be.revertedWithCustomError(rGMerkleDistributor, "RGMerkleDistributor__NothingToWithdraw")
+                      .withArgs(0)
+              })
+          })
+      })
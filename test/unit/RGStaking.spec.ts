@@ -3,65 +3,27 @@ import { deployments, ethers } from "hardhat"
 
 import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
 
-import { initializeRewardPool, parseRGT } from "../../helper-functions"
-import { TOTAL_REWARD_POOL, isLocalNetwork } from "../../helper-hardhat-config"
-import { RGStaking, RGToken } from "../../typechain"
+import { TOTAL_REWARD_POOL, isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { RGStaking } from "../../typechain"
+import {
+    buyAssetsAndWait24hours,
+    buyAssetsFixture,
+    deployContractsFixture,
+    initializeRewardsPoolFixture,
+} from "../fixtures"
 
 !isLocalNetwork
     ? describe.skip
     : describe("RGStaking Unit Tests", () => {
-          async function deployContractsFixture() {
-              const [deployer, account2] = await ethers.getSigners()
-
-              await deployments.fixture()
-
-              const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
-              const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
-
-              return { rGToken, rGStaking, deployer, account2 }
-          }
-
-          async function initializeRewardsPoolFixture() {
-              const result = await loadFixture(deployContractsFixture)
-
-              // Initialize the rewards pool with the REWARD_POOL_TOKEN_AMOUNT
-              await initializeRewardPool(result.deployer)
-
-              return result
-          }
-
-          async function buyAssetsFixture() {
-              const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
-              const amountOfAssets = 5
-              const expectedTokenPrice = parseRGT(amountOfAssets).mul(10)
-
-              // Buy assets by approving and calling the buyAssets function
-              await rGToken.approve(rGStaking.address, expectedTokenPrice)
-              await rGStaking.buyAssets(amountOfAssets)
-
-              return { rGToken, rGStaking, deployer, amountOfAssets, account2 }
-          }
-
-          async function buyAssetsAndWait24hours() {
-              const result = await loadFixture(buyAssetsFixture)
-
-              // Fast forward 24 hours
-              const currentBlockTimestamp = await time.latest()
-              const secondsInADay = time.duration.days(1)
-              const nextBlockTimestamp = currentBlockTimestamp + secondsInADay
-              const expectedRewardsEarned = parseRGT(result.amountOfAssets / 10)
-
-              // Calculate expected rewards earned after 24 hours
-              await time.setNextBlockTimestamp(nextBlockTimestamp)
-
-              return { ...result, expectedRewardsEarned }
-          }
-
           describe("Deployment", () => {
               it("Initializes storage variables correctly", async () => {
                   const { rGStaking, rGToken, deployer, account2 } = await loadFixture(deployContractsFixture)
 
                   expect(await rGStaking.rGTokenAddress()).to.equal(rGToken.address)
+                  expect(await rGStaking.stakingTokenAddress()).to.equal(rGToken.address)
+                  expect(await rGStaking.rewardTokenAddress()).to.equal(rGToken.address)
+                  expect(await rGStaking.assetPrice()).to.equal(TOKENS_PER_ASSET)
                   expect(await rGStaking.isRewardPoolInitialized()).to.be.false
 
                   expect(await rGStaking.assetBalance(deployer.address)).to.equal(0)
@@ -71,6 +33,66 @@ import { RGStaking, RGToken } from "../../typechain"
                   expect(await rGStaking.currentRewardsClaimable(account2.address)).to.equal(0)
 
                   expect(await rGStaking.totalRewardPool()).to.equal(TOTAL_REWARD_POOL)
+                  expect(await rGStaking.dailyRewardsPerAsset()).to.equal(parseRGT(1).div(10))
+                  expect(await rGStaking.owner()).to.equal(deployer.address)
+              })
+
+              it("Reverts when the reward pool is zero", async () => {
+                  const { rGToken, deployer } = await loadFixture(deployContractsFixture)
+
+                  await expect(
+                      deployments.deploy("RGStakingWithoutPool", {
+                          contract: "RGStaking",
+                          from: deployer.address,
+                          proxy: {
+                              proxyContract: "OpenZeppelinTransparentProxy",
+                              execute: {
+                                  init: {
+                                      methodName: "initialize",
+                                      args: [
+                                          rGToken.address,
+                                          rGToken.address,
+                                          TOKENS_PER_ASSET,
+                                          0,
+                                          deployer.address,
+                                          deployer.address,
+                                      ],
+                                  },
+                              },
+                          },
+                      })
+                  ).to.be.rejectedWith("RGStaking__ZeroAmountNotAllowed")
+              })
+
+              it("Reverts when initialized again", async () => {
+                  const { rGStaking, rGToken, deployer } = await loadFixture(deployContractsFixture)
+
+                  await expect(
+                      rGStaking.initialize(
+                          rGToken.address,
+                          rGToken.address,
+                          TOKENS_PER_ASSET,
+                          TOTAL_REWARD_POOL,
+                          deployer.address,
+                          deployer.address
+                      )
+                  ).to.be.revertedWith("Initializable: contract is already initialized")
+              })
+
+              it("Can't be initialized through the implementation", async () => {
+                  const { rGToken, deployer } = await loadFixture(deployContractsFixture)
+                  const implementation: RGStaking = await ethers.getContract("RGStaking_Implementation", deployer)
+
+                  await expect(
+                      implementation.initialize(
+                          rGToken.address,
+                          rGToken.address,
+                          TOKENS_PER_ASSET,
+                          TOTAL_REWARD_POOL,
+                          deployer.address,
+                          deployer.address
+                      )
+                  ).to.be.revertedWith("Initializable: contract is already initialized")
               })
           })
 
@@ -317,4 +339,144 @@ import { RGStaking, RGToken } from "../../typechain"
                       .withArgs()
               })
           })
+
+          describe("Reward rate", () => {
+              it("Reverts when the sender isn't an admin", async () => {
+                  const { rGStaking, account2 } = await loadFixture(initializeRewardsPoolFixture)
+
+                  await expect(rGStaking.connect(account2).setDailyRewardsPerAsset(parseRGT(1)))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, await rGStaking.DEFAULT_ADMIN_ROLE())
+              })
+
+              it("Emits DailyRewardsPerAssetUpdated with the previous and new rate", async () => {
+                  const { rGStaking } = await loadFixture(initializeRewardsPoolFixture)
+                  const newRate = parseRGT(2).div(10)
+
+                  await expect(rGStaking.setDailyRewardsPerAsset(newRate))
+                      .to.emit(rGStaking, "DailyRewardsPerAssetUpdated")
+                      .withArgs(parseRGT(1).div(10), newRate)
+
+                  expect(await rGStaking.dailyRewardsPerAsset()).to.equal(newRate)
+              })
+
+              it("Applies a rate change in the middle of an accrual period only from the change onwards", async () => {
+                  const { rGStaking, rGToken, deployer, amountOfAssets } = await loadFixture(buyAssetsFixture)
+                  const buyTimestamp = await time.latest()
+                  const halfADay = time.duration.hours(12)
+
+                  // 12 hours at 0.1 RGT then 12 hours at 0.2 RGT per asset per day
+                  await time.setNextBlockTimestamp(buyTimestamp + halfADay)
+                  await rGStaking.setDailyRewardsPerAsset(parseRGT(2).div(10))
+                  await time.setNextBlockTimestamp(buyTimestamp + 2 * halfADay)
+
+                  const expectedRewards = parseRGT(amountOfAssets).mul(15).div(100)
+                  await expect(rGStaking.claimRewards()).to.changeTokenBalances(
+                      rGToken,
+                      [deployer, rGStaking],
+                      [expectedRewards, expectedRewards.mul(-1)]
+                  )
+              })
+
+              it("Applies every rate change since the last update", async () => {
+                  const { rGStaking, deployer, amountOfAssets } = await loadFixture(buyAssetsFixture)
+                  const buyTimestamp = await time.latest()
+                  const oneDay = time.duration.days(1)
+
+                  // 1 day at 0.1, 1 day at 0.3 and 1 day at 0 RGT per asset per day
+                  await time.setNextBlockTimestamp(buyTimestamp + oneDay)
+                  await rGStaking.setDailyRewardsPerAsset(parseRGT(3).div(10))
+                  await time.setNextBlockTimestamp(buyTimestamp + 2 * oneDay)
+                  await rGStaking.setDailyRewardsPerAsset(0)
+                  await time.increaseTo(buyTimestamp + 3 * oneDay)
+
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(
+                      parseRGT(amountOfAssets).mul(4).div(10)
+                  )
+              })
+
+              it("Overwrites the rate when changed twice in the same block", async () => {
+                  const { rGStaking, deployer, amountOfAssets } = await loadFixture(buyAssetsFixture)
+                  const buyTimestamp = await time.latest()
+
+                  await ethers.provider.send("evm_setAutomine", [false])
+                  await rGStaking.setDailyRewardsPerAsset(parseRGT(5))
+                  await rGStaking.setDailyRewardsPerAsset(parseRGT(2).div(10))
+                  await ethers.provider.send("evm_setAutomine", [true])
+                  await time.setNextBlockTimestamp(buyTimestamp + 1)
+                  await ethers.provider.send("evm_mine", [])
+                  await time.increaseTo(buyTimestamp + 1 + time.duration.days(1))
+
+                  // 1 second at 0.1 RGT then 1 day at 0.2 RGT per asset per day
+                  const expectedRewards = parseRGT(amountOfAssets)
+                      .div(10)
+                      .div(time.duration.days(1))
+                      .add(parseRGT(amountOfAssets).mul(2).div(10))
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(expectedRewards)
+              })
+          })
+
+          describe("Top up reward pool", () => {
+              it("Reverts when the sender isn't an admin", async () => {
+                  const { rGStaking, account2 } = await loadFixture(initializeRewardsPoolFixture)
+
+                  await expect(rGStaking.connect(account2).topUpRewardPool(parseRGT(1)))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, await rGStaking.DEFAULT_ADMIN_ROLE())
+              })
+
+              it("Reverts when the reward pool is uninitialized", async () => {
+                  const { rGStaking } = await loadFixture(deployContractsFixture)
+
+                  await expect(rGStaking.topUpRewardPool(parseRGT(1)))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__Uninitialized")
+                      .withArgs()
+              })
+
+              it("Reverts when the amount is zero", async () => {
+                  const { rGStaking } = await loadFixture(initializeRewardsPoolFixture)
+
+                  await expect(rGStaking.topUpRewardPool(0))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__ZeroAmountNotAllowed")
+                      .withArgs()
+              })
+
+              it("Transfers the tokens and increases the pool on every top up", async () => {
+                  const { rGStaking, rGToken, deployer } = await loadFixture(initializeRewardsPoolFixture)
+                  const amount = parseRGT(500)
+                  await rGToken.approve(rGStaking.address, amount.mul(2))
+
+                  await expect(rGStaking.topUpRewardPool(amount))
+                      .to.emit(rGStaking, "RewardPoolToppedUp")
+                      .withArgs(deployer.address, amount)
+                  await expect(rGStaking.topUpRewardPool(amount)).to.changeTokenBalances(
+                      rGToken,
+                      [deployer, rGStaking],
+                      [amount.mul(-1), amount]
+                  )
+
+                  expect(await rGStaking.totalRewardPool()).to.equal(TOTAL_REWARD_POOL.add(amount.mul(2)))
+              })
+
+              it("Revives a depleted reward pool", async () => {
+                  const { rGStaking, rGToken, deployer, amountOfAssets } = await loadFixture(buyAssetsAndWait24hours)
+
+                  // Deplete the pool
+                  const nextBlockTimestamp = (await time.latest()) + time.duration.days(20_000)
+                  await time.setNextBlockTimestamp(nextBlockTimestamp)
+                  await rGStaking.claimRewards()
+                  expect(await rGStaking.totalRewardPool()).to.equal(0)
+
+                  const amount = parseRGT(500)
+                  await rGToken.approve(rGStaking.address, amount)
+                  await rGStaking.topUpRewardPool(amount)
+
+                  // Rewards accrue again from the last update
+                  await time.setNextBlockTimestamp(nextBlockTimestamp + time.duration.days(1))
+                  const expectedRewards = parseRGT(amountOfAssets).div(10)
+                  await expect(rGStaking.claimRewards())
+                      .to.emit(rGStaking, "RewardsClaimed")
+                      .withArgs(deployer.address, expectedRewards)
+              })
+          })
       })
@@ -0,0 +1,176 @@
+import { expect } from "chai"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { accumulatorFixture } from "../fixtures"
+
+const EMISSION = parseRGT(1000)
+const EMISSION_DURATION = time.duration.days(10)
+// What doesn't divide evenly into the emission rate stays in the pool for the next schedule
+const ROUNDING_REMAINDER = EMISSION.mod(EMISSION_DURATION)
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStakingAccumulator Unit Tests", () => {
+          describe("startEmission", () => {
+              it("Funds the schedule and emits evenly until it ends", async () => {
+                  const { rGToken, rGStakingAccumulator, deployer } = await loadFixture(accumulatorFixture)
+                  const rate = EMISSION.div(EMISSION_DURATION)
+                  const end = (await time.latest()) + 1 + EMISSION_DURATION
+                  await time.setNextBlockTimestamp(end - EMISSION_DURATION)
+
+                  await expect(rGStakingAccumulator.startEmission(EMISSION, EMISSION_DURATION))
+                      .to.emit(rGStakingAccumulator, "EmissionScheduled")
+                      .withArgs(deployer.address, EMISSION, rate, end)
+                      .and.to.changeTokenBalance(rGToken, rGStakingAccumulator, EMISSION)
+
+                  expect(await rGStakingAccumulator.emissionRate()).to.equal(rate)
+                  expect(await rGStakingAccumulator.emissionEnd()).to.equal(end)
+                  expect(await rGStakingAccumulator.totalRewardPool()).to.equal(EMISSION)
+              })
+
+              it("Only allows the owner to start an emission", async () => {
+                  const { rGStakingAccumulator, account2 } = await loadFixture(accumulatorFixture)
+
+                  await expect(
+                      rGStakingAccumulator.connect(account2).startEmission(EMISSION, EMISSION_DURATION)
+                  ).to.be.revertedWith("Ownable: caller is not the owner")
+              })
+
+              it("Reverts for a zero duration or a zero emission rate", async () => {
+                  const { rGStakingAccumulator } = await loadFixture(accumulatorFixture)
+
+                  for (const [amount, duration] of [
+                      [EMISSION, 0],
+                      [0, EMISSION_DURATION],
+                  ]) {
+                      await expect(rGStakingAccumulator.startEmission(amount, duration)).to.be.revertedWithCustomError(
+                          rGStakingAccumulator,
+                          "RGStakingAccumulator__InvalidEmissionSchedule"
+                      )
+                  }
+              })
+
+              it("Rolls the rewards of a running schedule over into the new one", async () => {
+                  const { rGStakingAccumulator, stakers } = await loadFixture(accumulatorFixture)
+                  await rGStakingAccumulator.connect(stakers[0]).buyAssets(1)
+                  await rGStakingAccumulator.startEmission(EMISSION, EMISSION_DURATION)
+                  const rate = await rGStakingAccumulator.emissionRate()
+                  const end = await rGStakingAccumulator.emissionEnd()
+                  const restartAt = end.toNumber() - EMISSION_DURATION / 2
+                  await time.setNextBlockTimestamp(restartAt)
+
+                  await rGStakingAccumulator.startEmission(parseRGT(500), EMISSION_DURATION / 2)
+
+                  const remaining = rate.mul(EMISSION_DURATION / 2)
+                  expect(await rGStakingAccumulator.emissionRate()).to.equal(
+                      parseRGT(500)
+                          .add(remaining)
+                          .add(ROUNDING_REMAINDER)
+                          .div(EMISSION_DURATION / 2)
+                  )
+                  expect(await rGStakingAccumulator.emissionEnd()).to.equal(restartAt + EMISSION_DURATION / 2)
+              })
+          })
+
+          describe("Rewards", () => {
+              it("Pays the whole emission to a single staker", async () => {
+                  const { rGStakingAccumulator, stakers } = await loadFixture(accumulatorFixture)
+                  const [staker] = stakers
+                  await rGStakingAccumulator.connect(staker).buyAssets(5)
+                  await rGStakingAccumulator.startEmission(EMISSION, EMISSION_DURATION)
+                  const startedAt = await time.latest()
+                  const rate = await rGStakingAccumulator.emissionRate()
+
+                  await time.increaseTo(startedAt + time.duration.days(4))
+
+                  expect(await rGStakingAccumulator.currentRewardsClaimable(staker.address)).to.equal(
+                      rate.mul(time.duration.days(4))
+                  )
+              })
+
+              it("Splits the emission pro-rata to the staked assets", async () => {
+                  const { rGStakingAccumulator, stakers } = await loadFixture(accumulatorFixture)
+                  const [staker1, staker2] = stakers
+                  await rGStakingAccumulator.connect(staker1).buyAssets(1)
+                  await rGStakingAccumulator.connect(staker2).buyAssets(3)
+                  await rGStakingAccumulator.startEmission(EMISSION, EMISSION_DURATION)
+
+                  await time.increase(EMISSION_DURATION * 2)
+
+                  // Every account loses less than a wei per update to rounding
+                  const emitted = (await rGStakingAccumulator.emissionRate()).mul(EMISSION_DURATION)
+                  expect(await rGStakingAccumulator.currentRewardsClaimable(staker1.address)).to.be.closeTo(
+                      emitted.div(4),
+                      1
+                  )
+                  expect(await rGStakingAccumulator.currentRewardsClaimable(staker2.address)).to.be.closeTo(
+                      emitted.mul(3).div(4),
+                      1
+                  )
+                  expect(await rGStakingAccumulator.totalRewardPool()).to.equal(ROUNDING_REMAINDER)
+              })
+
+              it("Keeps what is emitted while nothing is staked for the next schedule", async () => {
+                  const { rGStakingAccumulator, stakers } = await loadFixture(accumulatorFixture)
+                  const [staker] = stakers
+                  await rGStakingAccumulator.startEmission(EMISSION, EMISSION_DURATION)
+                  const end = (await rGStakingAccumulator.emissionEnd()).toNumber()
+                  const rate = await rGStakingAccumulator.emissionRate()
+
+                  await time.setNextBlockTimestamp(end - EMISSION_DURATION / 2)
+                  await rGStakingAccumulator.connect(staker).buyAssets(2)
+                  await time.increaseTo(end)
+
+                  const unallocated = rate.mul(EMISSION_DURATION / 2)
+                  expect(await rGStakingAccumulator.currentRewardsClaimable(staker.address)).to.equal(unallocated)
+                  expect(await rGStakingAccumulator.totalRewardPool()).to.equal(unallocated.add(ROUNDING_REMAINDER))
+
+                  // Reschedule the unallocated half without adding tokens
+                  await rGStakingAccumulator.startEmission(0, EMISSION_DURATION)
+                  await time.increase(EMISSION_DURATION)
+
+                  expect(await rGStakingAccumulator.currentRewardsClaimable(staker.address)).to.be.closeTo(
+                      unallocated.mul(2),
+                      EMISSION_DURATION
+                  )
+              })
+
+              it("Claims the rewards and redeems the assets", async () => {
+                  const { rGToken, rGStakingAccumulator, stakers } = await loadFixture(accumulatorFixture)
+                  const rGStakingAsStaker = rGStakingAccumulator.connect(stakers[0])
+                  await rGStakingAsStaker.buyAssets(5)
+                  await rGStakingAccumulator.startEmission(EMISSION, EMISSION_DURATION)
+                  await time.increase(EMISSION_DURATION)
+
+                  await expect(rGStakingAsStaker.claimRewards())
+                      .to.emit(rGStakingAccumulator, "RewardsClaimed")
+                      .and.to.changeTokenBalance(rGToken, stakers[0], EMISSION.sub(ROUNDING_REMAINDER))
+                  await expect(rGStakingAsStaker.redeemAssets(5))
+                      .to.emit(rGStakingAccumulator, "AssetsRedeemed")
+                      .withArgs(stakers[0].address, 5)
+                      .and.to.changeTokenBalance(rGToken, stakers[0], TOKENS_PER_ASSET.mul(5))
+                  expect(await rGStakingAccumulator.totalAssets()).to.equal(0)
+              })
+
+              it("Reverts for zero amounts, missing assets and missing rewards", async () => {
+                  const { rGStakingAccumulator, stakers } = await loadFixture(accumulatorFixture)
+                  const rGStakingAsStaker = rGStakingAccumulator.connect(stakers[0])
+                  await rGStakingAsStaker.buyAssets(1)
+
+                  await expect(rGStakingAsStaker.buyAssets(0)).to.be.revertedWithCustomError(
+                      rGStakingAccumulator,
+                      "RGStakingAccumulator__ZeroAmountNotAllowed"
+                  )
+                  await expect(rGStakingAsStaker.redeemAssets(2))
+                      .to.be.revertedWithCustomError(rGStakingAccumulator, "RGStakingAccumulator__InsufficientAssets")
+                      .withArgs(1, 2)
+                  await expect(rGStakingAsStaker.claimRewards()).to.be.revertedWithCustomError(
+                      rGStakingAccumulator,
+                      "RGStakingAccumulator__NoRewardsForSender"
+                  )
+              })
+          })
+      })
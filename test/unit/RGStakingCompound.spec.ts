@@ -0,0 +1,274 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import {
+    MAX_COMPOUND_BATCH,
+    collectAutoCompoundingAccounts,
+    compoundInBatches,
+    findCompoundableAccounts,
+} from "../../utils/keeper"
+import { initializeRewardsPoolFixture } from "../fixtures"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Compounding Unit Tests", () => {
+          /**
+           * The deployer holds 5 assets and opted into auto-compounding, account2 holds 1 asset and opted in too,
+           * account3 holds 5 assets and didn't opt in. All bought in the same block, at `boughtAt`.
+           */
+          async function stakersFixture() {
+              const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
+              const [, , account3, keeper] = await ethers.getSigners()
+
+              for (const [signer, assets, autoCompound] of [
+                  [deployer, 5, true],
+                  [account2, 1, true],
+                  [account3, 5, false],
+              ] as const) {
+                  await rGToken.transfer(signer.address, TOKENS_PER_ASSET.mul(assets))
+                  await rGToken.connect(signer).approve(rGStaking.address, TOKENS_PER_ASSET.mul(assets))
+                  if (autoCompound) await rGStaking.connect(signer).setAutoCompound(true)
+              }
+
+              await ethers.provider.send("evm_setAutomine", [false])
+              for (const [signer, assets] of [
+                  [deployer, 5],
+                  [account2, 1],
+                  [account3, 5],
+              ] as const) {
+                  await rGStaking.connect(signer).buyAssets(assets)
+              }
+              await ethers.provider.send("evm_mine", [])
+              await ethers.provider.send("evm_setAutomine", [true])
+              const boughtAt = await time.latest()
+
+              return { rGToken, rGStaking, deployer, account2, account3, keeper, boughtAt }
+          }
+
+          describe("compoundRewards", () => {
+              it("Buys the whole assets the rewards pay for and keeps the remainder as rewards", async () => {
+                  const { rGToken, rGStaking, deployer, boughtAt } = await loadFixture(stakersFixture)
+                  // 5 assets earn 0.5 RGT a day, so 12.5 RGT after 25 days
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(25))
+
+                  const tx = await rGStaking.compoundRewards()
+
+                  await expect(tx)
+                      .to.emit(rGStaking, "RewardsCompounded")
+                      .withArgs(deployer.address, TOKENS_PER_ASSET, 1)
+                  await expect(tx).to.changeTokenBalances(rGToken, [deployer, rGStaking], [0, 0])
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(6)
+                  expect(
+                      await rGStaking.currentRewardsClaimable(deployer.address, { blockTag: tx.blockNumber })
+                  ).to.equal(parseRGT(2.5))
+              })
+
+              it("Compounds several assets and leaves no remainder when the rewards pay exactly", async () => {
+                  const { rGStaking, deployer, boughtAt } = await loadFixture(stakersFixture)
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(100))
+
+                  const tx = await rGStaking.compoundRewards()
+
+                  await expect(tx)
+                      .to.emit(rGStaking, "RewardsCompounded")
+                      .withArgs(deployer.address, TOKENS_PER_ASSET.mul(5), 5)
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(10)
+                  expect(
+                      await rGStaking.currentRewardsClaimable(deployer.address, { blockTag: tx.blockNumber })
+                  ).to.equal(0)
+              })
+
+              it("Earns rewards on the compounded assets from then on", async () => {
+                  const { rGStaking, deployer, boughtAt } = await loadFixture(stakersFixture)
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(25))
+                  await rGStaking.compoundRewards()
+
+                  await time.increase(time.duration.days(1))
+
+                  // 2.5 RGT left from compounding and a day of 6 assets
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(parseRGT(3.1))
+              })
+
+              it("Keeps every token the contract owes covered", async () => {
+                  const { rGToken, rGStaking, deployer, boughtAt } = await loadFixture(stakersFixture)
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(25))
+                  await rGStaking.compoundRewards()
+
+                  expect(await rGStaking.recoverableRewards()).to.equal(0)
+                  await expect(rGStaking.redeemAssets(6)).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      TOKENS_PER_ASSET.mul(6)
+                  )
+                  await rGStaking.claimRewards()
+                  expect(await rGStaking.recoverableRewards()).to.equal(0)
+              })
+
+              it("Reverts when the rewards don't pay for an asset", async () => {
+                  const { rGStaking, boughtAt } = await loadFixture(stakersFixture)
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(1))
+
+                  await expect(rGStaking.compoundRewards())
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__InsufficientRewards")
+                      .withArgs(parseRGT(0.5), TOKENS_PER_ASSET)
+              })
+
+              it("Reverts while paused", async () => {
+                  const { rGStaking } = await loadFixture(stakersFixture)
+                  await time.increase(time.duration.days(25))
+                  await rGStaking.pause()
+
+                  await expect(rGStaking.compoundRewards()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__Paused"
+                  )
+              })
+          })
+
+          describe("compoundableAssets", () => {
+              it("Returns the assets the rewards claimable now pay for", async () => {
+                  const { rGStaking, deployer, account2, boughtAt } = await loadFixture(stakersFixture)
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(45))
+                  await ethers.provider.send("evm_mine", [])
+
+                  expect(await rGStaking.compoundableAssets(deployer.address)).to.equal(2)
+                  expect(await rGStaking.compoundableAssets(account2.address)).to.equal(0)
+              })
+          })
+
+          describe("setAutoCompound", () => {
+              it("Opts the caller in and out", async () => {
+                  const { rGStaking, account3 } = await loadFixture(stakersFixture)
+                  const asAccount3 = rGStaking.connect(account3)
+
+                  await expect(asAccount3.setAutoCompound(true))
+                      .to.emit(rGStaking, "AutoCompoundSet")
+                      .withArgs(account3.address, true)
+                  expect(await rGStaking.isAutoCompounding(account3.address)).to.equal(true)
+
+                  await expect(asAccount3.setAutoCompound(false))
+                      .to.emit(rGStaking, "AutoCompoundSet")
+                      .withArgs(account3.address, false)
+                  expect(await rGStaking.isAutoCompounding(account3.address)).to.equal(false)
+              })
+          })
+
+          describe("compoundRewardsFor", () => {
+              it("Lets anyone compound the opted-in accounts that can afford an asset and skips the rest", async () => {
+                  const { rGStaking, deployer, account2, account3, keeper, boughtAt } = await loadFixture(
+                      stakersFixture
+                  )
+                  const asKeeper = rGStaking.connect(keeper)
+                  const accounts = [deployer.address, account2.address, account3.address]
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(25))
+                  await ethers.provider.send("evm_mine", [])
+
+                  expect(await asKeeper.callStatic.compoundRewardsFor(accounts)).to.equal(1)
+                  const tx = await asKeeper.compoundRewardsFor(accounts)
+                  const { events } = await tx.wait()
+
+                  expect(events!.filter(({ event }) => event === "RewardsCompounded")).to.have.lengthOf(1)
+                  await expect(tx)
+                      .to.emit(rGStaking, "RewardsCompounded")
+                      .withArgs(deployer.address, TOKENS_PER_ASSET, 1)
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(6)
+                  expect(await rGStaking.assetBalance(account2.address)).to.equal(1)
+                  expect(await rGStaking.assetBalance(account3.address)).to.equal(5)
+                  expect(await rGStaking.recoverableRewards()).to.equal(0)
+              })
+
+              it("Takes at most 100 accounts", async () => {
+                  const { rGStaking, deployer } = await loadFixture(stakersFixture)
+                  const accounts = Array.from({ length: MAX_COMPOUND_BATCH }, () => deployer.address)
+                  await time.increase(time.duration.days(25))
+
+                  await expect(rGStaking.compoundRewardsFor([...accounts, deployer.address]))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__BatchTooLarge")
+                      .withArgs(MAX_COMPOUND_BATCH + 1, MAX_COMPOUND_BATCH)
+                  // An account listed twice is compounded once, its remainder can't buy another asset
+                  await expect(rGStaking.compoundRewardsFor(accounts))
+                      .to.emit(rGStaking, "RewardsCompounded")
+                      .withArgs(deployer.address, TOKENS_PER_ASSET, 1)
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(6)
+              })
+
+              it("Reverts while paused", async () => {
+                  const { rGStaking, deployer } = await loadFixture(stakersFixture)
+                  await rGStaking.pause()
+
+                  await expect(rGStaking.compoundRewardsFor([deployer.address])).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__Paused"
+                  )
+              })
+          })
+
+          describe("Keeper", () => {
+              it("Follows opt-ins and opt-outs across rounds", async () => {
+                  const { rGStaking, deployer, account2, account3 } = await loadFixture(stakersFixture)
+                  const fromBlock = (await ethers.provider.getBlockNumber()) - 20
+
+                  const optedIn = await collectAutoCompoundingAccounts(rGStaking, {
+                      fromBlock,
+                      toBlock: await ethers.provider.getBlockNumber(),
+                      chunkSize: 3,
+                  })
+                  expect([...optedIn]).to.have.members([deployer.address, account2.address])
+
+                  const nextBlock = (await ethers.provider.getBlockNumber()) + 1
+                  await rGStaking.connect(account2).setAutoCompound(false)
+                  await rGStaking.connect(account3).setAutoCompound(true)
+                  await collectAutoCompoundingAccounts(rGStaking, {
+                      fromBlock: nextBlock,
+                      toBlock: await ethers.provider.getBlockNumber(),
+                      optedIn,
+                  })
+                  expect([...optedIn]).to.have.members([deployer.address, account3.address])
+              })
+
+              it("Finds the accounts whose rewards buy an asset and compounds them in batches", async () => {
+                  const { rGStaking, deployer, account2, account3, keeper, boughtAt } = await loadFixture(
+                      stakersFixture
+                  )
+                  const asKeeper = rGStaking.connect(keeper)
+                  await rGStaking.connect(account3).setAutoCompound(true)
+                  await time.setNextBlockTimestamp(boughtAt + time.duration.days(25))
+                  await ethers.provider.send("evm_mine", [])
+
+                  const compoundable = await findCompoundableAccounts(rGStaking, [
+                      deployer.address,
+                      account2.address,
+                      account3.address,
+                  ])
+                  expect(compoundable.map(({ account, assets }) => [account, assets.toNumber()])).to.deep.equal([
+                      [deployer.address, 1],
+                      [account3.address, 1],
+                  ])
+
+                  const results = await compoundInBatches(
+                      asKeeper,
+                      [deployer.address, account2.address, account3.address],
+                      2
+                  )
+                  expect(results.map(({ accounts, compounded }) => [accounts, compounded])).to.deep.equal([
+                      [[deployer.address, account2.address], 1],
+                      [[account3.address], 1],
+                  ])
+                  expect(await rGStaking.assetBalance(account3.address)).to.equal(6)
+              })
+
+              it("Rejects batch sizes the contract doesn't take", async () => {
+                  const { rGStaking, deployer } = await loadFixture(stakersFixture)
+
+                  for (const batchSize of [0, MAX_COMPOUND_BATCH + 1, 1.5]) {
+                      await expect(compoundInBatches(rGStaking, [deployer.address], batchSize)).to.be.rejectedWith(
+                          `The batch size must be between 1 and ${MAX_COMPOUND_BATCH}`
+                      )
+                  }
+              })
+          })
+      })
@@ -0,0 +1,277 @@
+import { expect } from "chai"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { DEFAULT_LOCK_TIERS, TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { RGStaking } from "../../typechain"
+import { buyAssetsFixture } from "../fixtures"
+
+// Tier ids of DEFAULT_LOCK_TIERS
+const TIER_30_DAYS = 0
+const TIER_90_DAYS = 1
+const TIER_180_DAYS = 2
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Lock Tiers Unit Tests", () => {
+          /**
+           * Locks assets of the deployer and returns when it happened and the rewards claimable right after.
+           */
+          async function lock(rGStaking: RGStaking, assets: number, tierId: number) {
+              await rGStaking.lockAssets(assets, tierId)
+
+              return {
+                  lockedAt: await time.latest(),
+                  rewardsAtLock: await rGStaking.currentRewardsClaimable(await rGStaking.signer.getAddress()),
+              }
+          }
+
+          describe("setLockTier", () => {
+              it("Sets the configured tiers on deployment", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+
+                  const tiers = await rGStaking.lockTiers()
+
+                  expect(tiers).to.have.lengthOf(DEFAULT_LOCK_TIERS.length)
+                  tiers.forEach((tier, tierId) => {
+                      const expected = DEFAULT_LOCK_TIERS[tierId]
+                      expect(tier.duration).to.equal(time.duration.days(expected.durationDays))
+                      expect(tier.multiplierBps).to.equal(expected.multiplierBps)
+                      expect(tier.earlyExitPenaltyBps).to.equal(expected.earlyExitPenaltyBps)
+                      expect(tier.earlyExitAllowed).to.equal(expected.earlyExitAllowed)
+                  })
+              })
+
+              it("Adds a tier and changes an existing one", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+                  const newTierId = DEFAULT_LOCK_TIERS.length
+
+                  await expect(rGStaking.setLockTier(newTierId, time.duration.days(365), 30_000, 5_000, true))
+                      .to.emit(rGStaking, "LockTierUpdated")
+                      .withArgs(newTierId, time.duration.days(365), 30_000, 5_000, true)
+                  await rGStaking.setLockTier(TIER_30_DAYS, time.duration.days(7), 11_000, 0, true)
+
+                  const tiers = await rGStaking.lockTiers()
+                  expect(tiers).to.have.lengthOf(newTierId + 1)
+                  expect(tiers[newTierId].multiplierBps).to.equal(30_000)
+                  expect(tiers[TIER_30_DAYS].duration).to.equal(time.duration.days(7))
+              })
+
+              it("Only allows an admin to set tiers", async () => {
+                  const { rGStaking, account2 } = await loadFixture(buyAssetsFixture)
+
+                  await expect(rGStaking.connect(account2).setLockTier(0, time.duration.days(1), 10_000, 0, true))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, await rGStaking.DEFAULT_ADMIN_ROLE())
+              })
+
+              it("Rejects gaps in tier ids, multipliers below 1x and penalties above 100%", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+                  const day = time.duration.days(1)
+
+                  for (const args of [
+                      [DEFAULT_LOCK_TIERS.length + 1, day, 10_000, 0],
+                      [0, day, 9_999, 0],
+                      [0, day, 10_000, 10_001],
+                  ]) {
+                      const [tierId, duration, multiplierBps, penaltyBps] = args
+                      await expect(
+                          rGStaking.setLockTier(tierId, duration, multiplierBps, penaltyBps, true)
+                      ).to.be.revertedWithCustomError(rGStaking, "RGStaking__InvalidLockTier")
+                  }
+              })
+          })
+
+          describe("lockAssets", () => {
+              it("Locks assets into a position with its own unlock time", async () => {
+                  const { rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  const unlockTime = (await time.latest()) + 1 + time.duration.days(90)
+                  await time.setNextBlockTimestamp(unlockTime - time.duration.days(90))
+
+                  await expect(rGStaking.lockAssets(3, TIER_90_DAYS))
+                      .to.emit(rGStaking, "AssetsLocked")
+                      .withArgs(deployer.address, 3, TIER_90_DAYS, unlockTime)
+
+                  const [position] = await rGStaking.lockedPositions(deployer.address)
+                  expect(position.assets).to.equal(3)
+                  expect(position.tierId).to.equal(TIER_90_DAYS)
+                  expect(position.unlockTime).to.equal(unlockTime)
+                  expect(await rGStaking.lockedAssetBalance(deployer.address)).to.equal(3)
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(5)
+              })
+
+              it("Reverts for zero assets and unknown or disabled tiers", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+                  await rGStaking.setLockTier(TIER_30_DAYS, 0, 10_000, 0, true)
+
+                  await expect(rGStaking.lockAssets(0, TIER_90_DAYS)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__ZeroAmountNotAllowed"
+                  )
+                  await expect(rGStaking.lockAssets(1, TIER_30_DAYS))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__LockTierUnavailable")
+                      .withArgs(TIER_30_DAYS)
+                  await expect(rGStaking.lockAssets(1, DEFAULT_LOCK_TIERS.length))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__LockTierUnavailable")
+                      .withArgs(DEFAULT_LOCK_TIERS.length)
+              })
+
+              it("Only locks and redeems assets that aren't locked yet", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+                  await rGStaking.lockAssets(3, TIER_30_DAYS)
+
+                  await expect(rGStaking.lockAssets(3, TIER_90_DAYS))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__InsufficientAssets")
+                      .withArgs(2, 3)
+                  await expect(rGStaking.redeemAssets(3))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__InsufficientAssets")
+                      .withArgs(2, 3)
+                  await expect(rGStaking.redeemAssets(2)).to.emit(rGStaking, "AssetsRedeemed")
+              })
+
+              it("Limits the number of positions per account", async () => {
+                  const { rGToken, rGStaking } = await loadFixture(buyAssetsFixture)
+                  await rGToken.approve(rGStaking.address, TOKENS_PER_ASSET.mul(6))
+                  await rGStaking.buyAssets(6)
+
+                  for (let i = 0; i < 10; i++) await rGStaking.lockAssets(1, TIER_30_DAYS)
+
+                  await expect(rGStaking.lockAssets(1, TIER_30_DAYS)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__TooManyLockedPositions"
+                  )
+              })
+          })
+
+          describe("Boosted rewards", () => {
+              it("Multiplies the rewards of locked assets", async () => {
+                  const { rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  const { lockedAt, rewardsAtLock } = await lock(rGStaking, 2, TIER_180_DAYS)
+
+                  await time.increaseTo(lockedAt + time.duration.days(1))
+
+                  // 3 unlocked assets at 0.1 RGT per day and 2 locked ones at 2x
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(
+                      rewardsAtLock.add(parseRGT(0.3 + 0.4))
+                  )
+              })
+
+              it("Stops the boost at the unlock time", async () => {
+                  const { rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  const { lockedAt, rewardsAtLock } = await lock(rGStaking, 4, TIER_30_DAYS)
+
+                  await time.increaseTo(lockedAt + time.duration.days(40))
+
+                  // 5 assets for 40 days, plus the 0.25x boost of 4 assets for 30 days
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(
+                      rewardsAtLock.add(parseRGT(0.5 * 40 + 0.1 * 4 * 0.25 * 30))
+                  )
+              })
+
+              it("Keeps the terms of existing positions when a tier changes", async () => {
+                  const { rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  const { lockedAt, rewardsAtLock } = await lock(rGStaking, 5, TIER_180_DAYS)
+
+                  await rGStaking.setLockTier(TIER_180_DAYS, time.duration.days(1), 10_000, 0, true)
+                  await time.increaseTo(lockedAt + time.duration.days(1))
+
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(
+                      rewardsAtLock.add(parseRGT(1))
+                  )
+                  await expect(rGStaking.redeemLockedAssets(0)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__PositionLocked"
+                  )
+              })
+
+              it("Still clamps the rewards to the reward pool", async () => {
+                  const { rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  await rGStaking.setDailyRewardsPerAsset(parseRGT(600))
+                  const { lockedAt, rewardsAtLock } = await lock(rGStaking, 5, TIER_180_DAYS)
+
+                  // 5 assets at 600 RGT per day, doubled, earn 12000 RGT in 2 days but the pool holds less
+                  await time.increaseTo(lockedAt + time.duration.days(2))
+
+                  const totalRewardPool = await rGStaking.totalRewardPool()
+                  expect(totalRewardPool).to.be.lt(parseRGT(12_000))
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(
+                      rewardsAtLock.add(totalRewardPool)
+                  )
+              })
+          })
+
+          describe("redeemLockedAssets", () => {
+              it("Charges the early-exit penalty and adds it to the reward pool", async () => {
+                  const { rGToken, rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  const { lockedAt } = await lock(rGStaking, 5, TIER_90_DAYS)
+                  await time.setNextBlockTimestamp(lockedAt + time.duration.days(10))
+
+                  const price = TOKENS_PER_ASSET.mul(5)
+                  const penalty = price.mul(DEFAULT_LOCK_TIERS[TIER_90_DAYS].earlyExitPenaltyBps).div(10_000)
+                  const poolBefore = await rGStaking.totalRewardPool()
+                  const rewardsSettled = parseRGT(0.5 * 1.5 * 10)
+
+                  await expect(rGStaking.redeemLockedAssets(0))
+                      .to.emit(rGStaking, "EarlyExitPenaltyPaid")
+                      .withArgs(deployer.address, penalty)
+                      .and.to.emit(rGStaking, "AssetsRedeemed")
+                      .withArgs(deployer.address, 5)
+                      .and.to.changeTokenBalances(
+                          rGToken,
+                          [deployer, rGStaking],
+                          [price.sub(penalty), penalty.sub(price)]
+                      )
+
+                  expect(await rGStaking.totalRewardPool()).to.equal(poolBefore.sub(rewardsSettled).add(penalty))
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(0)
+                  expect(await rGStaking.lockedAssetBalance(deployer.address)).to.equal(0)
+                  expect(await rGStaking.lockedPositions(deployer.address)).to.be.empty
+              })
+
+              it("Blocks early exits of tiers that don't allow them", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+                  const { lockedAt } = await lock(rGStaking, 5, TIER_180_DAYS)
+                  const unlockTime = lockedAt + time.duration.days(180)
+
+                  await time.increaseTo(unlockTime - 2)
+
+                  await expect(rGStaking.redeemLockedAssets(0))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__PositionLocked")
+                      .withArgs(unlockTime)
+              })
+
+              it("Redeems the full price once the position unlocked", async () => {
+                  const { rGToken, rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  const { lockedAt } = await lock(rGStaking, 5, TIER_180_DAYS)
+                  await time.setNextBlockTimestamp(lockedAt + time.duration.days(180))
+
+                  const price = TOKENS_PER_ASSET.mul(5)
+                  await expect(rGStaking.redeemLockedAssets(0))
+                      .to.changeTokenBalances(rGToken, [deployer, rGStaking], [price, price.mul(-1)])
+                      .and.not.to.emit(rGStaking, "EarlyExitPenaltyPaid")
+              })
+
+              it("Moves the last position into the place of the redeemed one", async () => {
+                  const { rGStaking, deployer } = await loadFixture(buyAssetsFixture)
+                  await rGStaking.lockAssets(2, TIER_30_DAYS)
+                  await rGStaking.lockAssets(3, TIER_180_DAYS)
+
+                  await rGStaking.redeemLockedAssets(0)
+
+                  const positions = await rGStaking.lockedPositions(deployer.address)
+                  expect(positions).to.have.lengthOf(1)
+                  expect(positions[0].tierId).to.equal(TIER_180_DAYS)
+                  expect(await rGStaking.lockedAssetBalance(deployer.address)).to.equal(3)
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(3)
+              })
+
+              it("Reverts for unknown positions", async () => {
+                  const { rGStaking } = await loadFixture(buyAssetsFixture)
+
+                  await expect(rGStaking.redeemLockedAssets(0))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__UnknownPosition")
+                      .withArgs(0)
+              })
+          })
+      })
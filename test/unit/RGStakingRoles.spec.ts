@@ -0,0 +1,343 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { ethers } from "hardhat"
+
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs"
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { untrackedAmount } from "../../utils/event-indexer"
+import { signIntent, signPermit, submitIntent } from "../../utils/intents"
+import { buyAssetsFixture, rollBackToVersion } from "../fixtures"
+
+// Tier id of the 180 days tier of DEFAULT_LOCK_TIERS, which doesn't allow early exits
+const TIER_180_DAYS = 2
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Roles Unit Tests", () => {
+          async function rolesFixture() {
+              const result = await loadFixture(buyAssetsFixture)
+              const { rGToken, rGStaking, account2 } = result
+
+              await rGToken.transfer(account2.address, parseRGT(100))
+              await rGToken.connect(account2).approve(rGStaking.address, ethers.constants.MaxUint256)
+
+              return {
+                  ...result,
+                  ADMIN_ROLE: await rGStaking.DEFAULT_ADMIN_ROLE(),
+                  PAUSER_ROLE: await rGStaking.PAUSER_ROLE(),
+              }
+          }
+
+          async function pausedFixture() {
+              const result = await loadFixture(rolesFixture)
+
+              await result.rGStaking.pause()
+
+              return result
+          }
+
+          describe("Role checks", () => {
+              it("Grants the admin and pauser roles on deployment", async () => {
+                  const { rGStaking, deployer, account2, ADMIN_ROLE, PAUSER_ROLE } = await loadFixture(rolesFixture)
+
+                  expect(await rGStaking.hasRole(ADMIN_ROLE, deployer.address)).to.equal(true)
+                  expect(await rGStaking.hasRole(PAUSER_ROLE, deployer.address)).to.equal(true)
+                  expect(await rGStaking.hasRole(ADMIN_ROLE, account2.address)).to.equal(false)
+                  expect(await rGStaking.hasRole(PAUSER_ROLE, account2.address)).to.equal(false)
+              })
+
+              it("Restricts the admin functions to the admin role", async () => {
+                  const { rGStaking, account2, ADMIN_ROLE, PAUSER_ROLE } = await loadFixture(rolesFixture)
+                  const rGStakingAsAccount2 = rGStaking.connect(account2)
+
+                  for (const call of [
+                      () => rGStakingAsAccount2.setDailyRewardsPerAsset(parseRGT(1)),
+                      () => rGStakingAsAccount2.topUpRewardPool(parseRGT(1)),
+                      () => rGStakingAsAccount2.setLockTier(0, time.duration.days(1), 10_000, 0, true),
+                      () => rGStakingAsAccount2.grantRole(PAUSER_ROLE, account2.address),
+                      () => rGStakingAsAccount2.revokeRole(PAUSER_ROLE, account2.address),
+                      () => rGStakingAsAccount2.recoverSurplusRewards(account2.address),
+                  ]) {
+                      await expect(call())
+                          .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                          .withArgs(account2.address, ADMIN_ROLE)
+                  }
+              })
+
+              it("Restricts pausing and unpausing to the pauser role", async () => {
+                  const { rGStaking, account2, PAUSER_ROLE } = await loadFixture(rolesFixture)
+
+                  await expect(rGStaking.connect(account2).pause())
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, PAUSER_ROLE)
+
+                  await rGStaking.pause()
+
+                  await expect(rGStaking.connect(account2).unpause())
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, PAUSER_ROLE)
+              })
+
+              it("Grants and revokes roles", async () => {
+                  const { rGStaking, deployer, account2, PAUSER_ROLE } = await loadFixture(rolesFixture)
+
+                  await expect(rGStaking.grantRole(PAUSER_ROLE, account2.address))
+                      .to.emit(rGStaking, "RoleGranted")
+                      .withArgs(PAUSER_ROLE, account2.address, deployer.address)
+                  await expect(rGStaking.connect(account2).pause())
+                      .to.emit(rGStaking, "Paused")
+                      .withArgs(account2.address)
+
+                  await expect(rGStaking.revokeRole(PAUSER_ROLE, account2.address))
+                      .to.emit(rGStaking, "RoleRevoked")
+                      .withArgs(PAUSER_ROLE, account2.address, deployer.address)
+                  await expect(rGStaking.connect(account2).unpause()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__MissingRole"
+                  )
+              })
+
+              it("Doesn't emit for roles that are already granted or revoked", async () => {
+                  const { rGStaking, deployer, account2, PAUSER_ROLE } = await loadFixture(rolesFixture)
+
+                  await expect(rGStaking.grantRole(PAUSER_ROLE, deployer.address)).not.to.emit(rGStaking, "RoleGranted")
+                  await expect(rGStaking.revokeRole(PAUSER_ROLE, account2.address)).not.to.emit(
+                      rGStaking,
+                      "RoleRevoked"
+                  )
+              })
+
+              it("Lets an account renounce its own role", async () => {
+                  const { rGStaking, deployer, ADMIN_ROLE } = await loadFixture(rolesFixture)
+
+                  await expect(rGStaking.renounceRole(ADMIN_ROLE))
+                      .to.emit(rGStaking, "RoleRevoked")
+                      .withArgs(ADMIN_ROLE, deployer.address, deployer.address)
+                  expect(await rGStaking.hasRole(ADMIN_ROLE, deployer.address)).to.equal(false)
+                  await expect(rGStaking.setDailyRewardsPerAsset(parseRGT(1))).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__MissingRole"
+                  )
+              })
+          })
+
+          describe("initializeRoles", () => {
+              async function upgradedBeforeRolesFixture() {
+                  const result = await loadFixture(rolesFixture)
+
+                  await rollBackToVersion(result.rGStaking, 1, ["s_totalAssets", "s_totalCreditedRewards"])
+
+                  return result
+              }
+
+              it("Can't run on deployments made after roles existed", async () => {
+                  const { rGStaking, deployer, account2 } = await loadFixture(rolesFixture)
+
+                  await expect(rGStaking.initializeRoles(deployer.address, account2.address, 0, 0)).to.be.revertedWith(
+                      "Initializable: contract is already initialized"
+                  )
+              })
+
+              it("Lets stakers redeem, claim and withdraw before the migration", async () => {
+                  const { rGStaking, account2 } = await loadFixture(upgradedBeforeRolesFixture)
+
+                  await rGStaking.connect(account2).buyAssets(2)
+                  await time.increase(time.duration.days(1))
+                  await rGStaking.claimRewards()
+                  await rGStaking.redeemAssets(5)
+                  await rGStaking.connect(account2).emergencyWithdraw()
+
+                  // Only the changes since the upgrade are counted, wrapping around below zero
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(ethers.constants.MaxUint256.sub(4))
+              })
+
+              it("Only allows the owner to migrate once, adding the totals at the time of the upgrade", async () => {
+                  const { rGStaking, deployer, account2, PAUSER_ROLE } = await loadFixture(upgradedBeforeRolesFixture)
+                  const accounts = [deployer.address, account2.address]
+                  await rGStaking.connect(account2).buyAssets(2)
+                  await time.increase(time.duration.days(1))
+                  await rGStaking.redeemAssets(3)
+
+                  // What the task passes: the totals reconciled up to a block minus what the contract counted by then
+                  const userData = await rGStaking.userDataOf(accounts)
+                  const sum = (values: BigNumber[]) => values.reduce((total, value) => total.add(value))
+                  const assetsAtUpgrade = untrackedAmount(
+                      sum(userData.map(({ assets }) => assets)),
+                      await rGStaking.totalAssetsStaked()
+                  )
+                  const rewardsAtUpgrade = untrackedAmount(
+                      sum(userData.map(({ rewards }) => rewards)),
+                      await rGStaking.totalCreditedRewards()
+                  )
+                  await rGStaking.claimRewards()
+
+                  await expect(
+                      rGStaking.connect(account2).initializeRoles(account2.address, account2.address, 0, 0)
+                  ).to.be.revertedWith("Ownable: caller is not the owner")
+
+                  await expect(
+                      rGStaking.initializeRoles(deployer.address, account2.address, assetsAtUpgrade, rewardsAtUpgrade)
+                  )
+                      .to.emit(rGStaking, "RoleGranted")
+                      .withArgs(PAUSER_ROLE, account2.address, deployer.address)
+                  const migratedUserData = await rGStaking.userDataOf(accounts)
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(4)
+                  expect(await rGStaking.totalCreditedRewards()).to.equal(
+                      sum(migratedUserData.map(({ rewards }) => rewards))
+                  )
+
+                  await expect(rGStaking.initializeRoles(deployer.address, account2.address, 5, 0)).to.be.revertedWith(
+                      "Initializable: contract is already initialized"
+                  )
+              })
+          })
+
+          describe("Pause", () => {
+              it("Stops purchases and claims until unpaused", async () => {
+                  const { rGToken, rGStaking, deployer, account2 } = await loadFixture(rolesFixture)
+                  await time.increase(time.duration.days(1))
+                  const deadline = (await time.latest()) + time.duration.hours(1)
+
+                  await expect(rGStaking.pause()).to.emit(rGStaking, "Paused").withArgs(deployer.address)
+                  expect(await rGStaking.paused()).to.equal(true)
+
+                  const { v, r, s } = await signPermit(rGToken, account2, rGStaking.address, parseRGT(10), deadline)
+                  const buyIntent = await signIntent(rGStaking, account2, "buy", 1, deadline)
+                  const claimIntent = await signIntent(rGStaking, deployer, "claim", 0, deadline)
+                  for (const call of [
+                      () => rGStaking.connect(account2).buyAssets(1),
+                      () => rGStaking.connect(account2).buyAssetsWithPermit(1, deadline, v, r, s),
+                      () => submitIntent(rGStaking, buyIntent),
+                      () => rGStaking.claimRewards(),
+                      () => submitIntent(rGStaking, claimIntent),
+                  ]) {
+                      await expect(call()).to.be.revertedWithCustomError(rGStaking, "RGStaking__Paused")
+                  }
+
+                  await expect(rGStaking.unpause()).to.emit(rGStaking, "Unpaused").withArgs(deployer.address)
+                  await expect(rGStaking.claimRewards()).to.emit(rGStaking, "RewardsClaimed")
+                  await expect(rGStaking.connect(account2).buyAssets(1)).to.emit(rGStaking, "AssetsBought")
+              })
+
+              it("Keeps redemptions working", async () => {
+                  const { rGToken, rGStaking, deployer } = await loadFixture(pausedFixture)
+
+                  await expect(rGStaking.redeemAssets(2)).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      TOKENS_PER_ASSET.mul(2)
+                  )
+              })
+
+              it("Reverts when pausing twice or unpausing while not paused", async () => {
+                  const { rGStaking } = await loadFixture(pausedFixture)
+
+                  await expect(rGStaking.pause()).to.be.revertedWithCustomError(rGStaking, "RGStaking__Paused")
+                  await rGStaking.unpause()
+                  await expect(rGStaking.unpause()).to.be.revertedWithCustomError(rGStaking, "RGStaking__NotPaused")
+              })
+          })
+
+          describe("emergencyWithdraw", () => {
+              it("Returns the principal and forfeits the credited rewards to the pool", async () => {
+                  const { rGToken, rGStaking, deployer, amountOfAssets } = await loadFixture(rolesFixture)
+                  await time.increase(time.duration.days(1))
+                  // Redeeming credits the rewards earned so far
+                  await rGStaking.redeemAssets(1)
+                  const rewardPool = await rGStaking.totalRewardPool()
+
+                  const tx = await rGStaking.emergencyWithdraw()
+                  const { args } = (await tx.wait()).events!.find(({ event }) => event === "EmergencyWithdrawn")!
+
+                  expect(args!.user).to.equal(deployer.address)
+                  expect(args!.assetsWithdrawn).to.equal(amountOfAssets - 1)
+                  expect(args!.rewardsForfeited).to.be.gt(0)
+                  await expect(tx).to.changeTokenBalance(rGToken, deployer, TOKENS_PER_ASSET.mul(amountOfAssets - 1))
+                  expect(await rGStaking.assetBalance(deployer.address)).to.equal(0)
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(0)
+                  expect(await rGStaking.totalRewardPool()).to.equal(rewardPool.add(args!.rewardsForfeited))
+              })
+
+              it("Only releases locked positions while paused, without penalties", async () => {
+                  const { rGToken, rGStaking, deployer, amountOfAssets } = await loadFixture(rolesFixture)
+                  await rGStaking.lockAssets(2, TIER_180_DAYS)
+
+                  await expect(rGStaking.emergencyWithdraw())
+                      .to.emit(rGStaking, "EmergencyWithdrawn")
+                      .withArgs(deployer.address, amountOfAssets - 2, anyValue)
+                  expect(await rGStaking.lockedAssetBalance(deployer.address)).to.equal(2)
+                  await expect(rGStaking.emergencyWithdraw()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__ZeroAmountNotAllowed"
+                  )
+
+                  await rGStaking.pause()
+
+                  await expect(rGStaking.emergencyWithdraw()).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      TOKENS_PER_ASSET.mul(2)
+                  )
+                  expect(await rGStaking.lockedAssetBalance(deployer.address)).to.equal(0)
+                  expect(await rGStaking.lockedPositions(deployer.address)).to.be.empty
+              })
+
+              it("Reverts for accounts without assets", async () => {
+                  const { rGStaking, account2 } = await loadFixture(rolesFixture)
+
+                  await expect(rGStaking.connect(account2).emergencyWithdraw()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__ZeroAmountNotAllowed"
+                  )
+              })
+          })
+
+          describe("recoverSurplusRewards", () => {
+              it("Recovers tokens sent to the contract by mistake", async () => {
+                  const { rGToken, rGStaking, deployer, account2 } = await loadFixture(rolesFixture)
+                  const rewardPool = await rGStaking.totalRewardPool()
+                  await rGToken.transfer(rGStaking.address, parseRGT(7))
+
+                  expect(await rGStaking.recoverableRewards()).to.equal(parseRGT(7))
+                  await expect(rGStaking.recoverSurplusRewards(account2.address))
+                      .to.emit(rGStaking, "SurplusRecovered")
+                      .withArgs(rGToken.address, account2.address, parseRGT(7))
+                      .and.to.changeTokenBalance(rGToken, account2, parseRGT(7))
+                  expect(await rGStaking.totalRewardPool()).to.equal(rewardPool)
+
+                  // The principal of the assets stays with the contract
+                  await expect(rGStaking.redeemAssets(5)).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      TOKENS_PER_ASSET.mul(5)
+                  )
+              })
+
+              it("Withdraws the reward pool after a sunset", async () => {
+                  const { rGToken, rGStaking, account2 } = await loadFixture(pausedFixture)
+                  await rGStaking.emergencyWithdraw()
+                  const rewardPool = await rGStaking.totalRewardPool()
+
+                  expect(await rGStaking.recoverableRewards()).to.equal(rewardPool)
+                  await expect(rGStaking.recoverSurplusRewards(account2.address))
+                      .to.emit(rGStaking, "RewardPoolWithdrawn")
+                      .withArgs(account2.address, rewardPool)
+                      .and.to.changeTokenBalance(rGToken, account2, rewardPool)
+                  expect(await rGStaking.totalRewardPool()).to.equal(0)
+                  expect(await rGToken.balanceOf(rGStaking.address)).to.equal(0)
+              })
+
+              it("Reverts when there is nothing to recover", async () => {
+                  const { rGStaking, account2 } = await loadFixture(pausedFixture)
+
+                  // Paused, but assets are still staked
+                  await expect(rGStaking.recoverSurplusRewards(account2.address)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__NoSurplus"
+                  )
+              })
+          })
+      })
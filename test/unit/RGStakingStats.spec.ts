@@ -0,0 +1,226 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { untrackedAmount } from "../../utils/event-indexer"
+import { initializeRewardsPoolFixture, rollBackToVersion } from "../fixtures"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Stats Unit Tests", () => {
+          async function stakersFixture() {
+              const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
+              const [, , account3] = await ethers.getSigners()
+
+              for (const signer of [account2, account3]) {
+                  await rGToken.transfer(signer.address, TOKENS_PER_ASSET.mul(20))
+              }
+              for (const signer of [deployer, account2, account3]) {
+                  await rGToken.connect(signer).approve(rGStaking.address, ethers.constants.MaxUint256)
+              }
+
+              return { rGToken, rGStaking, deployer, account2, account3 }
+          }
+
+          describe("totalAssetsStaked and activeStakers", () => {
+              it("Start at zero", async () => {
+                  const { rGStaking } = await loadFixture(stakersFixture)
+
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(0)
+                  expect(await rGStaking.activeStakers()).to.equal(0)
+              })
+
+              it("Stay consistent with the accounts across buys and redeems", async () => {
+                  const { rGStaking, deployer, account2, account3 } = await loadFixture(stakersFixture)
+                  const signers = [deployer, account2, account3]
+
+                  const steps = [
+                      { signer: deployer, buy: 5, stakers: 1 },
+                      { signer: deployer, buy: 3, stakers: 1 },
+                      { signer: account2, buy: 2, stakers: 2 },
+                      { signer: account3, buy: 7, stakers: 3 },
+                      { signer: deployer, redeem: 8, stakers: 2 },
+                      { signer: account2, redeem: 1, stakers: 2 },
+                      { signer: account2, redeem: 1, stakers: 1 },
+                      { signer: deployer, buy: 1, stakers: 2 },
+                      { signer: account3, redeem: 7, stakers: 1 },
+                      { signer: deployer, redeem: 1, stakers: 0 },
+                  ]
+                  for (const { signer, buy, redeem, stakers } of steps) {
+                      const asSigner = rGStaking.connect(signer)
+                      await (buy ? asSigner.buyAssets(buy) : asSigner.redeemAssets(redeem!))
+
+                      const balances = await Promise.all(signers.map(({ address }) => rGStaking.assetBalance(address)))
+                      const total = balances.reduce((sum, balance) => sum.add(balance))
+                      expect(await rGStaking.totalAssetsStaked()).to.equal(total)
+                      expect(await rGStaking.activeStakers())
+                          .to.equal(balances.filter((balance) => balance.gt(0)).length)
+                          .and.to.equal(stakers)
+                  }
+              })
+
+              it("Stop counting an account whose last assets leave a locked position", async () => {
+                  const { rGStaking, account2 } = await loadFixture(stakersFixture)
+                  const asAccount2 = rGStaking.connect(account2)
+                  await asAccount2.buyAssets(4)
+                  await asAccount2.lockAssets(4, 0)
+
+                  await asAccount2.redeemLockedAssets(0)
+
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(0)
+                  expect(await rGStaking.activeStakers()).to.equal(0)
+              })
+
+              it("Keep counting an account that emergency withdraws around its locked assets", async () => {
+                  const { rGStaking, account2 } = await loadFixture(stakersFixture)
+                  const asAccount2 = rGStaking.connect(account2)
+                  await asAccount2.buyAssets(6)
+                  await asAccount2.lockAssets(4, 0)
+
+                  await asAccount2.emergencyWithdraw()
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(4)
+                  expect(await rGStaking.activeStakers()).to.equal(1)
+
+                  // Paused, the locked assets are released too
+                  await rGStaking.pause()
+                  await asAccount2.emergencyWithdraw()
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(0)
+                  expect(await rGStaking.activeStakers()).to.equal(0)
+              })
+
+              it("Count an account again when it compounds rewards left after redeeming everything", async () => {
+                  const { rGStaking, account2 } = await loadFixture(stakersFixture)
+                  const asAccount2 = rGStaking.connect(account2)
+                  await asAccount2.buyAssets(10)
+                  await time.increase(time.duration.days(10))
+                  await asAccount2.redeemAssets(10)
+                  expect(await rGStaking.activeStakers()).to.equal(0)
+
+                  await asAccount2.compoundRewards()
+
+                  expect(await rGStaking.totalAssetsStaked()).to.equal(1)
+                  expect(await rGStaking.activeStakers()).to.equal(1)
+              })
+          })
+
+          describe("userDataOf", () => {
+              it("Returns the stored data of each account in order", async () => {
+                  const { rGStaking, deployer, account2, account3 } = await loadFixture(stakersFixture)
+                  const timestampOf = async ({ blockNumber }: { blockNumber?: number }) =>
+                      (await ethers.provider.getBlock(blockNumber!)).timestamp
+                  await rGStaking.buyAssets(5)
+                  await time.increase(time.duration.days(1))
+                  const claimTx = await rGStaking.claimRewards()
+                  const buyTx = await rGStaking.connect(account2).buyAssets(2)
+                  await time.setNextBlockTimestamp((await timestampOf(buyTx)) + time.duration.days(1))
+                  const redeemTx = await rGStaking.connect(account2).redeemAssets(1)
+
+                  const data = await rGStaking.userDataOf([account2.address, deployer.address, account3.address])
+
+                  expect(data.map(({ assets }) => assets.toNumber())).to.deep.equal([1, 5, 0])
+                  expect(data.map(({ rewards }) => rewards)).to.deep.equal([parseRGT(0.2), parseRGT(0), parseRGT(0)])
+                  expect(data.map(({ lastUpdateTime }) => lastUpdateTime.toNumber())).to.deep.equal([
+                      await timestampOf(redeemTx),
+                      await timestampOf(claimTx),
+                      0,
+                  ])
+              })
+          })
+
+          describe("projectedDepletionTime", () => {
+              it("Never comes while nothing is staked", async () => {
+                  const { rGStaking } = await loadFixture(stakersFixture)
+
+                  expect(await rGStaking.projectedDepletionTime()).to.equal(ethers.constants.MaxUint256)
+              })
+
+              it("Divides the reward pool by the daily emission of the assets staked", async () => {
+                  const { rGStaking, account2 } = await loadFixture(stakersFixture)
+                  await rGStaking.buyAssets(5)
+                  await rGStaking.connect(account2).buyAssets(15)
+
+                  // The pool holds 10000 RGT and 20 assets emit 2 RGT a day
+                  const { number: blockNumber, timestamp } = await ethers.provider.getBlock("latest")
+                  const pool = await rGStaking.totalRewardPool()
+                  expect(pool).to.equal(parseRGT(10_000))
+                  expect(await rGStaking.projectedDepletionTime({ blockTag: blockNumber })).to.equal(
+                      timestamp + time.duration.days(5_000)
+                  )
+
+                  const rateTx = await rGStaking.setDailyRewardsPerAsset(parseRGT(0.5))
+                  const rateTimestamp = (await ethers.provider.getBlock(rateTx.blockNumber!)).timestamp
+                  expect(await rGStaking.projectedDepletionTime({ blockTag: rateTx.blockNumber })).to.equal(
+                      rateTimestamp + time.duration.days(1_000)
+                  )
+              })
+
+              it("Comes no earlier than the pool actually runs dry", async () => {
+                  const { rGStaking, account2 } = await loadFixture(stakersFixture)
+                  await rGStaking.setDailyRewardsPerAsset(parseRGT(100))
+                  await rGStaking.connect(account2).buyAssets(10)
+
+                  // 10 assets emit 1000 RGT a day, so the 10000 RGT pool lasts 10 days
+                  const projected = await rGStaking.projectedDepletionTime()
+                  await time.increaseTo(projected.sub(1))
+                  expect(await rGStaking.currentRewardsClaimable(account2.address)).to.be.lt(parseRGT(10_000))
+
+                  await time.increaseTo(projected)
+                  expect(await rGStaking.currentRewardsClaimable(account2.address)).to.equal(parseRGT(10_000))
+              })
+          })
+
+          describe("initializeStakerCount", () => {
+              async function upgradedBeforeStakerCountFixture() {
+                  const result = await loadFixture(stakersFixture)
+                  const { rGStaking, account2 } = result
+                  await rGStaking.buyAssets(5)
+                  await rGStaking.connect(account2).buyAssets(5)
+
+                  await rollBackToVersion(rGStaking, 2, ["s_activeStakers"])
+
+                  return result
+              }
+
+              it("Can't run on deployments made after the count was tracked", async () => {
+                  const { rGStaking } = await loadFixture(stakersFixture)
+
+                  await expect(rGStaking.initializeStakerCount(0)).to.be.revertedWith(
+                      "Initializable: contract is already initialized"
+                  )
+              })
+
+              it("Lets stakers redeem all their assets before the migration", async () => {
+                  const { rGStaking, account2 } = await loadFixture(upgradedBeforeStakerCountFixture)
+
+                  await rGStaking.redeemAssets(5)
+                  await rGStaking.connect(account2).emergencyWithdraw()
+
+                  // Only the changes since the upgrade are counted, wrapping around below zero
+                  expect(await rGStaking.activeStakers()).to.equal(ethers.constants.MaxUint256.sub(1))
+              })
+
+              it("Only allows the admin to migrate once, adding the count at the time of the upgrade", async () => {
+                  const { rGStaking, account2, account3 } = await loadFixture(upgradedBeforeStakerCountFixture)
+                  await rGStaking.redeemAssets(5)
+                  await rGStaking.connect(account3).buyAssets(1)
+
+                  // What the task passes: the count reconciled up to a block minus what the contract counted by then
+                  const stakersAtUpgrade = untrackedAmount(2, await rGStaking.activeStakers())
+                  await rGStaking.connect(account2).redeemAssets(5)
+
+                  await expect(rGStaking.connect(account2).initializeStakerCount(stakersAtUpgrade))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, await rGStaking.DEFAULT_ADMIN_ROLE())
+
+                  await rGStaking.initializeStakerCount(stakersAtUpgrade)
+                  expect(await rGStaking.activeStakers()).to.equal(1)
+
+                  await expect(rGStaking.initializeStakerCount(0)).to.be.revertedWith(
+                      "Initializable: contract is already initialized"
+                  )
+              })
+          })
+      })
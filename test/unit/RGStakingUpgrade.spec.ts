@@ -0,0 +1,186 @@
+import { expect } from "chai"
+import hre, { deployments, ethers } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { RGStaking, RGStakingV2Mock } from "../../typechain"
+import { StorageLayout, checkUpgradeSafety, compareStorageLayouts } from "../../utils/storage-layout"
+import { buyAssetsFixture } from "../fixtures"
+
+const getLayout = async (contractName: string): Promise<StorageLayout> =>
+    (await deployments.getExtendedArtifact(contractName)).storageLayout
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Upgrade Unit Tests", () => {
+          async function upgradeFixture() {
+              const result = await loadFixture(buyAssetsFixture)
+              const { rGToken, rGStaking, deployer, account2 } = result
+
+              // Give account2 a position as well, and let both accrue rewards for a while
+              await rGToken.transfer(account2.address, parseRGT(30))
+              await rGToken.connect(account2).approve(rGStaking.address, parseRGT(30))
+              await rGStaking.connect(account2).buyAssets(3)
+              await time.increase(time.duration.days(3))
+
+              // Upgrade through the proxy admin the deploy script set up. Going through the ProxyAdmin instead of
+              // `deployments.deploy` keeps hardhat-deploy's records in sync with the fixture snapshots.
+              const upgrade = async () => {
+                  const implementation = await (await ethers.getContractFactory("RGStakingV2Mock", deployer)).deploy()
+                  const proxyAdmin = await ethers.getContract("DefaultProxyAdmin", deployer)
+                  await proxyAdmin.upgrade(rGStaking.address, implementation.address)
+
+                  return (await ethers.getContractAt("RGStakingV2Mock", rGStaking.address, deployer)) as RGStakingV2Mock
+              }
+
+              return { ...result, upgrade }
+          }
+
+          // Rewards accrued by an account that bought `assets` at `boughtAt` and didn't touch its position since
+          const expectedRewards = (assets: number, boughtAt: number, timestamp: number) =>
+              parseRGT(1)
+                  .div(10)
+                  .mul(assets)
+                  .mul(timestamp - boughtAt)
+                  .div(time.duration.days(1))
+
+          describe("Upgrade", () => {
+              it("Keeps the proxy address, the owner and every account's balances", async () => {
+                  const { rGStaking, deployer, account2, amountOfAssets, upgrade } = await loadFixture(upgradeFixture)
+                  const [deployerBuy, account2Buy] = await Promise.all(
+                      [deployer, account2].map(async (account) => {
+                          const [event] = await rGStaking.queryFilter(rGStaking.filters.AssetsBought(account.address))
+                          return (await event.getBlock()).timestamp
+                      })
+                  )
+
+                  const beforeUpgrade = await time.latest()
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(
+                      expectedRewards(amountOfAssets, deployerBuy, beforeUpgrade)
+                  )
+                  const totalRewardPool = await rGStaking.totalRewardPool()
+
+                  const rGStakingV2 = await upgrade()
+                  const afterUpgrade = await time.latest()
+
+                  expect(await rGStakingV2.version()).to.equal(2)
+                  expect(await rGStakingV2.owner()).to.equal(deployer.address)
+                  expect(await rGStakingV2.rGTokenAddress()).to.equal(await rGStaking.rGTokenAddress())
+                  expect(await rGStakingV2.isRewardPoolInitialized()).to.be.true
+                  expect(await rGStakingV2.totalRewardPool()).to.equal(totalRewardPool)
+                  expect(await rGStakingV2.dailyRewardsPerAsset()).to.equal(parseRGT(1).div(10))
+
+                  // Rewards keep accruing from the original purchase times, as if nothing had happened
+                  expect(await rGStakingV2.assetBalance(deployer.address)).to.equal(amountOfAssets)
+                  expect(await rGStakingV2.assetBalance(account2.address)).to.equal(3)
+                  expect(await rGStakingV2.currentRewardsClaimable(deployer.address)).to.equal(
+                      expectedRewards(amountOfAssets, deployerBuy, afterUpgrade)
+                  )
+                  expect(await rGStakingV2.currentRewardsClaimable(account2.address)).to.equal(
+                      expectedRewards(3, account2Buy, afterUpgrade)
+                  )
+              })
+
+              it("Keeps working after the upgrade", async () => {
+                  const { rGToken, deployer, amountOfAssets, upgrade } = await loadFixture(upgradeFixture)
+
+                  const rGStakingV2 = await upgrade()
+
+                  // The appended variable doesn't clobber existing storage
+                  await rGStakingV2.setAppendedValue(42)
+                  expect(await rGStakingV2.appendedValue()).to.equal(42)
+                  expect(await rGStakingV2.assetBalance(deployer.address)).to.equal(amountOfAssets)
+
+                  const rewards = await rGStakingV2.currentRewardsClaimable(deployer.address)
+                  await expect(rGStakingV2.claimRewards()).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      rewards.add(parseRGT(amountOfAssets).div(10).div(time.duration.days(1)))
+                  )
+                  await expect(rGStakingV2.redeemAssets(amountOfAssets)).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      parseRGT(amountOfAssets).mul(10)
+                  )
+              })
+
+              it("Can't be upgraded by anyone but the proxy admin owner", async () => {
+                  const { account2 } = await loadFixture(upgradeFixture)
+                  const { address } = await (await ethers.getContractFactory("RGStakingV2Mock", account2)).deploy()
+                  const proxyAdmin = await ethers.getContract("DefaultProxyAdmin", account2)
+                  const rGStaking: RGStaking = await ethers.getContract("RGStaking")
+
+                  await expect(proxyAdmin.upgrade(rGStaking.address, address)).to.be.revertedWith(
+                      "Ownable: caller is not the owner"
+                  )
+              })
+          })
+
+          describe("Storage layout check", () => {
+              it("Accepts appended variables", async () => {
+                  const v1 = await getLayout("StorageLayoutV1")
+
+                  expect(compareStorageLayouts(v1, v1)).to.be.empty
+                  expect(compareStorageLayouts(v1, await getLayout("StorageLayoutV2Appended"))).to.be.empty
+              })
+
+              it("Rejects inserted variables", async () => {
+                  const errors = compareStorageLayouts(
+                      await getLayout("StorageLayoutV1"),
+                      await getLayout("StorageLayoutV2Inserted")
+                  )
+
+                  expect(errors).to.include('"s_token" (slot 1) was replaced by "s_newTotal"')
+                  expect(errors).to.include('"s_initialized" (slot 1, offset 20) was removed or moved')
+              })
+
+              it("Rejects changed types", async () => {
+                  const errors = compareStorageLayouts(
+                      await getLayout("StorageLayoutV1"),
+                      await getLayout("StorageLayoutV2Retyped")
+                  )
+
+                  expect(errors).to.have.lengthOf(1)
+                  expect(errors[0]).to.match(/^"s_data" \(slot 2\) changed type/)
+              })
+
+              it("Rejects renamed variables", async () => {
+                  const errors = compareStorageLayouts(
+                      await getLayout("StorageLayoutV1"),
+                      await getLayout("StorageLayoutV2Renamed")
+                  )
+
+                  expect(errors).to.deep.equal(['"s_token" (slot 1) was replaced by "s_rewardToken"'])
+              })
+
+              it("Compares the recorded implementation with the current artifact", async () => {
+                  const { abi, storageLayout } = await deployments.getExtendedArtifact("StorageLayoutV1")
+                  await deployments.save("LayoutMock_Implementation", {
+                      address: ethers.constants.AddressZero,
+                      abi,
+                      storageLayout,
+                  })
+
+                  expect(await checkUpgradeSafety(hre, "LayoutMock", "StorageLayoutV2Appended")).to.deep.equal({
+                      implementation: ethers.constants.AddressZero,
+                      errors: [],
+                  })
+                  expect((await checkUpgradeSafety(hre, "LayoutMock", "StorageLayoutV2Inserted")).errors).not.to.be
+                      .empty
+              })
+
+              it("Reverts when the recorded implementation has no storage layout", async () => {
+                  const { abi } = await deployments.getExtendedArtifact("StorageLayoutV1")
+                  await deployments.save("LayoutMock_Implementation", { address: ethers.constants.AddressZero, abi })
+
+                  await expect(checkUpgradeSafety(hre, "LayoutMock")).to.be.rejectedWith(
+                      "has no recorded storage layout"
+                  )
+              })
+
+              it("Passes when nothing is deployed behind a proxy yet", async () => {
+                  expect(await checkUpgradeSafety(hre, "RGStakingV3")).to.deep.equal({ errors: [] })
+              })
+          })
+      })
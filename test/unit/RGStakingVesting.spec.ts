@@ -0,0 +1,259 @@
+import { expect } from "chai"
+import { ethers } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { initializeRewardsPoolFixture } from "../fixtures"
+
+const VESTING_DURATION = time.duration.days(30)
+const FORFEIT_BPS = 5_000
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGStaking Vesting Unit Tests", () => {
+          /**
+           * The deployer stakes 10 assets, earning 1 RGT a day, and claims 3 RGT after 3 days into a 30 day schedule
+           * with a 50% forfeit.
+           */
+          async function vestingFixture() {
+              const { rGToken, rGStaking, deployer, account2 } = await loadFixture(initializeRewardsPoolFixture)
+              await rGToken.approve(rGStaking.address, ethers.constants.MaxUint256)
+              await rGStaking.setVestingTerms(VESTING_DURATION, FORFEIT_BPS)
+
+              const buyTx = await rGStaking.buyAssets(10)
+              const boughtAt = (await ethers.provider.getBlock(buyTx.blockNumber!)).timestamp
+              const claimedAt = boughtAt + time.duration.days(3)
+              await time.setNextBlockTimestamp(claimedAt)
+              const claimTx = await rGStaking.claimRewards()
+
+              return { rGToken, rGStaking, deployer, account2, claimTx, claimedAt }
+          }
+
+          describe("setVestingTerms", () => {
+              it("Is off until the admin sets a duration", async () => {
+                  const { rGStaking } = await loadFixture(initializeRewardsPoolFixture)
+
+                  expect(await rGStaking.vestingDuration()).to.equal(0)
+                  expect(await rGStaking.vestingForfeitBps()).to.equal(0)
+
+                  await expect(rGStaking.setVestingTerms(VESTING_DURATION, FORFEIT_BPS))
+                      .to.emit(rGStaking, "VestingTermsUpdated")
+                      .withArgs(VESTING_DURATION, FORFEIT_BPS)
+                  expect(await rGStaking.vestingDuration()).to.equal(VESTING_DURATION)
+                  expect(await rGStaking.vestingForfeitBps()).to.equal(FORFEIT_BPS)
+              })
+
+              it("Only allows an admin to set forfeits of at most 100%", async () => {
+                  const { rGStaking, account2 } = await loadFixture(initializeRewardsPoolFixture)
+
+                  await expect(rGStaking.connect(account2).setVestingTerms(VESTING_DURATION, 0))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__MissingRole")
+                      .withArgs(account2.address, await rGStaking.DEFAULT_ADMIN_ROLE())
+                  await expect(rGStaking.setVestingTerms(VESTING_DURATION, 10_001)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__InvalidVestingTerms"
+                  )
+              })
+          })
+
+          describe("claimRewards", () => {
+              it("Moves the rewards into a vesting schedule instead of sending them", async () => {
+                  const { rGToken, rGStaking, deployer, claimTx, claimedAt } = await loadFixture(vestingFixture)
+
+                  await expect(claimTx)
+                      .to.emit(rGStaking, "VestingStarted")
+                      .withArgs(deployer.address, parseRGT(3), claimedAt + VESTING_DURATION)
+                      .and.to.emit(rGStaking, "RewardsClaimed")
+                      .withArgs(deployer.address, parseRGT(3))
+                  await expect(claimTx).to.changeTokenBalance(rGToken, deployer, 0)
+
+                  const schedule = await rGStaking.vestingSchedule(deployer.address)
+                  expect(schedule.locked).to.equal(parseRGT(3))
+                  expect(schedule.endTime).to.equal(claimedAt + VESTING_DURATION)
+                  expect(await rGStaking.totalVestingRewards()).to.equal(parseRGT(3))
+                  expect(await rGStaking.currentRewardsClaimable(deployer.address)).to.equal(0)
+              })
+
+              it("Ends the schedule at the average end time of the old and new rewards, weighted by amount", async () => {
+                  const { rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+
+                  // After 10 days, 2 of the first 3 RGT are still locked for 20 days and 10 more RGT were earned
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(10))
+                  await rGStaking.claimRewards()
+
+                  const endTime = claimedAt + time.duration.days(10) + ((2 * 20 + 10 * 30) * time.duration.days(1)) / 12
+                  const schedule = await rGStaking.vestingSchedule(deployer.address)
+                  expect(schedule.vested).to.equal(parseRGT(1))
+                  expect(schedule.locked).to.equal(parseRGT(12))
+                  expect(schedule.endTime).to.equal(endTime)
+                  expect(await rGStaking.totalVestingRewards()).to.equal(parseRGT(13))
+              })
+
+              it("Keeps paying claims out immediately once vesting is turned off, without touching schedules", async () => {
+                  const { rGToken, rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+                  await rGStaking.setVestingTerms(0, 0)
+
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(1))
+                  await expect(rGStaking.claimRewards()).to.changeTokenBalance(rGToken, deployer, parseRGT(1))
+
+                  expect((await rGStaking.vestingSchedule(deployer.address)).endTime).to.equal(
+                      claimedAt + VESTING_DURATION
+                  )
+                  expect(await rGStaking.lockedVestingRewards(deployer.address)).to.equal(parseRGT(2.9))
+              })
+          })
+
+          describe("vestedRewards and lockedVestingRewards", () => {
+              it("Vest the rewards linearly until the end time", async () => {
+                  const { rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+                  expect(await rGStaking.vestedRewards(deployer.address)).to.equal(0)
+
+                  for (const [days, vested] of [
+                      [10, 1],
+                      [15, 1.5],
+                      [30, 3],
+                      [45, 3],
+                  ]) {
+                      await time.increaseTo(claimedAt + time.duration.days(days))
+                      expect(await rGStaking.vestedRewards(deployer.address)).to.equal(parseRGT(vested))
+                      expect(await rGStaking.lockedVestingRewards(deployer.address)).to.equal(parseRGT(3 - vested))
+                  }
+              })
+          })
+
+          describe("withdrawVestedRewards", () => {
+              it("Sends the vested rewards and keeps vesting the rest until the same end time", async () => {
+                  const { rGToken, rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(20))
+                  const withdrawTx = await rGStaking.withdrawVestedRewards()
+                  await expect(withdrawTx)
+                      .to.emit(rGStaking, "VestedRewardsWithdrawn")
+                      .withArgs(deployer.address, parseRGT(2))
+                  await expect(withdrawTx).to.changeTokenBalance(rGToken, deployer, parseRGT(2))
+                  expect(await rGStaking.totalVestingRewards()).to.equal(parseRGT(1))
+
+                  await time.increaseTo(claimedAt + time.duration.days(25))
+                  expect(await rGStaking.vestedRewards(deployer.address)).to.equal(parseRGT(0.5))
+                  await time.increaseTo(claimedAt + VESTING_DURATION)
+                  expect(await rGStaking.vestedRewards(deployer.address)).to.equal(parseRGT(1))
+              })
+
+              it("Reverts when nothing has vested and while paused", async () => {
+                  const { rGStaking, account2 } = await loadFixture(vestingFixture)
+
+                  await expect(rGStaking.connect(account2).withdrawVestedRewards()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__NoRewardsForSender"
+                  )
+
+                  await rGStaking.pause()
+                  await expect(rGStaking.withdrawVestedRewards()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__Paused"
+                  )
+              })
+          })
+
+          describe("accelerateVesting", () => {
+              it("Sends locked rewards early and returns the forfeit to the reward pool", async () => {
+                  const { rGToken, rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+                  const poolBefore = await rGStaking.totalRewardPool()
+
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(10))
+                  const accelerateTx = await rGStaking.accelerateVesting(parseRGT(1))
+
+                  await expect(accelerateTx)
+                      .to.emit(rGStaking, "VestedRewardsWithdrawn")
+                      .withArgs(deployer.address, parseRGT(0.5))
+                      .and.to.emit(rGStaking, "VestingRewardsForfeited")
+                      .withArgs(deployer.address, parseRGT(0.5))
+                  await expect(accelerateTx).to.changeTokenBalance(rGToken, deployer, parseRGT(0.5))
+                  expect(await rGStaking.totalRewardPool()).to.equal(poolBefore.add(parseRGT(0.5)))
+
+                  // The vested RGT stays withdrawable and the last locked one vests over the remaining 20 days
+                  const schedule = await rGStaking.vestingSchedule(deployer.address)
+                  expect(schedule.vested).to.equal(parseRGT(1))
+                  expect(schedule.locked).to.equal(parseRGT(1))
+                  expect(schedule.endTime).to.equal(claimedAt + VESTING_DURATION)
+                  expect(await rGStaking.totalVestingRewards()).to.equal(parseRGT(2))
+              })
+
+              it("Releases all the locked rewards for MaxUint256", async () => {
+                  const { rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(6))
+                  await expect(rGStaking.accelerateVesting(ethers.constants.MaxUint256))
+                      .to.emit(rGStaking, "VestingRewardsForfeited")
+                      .withArgs(deployer.address, parseRGT(1.2))
+
+                  expect(await rGStaking.lockedVestingRewards(deployer.address)).to.equal(0)
+                  expect(await rGStaking.vestedRewards(deployer.address)).to.equal(parseRGT(0.6))
+              })
+
+              it("Reverts for zero rewards, more than are locked and while paused", async () => {
+                  const { rGStaking, account2, claimedAt } = await loadFixture(vestingFixture)
+
+                  await expect(rGStaking.accelerateVesting(0)).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__ZeroAmountNotAllowed"
+                  )
+                  await expect(
+                      rGStaking.connect(account2).accelerateVesting(ethers.constants.MaxUint256)
+                  ).to.be.revertedWithCustomError(rGStaking, "RGStaking__ZeroAmountNotAllowed")
+
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(15))
+                  await expect(rGStaking.accelerateVesting(parseRGT(2)))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__InsufficientVestingRewards")
+                      .withArgs(parseRGT(1.5), parseRGT(2))
+
+                  await rGStaking.pause()
+                  await expect(rGStaking.accelerateVesting(parseRGT(1))).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__Paused"
+                  )
+              })
+          })
+
+          describe("compoundRewards and compoundRewardsFor", () => {
+              it("Can't turn rewards into assets to redeem them past the vesting schedule", async () => {
+                  const { rGToken, rGStaking, deployer, claimedAt } = await loadFixture(vestingFixture)
+                  await rGStaking.setAutoCompound(true)
+
+                  // 10 RGT earned since the claim would pay for an asset, redeemable right away
+                  await time.setNextBlockTimestamp(claimedAt + time.duration.days(10))
+                  await expect(rGStaking.compoundRewards()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__CompoundingWhileVesting"
+                  )
+                  await expect(rGStaking.compoundRewardsFor([deployer.address])).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__CompoundingWhileVesting"
+                  )
+
+                  // Redeeming only returns the principal, and the rewards still vest once claimed
+                  await expect(rGStaking.redeemAssets(10)).to.changeTokenBalance(rGToken, deployer, parseRGT(100))
+                  const claimTx = await rGStaking.claimRewards()
+                  await expect(claimTx).to.changeTokenBalance(rGToken, deployer, 0)
+                  await expect(claimTx).to.emit(rGStaking, "VestingStarted")
+                  expect(await rGStaking.lockedVestingRewards(deployer.address)).to.be.gt(parseRGT(10))
+              })
+          })
+
+          describe("recoverSurplusRewards", () => {
+              it("Doesn't count vesting rewards as surplus", async () => {
+                  const { rGToken, rGStaking, deployer } = await loadFixture(vestingFixture)
+
+                  expect(await rGStaking.recoverableRewards()).to.equal(0)
+
+                  await rGToken.transfer(rGStaking.address, parseRGT(1))
+                  expect(await rGStaking.recoverableRewards()).to.equal(parseRGT(1))
+                  await expect(rGStaking.recoverSurplusRewards(deployer.address)).to.changeTokenBalance(
+                      rGToken,
+                      deployer,
+                      parseRGT(1)
+                  )
+              })
+          })
+      })
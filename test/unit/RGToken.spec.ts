@@ -0,0 +1,392 @@
+import { expect } from "chai"
+import { BigNumberish } from "ethers"
+import { ethers, getNamedAccounts } from "hardhat"
+
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { getNetworkConfig } from "../../helper-hardhat-config"
+import { deployContractsFixture } from "../fixtures"
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RGToken Unit Tests", () => {
+          const { supplyCap, initialSupply } = getNetworkConfig("hardhat")
+
+          async function rolesFixture() {
+              const result = await loadFixture(deployContractsFixture)
+              const [, , account3] = await ethers.getSigners()
+              const { rGToken, account2 } = result
+              const [minterRole, burnerRole] = await Promise.all([rGToken.MINTER_ROLE(), rGToken.BURNER_ROLE()])
+
+              // account2 mints and burns, account3 holds tokens
+              await rGToken.grantRole(minterRole, account2.address)
+              await rGToken.grantRole(burnerRole, account2.address)
+              await rGToken.transfer(account3.address, parseRGT(1000))
+
+              return { ...result, account3, minterRole, burnerRole }
+          }
+
+          async function delegatedFixture() {
+              const result = await loadFixture(rolesFixture)
+              const { rGToken, deployer, account3 } = result
+
+              // deployer votes with its own tokens, account3 delegates to account2
+              await rGToken.delegate(deployer.address)
+              await rGToken.connect(account3).delegate(result.account2.address)
+              const delegatedBlock = await ethers.provider.getBlockNumber()
+              await mine()
+
+              return { ...result, delegatedBlock }
+          }
+
+          const deployToken = async (cap: BigNumberish, recipients: string[], amounts: BigNumberish[]) => {
+              const [deployer] = await ethers.getSigners()
+              const factory = await ethers.getContractFactory("RGToken", deployer)
+              return factory.deploy(cap, deployer.address, deployer.address, recipients, amounts)
+          }
+
+          describe("Deployment", () => {
+              it("Mints the initial supply to the deployer", async () => {
+                  const { rGToken, deployer } = await loadFixture(deployContractsFixture)
+
+                  expect(await rGToken.name()).to.equal("Really Great Token")
+                  expect(await rGToken.symbol()).to.equal("RGT")
+                  expect(await rGToken.decimals()).to.equal(18)
+                  expect(await rGToken.totalSupply()).to.equal(initialSupply)
+                  expect(await rGToken.balanceOf(deployer.address)).to.equal(initialSupply)
+              })
+
+              it("Sets the cap", async () => {
+                  const { rGToken } = await loadFixture(deployContractsFixture)
+
+                  expect(await rGToken.cap()).to.equal(supplyCap)
+                  expect(await rGToken.mintableSupply()).to.equal(supplyCap.sub(initialSupply))
+              })
+
+              it("Grants the roles to the named accounts", async () => {
+                  const { rGToken, account2 } = await loadFixture(deployContractsFixture)
+                  const { admin, minter } = await getNamedAccounts()
+
+                  expect(await rGToken.hasRole(await rGToken.DEFAULT_ADMIN_ROLE(), admin)).to.be.true
+                  expect(await rGToken.hasRole(await rGToken.MINTER_ROLE(), minter)).to.be.true
+                  expect(await rGToken.hasRole(await rGToken.BURNER_ROLE(), minter)).to.be.true
+                  expect(await rGToken.hasRole(await rGToken.MINTER_ROLE(), account2.address)).to.be.false
+              })
+
+              it("Starts without votes", async () => {
+                  const { rGToken, deployer } = await loadFixture(deployContractsFixture)
+
+                  expect(await rGToken.delegates(deployer.address)).to.equal(ethers.constants.AddressZero)
+                  expect(await rGToken.getVotes(deployer.address)).to.equal(0)
+              })
+
+              it("Splits the initial supply between the recipients", async () => {
+                  const [deployer, account2] = await ethers.getSigners()
+
+                  const rGToken = await deployToken(
+                      parseRGT(100),
+                      [deployer.address, account2.address],
+                      [parseRGT(30), parseRGT(70)]
+                  )
+
+                  expect(await rGToken.balanceOf(deployer.address)).to.equal(parseRGT(30))
+                  expect(await rGToken.balanceOf(account2.address)).to.equal(parseRGT(70))
+                  expect(await rGToken.mintableSupply()).to.equal(0)
+              })
+
+              it("Reverts when the initial supply exceeds the cap", async () => {
+                  const [deployer, account2] = await ethers.getSigners()
+                  const rGToken = await ethers.getContractFactory("RGToken")
+
+                  await expect(
+                      deployToken(parseRGT(100), [deployer.address, account2.address], [parseRGT(60), parseRGT(41)])
+                  )
+                      .to.be.revertedWithCustomError(rGToken, "RGToken__CapExceeded")
+                      .withArgs(parseRGT(100), parseRGT(101))
+              })
+
+              it("Reverts with a zero cap or one ERC20Votes can't checkpoint", async () => {
+                  const rGToken = await ethers.getContractFactory("RGToken")
+                  const tooLarge = ethers.BigNumber.from(2).pow(224)
+
+                  await expect(deployToken(0, [], []))
+                      .to.be.revertedWithCustomError(rGToken, "RGToken__InvalidCap")
+                      .withArgs(0)
+                  await expect(deployToken(tooLarge, [], []))
+                      .to.be.revertedWithCustomError(rGToken, "RGToken__InvalidCap")
+                      .withArgs(tooLarge)
+              })
+
+              it("Reverts when the recipients and amounts don't match", async () => {
+                  const [deployer] = await ethers.getSigners()
+                  const rGToken = await ethers.getContractFactory("RGToken")
+
+                  await expect(
+                      deployToken(parseRGT(100), [deployer.address], [parseRGT(1), parseRGT(2)])
+                  ).to.be.revertedWithCustomError(rGToken, "RGToken__InvalidInitialDistribution")
+              })
+          })
+
+          describe("mint", () => {
+              it("Reverts when the sender isn't a minter", async () => {
+                  const { rGToken, account3, minterRole } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account3).mint(account3.address, parseRGT(1))).to.be.revertedWith(
+                      `AccessControl: account ${account3.address.toLowerCase()} is missing role ${minterRole}`
+                  )
+              })
+
+              it("Reverts when the amount is zero", async () => {
+                  const { rGToken, account2 } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account2).mint(account2.address, 0)).to.be.revertedWithCustomError(
+                      rGToken,
+                      "RGToken__ZeroAmountNotAllowed"
+                  )
+              })
+
+              it("Mints tokens to the recipient and emits Transfer", async () => {
+                  const { rGToken, account2, account3 } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account2).mint(account3.address, parseRGT(500)))
+                      .to.emit(rGToken, "Transfer")
+                      .withArgs(ethers.constants.AddressZero, account3.address, parseRGT(500))
+                      .and.to.changeTokenBalance(rGToken, account3, parseRGT(500))
+
+                  expect(await rGToken.totalSupply()).to.equal(initialSupply.add(parseRGT(500)))
+                  expect(await rGToken.mintableSupply()).to.equal(supplyCap.sub(initialSupply).sub(parseRGT(500)))
+              })
+
+              it("Mints up to the cap and no further", async () => {
+                  const { rGToken, account2 } = await loadFixture(rolesFixture)
+                  const mintable = await rGToken.mintableSupply()
+
+                  await expect(rGToken.connect(account2).mint(account2.address, mintable.add(1)))
+                      .to.be.revertedWithCustomError(rGToken, "RGToken__CapExceeded")
+                      .withArgs(mintable, mintable.add(1))
+
+                  await rGToken.connect(account2).mint(account2.address, mintable)
+                  expect(await rGToken.totalSupply()).to.equal(supplyCap)
+                  await expect(rGToken.connect(account2).mint(account2.address, 1))
+                      .to.be.revertedWithCustomError(rGToken, "RGToken__CapExceeded")
+                      .withArgs(0, 1)
+              })
+
+              it("Can't mint once the minter role is revoked", async () => {
+                  const { rGToken, account2, minterRole } = await loadFixture(rolesFixture)
+
+                  await rGToken.revokeRole(minterRole, account2.address)
+
+                  await expect(rGToken.connect(account2).mint(account2.address, parseRGT(1))).to.be.revertedWith(
+                      `AccessControl: account ${account2.address.toLowerCase()} is missing role ${minterRole}`
+                  )
+              })
+          })
+
+          describe("burn", () => {
+              it("Reverts when the sender isn't a burner", async () => {
+                  const { rGToken, account3, burnerRole } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account3).burn(parseRGT(1))).to.be.revertedWith(
+                      `AccessControl: account ${account3.address.toLowerCase()} is missing role ${burnerRole}`
+                  )
+              })
+
+              it("Reverts when the amount is zero", async () => {
+                  const { rGToken } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.burn(0)).to.be.revertedWithCustomError(rGToken, "RGToken__ZeroAmountNotAllowed")
+              })
+
+              it("Reverts when burning more than the sender's balance", async () => {
+                  const { rGToken, account2 } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account2).burn(parseRGT(1))).to.be.revertedWith(
+                      "ERC20: burn amount exceeds balance"
+                  )
+              })
+
+              it("Burns the sender's tokens and makes room under the cap", async () => {
+                  const { rGToken, deployer } = await loadFixture(rolesFixture)
+                  const mintable = await rGToken.mintableSupply()
+
+                  await expect(rGToken.burn(parseRGT(100)))
+                      .to.emit(rGToken, "Transfer")
+                      .withArgs(deployer.address, ethers.constants.AddressZero, parseRGT(100))
+                      .and.to.changeTokenBalance(rGToken, deployer, parseRGT(-100))
+
+                  expect(await rGToken.totalSupply()).to.equal(initialSupply.sub(parseRGT(100)))
+                  expect(await rGToken.mintableSupply()).to.equal(mintable.add(parseRGT(100)))
+              })
+          })
+
+          describe("burnFrom", () => {
+              it("Reverts when the sender isn't a burner", async () => {
+                  const { rGToken, deployer, account3, burnerRole } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account3).burnFrom(deployer.address, parseRGT(1))).to.be.revertedWith(
+                      `AccessControl: account ${account3.address.toLowerCase()} is missing role ${burnerRole}`
+                  )
+              })
+
+              it("Reverts without an allowance", async () => {
+                  const { rGToken, account2, account3 } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account2).burnFrom(account3.address, parseRGT(1))).to.be.revertedWith(
+                      "ERC20: insufficient allowance"
+                  )
+              })
+
+              it("Burns approved tokens and spends the allowance", async () => {
+                  const { rGToken, account2, account3 } = await loadFixture(rolesFixture)
+                  await rGToken.connect(account3).approve(account2.address, parseRGT(300))
+
+                  await expect(rGToken.connect(account2).burnFrom(account3.address, parseRGT(200)))
+                      .to.emit(rGToken, "Transfer")
+                      .withArgs(account3.address, ethers.constants.AddressZero, parseRGT(200))
+                      .and.to.changeTokenBalances(rGToken, [account3, account2], [parseRGT(-200), 0])
+
+                  expect(await rGToken.allowance(account3.address, account2.address)).to.equal(parseRGT(100))
+                  await expect(rGToken.connect(account2).burnFrom(account3.address, parseRGT(101))).to.be.revertedWith(
+                      "ERC20: insufficient allowance"
+                  )
+              })
+          })
+
+          describe("Roles", () => {
+              it("Only lets the admin grant roles", async () => {
+                  const { rGToken, account3, minterRole } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account3).grantRole(minterRole, account3.address)).to.be.revertedWith(
+                      `AccessControl: account ${account3.address.toLowerCase()} is missing role ${
+                          ethers.constants.HashZero
+                      }`
+                  )
+              })
+
+              it("Emits RoleGranted and RoleRevoked", async () => {
+                  const { rGToken, deployer, account3, burnerRole } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.grantRole(burnerRole, account3.address))
+                      .to.emit(rGToken, "RoleGranted")
+                      .withArgs(burnerRole, account3.address, deployer.address)
+                  await expect(rGToken.revokeRole(burnerRole, account3.address))
+                      .to.emit(rGToken, "RoleRevoked")
+                      .withArgs(burnerRole, account3.address, deployer.address)
+              })
+
+              it("Lets an account renounce its own roles", async () => {
+                  const { rGToken, account2, burnerRole } = await loadFixture(rolesFixture)
+
+                  await rGToken.connect(account2).renounceRole(burnerRole, account2.address)
+
+                  expect(await rGToken.hasRole(burnerRole, account2.address)).to.be.false
+              })
+          })
+
+          describe("Votes", () => {
+              it("Emits DelegateChanged and DelegateVotesChanged when delegating", async () => {
+                  const { rGToken, account2, account3 } = await loadFixture(rolesFixture)
+
+                  await expect(rGToken.connect(account3).delegate(account2.address))
+                      .to.emit(rGToken, "DelegateChanged")
+                      .withArgs(account3.address, ethers.constants.AddressZero, account2.address)
+                      .and.to.emit(rGToken, "DelegateVotesChanged")
+                      .withArgs(account2.address, 0, parseRGT(1000))
+              })
+
+              it("Counts delegated balances as votes", async () => {
+                  const { rGToken, deployer, account2, account3 } = await loadFixture(delegatedFixture)
+
+                  expect(await rGToken.delegates(account3.address)).to.equal(account2.address)
+                  expect(await rGToken.getVotes(deployer.address)).to.equal(initialSupply.sub(parseRGT(1000)))
+                  expect(await rGToken.getVotes(account2.address)).to.equal(parseRGT(1000))
+                  expect(await rGToken.getVotes(account3.address)).to.equal(0)
+              })
+
+              it("Moves votes with transfers, mints and burns", async () => {
+                  const { rGToken, deployer, account2, account3 } = await loadFixture(delegatedFixture)
+
+                  await rGToken.transfer(account3.address, parseRGT(500))
+                  await rGToken.connect(account2).mint(account3.address, parseRGT(250))
+                  await rGToken.burn(parseRGT(100))
+
+                  expect(await rGToken.getVotes(account2.address)).to.equal(parseRGT(1750))
+                  expect(await rGToken.getVotes(deployer.address)).to.equal(initialSupply.sub(parseRGT(1600)))
+              })
+
+              it("Doesn't count tokens of accounts that didn't delegate", async () => {
+                  const { rGToken, account2 } = await loadFixture(delegatedFixture)
+
+                  // account2 never delegated its own tokens, so only account3's delegation counts
+                  await rGToken.connect(account2).mint(account2.address, parseRGT(5000))
+
+                  expect(await rGToken.getVotes(account2.address)).to.equal(parseRGT(1000))
+              })
+
+              it("Keeps the votes and total supply of past blocks", async () => {
+                  const { rGToken, deployer, account2, account3, delegatedBlock } = await loadFixture(delegatedFixture)
+                  const before = delegatedBlock - 1
+
+                  await rGToken.connect(account3).delegate(account3.address)
+                  await rGToken.connect(account2).mint(account3.address, parseRGT(250))
+                  const mintedBlock = await ethers.provider.getBlockNumber()
+                  await mine()
+
+                  expect(await rGToken.getPastVotes(account2.address, before)).to.equal(0)
+                  expect(await rGToken.getPastVotes(account2.address, delegatedBlock)).to.equal(parseRGT(1000))
+                  expect(await rGToken.getPastVotes(account2.address, mintedBlock)).to.equal(0)
+                  expect(await rGToken.getPastVotes(account3.address, mintedBlock)).to.equal(parseRGT(1250))
+                  expect(await rGToken.getPastVotes(deployer.address, delegatedBlock)).to.equal(
+                      initialSupply.sub(parseRGT(1000))
+                  )
+                  expect(await rGToken.getPastTotalSupply(delegatedBlock)).to.equal(initialSupply)
+                  expect(await rGToken.getPastTotalSupply(mintedBlock)).to.equal(initialSupply.add(parseRGT(250)))
+              })
+
+              it("Reverts when reading votes of a block not mined yet", async () => {
+                  const { rGToken, deployer } = await loadFixture(delegatedFixture)
+                  const latest = await ethers.provider.getBlockNumber()
+
+                  await expect(rGToken.getPastVotes(deployer.address, latest)).to.be.revertedWith(
+                      "ERC20Votes: block not yet mined"
+                  )
+                  await expect(rGToken.getPastTotalSupply(latest + 1)).to.be.revertedWith(
+                      "ERC20Votes: block not yet mined"
+                  )
+              })
+
+              it("Delegates with a signature", async () => {
+                  const { rGToken, account2, account3 } = await loadFixture(rolesFixture)
+                  const nonce = await rGToken.nonces(account3.address)
+                  const expiry = (await time.latest()) + 3600
+                  const signature = await account3._signTypedData(
+                      {
+                          name: "Really Great Token",
+                          version: "1",
+                          chainId: (await ethers.provider.getNetwork()).chainId,
+                          verifyingContract: rGToken.address,
+                      },
+                      {
+                          Delegation: [
+                              { name: "delegatee", type: "address" },
+                              { name: "nonce", type: "uint256" },
+                              { name: "expiry", type: "uint256" },
+                          ],
+                      },
+                      { delegatee: account2.address, nonce, expiry }
+                  )
+                  const { v, r, s } = ethers.utils.splitSignature(signature)
+
+                  // Anyone can submit the signature
+                  await rGToken.delegateBySig(account2.address, nonce, expiry, v, r, s)
+
+                  expect(await rGToken.delegates(account3.address)).to.equal(account2.address)
+                  expect(await rGToken.nonces(account3.address)).to.equal(nonce.add(1))
+                  await expect(rGToken.delegateBySig(account2.address, nonce, expiry, v, r, s)).to.be.revertedWith(
+                      "ERC20Votes: invalid nonce"
+                  )
+              })
+          })
+      })
@@ -0,0 +1,140 @@
+import { expect } from "chai"
+import { BigNumber, BigNumberish, ContractTransaction, Signer } from "ethers"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { TOTAL_REWARD_POOL, isLocalNetwork, parseRGT } from "../../helper-functions"
+import { accumulatorFixture } from "../fixtures"
+
+/**
+ * Runs the same multi-user scenarios on RGStaking (fixed rate, clamped to the pool) and RGStakingAccumulator (emission
+ * schedule, split pro-rata) to show how they differ once the reward pool runs out.
+ */
+
+// The part of both contracts a scenario uses
+type StakingContract = {
+    connect(signer: Signer): StakingContract
+    buyAssets(amountOfAssets: BigNumberish): Promise<ContractTransaction>
+    redeemAssets(amountOfAssets: BigNumberish): Promise<ContractTransaction>
+    claimRewards(): Promise<ContractTransaction>
+}
+
+type Step =
+    | { at: number; staker: number; action: "buy" | "redeem"; assets: number }
+    | { at: number; staker: number; action: "claim" }
+
+// Both pay 10000 RGT over 10 days while 10 assets are staked: 100 RGT per asset per day on RGStaking
+const DAILY_REWARDS_PER_ASSET = parseRGT(100)
+const EMISSION_DURATION = time.duration.days(10)
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Reward Accounting Comparison Tests", () => {
+          async function comparisonFixture() {
+              const result = await loadFixture(accumulatorFixture)
+              const { rGStaking, rGStakingAccumulator } = result
+
+              await rGStaking.setDailyRewardsPerAsset(DAILY_REWARDS_PER_ASSET)
+              await rGStakingAccumulator.startEmission(TOTAL_REWARD_POOL, EMISSION_DURATION)
+
+              return { ...result, startedAt: await time.latest() }
+          }
+
+          /**
+           * Runs the steps from a fresh fixture at `startedAt + at` and returns the rewards each staker claimed.
+           */
+          const runScenario = async (
+              getContract: (fixture: Awaited<ReturnType<typeof comparisonFixture>>) => StakingContract,
+              steps: Step[]
+          ): Promise<BigNumber[]> => {
+              const fixture = await loadFixture(comparisonFixture)
+              const contract = getContract(fixture)
+              const claimed = fixture.stakers.map(() => BigNumber.from(0))
+
+              for (const step of steps) {
+                  await time.setNextBlockTimestamp(fixture.startedAt + step.at)
+                  const asStaker = contract.connect(fixture.stakers[step.staker])
+
+                  if (step.action === "buy") await asStaker.buyAssets(step.assets)
+                  else if (step.action === "redeem") await asStaker.redeemAssets(step.assets)
+                  else {
+                      try {
+                          const receipt = await (await asStaker.claimRewards()).wait()
+                          const event = receipt.events!.find(({ event }) => event === "RewardsClaimed")!
+                          claimed[step.staker] = claimed[step.staker].add(event.args!.rewardWithdrawn)
+                      } catch (error: any) {
+                          // Once the pool is empty, claims of stakers with nothing credited revert
+                          if (!error.message.includes("NoRewardsForSender")) throw error
+                      }
+                  }
+              }
+
+              return claimed
+          }
+
+          const runOnBoth = async (steps: Step[]) => ({
+              clamped: await runScenario(({ rGStaking }) => rGStaking, steps),
+              proRata: await runScenario(({ rGStakingAccumulator }) => rGStakingAccumulator, steps),
+          })
+
+          const claimAt = (at: number, staker: number): Step => ({ at, staker, action: "claim" })
+
+          it("Pays the same rewards while the pool lasts", async () => {
+              const { clamped, proRata } = await runOnBoth([
+                  { at: 1, staker: 0, action: "buy", assets: 5 },
+                  { at: 2, staker: 1, action: "buy", assets: 5 },
+                  claimAt(time.duration.days(5), 0),
+                  claimAt(time.duration.days(5) + 1, 1),
+              ])
+
+              // 5 assets at 100 RGT per day for about 5 days each
+              for (const rewards of [...clamped.slice(0, 2), ...proRata.slice(0, 2)]) {
+                  expect(rewards).to.be.closeTo(parseRGT(2500), parseRGT(1))
+              }
+              expect(proRata[0]).to.be.closeTo(clamped[0], parseRGT(1))
+              expect(proRata[1]).to.be.closeTo(clamped[1], parseRGT(1))
+          })
+
+          it("Splits the rest of the pool pro-rata where the clamp pays the first claim in full", async () => {
+              // Both stakers accrue 7500 RGT at the fixed rate within 15 days, but the pool only holds 10000 RGT
+              const steps: Step[] = [
+                  { at: 1, staker: 0, action: "buy", assets: 5 },
+                  { at: 2, staker: 1, action: "buy", assets: 5 },
+                  claimAt(time.duration.days(15), 0),
+                  claimAt(time.duration.days(15) + 1, 1),
+              ]
+              const { clamped, proRata } = await runOnBoth(steps)
+
+              // The first claimer is paid in full and the second gets whatever is left
+              expect(clamped[0]).to.be.closeTo(parseRGT(7500), parseRGT(1))
+              expect(clamped[1]).to.be.closeTo(parseRGT(2500), parseRGT(1))
+
+              // Both stakers staked the same assets for the whole emission and get the same share
+              expect(proRata[0]).to.be.closeTo(parseRGT(5000), parseRGT(1))
+              expect(proRata[1]).to.be.closeTo(parseRGT(5000), parseRGT(1))
+
+              // The whole pool is paid out either way
+              expect(clamped[0].add(clamped[1])).to.be.closeTo(TOTAL_REWARD_POOL, parseRGT(1))
+              expect(proRata[0].add(proRata[1])).to.be.closeTo(TOTAL_REWARD_POOL, parseRGT(1))
+          })
+
+          it("Only pays stakers who claimed before depletion with the clamp", async () => {
+              // Staker 2 only claims at the end, the others claim every two days
+              const steps: Step[] = [
+                  { at: 1, staker: 0, action: "buy", assets: 4 },
+                  { at: 2, staker: 1, action: "buy", assets: 4 },
+                  { at: 3, staker: 2, action: "buy", assets: 2 },
+              ]
+              for (let day = 2; day <= 14; day += 2) {
+                  steps.push(claimAt(time.duration.days(day), 0), claimAt(time.duration.days(day) + 1, 1))
+              }
+              steps.push(claimAt(time.duration.days(15), 2))
+
+              const { clamped, proRata } = await runOnBoth(steps)
+
+              // Staker 2 earned a fifth of every day's rewards, but the pool was already empty when it claimed
+              expect(clamped[2]).to.equal(0)
+              expect(proRata[2]).to.be.closeTo(TOTAL_REWARD_POOL.div(5), parseRGT(1))
+              expect(proRata[0]).to.be.closeTo(TOTAL_REWARD_POOL.mul(2).div(5), parseRGT(1))
+          })
+      })
@@ -0,0 +1,136 @@
+import { expect } from "chai"
+import fs from "fs-extra"
+import { deployments, ethers } from "hardhat"
+import path from "path"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+
+import { initializeRewardPool, isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import { RGStaking, RGToken } from "../../typechain"
+import { SimulationEvent, parseScenario, simulate } from "../../utils/reward-simulator"
+
+const scenario = parseScenario(fs.readJSONSync(path.resolve(__dirname, "../../scenarios/depletion.json")))
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("RewardSimulator Differential Tests", () => {
+          async function scenarioFixture() {
+              const [deployer, ...others] = await ethers.getSigners()
+
+              await deployments.fixture()
+              await initializeRewardPool(deployer)
+
+              const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
+              const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
+
+              // The deployer is the owner and sends the top-ups
+              await rGToken.approve(rGStaking.address, ethers.constants.MaxUint256)
+
+              // Map every scenario account to its own signer and fund it with enough RGT for all of its buys
+              const signers: { [account: string]: SignerWithAddress } = {}
+              for (const event of scenario.events) {
+                  if (event.account === undefined) continue
+                  if (!(event.account in signers)) signers[event.account] = others[Object.keys(signers).length]
+
+                  if (event.type === "buy") {
+                      const price = TOKENS_PER_ASSET.mul(event.assets)
+                      await rGToken.transfer(signers[event.account].address, price)
+                      await rGToken
+                          .connect(signers[event.account])
+                          .approve(rGStaking.address, ethers.constants.MaxUint256)
+                  }
+              }
+
+              const startTimestamp = (await time.latest()) + time.duration.hours(1)
+              const report = simulate(scenario, startTimestamp)
+
+              return { rGToken, rGStaking, signers, report }
+          }
+
+          function sendEvent(
+              rGStaking: RGStaking,
+              signers: { [account: string]: SignerWithAddress },
+              event: SimulationEvent
+          ) {
+              if (event.type === "setRate")
+                  return rGStaking.setDailyRewardsPerAsset(parseRGT(event.dailyRewardsPerAsset))
+              if (event.type === "topUp") return rGStaking.topUpRewardPool(parseRGT(event.amount))
+
+              const rGStakingAsAccount = rGStaking.connect(signers[event.account])
+              if (event.type === "buy") return rGStakingAsAccount.buyAssets(event.assets)
+              if (event.type === "redeem") return rGStakingAsAccount.redeemAssets(event.assets)
+              return rGStakingAsAccount.claimRewards()
+          }
+
+          it("Matches the chain after every event", async () => {
+              const { rGStaking, signers, report } = await loadFixture(scenarioFixture)
+
+              for (const { event, timestamp, revertedWith, rewardsClaimed, totalRewardPool } of report.events) {
+                  await time.setNextBlockTimestamp(timestamp)
+                  const tx = sendEvent(rGStaking, signers, event)
+
+                  if (revertedWith) {
+                      await expect(tx).to.be.revertedWithCustomError(rGStaking, revertedWith)
+                  } else if (rewardsClaimed) {
+                      await expect(tx)
+                          .to.emit(rGStaking, "RewardsClaimed")
+                          .withArgs(signers[event.account!].address, rewardsClaimed)
+                  } else {
+                      await (await tx).wait()
+                  }
+
+                  expect(await rGStaking.totalRewardPool()).to.equal(totalRewardPool)
+              }
+          })
+
+          it("Matches every account's balances at the end of the scenario", async () => {
+              const { rGStaking, signers, report } = await loadFixture(scenarioFixture)
+
+              for (const { event, timestamp } of report.events) {
+                  await time.setNextBlockTimestamp(timestamp)
+                  await sendEvent(rGStaking, signers, event).catch(() => undefined)
+              }
+              await time.increaseTo(report.endTimestamp)
+
+              for (const [account, expected] of Object.entries(report.accounts)) {
+                  const address = signers[account].address
+
+                  expect(await rGStaking.assetBalance(address)).to.equal(expected.assets)
+                  expect(await rGStaking.currentRewardsClaimable(address)).to.equal(expected.currentRewardsClaimable)
+              }
+              expect(await rGStaking.totalRewardPool()).to.equal(report.totalRewardPool)
+          })
+
+          it("Predicts the timestamp at which the reward pool runs dry", async () => {
+              const { rGStaking, signers, report } = await loadFixture(scenarioFixture)
+              const [alice, bob, carol] = ["alice", "bob", "carol"].map((account) => signers[account])
+
+              // Replay only the initial buys, then check that every staker together has accrued the whole pool at the
+              // predicted timestamp but not one second before it
+              const buys = report.events.slice(0, 3)
+              for (const { event, timestamp } of buys) {
+                  await time.setNextBlockTimestamp(timestamp)
+                  await sendEvent(rGStaking, signers, event)
+              }
+
+              const { depletionTimestamp } = simulate(
+                  { ...scenario, events: buys.map(({ event }) => event) },
+                  buys[0].timestamp
+              )
+              const accrued = async () =>
+                  (
+                      await Promise.all(
+                          [alice, bob, carol].map((signer) => rGStaking.currentRewardsClaimable(signer.address))
+                      )
+                  ).reduce((total, rewards) => total.add(rewards))
+
+              await time.increaseTo(depletionTimestamp! - 1)
+              expect(await accrued()).to.be.lt(await rGStaking.totalRewardPool())
+
+              await time.increaseTo(depletionTimestamp!)
+              expect(await accrued()).to.be.gte(await rGStaking.totalRewardPool())
+          })
+      })
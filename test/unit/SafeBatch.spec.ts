@@ -0,0 +1,257 @@
+import { expect } from "chai"
+import fs from "fs-extra"
+import hre, { config, deployments, ethers } from "hardhat"
+import path from "path"
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers"
+
+import { batchProxyUpgrade, isLocalNetwork, parseRGT, sendAdminTransaction } from "../../helper-functions"
+import { networkConfig } from "../../helper-hardhat-config"
+import { RGStaking, RGToken } from "../../typechain"
+import {
+    BatchContracts,
+    appendToSafeBatch,
+    calculateChecksum,
+    readSafeBatch,
+    simulateSafeBatch,
+} from "../../utils/safe-batch"
+
+const batchDir = path.resolve(config.paths.cache, "safe-batch-test")
+const { chainId } = networkConfig.hardhat
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Safe Batch Unit Tests", () => {
+          async function deployedContractsFixture() {
+              const [deployer, account2] = await ethers.getSigners()
+              await deployments.fixture()
+              const rGToken: RGToken = await ethers.getContract("RGToken", deployer)
+              const rGStaking: RGStaking = await ethers.getContract("RGStaking", deployer)
+
+              return { rGToken, rGStaking, deployer, account2 }
+          }
+
+          // A Safe that is not one of the signers, holding the admin role of RGStaking and RGT to fund the pool with
+          async function safeFixture() {
+              const { rGToken, rGStaking, deployer, account2 } = await loadFixture(deployedContractsFixture)
+              const safeAddress = ethers.Wallet.createRandom().address
+              await rGStaking.grantRole(await rGStaking.DEFAULT_ADMIN_ROLE(), safeAddress)
+              await rGToken.transfer(safeAddress, parseRGT(20000))
+
+              const contracts: BatchContracts = Object.fromEntries(
+                  Object.entries(await deployments.all()).map(([name, { address, abi }]) => [name, { address, abi }])
+              )
+
+              return { rGToken, rGStaking, deployer, account2, safeAddress, contracts }
+          }
+
+          let fileCount = 0
+          const nextBatchFile = () => path.join(batchDir, `batch-${fileCount++}.json`)
+
+          after(() => {
+              delete process.env.SAFE_BATCH
+              fs.removeSync(batchDir)
+          })
+
+          describe("appendToSafeBatch", () => {
+              it("Creates a Transaction Builder batch for the Safe and appends to it", async () => {
+                  const file = nextBatchFile()
+                  const safeAddress = ethers.Wallet.createRandom().address
+                  const to = ethers.Wallet.createRandom().address
+
+                  appendToSafeBatch(file, { chainId, safeAddress }, { to, data: "0x8456cb59" }, "pause")
+                  appendToSafeBatch(file, { chainId, safeAddress }, { to, value: 5, data: "0x3f4ba83a" }, "unpause")
+                  const batch = readSafeBatch(file)!
+
+                  expect(batch.version).to.equal("1.0")
+                  expect(batch.chainId).to.equal(chainId.toString())
+                  expect(batch.meta.createdFromSafeAddress).to.equal(safeAddress)
+                  expect(batch.meta.description).to.equal("pause\nunpause")
+                  expect(batch.transactions).to.deep.equal([
+                      { to, value: "0", data: "0x8456cb59", contractMethod: null, contractInputsValues: null },
+                      { to, value: "5", data: "0x3f4ba83a", contractMethod: null, contractInputsValues: null },
+                  ])
+              })
+
+              it("Keeps the checksum in step with the transactions but not with the name", async () => {
+                  const file = nextBatchFile()
+                  const safeAddress = ethers.Wallet.createRandom().address
+                  const to = ethers.Wallet.createRandom().address
+
+                  const first = appendToSafeBatch(file, { chainId, safeAddress }, { to, data: "0x8456cb59" }, "pause")
+                  const firstChecksum = first.meta.checksum
+                  const second = appendToSafeBatch(file, { chainId, safeAddress }, { to, data: "0x3f4ba83a" }, "")
+
+                  expect(second.meta.checksum).to.equal(calculateChecksum(second))
+                  expect(second.meta.checksum).to.not.equal(firstChecksum)
+                  expect(calculateChecksum({ ...second, meta: { ...second.meta, name: "Renamed" } })).to.equal(
+                      second.meta.checksum
+                  )
+              })
+
+              it("Refuses to mix Safes or chains in a batch", async () => {
+                  const file = nextBatchFile()
+                  const safeAddress = ethers.Wallet.createRandom().address
+                  const otherSafe = ethers.Wallet.createRandom().address
+                  const to = ethers.Wallet.createRandom().address
+                  appendToSafeBatch(file, { chainId, safeAddress }, { to, data: "0x8456cb59" }, "pause")
+
+                  expect(() =>
+                      appendToSafeBatch(file, { chainId, safeAddress: otherSafe }, { to, data: "0x" }, "")
+                  ).to.throw("Use another SAFE_BATCH file.")
+                  expect(() =>
+                      appendToSafeBatch(file, { chainId: 43113, safeAddress }, { to, data: "0x" }, "")
+                  ).to.throw("Use another SAFE_BATCH file.")
+                  expect(readSafeBatch(file)!.transactions).to.have.length(1)
+              })
+          })
+
+          describe("sendAdminTransaction", () => {
+              afterEach(() => {
+                  delete process.env.SAFE_BATCH
+              })
+
+              it("Sends the transaction when SAFE_BATCH is unset", async () => {
+                  const { rGStaking } = await loadFixture(deployedContractsFixture)
+
+                  const receipt = await sendAdminTransaction(rGStaking, "pause")
+
+                  expect(receipt!.status).to.equal(1)
+                  expect(await rGStaking.paused()).to.equal(true)
+              })
+
+              it("Writes the calldata to the batch for the signer instead of sending it when SAFE_BATCH is set", async () => {
+                  const { rGStaking, deployer } = await loadFixture(deployedContractsFixture)
+                  const file = nextBatchFile()
+                  process.env.SAFE_BATCH = file
+                  const nonce = await deployer.getTransactionCount()
+
+                  const receipt = await sendAdminTransaction(rGStaking, "setDailyRewardsPerAsset", [parseRGT(0.2)])
+                  const batch = readSafeBatch(file)!
+
+                  expect(receipt).to.equal(undefined)
+                  expect(await deployer.getTransactionCount()).to.equal(nonce)
+                  expect(await rGStaking.dailyRewardsPerAsset()).to.not.equal(parseRGT(0.2))
+                  expect(batch.meta.createdFromSafeAddress).to.equal(deployer.address)
+                  expect(batch.transactions[0].to).to.equal(rGStaking.address)
+                  expect(batch.transactions[0].data).to.equal(
+                      rGStaking.interface.encodeFunctionData("setDailyRewardsPerAsset", [parseRGT(0.2)])
+                  )
+              })
+          })
+
+          describe("simulateSafeBatch", () => {
+              const writeBatch = (safeAddress: string, calls: { to: string; data: string }[]) => {
+                  const file = nextBatchFile()
+                  calls.forEach((call) => appendToSafeBatch(file, { chainId, safeAddress }, call, ""))
+                  return readSafeBatch(file)!
+              }
+
+              it("Executes the batch from the Safe and reports the calls and the state changes", async () => {
+                  const { rGToken, rGStaking, safeAddress, contracts } = await loadFixture(safeFixture)
+                  const batch = writeBatch(safeAddress, [
+                      {
+                          to: rGToken.address,
+                          data: rGToken.interface.encodeFunctionData("approve", [rGStaking.address, parseRGT(10000)]),
+                      },
+                      { to: rGStaking.address, data: rGStaking.interface.encodeFunctionData("initializeRewardPool") },
+                  ])
+
+                  const { transactions, changes, failures } = await simulateSafeBatch(hre, batch, contracts)
+
+                  expect(transactions.map(({ call, status }) => [call, status])).to.deep.equal([
+                      [`RGToken.approve(${rGStaking.address}, ${parseRGT(10000)})`, "success"],
+                      ["RGStaking.initializeRewardPool()", "success"],
+                  ])
+                  expect(changes).to.deep.include({
+                      key: "RGStaking.isRewardPoolInitialized",
+                      before: "false",
+                      after: "true",
+                  })
+                  expect(failures).to.be.empty
+                  expect(await rGStaking.isRewardPoolInitialized()).to.equal(true)
+                  expect(await rGToken.balanceOf(safeAddress)).to.equal(parseRGT(10000))
+              })
+
+              it("Reports the expectations the state after the batch doesn't meet", async () => {
+                  const { rGStaking, safeAddress, contracts } = await loadFixture(safeFixture)
+                  const batch = writeBatch(safeAddress, [
+                      {
+                          to: rGStaking.address,
+                          data: rGStaking.interface.encodeFunctionData("setDailyRewardsPerAsset", [parseRGT(0.2)]),
+                      },
+                  ])
+
+                  const { failures } = await simulateSafeBatch(hre, batch, contracts, {
+                      "RGStaking.dailyRewardsPerAsset": parseRGT(0.2),
+                      "RGStaking.paused": true,
+                      "RGStaking.noSuchView": 1,
+                  })
+
+                  expect(failures).to.deep.equal([
+                      "RGStaking.paused: expected true, found false",
+                      "RGStaking.noSuchView: no such view",
+                  ])
+              })
+
+              it("Skips the transactions after one that reverts", async () => {
+                  const { rGStaking, safeAddress, contracts } = await loadFixture(safeFixture)
+                  // The Safe holds the admin role but not PAUSER_ROLE
+                  const batch = writeBatch(safeAddress, [
+                      { to: rGStaking.address, data: rGStaking.interface.encodeFunctionData("pause") },
+                      {
+                          to: rGStaking.address,
+                          data: rGStaking.interface.encodeFunctionData("setDailyRewardsPerAsset", [parseRGT(0.2)]),
+                      },
+                  ])
+
+                  const { transactions, changes } = await simulateSafeBatch(hre, batch, contracts)
+
+                  expect(transactions.map(({ status }) => status)).to.deep.equal(["reverted", "skipped"])
+                  expect(transactions[0].error).to.include("RGStaking__MissingRole")
+                  expect(changes).to.be.empty
+              })
+          })
+
+          describe("batchProxyUpgrade", () => {
+              afterEach(() => {
+                  delete process.env.SAFE_BATCH
+              })
+
+              it("Deploys the implementation and batches the upgrade for the proxy admin owner", async () => {
+                  const { rGStaking, deployer, contracts } = await loadFixture(safeFixture)
+                  const proxyAdmin = await ethers.getContract("DefaultProxyAdmin", deployer)
+                  const previous = await proxyAdmin.getProxyImplementation(rGStaking.address)
+                  // Forget the implementation, so an identical one is deployed at another address
+                  await deployments.delete("RGStaking_Implementation")
+                  const file = nextBatchFile()
+                  process.env.SAFE_BATCH = file
+
+                  const implementation = await batchProxyUpgrade("RGStaking", deployer.address, deployer.address)
+                  const batch = readSafeBatch(file)!
+
+                  expect(implementation.address).to.not.equal(previous)
+                  expect(await proxyAdmin.getProxyImplementation(rGStaking.address)).to.equal(previous)
+                  expect(batch.meta.createdFromSafeAddress).to.equal(deployer.address)
+                  expect(batch.transactions.map(({ to, data }) => ({ to, data }))).to.deep.equal([
+                      {
+                          to: proxyAdmin.address,
+                          data: proxyAdmin.interface.encodeFunctionData("upgrade", [
+                              rGStaking.address,
+                              implementation.address,
+                          ]),
+                      },
+                  ])
+
+                  const { transactions } = await simulateSafeBatch(hre, batch, contracts)
+
+                  expect(transactions.map(({ status }) => status)).to.deep.equal(["success"])
+                  expect(await proxyAdmin.getProxyImplementation(rGStaking.address)).to.equal(implementation.address)
+
+                  // Once upgraded, there is nothing left to batch
+                  await batchProxyUpgrade("RGStaking", deployer.address, deployer.address)
+
+                  expect(readSafeBatch(file)!.transactions).to.have.length(1)
+              })
+          })
+      })
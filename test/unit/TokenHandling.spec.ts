@@ -0,0 +1,376 @@
+import { expect } from "chai"
+import { BigNumber, BigNumberish, Signer } from "ethers"
+import { deployments, ethers } from "hardhat"
+
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork, parseRGT } from "../../helper-functions"
+import { TOKENS_PER_ASSET } from "../../helper-hardhat-config"
+import {
+    FeeOnTransferERC20Mock,
+    NoReturnERC20Mock,
+    RGStaking,
+    RGStakingAccumulator,
+    RGToken,
+    RevertingERC20Mock,
+} from "../../typechain"
+
+const SUPPLY = parseRGT(1_000_000)
+const REWARD_POOL = parseRGT(1000)
+const FEE_BPS = 100
+
+// The part of the token mocks the tests use
+type Token = {
+    address: string
+    connect(signer: Signer): Token
+    approve(spender: string, amount: BigNumberish): Promise<unknown>
+    transfer(to: string, amount: BigNumberish): Promise<unknown>
+    balanceOf(account: string): Promise<BigNumber>
+}
+
+const withoutFee = (amount: BigNumber) => amount.sub(amount.mul(FEE_BPS).div(10_000))
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Token Handling Unit Tests", () => {
+          /**
+           * Deploys an RGStaking proxy for the given tokens, initializes its reward pool and funds a staker who approved
+           * the staking token.
+           */
+          async function deployStaking(
+              name: string,
+              stakingToken: Token,
+              rewardToken: Token,
+              assetPrice: BigNumberish = TOKENS_PER_ASSET
+          ) {
+              const [deployer, staker] = await ethers.getSigners()
+              const { address } = await deployments.deploy(name, {
+                  contract: "RGStaking",
+                  from: deployer.address,
+                  proxy: {
+                      proxyContract: "OpenZeppelinTransparentProxy",
+                      execute: {
+                          init: {
+                              methodName: "initialize",
+                              args: [
+                                  stakingToken.address,
+                                  rewardToken.address,
+                                  assetPrice,
+                                  REWARD_POOL,
+                                  deployer.address,
+                                  deployer.address,
+                              ],
+                          },
+                      },
+                  },
+              })
+              const rGStaking: RGStaking = await ethers.getContractAt("RGStaking", address, deployer)
+
+              await rewardToken.approve(rGStaking.address, REWARD_POOL)
+              await rGStaking.initializeRewardPool()
+              await stakingToken.transfer(staker.address, parseRGT(1000))
+              await stakingToken.connect(staker).approve(rGStaking.address, ethers.constants.MaxUint256)
+
+              return { rGStaking, rGStakingAsStaker: rGStaking.connect(staker), deployer, staker }
+          }
+
+          async function noReturnFixture() {
+              await deployments.fixture()
+              const token = (await (
+                  await ethers.getContractFactory("NoReturnERC20Mock")
+              ).deploy(SUPPLY)) as NoReturnERC20Mock
+
+              return { token, ...(await deployStaking("RGStakingNoReturn", token, token)) }
+          }
+
+          async function feeOnTransferFixture() {
+              await deployments.fixture()
+              const factory = await ethers.getContractFactory("FeeOnTransferERC20Mock")
+              const token = (await factory.deploy(SUPPLY, FEE_BPS)) as FeeOnTransferERC20Mock
+
+              return { token, ...(await deployStaking("RGStakingFeeOnTransfer", token, token)) }
+          }
+
+          async function revertingFixture() {
+              await deployments.fixture()
+              const token = (await (
+                  await ethers.getContractFactory("RevertingERC20Mock")
+              ).deploy(SUPPLY)) as RevertingERC20Mock
+
+              return { token, ...(await deployStaking("RGStakingReverting", token, token)) }
+          }
+
+          async function separateTokensFixture() {
+              await deployments.fixture()
+              const rGToken: RGToken = await ethers.getContract("RGToken")
+              const rewardToken = (await (
+                  await ethers.getContractFactory("NoReturnERC20Mock")
+              ).deploy(SUPPLY)) as NoReturnERC20Mock
+              const assetPrice = parseRGT("2.5")
+
+              return {
+                  rGToken,
+                  rewardToken,
+                  assetPrice,
+                  ...(await deployStaking("RGStakingSeparateTokens", rGToken, rewardToken, assetPrice)),
+              }
+          }
+
+          it("Reverts when the asset price is zero", async () => {
+              await deployments.fixture()
+              const [deployer] = await ethers.getSigners()
+              const rGToken: RGToken = await ethers.getContract("RGToken")
+
+              await expect(
+                  deployments.deploy("RGStakingWithoutPrice", {
+                      contract: "RGStaking",
+                      from: deployer.address,
+                      proxy: {
+                          proxyContract: "OpenZeppelinTransparentProxy",
+                          execute: {
+                              init: {
+                                  methodName: "initialize",
+                                  args: [
+                                      rGToken.address,
+                                      rGToken.address,
+                                      0,
+                                      REWARD_POOL,
+                                      deployer.address,
+                                      deployer.address,
+                                  ],
+                              },
+                          },
+                      },
+                  })
+              ).to.be.rejectedWith("RGStaking__ZeroAmountNotAllowed")
+          })
+
+          describe("Token without return values", () => {
+              it("Buys, claims and redeems", async () => {
+                  const { token, rGStaking, rGStakingAsStaker, staker } = await loadFixture(noReturnFixture)
+
+                  expect(await rGStaking.totalRewardPool()).to.equal(REWARD_POOL)
+                  await expect(rGStakingAsStaker.buyAssets(5)).to.changeTokenBalances(
+                      token,
+                      [staker, rGStaking],
+                      [TOKENS_PER_ASSET.mul(-5), TOKENS_PER_ASSET.mul(5)]
+                  )
+
+                  await time.increase(time.duration.days(1))
+
+                  const tx = await rGStakingAsStaker.claimRewards()
+                  const { args } = (await tx.wait()).events!.find(({ event }) => event === "RewardsClaimed")!
+                  await expect(tx).to.changeTokenBalance(token, staker, args!.rewardWithdrawn)
+                  await expect(rGStakingAsStaker.redeemAssets(5)).to.changeTokenBalance(
+                      token,
+                      staker,
+                      TOKENS_PER_ASSET.mul(5)
+                  )
+              })
+
+              it("Funds, buys, claims and redeems with RGStakingAccumulator", async () => {
+                  const { token, deployer, staker } = await loadFixture(noReturnFixture)
+                  const { address } = await deployments.deploy("RGStakingAccumulatorNoReturn", {
+                      contract: "RGStakingAccumulator",
+                      from: deployer.address,
+                      proxy: {
+                          proxyContract: "OpenZeppelinTransparentProxy",
+                          execute: { init: { methodName: "initialize", args: [token.address, deployer.address] } },
+                      },
+                  })
+                  const accumulator: RGStakingAccumulator = await ethers.getContractAt(
+                      "RGStakingAccumulator",
+                      address,
+                      deployer
+                  )
+                  await token.approve(accumulator.address, REWARD_POOL)
+                  await token.connect(staker).approve(accumulator.address, ethers.constants.MaxUint256)
+
+                  await accumulator.startEmission(REWARD_POOL, time.duration.days(10))
+                  await expect(accumulator.connect(staker).buyAssets(5)).to.changeTokenBalance(
+                      token,
+                      staker,
+                      TOKENS_PER_ASSET.mul(-5)
+                  )
+                  await time.increase(time.duration.days(1))
+
+                  const tx = await accumulator.connect(staker).claimRewards()
+                  const { args } = (await tx.wait()).events!.find(({ event }) => event === "RewardsClaimed")!
+                  await expect(tx).to.changeTokenBalance(token, staker, args![1])
+                  await expect(accumulator.connect(staker).redeemAssets(5)).to.changeTokenBalance(
+                      token,
+                      staker,
+                      TOKENS_PER_ASSET.mul(5)
+                  )
+              })
+          })
+
+          describe("Fee-on-transfer token", () => {
+              it("Funds the reward pool with what arrived", async () => {
+                  const { token, rGStaking } = await loadFixture(feeOnTransferFixture)
+
+                  expect(await rGStaking.totalRewardPool()).to.equal(withoutFee(REWARD_POOL))
+                  expect(await token.balanceOf(rGStaking.address)).to.equal(withoutFee(REWARD_POOL))
+              })
+
+              it("Credits the whole assets that arrived and refunds the rest", async () => {
+                  const { token, rGStaking, rGStakingAsStaker, staker } = await loadFixture(feeOnTransferFixture)
+                  const received = withoutFee(TOKENS_PER_ASSET.mul(5))
+                  const change = received.sub(TOKENS_PER_ASSET.mul(4))
+
+                  await expect(rGStakingAsStaker.buyAssets(5))
+                      .to.emit(rGStaking, "AssetsBought")
+                      .withArgs(staker.address, 4)
+                      .and.to.changeTokenBalances(
+                          token,
+                          [staker, rGStaking],
+                          [TOKENS_PER_ASSET.mul(-5).add(withoutFee(change)), TOKENS_PER_ASSET.mul(4)]
+                      )
+                  expect(await rGStaking.assetBalance(staker.address)).to.equal(4)
+              })
+
+              it("Reverts when less than one asset arrives", async () => {
+                  const { rGStaking, rGStakingAsStaker } = await loadFixture(feeOnTransferFixture)
+
+                  await expect(rGStakingAsStaker.buyAssets(1))
+                      .to.be.revertedWithCustomError(rGStaking, "RGStaking__InsufficientTokensReceived")
+                      .withArgs(withoutFee(TOKENS_PER_ASSET), TOKENS_PER_ASSET)
+              })
+
+              it("Stays solvent through claims and redemptions", async () => {
+                  const { token, rGStaking, rGStakingAsStaker, staker } = await loadFixture(feeOnTransferFixture)
+                  // 99 tokens arrive, which buy 9 assets
+                  await rGStakingAsStaker.buyAssets(10)
+                  await rGStakingAsStaker.buyAssets(2)
+                  await time.increase(time.duration.days(3))
+
+                  await rGStakingAsStaker.claimRewards()
+                  await expect(rGStakingAsStaker.redeemAssets(9)).to.changeTokenBalances(
+                      token,
+                      [staker, rGStaking],
+                      [withoutFee(TOKENS_PER_ASSET.mul(9)), TOKENS_PER_ASSET.mul(-9)]
+                  )
+
+                  // The reward pool, the rewards credited by the redemption and the principal of the last asset are owed
+                  const owed = (await rGStaking.totalRewardPool())
+                      .add(await rGStaking.currentRewardsClaimable(staker.address))
+                      .add(TOKENS_PER_ASSET)
+                  const balance = await token.balanceOf(rGStaking.address)
+                  expect(await rGStaking.assetBalance(staker.address)).to.equal(1)
+                  expect(balance).to.be.gte(owed)
+                  expect(await rGStaking.recoverableRewards()).to.equal(balance.sub(owed))
+              })
+
+              it("Compounds without a transfer, so no fee is taken", async () => {
+                  const { token, rGStaking, rGStakingAsStaker, staker } = await loadFixture(feeOnTransferFixture)
+                  await rGStakingAsStaker.buyAssets(10)
+                  await time.increase(time.duration.days(30))
+                  const assets = await rGStaking.assetBalance(staker.address)
+                  const balance = await token.balanceOf(rGStaking.address)
+
+                  const tx = await rGStakingAsStaker.compoundRewards()
+                  const { args } = (await tx.wait()).events!.find(({ event }) => event === "RewardsCompounded")!
+                  expect(args!.assetsBought).to.be.gt(0)
+                  expect(args!.rewardsCompounded).to.equal(TOKENS_PER_ASSET.mul(args!.assetsBought))
+                  expect(await rGStaking.assetBalance(staker.address)).to.equal(assets.add(args!.assetsBought))
+                  expect(await token.balanceOf(rGStaking.address)).to.equal(balance)
+              })
+          })
+
+          describe("Reverting token", () => {
+              it("Reverts with the token's error and keeps the position", async () => {
+                  const { token, rGStaking, rGStakingAsStaker, staker } = await loadFixture(revertingFixture)
+                  await rGStakingAsStaker.buyAssets(5)
+                  await time.increase(time.duration.days(1))
+
+                  await token.setFailing(true)
+
+                  for (const call of [
+                      () => rGStakingAsStaker.buyAssets(1),
+                      () => rGStakingAsStaker.redeemAssets(5),
+                      () => rGStakingAsStaker.claimRewards(),
+                      () => rGStakingAsStaker.emergencyWithdraw(),
+                  ]) {
+                      await expect(call()).to.be.revertedWith("RevertingERC20Mock: transfers are disabled")
+                  }
+                  expect(await rGStaking.assetBalance(staker.address)).to.equal(5)
+
+                  await token.setFailing(false)
+
+                  await expect(rGStakingAsStaker.redeemAssets(5)).to.changeTokenBalance(
+                      token,
+                      staker,
+                      TOKENS_PER_ASSET.mul(5)
+                  )
+              })
+          })
+
+          describe("Separate staking and reward tokens", () => {
+              it("Sells assets at the configured price and pays rewards in the reward token", async () => {
+                  const { rGToken, rewardToken, assetPrice, rGStaking, rGStakingAsStaker, staker } = await loadFixture(
+                      separateTokensFixture
+                  )
+
+                  expect(await rGStaking.stakingTokenAddress()).to.equal(rGToken.address)
+                  expect(await rGStaking.rewardTokenAddress()).to.equal(rewardToken.address)
+                  expect(await rGStaking.assetPrice()).to.equal(assetPrice)
+
+                  await expect(rGStakingAsStaker.buyAssets(4)).to.changeTokenBalance(
+                      rGToken,
+                      staker,
+                      assetPrice.mul(-4)
+                  )
+                  await time.increase(time.duration.days(1))
+
+                  const tx = await rGStakingAsStaker.claimRewards()
+                  const { args } = (await tx.wait()).events!.find(({ event }) => event === "RewardsClaimed")!
+                  await expect(tx).to.changeTokenBalance(rewardToken, staker, args!.rewardWithdrawn)
+                  await expect(tx).to.changeTokenBalance(rGToken, staker, 0)
+
+                  await expect(rGStakingAsStaker.redeemAssets(4)).to.changeTokenBalance(
+                      rGToken,
+                      staker,
+                      assetPrice.mul(4)
+                  )
+              })
+
+              it("Keeps early-exit penalties out of the reward pool and lets the admin recover them", async () => {
+                  const { rGToken, assetPrice, rGStaking, rGStakingAsStaker, deployer, staker } = await loadFixture(
+                      separateTokensFixture
+                  )
+                  await rGStaking.setLockTier(0, time.duration.days(30), 12_500, 1_000, true)
+                  await rGStakingAsStaker.buyAssets(4)
+                  await rGStakingAsStaker.lockAssets(4, 0)
+                  const penalty = assetPrice.mul(4).div(10)
+
+                  await expect(rGStakingAsStaker.redeemLockedAssets(0))
+                      .to.emit(rGStaking, "EarlyExitPenaltyPaid")
+                      .withArgs(staker.address, penalty)
+                  expect(await rGStaking.recoverableStakingTokens()).to.equal(penalty)
+                  expect(await rGStaking.recoverableRewards()).to.equal(0)
+
+                  await expect(rGStaking.recoverSurplusRewards(deployer.address))
+                      .to.emit(rGStaking, "SurplusRecovered")
+                      .withArgs(rGToken.address, deployer.address, penalty)
+                      .and.to.changeTokenBalance(rGToken, deployer, penalty)
+                  expect(await rGToken.balanceOf(rGStaking.address)).to.equal(0)
+              })
+
+              it("Can't compound rewards into assets bought with another token", async () => {
+                  const { rGStaking, rGStakingAsStaker, staker } = await loadFixture(separateTokensFixture)
+                  await rGStakingAsStaker.buyAssets(400)
+                  await rGStakingAsStaker.setAutoCompound(true)
+                  await time.increase(time.duration.days(30))
+
+                  expect(await rGStaking.compoundableAssets(staker.address)).to.equal(0)
+                  await expect(rGStakingAsStaker.compoundRewards()).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__CompoundingUnavailable"
+                  )
+                  await expect(rGStaking.compoundRewardsFor([staker.address])).to.be.revertedWithCustomError(
+                      rGStaking,
+                      "RGStaking__CompoundingUnavailable"
+                  )
+              })
+          })
+      })
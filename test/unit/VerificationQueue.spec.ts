@@ -0,0 +1,308 @@
+import { expect } from "chai"
+import fs from "fs-extra"
+import hre, { config, deployments, ethers, getNamedAccounts, network } from "hardhat"
+import http from "http"
+import { AddressInfo } from "net"
+import path from "path"
+
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers"
+
+import { isLocalNetwork } from "../../helper-functions"
+import { getNetworkConfig } from "../../helper-hardhat-config"
+import { normalizeArg } from "../../utils/deployment-manifest"
+import {
+    ProcessQueueOptions,
+    buildVerificationRequest,
+    enqueueVerification,
+    processVerificationQueue,
+    readVerificationQueue,
+} from "../../utils/verification-queue"
+
+const queueDir = path.resolve(config.paths.cache, "verification-test")
+const POLL_INTERVAL_MS = 1
+const BACKOFF_MS = 10
+
+type ExplorerResponse = { status: string; result: string } | { httpStatus: number }
+
+/**
+ * Serves the Etherscan verification API on localhost. Submissions and status checks answer with the next scripted
+ * response, and succeed once the script is exhausted.
+ */
+const startMockExplorer = async (script: { submit?: ExplorerResponse[]; status?: ExplorerResponse[] } = {}) => {
+    const requests: { [field: string]: string }[] = []
+    const server = http.createServer((request, response) => {
+        let body = ""
+        request.on("data", (chunk) => (body += chunk))
+        request.on("end", () => {
+            const { search } = new URL(request.url!, "http://localhost")
+            const fields = Object.fromEntries(new URLSearchParams(request.method === "POST" ? body : search))
+            requests.push(fields)
+
+            const isSubmission = fields.action === "verifysourcecode"
+            const reply =
+                (isSubmission ? script.submit : script.status)?.shift() ??
+                (isSubmission
+                    ? { status: "1", result: `guid-${requests.length}` }
+                    : { status: "1", result: "Pass - Verified" })
+
+            if ("httpStatus" in reply) {
+                response.writeHead(reply.httpStatus).end()
+            } else {
+                response.writeHead(200, { "Content-Type": "application/json" })
+                response.end(JSON.stringify({ ...reply, message: reply.status === "1" ? "OK" : "NOTOK" }))
+            }
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+
+    return {
+        apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`,
+        requests,
+        submissions: () => requests.filter(({ action }) => action === "verifysourcecode"),
+        close: () => new Promise((resolve) => server.close(resolve)),
+    }
+}
+
+!isLocalNetwork
+    ? describe.skip
+    : describe("Verification Queue Unit Tests", () => {
+          const servers: { close: () => Promise<unknown> }[] = []
+
+          async function deployedContractsFixture() {
+              await deployments.fixture()
+
+              return {
+                  rGToken: await deployments.get("RGToken"),
+                  implementation: await deployments.get("RGStaking_Implementation"),
+              }
+          }
+
+          // Queues the deploy scripts' contracts in a fresh queue file
+          async function queueDeployments(name: string) {
+              const { rGToken, implementation } = await loadFixture(deployedContractsFixture)
+              const file = path.resolve(queueDir, `${name}.json`)
+              fs.removeSync(file)
+
+              enqueueVerification(file, {
+                  network: network.name,
+                  address: rGToken.address,
+                  contract: "contracts/RGToken.sol:RGToken",
+                  constructorArgs: rGToken.args!,
+              })
+              enqueueVerification(file, {
+                  network: network.name,
+                  address: implementation.address,
+                  contract: "contracts/RGStaking.sol:RGStaking",
+                  constructorArgs: [],
+              })
+
+              return { file, rGToken, implementation }
+          }
+
+          async function explorer(name: string, script?: Parameters<typeof startMockExplorer>[0]) {
+              const server = await startMockExplorer(script)
+              servers.push(server)
+              return { ...server, explorer: { name, apiUrl: server.apiUrl, apiKey: `${name}-key` } }
+          }
+
+          // Sleeps no time, but records how long the queue wanted to wait
+          const processOptions = (delays: number[] = []): Omit<ProcessQueueOptions, "explorers"> => ({
+              buildRequest: (entry) => buildVerificationRequest(hre, entry),
+              backoffMs: BACKOFF_MS,
+              pollIntervalMs: POLL_INTERVAL_MS,
+              sleep: async (ms) => {
+                  delays.push(ms)
+              },
+          })
+
+          after(async () => {
+              await Promise.all(servers.map((server) => server.close()))
+              fs.removeSync(queueDir)
+          })
+
+          describe("Queue", () => {
+              it("Queues each deployment once with JSON constructor args", async () => {
+                  const { file, rGToken } = await queueDeployments("once")
+                  enqueueVerification(file, {
+                      network: network.name,
+                      address: rGToken.address.toLowerCase(),
+                      contract: "contracts/RGToken.sol:RGToken",
+                      constructorArgs: rGToken.args!,
+                  })
+
+                  const queue = readVerificationQueue(file)
+                  expect(queue.map(({ contract, status }) => [contract, status])).to.deep.equal([
+                      ["contracts/RGToken.sol:RGToken", "pending"],
+                      ["contracts/RGStaking.sol:RGStaking", "pending"],
+                  ])
+                  expect(queue[0].constructorArgs).to.deep.equal(normalizeArg(rGToken.args))
+              })
+
+              it("Builds the request from the contract's build info", async () => {
+                  const { file } = await queueDeployments("request")
+
+                  const request = await buildVerificationRequest(hre, readVerificationQueue(file)[0])
+
+                  expect(request.contractName).to.equal("contracts/RGToken.sol:RGToken")
+                  expect(request.compilerVersion).to.match(/^v0\.8\.7\+commit\./)
+                  expect(JSON.parse(request.sourceCode).sources).to.have.property("contracts/RGToken.sol")
+                  const { supplyCap, initialSupply } = getNetworkConfig(network.name)
+                  const { admin, minter, deployer } = await getNamedAccounts()
+                  expect(request.constructorArguments).to.equal(
+                      ethers.utils.defaultAbiCoder
+                          .encode(
+                              ["uint256", "address", "address", "address[]", "uint256[]"],
+                              [supplyCap, admin, minter, [deployer], [initialSupply]]
+                          )
+                          .slice(2)
+                  )
+              })
+          })
+
+          describe("Processing", () => {
+              it("Verifies every entry on every explorer and persists the outcome", async () => {
+                  const { file, rGToken, implementation } = await queueDeployments("all")
+                  const primary = await explorer("primary")
+                  const secondary = await explorer("secondary")
+
+                  const queue = await processVerificationQueue(file, {
+                      explorers: [primary.explorer, secondary.explorer],
+                      ...processOptions(),
+                  })
+
+                  expect(readVerificationQueue(file)).to.deep.equal(queue)
+                  for (const entry of queue) {
+                      expect(entry.status).to.equal("done")
+                      expect(entry.explorers).to.deep.equal({
+                          primary: { status: "done", attempts: 1 },
+                          secondary: { status: "done", attempts: 1 },
+                      })
+                  }
+                  for (const { submissions } of [primary, secondary]) {
+                      expect(submissions().map(({ contractaddress }) => contractaddress)).to.deep.equal([
+                          rGToken.address,
+                          implementation.address,
+                      ])
+                  }
+                  expect(secondary.submissions()[0]).to.include({
+                      apikey: "secondary-key",
+                      codeformat: "solidity-standard-json-input",
+                      contractname: "contracts/RGToken.sol:RGToken",
+                  })
+              })
+
+              it("Polls the explorer until the verification is no longer pending", async () => {
+                  const { file } = await queueDeployments("poll")
+                  const primary = await explorer("primary", {
+                      status: [{ status: "0", result: "Pending in queue" }],
+                  })
+
+                  await processVerificationQueue(file, { explorers: [primary.explorer], ...processOptions() })
+
+                  const statusChecks = primary.requests.filter(({ action }) => action === "checkverifystatus")
+                  expect(statusChecks.map(({ guid }) => guid)).to.deep.equal(["guid-1", "guid-1", "guid-4"])
+              })
+
+              it("Retries failed attempts with exponential backoff", async () => {
+                  const { file } = await queueDeployments("backoff")
+                  const primary = await explorer("primary", {
+                      submit: [{ httpStatus: 502 }, { status: "0", result: "Unable to locate ContractCode" }],
+                  })
+                  const delays: number[] = []
+
+                  const [entry] = await processVerificationQueue(file, {
+                      explorers: [primary.explorer],
+                      ...processOptions(delays),
+                  })
+
+                  expect(entry.explorers.primary).to.deep.equal({ status: "done", attempts: 3 })
+                  // Two backoffs before the retries, then the status check of each entry
+                  expect(delays).to.deep.equal([BACKOFF_MS, BACKOFF_MS * 2, POLL_INTERVAL_MS, POLL_INTERVAL_MS])
+              })
+
+              it("Treats contracts the explorer already verified as done", async () => {
+                  const { file } = await queueDeployments("already-verified")
+                  const primary = await explorer("primary", {
+                      submit: [{ status: "0", result: "Contract source code already verified" }],
+                  })
+
+                  const [entry] = await processVerificationQueue(file, {
+                      explorers: [primary.explorer],
+                      ...processOptions(),
+                  })
+
+                  expect(entry.status).to.equal("done")
+                  expect(primary.requests[1].action).to.equal("verifysourcecode")
+              })
+
+              it("Marks entries failed after the last attempt and only retries them when asked", async () => {
+                  const { file } = await queueDeployments("failed")
+                  const failure = { status: "0", result: "Fail - Unable to verify" }
+                  const primary = await explorer("primary")
+                  const secondary = await explorer("secondary", { status: [failure, failure] })
+                  const options = { explorers: [primary.explorer, secondary.explorer], maxAttempts: 2 }
+
+                  const [failed, verified] = await processVerificationQueue(file, { ...options, ...processOptions() })
+
+                  expect(failed.status).to.equal("failed")
+                  expect(failed.explorers).to.deep.equal({
+                      primary: { status: "done", attempts: 1 },
+                      secondary: { status: "failed", attempts: 2, lastError: "Fail - Unable to verify" },
+                  })
+                  expect(verified.status).to.equal("done")
+
+                  await processVerificationQueue(file, { ...options, ...processOptions() })
+                  expect(secondary.submissions()).to.have.lengthOf(3)
+
+                  const [retried] = await processVerificationQueue(file, {
+                      ...options,
+                      ...processOptions(),
+                      retryFailed: true,
+                  })
+                  expect(retried.status).to.equal("done")
+                  expect(retried.explorers.secondary).to.deep.equal({ status: "done", attempts: 1 })
+                  expect(primary.submissions()).to.have.lengthOf(2)
+                  expect(secondary.submissions()).to.have.lengthOf(4)
+              })
+
+              it("Keeps entries pending until every explorer of the network verified them", async () => {
+                  const { file } = await queueDeployments("subset")
+                  const primary = await explorer("primary")
+                  const secondary = await explorer("secondary")
+                  const networkExplorers = ["primary", "secondary"]
+
+                  const queue = await processVerificationQueue(file, {
+                      explorers: [primary.explorer],
+                      networkExplorers,
+                      ...processOptions(),
+                  })
+                  expect(queue.map(({ status }) => status)).to.deep.equal(["pending", "pending"])
+                  expect(queue[0].explorers).to.deep.equal({ primary: { status: "done", attempts: 1 } })
+
+                  const [entry] = await processVerificationQueue(file, {
+                      explorers: [primary.explorer, secondary.explorer],
+                      networkExplorers,
+                      ...processOptions(),
+                  })
+                  expect(entry.status).to.equal("done")
+                  expect(primary.submissions()).to.have.lengthOf(2)
+                  expect(secondary.submissions()).to.have.lengthOf(2)
+              })
+
+              it("Keeps verified entries when they are queued again", async () => {
+                  const { file, rGToken } = await queueDeployments("requeue")
+                  const primary = await explorer("primary")
+                  await processVerificationQueue(file, { explorers: [primary.explorer], ...processOptions() })
+
+                  const entry = enqueueVerification(file, {
+                      network: network.name,
+                      address: rGToken.address,
+                      contract: "contracts/RGToken.sol:RGToken",
+                      constructorArgs: rGToken.args!,
+                  })
+
+                  expect(entry.status).to.equal("done")
+                  expect(readVerificationQueue(file)).to.have.lengthOf(2)
+              })
+          })
+      })
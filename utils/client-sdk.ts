@@ -0,0 +1,169 @@
+import fs from "fs-extra"
+import path from "path"
+
+/**
+ * Generates the client SDK consumed by the front-end from the hardhat-deploy deployments of the current network.
+ *
+ * The `typescript` format emits a self-contained package: the typechain types, the latest deployment of every contract
+ * per chain, contract factories and buy/redeem/claim helpers. The `json` format only emits the ABIs and the deployments.
+ */
+
+export const SDK_CONTRACT_NAMES = ["RGStaking", "RGToken"] as const
+export type SdkContractName = (typeof SDK_CONTRACT_NAMES)[number]
+
+export type ClientSdkFormat = "typescript" | "json"
+
+export type SdkDeployment = {
+    address: string
+    blockNumber?: number
+    transactionHash?: string
+}
+
+export type SdkDeployments = {
+    [chainId: string]: { [contractName in SdkContractName]?: SdkDeployment }
+}
+
+export type ClientSdkOptions = {
+    outDir: string
+    format: ClientSdkFormat
+    chainId: number
+    deployments: { [contractName in SdkContractName]: SdkDeployment }
+    typechainDir: string
+    artifactsDir: string
+}
+
+const GENERATED_HEADER = "/* Autogenerated by deploy/99-update-client.ts. Do not edit manually. */\n"
+
+const readDeployments = (deploymentsFile: string): SdkDeployments => {
+    if (!fs.existsSync(deploymentsFile)) return {}
+
+    try {
+        return fs.readJSONSync(deploymentsFile)
+    } catch (error) {
+        if (error instanceof SyntaxError) return {}
+        throw error
+    }
+}
+
+/**
+ * Records the given deployments as the current ones for the chain, replacing whatever was recorded before.
+ */
+const updateDeployments = ({ outDir, chainId, deployments }: ClientSdkOptions): SdkDeployments => {
+    const deploymentsFile = path.resolve(outDir, "deployments.json")
+
+    const allDeployments = readDeployments(deploymentsFile)
+    allDeployments[chainId.toString()] = deployments
+    fs.outputJSONSync(deploymentsFile, allDeployments, { spaces: 2 })
+
+    return allDeployments
+}
+
+const writeAbis = ({ outDir, artifactsDir }: ClientSdkOptions) => {
+    for (const contractName of SDK_CONTRACT_NAMES) {
+        const artifact = fs.readJSONSync(
+            path.resolve(artifactsDir, `contracts/${contractName}.sol/${contractName}.json`)
+        )
+        fs.outputJSONSync(path.resolve(outDir, `abis/${contractName}.json`), artifact.abi, { spaces: 2 })
+    }
+}
+
+const networksSource = (allDeployments: SdkDeployments) => `${GENERATED_HEADER}
+export type ContractName = ${SDK_CONTRACT_NAMES.map((name) => `"${name}"`).join(" | ")}
+
+export type Deployment = {
+    address: string
+    blockNumber?: number
+    transactionHash?: string
+}
+
+export const deployments: { [chainId: string]: { [contractName in ContractName]?: Deployment } } = ${JSON.stringify(
+    allDeployments,
+    null,
+    4
+)}
+`
+
+const formatSource = `${GENERATED_HEADER}
+import { BigNumber, BigNumberish, utils } from "ethers"
+
+export const parseRGT = (rGTAmount: BigNumberish): BigNumber => utils.parseUnits(rGTAmount.toString(), 18)
+
+export const formatRGT = (amount: BigNumberish): string => utils.formatUnits(amount, 18)
+
+/**
+ * Returns the staking tokens that buy an amount of assets, given the price read from \`rGStaking.assetPrice()\`.
+ */
+export const assetsToTokens = (amountOfAssets: BigNumberish, assetPrice: BigNumberish): BigNumber =>
+    BigNumber.from(assetPrice).mul(amountOfAssets)
+
+/**
+ * Returns the number of whole assets an amount of staking tokens buys at \`assetPrice\`. Any remainder is ignored.
+ */
+export const tokensToAssets = (amount: BigNumberish, assetPrice: BigNumberish): BigNumber =>
+    BigNumber.from(amount).div(assetPrice)
+`
+
+const indexSource = `${GENERATED_HEADER}
+import { BigNumberish, ContractTransaction, Signer, providers } from "ethers"
+
+import { assetsToTokens } from "./format"
+import { ContractName, deployments } from "./networks"
+import { RGStaking, RGStaking__factory, RGToken, RGToken__factory } from "./typechain"
+
+export * from "./networks"
+export * from "./format"
+export type { RGStaking, RGToken } from "./typechain"
+
+type SignerOrProvider = Signer | providers.Provider
+
+export const getDeployment = (chainId: number, contractName: ContractName) => {
+    const deployment = deployments[chainId.toString()]?.[contractName]
+    if (!deployment) throw new Error(\`\${contractName} is not deployed on chain \${chainId}\`)
+
+    return deployment
+}
+
+export const getRGStaking = (chainId: number, signerOrProvider: SignerOrProvider): RGStaking =>
+    RGStaking__factory.connect(getDeployment(chainId, "RGStaking").address, signerOrProvider)
+
+export const getRGToken = (chainId: number, signerOrProvider: SignerOrProvider): RGToken =>
+    RGToken__factory.connect(getDeployment(chainId, "RGToken").address, signerOrProvider)
+
+/**
+ * Approves the asset price if the current allowance doesn't cover it, then buys the assets.
+ * \`rGStaking\` must be connected to a signer.
+ */
+export const buyAssets = async (rGStaking: RGStaking, amountOfAssets: BigNumberish): Promise<ContractTransaction> => {
+    const owner = await rGStaking.signer.getAddress()
+    const stakingToken = RGToken__factory.connect(await rGStaking.stakingTokenAddress(), rGStaking.signer)
+    const price = assetsToTokens(amountOfAssets, await rGStaking.assetPrice())
+
+    if ((await stakingToken.allowance(owner, rGStaking.address)).lt(price)) {
+        const approveTx = await stakingToken.approve(rGStaking.address, price)
+        await approveTx.wait()
+    }
+
+    return rGStaking.buyAssets(amountOfAssets)
+}
+
+export const redeemAssets = (rGStaking: RGStaking, amountOfAssets: BigNumberish): Promise<ContractTransaction> =>
+    rGStaking.redeemAssets(amountOfAssets)
+
+export const claimRewards = (rGStaking: RGStaking): Promise<ContractTransaction> => rGStaking.claimRewards()
+`
+
+export const writeClientSdk = (options: ClientSdkOptions) => {
+    const { outDir, format, typechainDir } = options
+    const allDeployments = updateDeployments(options)
+
+    if (format === "json") {
+        writeAbis(options)
+        return
+    }
+
+    fs.removeSync(path.resolve(outDir, "typechain"))
+    fs.copySync(typechainDir, path.resolve(outDir, "typechain"))
+    fs.outputFileSync(path.resolve(outDir, "networks.ts"), networksSource(allDeployments))
+    fs.outputFileSync(path.resolve(outDir, "format.ts"), formatSource)
+    fs.outputFileSync(path.resolve(outDir, "index.ts"), indexSource)
+}
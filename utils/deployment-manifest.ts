@@ -0,0 +1,305 @@
+import { BigNumber, Signer } from "ethers"
+import { arrayify, getAddress, hexDataSlice, isAddress, keccak256, toUtf8Bytes, verifyMessage } from "ethers/lib/utils"
+import { Deployment } from "hardhat-deploy/types"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { getNetworkConfig } from "../helper-hardhat-config"
+import { RGStaking } from "../typechain"
+
+/**
+ * Deployment manifests pin what was deployed on a network: every hardhat-deploy record with its constructor args,
+ * deployer, transaction and compiler settings, the hash of the code living at each address and the reward pool state
+ * as of the manifest's block. Values that change with every stake, like the reward pool, are signed off but not
+ * reported as drift.
+ * A manifest is signed off by the account that reviewed it, one of the network's `manifestSigners`, and is later
+ * compared with the live chain to catch upgrades, redeployments or state changes nobody signed off.
+ */
+
+export type CompilerSettings = {
+    version: string
+    optimizer?: { enabled?: boolean; runs?: number }
+    evmVersion?: string
+}
+
+export type ManifestContract = {
+    address: string
+    // Fully qualified name of the contract, when the artifact is known
+    contract?: string
+    args: unknown[]
+    deployer?: string
+    transactionHash?: string
+    blockNumber?: number
+    // Implementation of a proxy, read from its EIP-1967 slot
+    implementation?: string
+    // Hash of the deployed bytecode of the artifact, i.e. without immutables
+    bytecodeHash?: string
+    // Hash of the code at the address
+    codeHash: string
+    compiler?: CompilerSettings
+}
+
+export type ManifestState = {
+    isRewardPoolInitialized: boolean
+    totalRewardPool: string
+    stakingTokenAddress: string
+    rewardTokenAddress: string
+}
+
+export type DeploymentManifest = {
+    network: string
+    chainId: number
+    generatedAt: string
+    // Block the state was read at
+    blockNumber: number
+    contracts: { [name: string]: ManifestContract }
+    state?: ManifestState
+}
+
+export type SignedDeploymentManifest = DeploymentManifest & {
+    signOff: { signer: string; manifestHash: string; signature: string }
+}
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc"
+
+// Fields that legitimately differ between two manifests of the same deployment
+const IGNORED_FIELDS = ["generatedAt", "signOff"]
+// Fields that are signed off, but change with every stake so aren't reported as drift
+const LIVE_FIELDS = ["blockNumber", "state.totalRewardPool"]
+
+/**
+ * Serializes with sorted keys, so the hash of a manifest doesn't depend on the order its fields were written in.
+ */
+const canonicalize = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalize).join(",")}]`
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : 1))
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(",")}}`
+    }
+    return JSON.stringify(value)
+}
+
+/**
+ * Turns BigNumbers, including the `{ type: "BigNumber", hex }` objects hardhat-deploy saves them as, into decimal
+ * strings so args can be written to and compared with JSON.
+ */
+export const normalizeArg = (arg: unknown): unknown => {
+    if (BigNumber.isBigNumber(arg)) return arg.toString()
+    if (Array.isArray(arg)) return arg.map(normalizeArg)
+    if (arg !== null && typeof arg === "object") {
+        const { type, hex } = arg as { type?: string; hex?: string }
+        if (type === "BigNumber" && hex) return BigNumber.from(hex).toString()
+        return Object.fromEntries(Object.entries(arg).map(([key, value]) => [key, normalizeArg(value)]))
+    }
+    return arg
+}
+
+const parseMetadata = (deployment: Deployment) => {
+    if (!deployment.metadata) return undefined
+
+    const { compiler, settings } = JSON.parse(deployment.metadata)
+    const [[sourceName, contractName]] = Object.entries<string>(settings.compilationTarget)
+    return {
+        contract: `${sourceName}:${contractName}`,
+        compiler: { version: compiler.version, optimizer: settings.optimizer, evmVersion: settings.evmVersion },
+    }
+}
+
+/**
+ * Deployments to the in-memory hardhat network aren't saved with their metadata, so the contract and its compiler
+ * settings are looked up in the local artifacts instead (`X_Implementation` records are deployments of `X`).
+ */
+const lookUpArtifact = async ({ artifacts }: HardhatRuntimeEnvironment, name: string) => {
+    const contractName = name.replace(/_Implementation$/, "")
+    if (!(await artifacts.artifactExists(contractName))) return undefined
+
+    const { sourceName } = await artifacts.readArtifact(contractName)
+    const contract = `${sourceName}:${contractName}`
+    const buildInfo = await artifacts.getBuildInfo(contract)
+    return {
+        contract,
+        compiler: buildInfo && {
+            version: buildInfo.solcLongVersion,
+            optimizer: buildInfo.input.settings.optimizer,
+            evmVersion: buildInfo.input.settings.evmVersion,
+        },
+    }
+}
+
+const readImplementation = async ({ ethers }: HardhatRuntimeEnvironment, proxy: string) =>
+    getAddress(hexDataSlice(await ethers.provider.getStorageAt(proxy, IMPLEMENTATION_SLOT), 12))
+
+const describeDeployment = async (
+    hre: HardhatRuntimeEnvironment,
+    name: string,
+    deployment: Deployment
+): Promise<ManifestContract> => {
+    const artifact = parseMetadata(deployment) ?? (await lookUpArtifact(hre, name))
+
+    return {
+        address: deployment.address,
+        contract: artifact?.contract,
+        args: normalizeArg(deployment.args ?? []) as unknown[],
+        deployer: deployment.receipt?.from,
+        transactionHash: deployment.transactionHash,
+        blockNumber: deployment.receipt?.blockNumber,
+        implementation: deployment.implementation && (await readImplementation(hre, deployment.address)),
+        bytecodeHash: deployment.deployedBytecode && keccak256(deployment.deployedBytecode),
+        codeHash: keccak256(await hre.ethers.provider.getCode(deployment.address)),
+        compiler: artifact?.compiler,
+    }
+}
+
+const readState = async (rGStaking: RGStaking, blockTag: number): Promise<ManifestState> => ({
+    isRewardPoolInitialized: await rGStaking.isRewardPoolInitialized({ blockTag }),
+    totalRewardPool: (await rGStaking.totalRewardPool({ blockTag })).toString(),
+    stakingTokenAddress: await rGStaking.stakingTokenAddress({ blockTag }),
+    rewardTokenAddress: await rGStaking.rewardTokenAddress({ blockTag }),
+})
+
+/**
+ * Describes every hardhat-deploy record of the network together with the code currently on chain and the RGStaking
+ * state as of the latest block.
+ */
+export const buildManifest = async (hre: HardhatRuntimeEnvironment): Promise<DeploymentManifest> => {
+    const { deployments, ethers, network } = hre
+    const records = Object.entries(await deployments.all()).sort(([a], [b]) => (a < b ? -1 : 1))
+
+    const contracts: DeploymentManifest["contracts"] = {}
+    for (const [name, deployment] of records) {
+        contracts[name] = await describeDeployment(hre, name, deployment)
+    }
+
+    const rGStaking = await deployments.getOrNull("RGStaking")
+    const blockNumber = await ethers.provider.getBlockNumber()
+    return {
+        network: network.name,
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        generatedAt: new Date().toISOString(),
+        blockNumber,
+        contracts,
+        state: rGStaking
+            ? await readState((await ethers.getContractAt("RGStaking", rGStaking.address)) as RGStaking, blockNumber)
+            : undefined,
+    }
+}
+
+/**
+ * Hashes everything the sign-off covers, i.e. the manifest without its generation time and the sign-off itself.
+ */
+export const hashManifest = (manifest: DeploymentManifest): string => {
+    const signed = Object.fromEntries(Object.entries(manifest).filter(([key]) => !IGNORED_FIELDS.includes(key)))
+    return keccak256(toUtf8Bytes(canonicalize(signed)))
+}
+
+export const signManifest = async (manifest: DeploymentManifest, signer: Signer): Promise<SignedDeploymentManifest> => {
+    const manifestHash = hashManifest(manifest)
+
+    return {
+        ...manifest,
+        signOff: {
+            signer: await signer.getAddress(),
+            manifestHash,
+            signature: await signer.signMessage(arrayify(manifestHash)),
+        },
+    }
+}
+
+/**
+ * Resolves the `manifestSigners` of the network, named accounts or addresses, to addresses.
+ */
+export const getManifestSigners = async ({
+    getNamedAccounts,
+    network,
+}: HardhatRuntimeEnvironment): Promise<string[]> => {
+    const namedAccounts = await getNamedAccounts()
+
+    return getNetworkConfig(network.name).manifestSigners.map((account) => {
+        const address = namedAccounts[account] ?? account
+        if (!isAddress(address)) {
+            throw new Error(`manifestSigners: "${account}" is neither a named account nor an address`)
+        }
+        return getAddress(address)
+    })
+}
+
+/**
+ * Returns why the sign-off doesn't cover the manifest or wasn't made by one of the `authorizedSigners`. An empty list
+ * means the manifest is exactly what an authorized signer signed.
+ */
+export const verifySignOff = (
+    { signOff, ...manifest }: SignedDeploymentManifest,
+    authorizedSigners: string[]
+): string[] => {
+    if (!signOff) return ["The manifest isn't signed off"]
+
+    const errors: string[] = []
+    const manifestHash = hashManifest(manifest)
+    if (manifestHash !== signOff.manifestHash) {
+        errors.push(`The manifest hashes to ${manifestHash} but ${signOff.manifestHash} was signed off`)
+    }
+    const signer = verifyMessage(arrayify(signOff.manifestHash), signOff.signature)
+    if (signer !== getAddress(signOff.signer)) {
+        errors.push(`The sign-off signature wasn't made by ${signOff.signer}`)
+    }
+    if (!authorizedSigners.map((address) => getAddress(address)).includes(signer)) {
+        errors.push(`The sign-off was made by ${signer}, who isn't one of the manifest signers`)
+    }
+    return errors
+}
+
+const diffValues = (path: string, expected: unknown, actual: unknown, drift: string[]) => {
+    const isObject = (value: unknown) => value !== null && typeof value === "object" && !Array.isArray(value)
+
+    if (isObject(expected) && isObject(actual)) {
+        const keys = new Set([...Object.keys(expected as object), ...Object.keys(actual as object)])
+        for (const key of [...keys].sort()) {
+            const keyPath = path ? `${path}.${key}` : key
+            if ((IGNORED_FIELDS.includes(key) && !path) || LIVE_FIELDS.includes(keyPath)) continue
+            diffValues(
+                keyPath,
+                (expected as Record<string, unknown>)[key],
+                (actual as Record<string, unknown>)[key],
+                drift
+            )
+        }
+    } else if (canonicalize(expected) !== canonicalize(actual)) {
+        drift.push(`${path}: expected ${canonicalize(expected)}, found ${canonicalize(actual)}`)
+    }
+}
+
+/**
+ * Lists every field that differs between two manifests, e.g. `contracts.RGStaking.implementation: expected ...`.
+ */
+export const diffManifests = (expected: DeploymentManifest, actual: DeploymentManifest): string[] => {
+    const drift: string[] = []
+    diffValues("", expected, actual, drift)
+    return drift
+}
+
+/**
+ * Compares a signed-off manifest with the live chain and the current artifacts. Returns the sign-off errors and the
+ * drift; both are empty when the network still runs exactly what was signed off.
+ */
+export const checkManifest = async (
+    hre: HardhatRuntimeEnvironment,
+    manifest: SignedDeploymentManifest
+): Promise<{ signOffErrors: string[]; drift: string[] }> => {
+    const signOffErrors = verifySignOff(manifest, await getManifestSigners(hre))
+    const drift = diffManifests(manifest, await buildManifest(hre))
+
+    for (const [name, { contract, bytecodeHash }] of Object.entries(manifest.contracts)) {
+        // Contracts compiled elsewhere, e.g. hardhat-deploy's proxies, have no local artifact to compare with
+        const artifact = contract && (await hre.artifacts.readArtifact(contract).catch(() => undefined))
+        if (!artifact || !bytecodeHash) continue
+
+        if (keccak256(artifact.deployedBytecode) !== bytecodeHash) {
+            drift.push(`contracts.${name}: the compiled ${contract} no longer matches the deployed bytecode`)
+        }
+    }
+
+    return { signOffErrors, drift }
+}
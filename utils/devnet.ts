@@ -0,0 +1,109 @@
+import { BigNumber, ContractTransaction, constants } from "ethers"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+
+import { RGStaking, RGToken } from "../typechain"
+import { describeError } from "./relayer"
+import { Scenario, SimulationEvent } from "./reward-simulator"
+
+/**
+ * Seeds a local chain with stakers: funds test accounts with RGT and replays a reward simulator scenario on the chain,
+ * moving time forward between its events, so front-ends have a populated deployment to work against.
+ */
+
+export type SeededEvent = {
+    event: SimulationEvent
+    account?: string
+    timestamp: number
+    revertedWith?: string
+}
+
+/**
+ * Sends `amount` RGT from `holder` to each account and approves RGStaking to spend all of their RGT.
+ */
+export const fundAccounts = async (
+    { rGToken, rGStaking }: { rGToken: RGToken; rGStaking: RGStaking },
+    holder: SignerWithAddress,
+    accounts: SignerWithAddress[],
+    amount: BigNumber
+) => {
+    const balance = await rGToken.balanceOf(holder.address)
+    if (balance.lt(amount.mul(accounts.length))) {
+        throw new Error(`${holder.address} can't fund ${accounts.length} accounts with its RGT balance`)
+    }
+
+    for (const account of accounts) {
+        await (await rGToken.connect(holder).transfer(account.address, amount)).wait(1)
+        await (await rGToken.connect(account).approve(rGStaking.address, constants.MaxUint256)).wait(1)
+    }
+}
+
+/**
+ * Maps every account named in the scenario to one of `accounts`, in order of first appearance.
+ */
+export const assignScenarioAccounts = (
+    scenario: Scenario,
+    accounts: SignerWithAddress[]
+): { [account: string]: SignerWithAddress } => {
+    const names = [...new Set(scenario.events.flatMap(({ account }) => (account === undefined ? [] : [account])))]
+    if (names.length > accounts.length) {
+        throw new Error(`The scenario has ${names.length} accounts but only ${accounts.length} are funded`)
+    }
+
+    return Object.fromEntries(names.map((name, index) => [name, accounts[index]]))
+}
+
+/**
+ * Replays the scenario's events with their `at` seconds counted from the next block, then moves time to `endAt`.
+ * Owner actions are sent by `admin`, which must hold enough RGT for the top-ups. Events the contract reverts are
+ * recorded and skipped. Initializes the reward pool first if needed. The scenario's `totalRewardPool` is ignored, the
+ * pool is the deployed one.
+ */
+export const seedScenario = async (
+    hre: HardhatRuntimeEnvironment,
+    { rGToken, rGStaking }: { rGToken: RGToken; rGStaking: RGStaking },
+    scenario: Scenario,
+    { admin, accounts }: { admin: SignerWithAddress; accounts: { [account: string]: SignerWithAddress } }
+): Promise<SeededEvent[]> => {
+    const { provider } = hre.network
+    const asAdmin = rGStaking.connect(admin)
+
+    await (await rGToken.connect(admin).approve(rGStaking.address, constants.MaxUint256)).wait(1)
+    if (!(await rGStaking.isRewardPoolInitialized())) await (await asAdmin.initializeRewardPool()).wait(1)
+
+    const send = (event: SimulationEvent): Promise<ContractTransaction> => {
+        if (event.type === "setRate") {
+            return asAdmin.setDailyRewardsPerAsset(hre.ethers.utils.parseUnits(event.dailyRewardsPerAsset, 18))
+        }
+        if (event.type === "topUp") return asAdmin.topUpRewardPool(hre.ethers.utils.parseUnits(event.amount, 18))
+
+        const asAccount = rGStaking.connect(accounts[event.account])
+        if (event.type === "buy") return asAccount.buyAssets(event.assets)
+        if (event.type === "redeem") return asAccount.redeemAssets(event.assets)
+        return asAccount.claimRewards()
+    }
+
+    const { timestamp: latest } = await hre.ethers.provider.getBlock("latest")
+    const startTimestamp = latest + 1
+    const seeded: SeededEvent[] = []
+    for (const event of scenario.events) {
+        const timestamp = startTimestamp + event.at
+        const result: SeededEvent = { event, account: event.account && accounts[event.account].address, timestamp }
+
+        await provider.send("evm_setNextBlockTimestamp", [timestamp])
+        try {
+            await (await send(event)).wait(1)
+        } catch (error) {
+            result.revertedWith = describeError(rGStaking, error)
+        }
+        seeded.push(result)
+    }
+
+    const lastTimestamp = seeded.length > 0 ? seeded[seeded.length - 1].timestamp : latest
+    const endTimestamp = startTimestamp + (scenario.endAt ?? 0)
+    if (endTimestamp > lastTimestamp) await provider.send("evm_mine", [endTimestamp])
+
+    return seeded
+}
@@ -0,0 +1,316 @@
+import { BigNumber, BigNumberish, Contract } from "ethers"
+import fs from "fs-extra"
+import path from "path"
+
+/**
+ * Indexes the events emitted by RGStaking into a local JSON cache and rebuilds account histories from it.
+ *
+ * Blocks are scanned in chunks and the cache is written after every chunk, so an interrupted run resumes from the
+ * last indexed block.
+ */
+
+export const INDEXED_EVENTS = [
+    "RewardPoolInitialized",
+    "RewardPoolToppedUp",
+    "AssetsBought",
+    "AssetsRedeemed",
+    "RewardsClaimed",
+    "RewardsCompounded",
+    "EarlyExitPenaltyPaid",
+    "VestingRewardsForfeited",
+    "EmergencyWithdrawn",
+    "RewardPoolWithdrawn",
+] as const
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number]
+
+export type IndexedEvent = {
+    name: IndexedEventName
+    account: string
+    amount: string
+    // Assets bought by a RewardsCompounded event, whose amount is the rewards spent
+    assets?: string
+    // Credited rewards an EmergencyWithdrawn event forfeited to the reward pool, whose amount is the assets withdrawn
+    rewards?: string
+    blockNumber: number
+    timestamp: number
+    transactionHash: string
+    logIndex: number
+}
+
+export type IndexerCache = {
+    chainId: number
+    address: string
+    fromBlock: number
+    lastIndexedBlock: number
+    events: IndexedEvent[]
+}
+
+export type IndexOptions = {
+    cacheFile: string
+    fromBlock: number
+    toBlock: number
+    chunkSize?: number
+    onChunk?: (fromBlock: number, toBlock: number, eventCount: number) => void
+}
+
+export type StatementEntry = {
+    blockNumber: number
+    timestamp: number
+    transactionHash: string
+    action: "buy" | "redeem" | "emergencyWithdraw" | "claim" | "compound"
+    assets: string
+    rewards: string
+    assetBalance: string
+    totalRewardsClaimed: string
+}
+
+export type AccountHistory = {
+    account: string
+    assetsBought: BigNumber
+    assetsRedeemed: BigNumber
+    assetBalance: BigNumber
+    rewardsClaimed: BigNumber
+    entries: StatementEntry[]
+}
+
+export type Reconciliation = {
+    rewardPoolFunded: BigNumber
+    rewardsClaimed: BigNumber
+    rewardsCompounded: BigNumber
+    // Credited rewards returned to the reward pool by emergency withdrawals
+    rewardsForfeited: BigNumber
+    totalRewardPool: BigNumber
+    // Rewards credited to accounts by `updateRewards` but not claimed yet
+    rewardsSettledUnclaimed: BigNumber
+    assetsOutstanding: BigNumber
+}
+
+const DEFAULT_CHUNK_SIZE = 2_000
+
+export const readIndexerCache = (cacheFile: string): IndexerCache | undefined =>
+    fs.existsSync(cacheFile) ? fs.readJSONSync(cacheFile) : undefined
+
+/**
+ * Indexes `rGStaking` events between `fromBlock` and `toBlock` (inclusive), resuming from the cache if it covers the
+ * same contract.
+ */
+export const indexEvents = async (
+    rGStaking: Contract,
+    { cacheFile, fromBlock, toBlock, chunkSize = DEFAULT_CHUNK_SIZE, onChunk }: IndexOptions
+): Promise<IndexerCache> => {
+    const { chainId } = await rGStaking.provider.getNetwork()
+
+    let cache = readIndexerCache(cacheFile)
+    if (cache && (cache.chainId !== chainId || cache.address !== rGStaking.address || cache.fromBlock > fromBlock)) {
+        throw new Error(
+            `${cacheFile} was built for another contract or a later start block. Use a different cache file.`
+        )
+    }
+    cache ??= { chainId, address: rGStaking.address, fromBlock, lastIndexedBlock: fromBlock - 1, events: [] }
+
+    const timestamps = new Map<number, number>()
+    const getTimestamp = async (blockNumber: number) => {
+        if (!timestamps.has(blockNumber)) {
+            timestamps.set(blockNumber, (await rGStaking.provider.getBlock(blockNumber)).timestamp)
+        }
+        return timestamps.get(blockNumber)!
+    }
+
+    for (let start = cache.lastIndexedBlock + 1; start <= toBlock; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, toBlock)
+        const logs = await rGStaking.provider.getLogs({ address: rGStaking.address, fromBlock: start, toBlock: end })
+
+        let eventCount = 0
+        for (const log of logs) {
+            let parsed
+            try {
+                parsed = rGStaking.interface.parseLog(log)
+            } catch (e) {
+                continue // Not an RGStaking event, e.g. emitted by a proxy
+            }
+            if (!INDEXED_EVENTS.includes(parsed.name as IndexedEventName)) continue
+
+            cache.events.push({
+                name: parsed.name as IndexedEventName,
+                account: parsed.args[0],
+                amount: parsed.args[1].toString(),
+                ...(parsed.name === "RewardsCompounded" && { assets: parsed.args[2].toString() }),
+                ...(parsed.name === "EmergencyWithdrawn" && { rewards: parsed.args[2].toString() }),
+                blockNumber: log.blockNumber,
+                timestamp: await getTimestamp(log.blockNumber),
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex,
+            })
+            eventCount++
+        }
+
+        cache.lastIndexedBlock = end
+        fs.outputJSONSync(cacheFile, cache, { spaces: 2 })
+        onChunk?.(start, end, eventCount)
+    }
+
+    return cache
+}
+
+/**
+ * Replays the indexed events into a history per account, ordered by block and log index.
+ */
+export const buildAccountHistories = (events: IndexedEvent[]): { [account: string]: AccountHistory } => {
+    const histories: { [account: string]: AccountHistory } = {}
+    const sorted = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+    for (const event of sorted) {
+        // Penalties and forfeits only move tokens into the reward pool, the redemption or claim itself is another event
+        const poolEvents: IndexedEventName[] = [
+            "RewardPoolInitialized",
+            "RewardPoolToppedUp",
+            "EarlyExitPenaltyPaid",
+            "VestingRewardsForfeited",
+            "RewardPoolWithdrawn",
+        ]
+        if (poolEvents.includes(event.name)) continue
+
+        const history = (histories[event.account] ??= {
+            account: event.account,
+            assetsBought: BigNumber.from(0),
+            assetsRedeemed: BigNumber.from(0),
+            assetBalance: BigNumber.from(0),
+            rewardsClaimed: BigNumber.from(0),
+            entries: [],
+        })
+
+        let action: StatementEntry["action"]
+        if (event.name === "AssetsBought") {
+            action = "buy"
+            history.assetsBought = history.assetsBought.add(event.amount)
+            history.assetBalance = history.assetBalance.add(event.amount)
+        } else if (event.name === "RewardsCompounded") {
+            action = "compound"
+            history.assetsBought = history.assetsBought.add(event.assets!)
+            history.assetBalance = history.assetBalance.add(event.assets!)
+        } else if (event.name === "AssetsRedeemed" || event.name === "EmergencyWithdrawn") {
+            action = event.name === "AssetsRedeemed" ? "redeem" : "emergencyWithdraw"
+            history.assetsRedeemed = history.assetsRedeemed.add(event.amount)
+            history.assetBalance = history.assetBalance.sub(event.amount)
+        } else {
+            action = "claim"
+            history.rewardsClaimed = history.rewardsClaimed.add(event.amount)
+        }
+
+        history.entries.push({
+            blockNumber: event.blockNumber,
+            timestamp: event.timestamp,
+            transactionHash: event.transactionHash,
+            action,
+            assets: action === "claim" ? "0" : action === "compound" ? event.assets! : event.amount,
+            rewards: action === "claim" || action === "compound" ? event.amount : event.rewards ?? "0",
+            assetBalance: history.assetBalance.toString(),
+            totalRewardsClaimed: history.rewardsClaimed.toString(),
+        })
+    }
+
+    return histories
+}
+
+/**
+ * Checks the indexed events against the on-chain `totalRewardPool`. Everything funded into the pool is either still in
+ * the pool, claimed, compounded into assets, or credited to an account and waiting to be claimed. Claimed rewards
+ * include those still vesting, and the vesting rewards forfeited by accelerating go back to the pool. So do the
+ * credited rewards forfeited by emergency withdrawals, which no longer wait to be claimed.
+ * Early-exit penalties only fund the pool when the staking token is the reward token.
+ */
+export const reconcile = (
+    events: IndexedEvent[],
+    totalRewardPool: BigNumber,
+    penaltiesFundRewardPool: boolean = true
+): Reconciliation => {
+    const sum = (name: IndexedEventName) =>
+        events
+            .filter((event) => event.name === name)
+            .reduce((total, event) => total.add(event.amount), BigNumber.from(0))
+    // Caches indexed before the forfeits were recorded count them as zero, on both sides of the balance
+    const rewardsForfeited = events
+        .filter((event) => event.name === "EmergencyWithdrawn")
+        .reduce((total, event) => total.add(event.rewards ?? 0), BigNumber.from(0))
+
+    const rewardPoolFunded = sum("RewardPoolInitialized")
+        .add(sum("RewardPoolToppedUp"))
+        .add(penaltiesFundRewardPool ? sum("EarlyExitPenaltyPaid") : 0)
+        .add(sum("VestingRewardsForfeited"))
+        .add(rewardsForfeited)
+        .sub(sum("RewardPoolWithdrawn"))
+    const rewardsClaimed = sum("RewardsClaimed")
+    const rewardsCompounded = sum("RewardsCompounded")
+    const assetsCompounded = events
+        .filter((event) => event.name === "RewardsCompounded")
+        .reduce((total, event) => total.add(event.assets!), BigNumber.from(0))
+
+    return {
+        rewardPoolFunded,
+        rewardsClaimed,
+        rewardsCompounded,
+        rewardsForfeited,
+        totalRewardPool,
+        // Before initialization the contract reports the configured pool size although nothing was funded yet
+        rewardsSettledUnclaimed: rewardPoolFunded.isZero()
+            ? BigNumber.from(0)
+            : rewardPoolFunded.sub(totalRewardPool).sub(rewardsClaimed).sub(rewardsCompounded).sub(rewardsForfeited),
+        assetsOutstanding: sum("AssetsBought")
+            .add(assetsCompounded)
+            .sub(sum("AssetsRedeemed"))
+            .sub(sum("EmergencyWithdrawn")),
+    }
+}
+
+const UINT256_MODULUS = BigNumber.from(2).pow(256)
+
+/**
+ * Returns what a total that the contract only counts since an upgrade was at the time of the upgrade, given the
+ * `total` reconciled from the events and the change `tracked` that the contract counted, both as of the same block.
+ * The counted change wraps around below zero, and so does the result.
+ */
+export const untrackedAmount = (total: BigNumberish, tracked: BigNumber): BigNumber =>
+    BigNumber.from(total).sub(tracked).mod(UINT256_MODULUS)
+
+const STATEMENT_COLUMNS: (keyof StatementEntry)[] = [
+    "blockNumber",
+    "timestamp",
+    "transactionHash",
+    "action",
+    "assets",
+    "rewards",
+    "assetBalance",
+    "totalRewardsClaimed",
+]
+
+export const statementToCsv = (history: AccountHistory): string =>
+    [STATEMENT_COLUMNS.join(","), ...history.entries.map((entry) => STATEMENT_COLUMNS.map((c) => entry[c]).join(","))]
+        .join("\n")
+        .concat("\n")
+
+/**
+ * Writes one statement file per account to `outDir` and returns the written paths.
+ */
+export const exportStatements = (histories: AccountHistory[], outDir: string, format: "csv" | "json"): string[] =>
+    histories.map((history) => {
+        const file = path.resolve(outDir, `${history.account}.${format}`)
+
+        if (format === "csv") {
+            fs.outputFileSync(file, statementToCsv(history))
+        } else {
+            fs.outputJSONSync(
+                file,
+                {
+                    account: history.account,
+                    assetsBought: history.assetsBought.toString(),
+                    assetsRedeemed: history.assetsRedeemed.toString(),
+                    assetBalance: history.assetBalance.toString(),
+                    rewardsClaimed: history.rewardsClaimed.toString(),
+                    entries: history.entries,
+                },
+                { spaces: 2 }
+            )
+        }
+
+        return file
+    })
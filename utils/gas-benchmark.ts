@@ -0,0 +1,162 @@
+import { ContractTransaction } from "ethers"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { RGStaking, RGToken } from "../typechain"
+
+/**
+ * Gas used by the RGStaking entry points in fixed scenarios, measured on the hardhat network and compared with a
+ * committed baseline, so changes to the contract that make staking more expensive are caught in review.
+ */
+
+// Allowed increase over the baseline: the larger of `percent` of the baseline and `gas`
+export type GasTolerance = { percent: number; gas: number }
+
+export type GasBaseline = {
+    tolerance: GasTolerance
+    scenarios: { [scenario: string]: { gasUsed: number; tolerance?: Partial<GasTolerance> } }
+}
+
+export type GasMeasurements = { [scenario: string]: number }
+
+export type GasComparison = {
+    scenario: string
+    baseline?: number
+    measured?: number
+    allowed?: number
+    status: "ok" | "regression" | "improvement" | "new" | "missing"
+}
+
+export const DEFAULT_GAS_TOLERANCE: GasTolerance = { percent: 1, gas: 100 }
+
+/**
+ * Runs the scenarios on a fresh deployment whose reward pool isn't initialized yet, in order: the admin initializes the
+ * pool, a staker stakes, stakes again, claims, redeems part and then the rest of its assets, and a whale stakes enough
+ * to deplete the pool and claims what is left of it. Days pass between the steps so rewards accrue.
+ */
+export const measureGasScenarios = async (
+    hre: HardhatRuntimeEnvironment,
+    { rGToken, rGStaking }: { rGToken: RGToken; rGStaking: RGStaking }
+): Promise<GasMeasurements> => {
+    const { ethers } = hre
+    const { deployer, admin } = await hre.getNamedAccounts()
+    const [, staker, whale] = await ethers.getSigners()
+    const holder = rGToken.connect(await ethers.getSigner(deployer))
+    const adminSigner = await ethers.getSigner(admin)
+    const assetPrice = await rGStaking.assetPrice()
+
+    if (await rGStaking.isRewardPoolInitialized()) {
+        throw new Error("The gas scenarios need a deployment whose reward pool isn't initialized")
+    }
+
+    const measurements: GasMeasurements = {}
+    const measure = async (scenario: string, send: () => Promise<ContractTransaction>) => {
+        const receipt = await (await send()).wait(1)
+        measurements[scenario] = receipt.gasUsed.toNumber()
+    }
+    const waitDays = async (days: number) => {
+        await hre.network.provider.send("evm_increaseTime", [days * 86_400])
+        await hre.network.provider.send("evm_mine")
+    }
+
+    const rewardPool = await rGStaking.totalRewardPool()
+    if (admin !== deployer) await (await holder.transfer(admin, rewardPool)).wait(1)
+    await (await rGToken.connect(adminSigner).approve(rGStaking.address, rewardPool)).wait(1)
+    await measure("initializeRewardPool", () => rGStaking.connect(adminSigner).initializeRewardPool())
+
+    // Enough for the whale's purchase to pay more than the pool holds in rewards within 30 days
+    const dailyRewardsPerAsset = await rGStaking.dailyRewardsPerAsset()
+    const whaleAssets = rewardPool.mul(10).div(dailyRewardsPerAsset).div(30)
+    for (const [signer, assets] of [
+        [staker, 20],
+        [whale, whaleAssets.toNumber()],
+    ] as const) {
+        await (await holder.transfer(signer.address, assetPrice.mul(assets))).wait(1)
+        await (await rGToken.connect(signer).approve(rGStaking.address, ethers.constants.MaxUint256)).wait(1)
+    }
+
+    const asStaker = rGStaking.connect(staker)
+    await measure("buyAssets: first stake", () => asStaker.buyAssets(10))
+    await waitDays(1)
+    await measure("buyAssets: repeat stake", () => asStaker.buyAssets(10))
+    await waitDays(1)
+    await measure("claimRewards", () => asStaker.claimRewards())
+    await waitDays(1)
+    await measure("redeemAssets: partial", () => asStaker.redeemAssets(5))
+    await waitDays(1)
+    await measure("redeemAssets: full", () => asStaker.redeemAssets(15))
+
+    const asWhale = rGStaking.connect(whale)
+    await (await asWhale.buyAssets(whaleAssets)).wait(1)
+    await waitDays(30)
+    await measure("claimRewards: after depletion", () => asWhale.claimRewards())
+
+    return measurements
+}
+
+/**
+ * Compares measurements with the baseline. Scenarios that got more expensive than their tolerance allows are
+ * regressions, ones that got cheaper by more than it are improvements worth recording with a new baseline.
+ */
+export const compareGas = (
+    baseline: GasBaseline,
+    measured: GasMeasurements,
+    tolerance: Partial<GasTolerance> = {}
+): GasComparison[] => {
+    const scenarios = [...new Set([...Object.keys(baseline.scenarios), ...Object.keys(measured)])]
+
+    return scenarios.map((scenario) => {
+        const expected = baseline.scenarios[scenario]
+        const gasUsed = measured[scenario]
+        if (!expected) return { scenario, measured: gasUsed, status: "new" }
+        if (gasUsed === undefined) return { scenario, baseline: expected.gasUsed, status: "missing" }
+
+        const { percent, gas } = { ...baseline.tolerance, ...expected.tolerance, ...tolerance }
+        const allowed = Math.max(Math.floor((expected.gasUsed * percent) / 100), gas)
+        const diff = gasUsed - expected.gasUsed
+        return {
+            scenario,
+            baseline: expected.gasUsed,
+            measured: gasUsed,
+            allowed,
+            status: diff > allowed ? "regression" : -diff > allowed ? "improvement" : "ok",
+        }
+    })
+}
+
+export const formatGasDiff = (baseline: number, measured: number) => {
+    const diff = measured - baseline
+    const sign = diff > 0 ? "+" : ""
+    return `${sign}${diff} gas, ${sign}${((diff * 100) / baseline).toFixed(2)}%`
+}
+
+/**
+ * Describes the comparisons that should fail a check: regressions and scenarios missing from either side.
+ */
+export const describeGasFailures = (comparisons: GasComparison[]) =>
+    comparisons
+        .filter(({ status }) => ["regression", "new", "missing"].includes(status))
+        .map(({ scenario, baseline, measured, allowed, status }) =>
+            status === "new"
+                ? `${scenario}: not in the baseline, measured ${measured} gas`
+                : status === "missing"
+                ? `${scenario}: in the baseline but not measured anymore`
+                : `${scenario}: ${baseline} -> ${measured} gas (${formatGasDiff(baseline!, measured!)}), ` +
+                  `${allowed} allowed`
+        )
+
+/**
+ * The baseline of the measurements, keeping the tolerances of the previous baseline.
+ */
+export const buildGasBaseline = (measured: GasMeasurements, previous?: GasBaseline): GasBaseline => ({
+    tolerance: previous?.tolerance ?? DEFAULT_GAS_TOLERANCE,
+    scenarios: Object.fromEntries(
+        Object.entries(measured).map(([scenario, gasUsed]) => [
+            scenario,
+            {
+                gasUsed,
+                ...(previous?.scenarios[scenario]?.tolerance && { tolerance: previous.scenarios[scenario].tolerance }),
+            },
+        ])
+    ),
+})
@@ -0,0 +1,168 @@
+import {
+    BigNumber,
+    BigNumberish,
+    ContractTransaction,
+    Signer,
+    TypedDataDomain,
+    TypedDataField,
+    Wallet,
+    utils,
+} from "ethers"
+
+import { RGStaking, RGToken } from "../typechain"
+
+/**
+ * Signs and submits gasless staking operations: ERC-2612 permits for RGToken and EIP-712 intents for RGStaking.
+ *
+ * Signed permits and intents are plain JSON objects, so they can be sent to a relayer, which submits them and pays for
+ * the gas. See `utils/relayer.ts`.
+ */
+
+export type TypedDataSigner = Signer & Pick<Wallet, "_signTypedData">
+
+export type IntentAction = "buy" | "redeem" | "claim"
+
+export type SignedIntent = {
+    action: IntentAction
+    user: string
+    amountOfAssets: string
+    nonce: string
+    deadline: string
+    signature: string
+}
+
+export type SignedPermit = {
+    owner: string
+    spender: string
+    value: string
+    deadline: string
+    v: number
+    r: string
+    s: string
+}
+
+const INTENT_TYPES: { [action in IntentAction]: { [name: string]: TypedDataField[] } } = {
+    buy: {
+        BuyAssets: [
+            { name: "user", type: "address" },
+            { name: "amountOfAssets", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    },
+    redeem: {
+        RedeemAssets: [
+            { name: "user", type: "address" },
+            { name: "amountOfAssets", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    },
+    claim: {
+        ClaimRewards: [
+            { name: "user", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+        ],
+    },
+}
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+}
+
+export const isIntentAction = (action: string): action is IntentAction => action in INTENT_TYPES
+
+export const getIntentDomain = async (rGStaking: RGStaking): Promise<TypedDataDomain> => ({
+    name: "RGStaking",
+    version: "1",
+    chainId: (await rGStaking.provider.getNetwork()).chainId,
+    verifyingContract: rGStaking.address,
+})
+
+/**
+ * Signs an intent for `signer` using its current nonce. `amountOfAssets` is ignored for claims.
+ * The intent is invalidated by any other intent of the same user executed before it.
+ */
+export const signIntent = async (
+    rGStaking: RGStaking,
+    signer: TypedDataSigner,
+    action: IntentAction,
+    amountOfAssets: BigNumberish,
+    deadline: BigNumberish
+): Promise<SignedIntent> => {
+    const user = await signer.getAddress()
+    const message = {
+        user,
+        amountOfAssets: action === "claim" ? "0" : BigNumber.from(amountOfAssets).toString(),
+        nonce: (await rGStaking.nonces(user)).toString(),
+        deadline: BigNumber.from(deadline).toString(),
+    }
+
+    // ethers ignores message fields that aren't part of the signed type, like `amountOfAssets` of claims
+    const signature = await signer._signTypedData(await getIntentDomain(rGStaking), INTENT_TYPES[action], message)
+
+    return { action, ...message, signature }
+}
+
+/**
+ * Signs an ERC-2612 permit allowing `spender` to spend `value` of the signer's RGT.
+ */
+export const signPermit = async (
+    rGToken: RGToken,
+    signer: TypedDataSigner,
+    spender: string,
+    value: BigNumberish,
+    deadline: BigNumberish
+): Promise<SignedPermit> => {
+    const owner = await signer.getAddress()
+    const domain = {
+        name: await rGToken.name(),
+        version: "1",
+        chainId: (await rGToken.provider.getNetwork()).chainId,
+        verifyingContract: rGToken.address,
+    }
+    const message = {
+        owner,
+        spender,
+        value: BigNumber.from(value).toString(),
+        nonce: (await rGToken.nonces(owner)).toString(),
+        deadline: BigNumber.from(deadline).toString(),
+    }
+
+    const signature = await signer._signTypedData(domain, PERMIT_TYPES, message)
+    const { v, r, s } = utils.splitSignature(signature)
+
+    return { owner, spender, value: message.value, deadline: message.deadline, v, r, s }
+}
+
+/**
+ * Submits a signed intent from whichever signer `rGStaking` is connected to.
+ */
+export const submitIntent = (rGStaking: RGStaking, intent: SignedIntent): Promise<ContractTransaction> => {
+    const { action, user, amountOfAssets, deadline, signature } = intent
+
+    switch (action) {
+        case "buy":
+            return rGStaking.buyAssetsBySig(user, amountOfAssets, deadline, signature)
+        case "redeem":
+            return rGStaking.redeemAssetsBySig(user, amountOfAssets, deadline, signature)
+        case "claim":
+            return rGStaking.claimRewardsBySig(user, deadline, signature)
+    }
+}
+
+/**
+ * Submits a signed permit from whichever signer `rGToken` is connected to.
+ */
+export const submitPermit = (rGToken: RGToken, permit: SignedPermit): Promise<ContractTransaction> => {
+    const { owner, spender, value, deadline, v, r, s } = permit
+
+    return rGToken.permit(owner, spender, value, deadline, v, r, s)
+}
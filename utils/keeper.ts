@@ -0,0 +1,94 @@
+import { BigNumber } from "ethers"
+
+import { RGStaking } from "../typechain"
+
+/**
+ * Auto-compounding for the accounts that opted in with `setAutoCompound`: find them from their AutoCompoundSet events,
+ * keep the ones whose rewards buy at least one asset and compound those in batches with `compoundRewardsFor`.
+ */
+
+// The most accounts RGStaking compounds in one `compoundRewardsFor` call
+export const MAX_COMPOUND_BATCH = 100
+
+export type CompoundableAccount = {
+    account: string
+    assets: BigNumber
+}
+
+export type CompoundBatchResult = {
+    transactionHash: string
+    accounts: string[]
+    compounded: number
+    gasUsed: BigNumber
+}
+
+/**
+ * Replays the AutoCompoundSet events between `fromBlock` and `toBlock` (inclusive) onto `optedIn`, so a keeper can
+ * carry the set over and only scan new blocks on its next round.
+ */
+export const collectAutoCompoundingAccounts = async (
+    rGStaking: RGStaking,
+    {
+        fromBlock,
+        toBlock,
+        chunkSize = 2_000,
+        optedIn = new Set<string>(),
+    }: { fromBlock: number; toBlock: number; chunkSize?: number; optedIn?: Set<string> }
+): Promise<Set<string>> => {
+    for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, toBlock)
+        for (const { args } of await rGStaking.queryFilter(rGStaking.filters.AutoCompoundSet(), start, end)) {
+            if (args.enabled) optedIn.add(args.user)
+            else optedIn.delete(args.user)
+        }
+    }
+    return optedIn
+}
+
+/**
+ * Returns the accounts whose rewards buy at least one asset right now, with the assets they'd buy.
+ */
+export const findCompoundableAccounts = async (
+    rGStaking: RGStaking,
+    accounts: Iterable<string>
+): Promise<CompoundableAccount[]> => {
+    const compoundable: CompoundableAccount[] = []
+    for (const account of accounts) {
+        const assets = await rGStaking.compoundableAssets(account)
+        if (assets.gt(0)) compoundable.push({ account, assets })
+    }
+    return compoundable
+}
+
+/**
+ * Compounds the accounts with one `compoundRewardsFor` transaction per `batchSize` accounts, from the signer
+ * `rGStaking` is connected to.
+ */
+export const compoundInBatches = async (
+    rGStaking: RGStaking,
+    accounts: string[],
+    batchSize: number = MAX_COMPOUND_BATCH
+): Promise<CompoundBatchResult[]> => {
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_COMPOUND_BATCH) {
+        throw new Error(`The batch size must be between 1 and ${MAX_COMPOUND_BATCH}, got ${batchSize}`)
+    }
+
+    const results: CompoundBatchResult[] = []
+    for (let i = 0; i < accounts.length; i += batchSize) {
+        const batch = accounts.slice(i, i + batchSize)
+        const receipt = await (await rGStaking.compoundRewardsFor(batch)).wait(1)
+        const compounded = receipt.logs.filter(
+            (log) =>
+                log.address === rGStaking.address &&
+                log.topics[0] === rGStaking.interface.getEventTopic("RewardsCompounded")
+        ).length
+
+        results.push({
+            transactionHash: receipt.transactionHash,
+            accounts: batch,
+            compounded,
+            gasUsed: receipt.gasUsed,
+        })
+    }
+    return results
+}
@@ -0,0 +1,146 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { concat, defaultAbiCoder, getAddress, keccak256 } from "ethers/lib/utils"
+
+import { RGStaking } from "../typechain"
+
+/**
+ * Off-chain rewards for stakers, paid by RGMerkleDistributor: snapshot every staker at a block, turn the snapshot into
+ * allocations with a formula, and commit to the allocations with a Merkle tree whose proofs the stakers claim with.
+ */
+
+export type StakerSnapshot = {
+    account: string
+    assetBalance: BigNumber
+    rewardsClaimable: BigNumber
+}
+
+export type Allocation = {
+    account: string
+    amount: BigNumber
+}
+
+// Decides the allocation of a staker, given the whole snapshot for formulas that share a fixed amount
+export type AllocationFormula = (staker: StakerSnapshot, snapshot: StakerSnapshot[]) => BigNumber
+
+export type MerkleAirdrop = {
+    merkleRoot: string
+    // Sum of the allocations, i.e. the amount the distribution must be funded with
+    totalAmount: string
+    claims: { [account: string]: { amount: string; proof: string[] } }
+}
+
+/**
+ * Snapshots the asset balance and claimable rewards of every account that ever bought assets, as of `blockNumber`.
+ */
+export const snapshotStakers = async (
+    rGStaking: RGStaking,
+    { fromBlock, blockNumber, chunkSize = 2_000 }: { fromBlock: number; blockNumber: number; chunkSize?: number }
+): Promise<StakerSnapshot[]> => {
+    const accounts = new Set<string>()
+    for (let start = fromBlock; start <= blockNumber; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, blockNumber)
+        for (const { args } of await rGStaking.queryFilter(rGStaking.filters.AssetsBought(), start, end)) {
+            accounts.add(args.user)
+        }
+    }
+
+    const snapshot: StakerSnapshot[] = []
+    for (const account of [...accounts].sort()) {
+        snapshot.push({
+            account,
+            assetBalance: await rGStaking.assetBalance(account, { blockTag: blockNumber }),
+            rewardsClaimable: await rGStaking.currentRewardsClaimable(account, { blockTag: blockNumber }),
+        })
+    }
+    return snapshot
+}
+
+const sum = (amounts: BigNumber[]) => amounts.reduce((total, amount) => total.add(amount), BigNumber.from(0))
+
+export const allocationFormulas = {
+    // A fixed amount per asset held
+    perAsset:
+        (amountPerAsset: BigNumberish): AllocationFormula =>
+        ({ assetBalance }) =>
+            assetBalance.mul(amountPerAsset),
+
+    // A share of the claimable rewards in basis points, e.g. 10_000 matches them 1:1
+    rewardsMatch:
+        (bps: BigNumberish): AllocationFormula =>
+        ({ rewardsClaimable }) =>
+            rewardsClaimable.mul(bps).div(10_000),
+
+    // Splits `totalAmount` in proportion to the assets or the claimable rewards. Rounding dust isn't allocated.
+    proRata:
+        (totalAmount: BigNumberish, weight: "assets" | "rewards"): AllocationFormula =>
+        (staker, snapshot) => {
+            const weightOf = (item: StakerSnapshot) => (weight === "assets" ? item.assetBalance : item.rewardsClaimable)
+            const totalWeight = sum(snapshot.map(weightOf))
+            return totalWeight.isZero() ? BigNumber.from(0) : weightOf(staker).mul(totalAmount).div(totalWeight)
+        },
+}
+
+/**
+ * Applies the formula to every staker of the snapshot. Stakers allocated nothing are left out.
+ */
+export const allocate = (snapshot: StakerSnapshot[], formula: AllocationFormula): Allocation[] =>
+    snapshot
+        .map((staker) => ({ account: staker.account, amount: formula(staker, snapshot) }))
+        .filter(({ amount }) => amount.gt(0))
+
+// Leaves are double hashed like OpenZeppelin's StandardMerkleTree, see `RGMerkleDistributor.claim`
+export const hashLeaf = (account: string, amount: BigNumberish) =>
+    keccak256(keccak256(defaultAbiCoder.encode(["address", "uint256"], [account, amount])))
+
+// Pairs are sorted before hashing, like OpenZeppelin's MerkleProof expects
+const hashPair = (a: string, b: string) => keccak256(concat(a < b ? [a, b] : [b, a]))
+
+/**
+ * Builds the Merkle tree of the allocations and the proof of every account.
+ */
+export const buildMerkleAirdrop = (allocations: Allocation[]): MerkleAirdrop => {
+    if (allocations.length === 0) throw new Error("Nothing to airdrop: no account was allocated anything")
+
+    const accounts = allocations.map(({ account }) => getAddress(account))
+    const duplicate = accounts.find((account, index) => accounts.indexOf(account) !== index)
+    if (duplicate) throw new Error(`${duplicate} is allocated twice`)
+
+    const leaves = allocations.map(({ account, amount }) => ({ account: getAddress(account), amount, hash: "" }))
+    leaves.forEach((leaf) => (leaf.hash = hashLeaf(leaf.account, leaf.amount)))
+    leaves.sort((a, b) => (a.hash < b.hash ? -1 : 1))
+
+    const layers = [leaves.map(({ hash }) => hash)]
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1]
+        const next: string[] = []
+        for (let i = 0; i < layer.length; i += 2) {
+            // The last node of an odd layer moves up unchanged
+            next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i])
+        }
+        layers.push(next)
+    }
+
+    const claims: MerkleAirdrop["claims"] = {}
+    leaves.forEach(({ account, amount }, leafIndex) => {
+        const proof: string[] = []
+        let index = leafIndex
+        for (const layer of layers.slice(0, -1)) {
+            const sibling = index ^ 1
+            if (sibling < layer.length) proof.push(layer[sibling])
+            index >>= 1
+        }
+        claims[account] = { amount: amount.toString(), proof }
+    })
+
+    return {
+        merkleRoot: layers[layers.length - 1][0],
+        totalAmount: sum(allocations.map(({ amount }) => amount)).toString(),
+        claims,
+    }
+}
+
+/**
+ * Checks a proof off-chain the same way RGMerkleDistributor does.
+ */
+export const verifyMerkleProof = (merkleRoot: string, account: string, amount: BigNumberish, proof: string[]) =>
+    proof.reduce(hashPair, hashLeaf(account, amount)) === merkleRoot
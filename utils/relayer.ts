@@ -0,0 +1,119 @@
+import http from "http"
+
+import { RGStaking, RGToken } from "../typechain"
+import { SignedIntent, SignedPermit, isIntentAction, submitIntent, submitPermit } from "./intents"
+
+/**
+ * A minimal HTTP relayer that submits signed intents, paying for the gas with the signer the contracts are connected
+ * to. `POST /intents` takes `{ intent, permit? }`: the optional permit is submitted first, e.g. to approve the tokens
+ * of a buy intent. It responds with the transaction hashes, or with a 400 and the revert reason.
+ */
+
+export type RelayRequest = {
+    intent: SignedIntent
+    permit?: SignedPermit
+}
+
+export type RelayResponse = {
+    permitTransactionHash?: string
+    transactionHash: string
+}
+
+const readBody = (request: http.IncomingMessage): Promise<string> =>
+    new Promise((resolve, reject) => {
+        let body = ""
+        request.on("data", (chunk) => (body += chunk))
+        request.on("end", () => resolve(body))
+        request.on("error", reject)
+    })
+
+const parseRelayRequest = (body: string): RelayRequest => {
+    const request = JSON.parse(body)
+    if (!request?.intent || !isIntentAction(request.intent.action)) {
+        throw new Error('Expected { intent, permit? } with intent.action "buy", "redeem" or "claim"')
+    }
+
+    return request
+}
+
+/**
+ * Returns the revert reason of a failed call, decoding RGStaking custom errors when possible.
+ */
+export const describeError = (rGStaking: RGStaking, error: any): string => {
+    const data = error?.error?.data?.data ?? error?.error?.data ?? error?.data
+    if (typeof data === "string") {
+        try {
+            const { name, args } = rGStaking.interface.parseError(data)
+            return `${name}(${args.map((arg) => arg.toString()).join(", ")})`
+        } catch (e) {
+            // Not an RGStaking error
+        }
+    }
+
+    return error?.reason ?? error?.message ?? String(error)
+}
+
+/**
+ * Submits the permit, if any, and the intent, waiting for both to be mined.
+ */
+export const relay = async (
+    rGStaking: RGStaking,
+    rGToken: RGToken,
+    { intent, permit }: RelayRequest
+): Promise<RelayResponse> => {
+    let permitTransactionHash: string | undefined
+    if (permit) {
+        const permitTx = await submitPermit(rGToken, permit)
+        permitTransactionHash = (await permitTx.wait()).transactionHash
+    }
+
+    const tx = await submitIntent(rGStaking, intent)
+    const { transactionHash } = await tx.wait()
+
+    return { permitTransactionHash, transactionHash }
+}
+
+export const createRelayerServer = (rGStaking: RGStaking, rGToken: RGToken): http.Server =>
+    http.createServer(async (request, response) => {
+        const send = (status: number, body: object) => {
+            response.writeHead(status, { "Content-Type": "application/json" })
+            response.end(JSON.stringify(body))
+        }
+
+        if (request.method !== "POST" || request.url !== "/intents") {
+            send(404, { error: "Only POST /intents is supported" })
+            return
+        }
+
+        let relayRequest: RelayRequest
+        try {
+            relayRequest = parseRelayRequest(await readBody(request))
+        } catch (error: any) {
+            send(400, { error: error.message })
+            return
+        }
+
+        try {
+            send(200, await relay(rGStaking, rGToken, relayRequest))
+        } catch (error) {
+            send(400, { error: describeError(rGStaking, error) })
+        }
+    })
+
+/**
+ * Posts a relay request to a relayer started with `createRelayerServer` and returns its response.
+ */
+export const postToRelayer = (url: string, relayRequest: RelayRequest): Promise<RelayResponse> =>
+    new Promise((resolve, reject) => {
+        const request = http.request(
+            new URL("/intents", url),
+            { method: "POST", headers: { "Content-Type": "application/json" } },
+            async (response) => {
+                const body = JSON.parse(await readBody(response))
+                if (response.statusCode === 200) resolve(body)
+                else reject(new Error(`Relayer rejected the intent: ${body.error}`))
+            }
+        )
+        request.on("error", reject)
+        request.end(JSON.stringify(relayRequest))
+    })
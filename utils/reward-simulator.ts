@@ -0,0 +1,324 @@
+import { BigNumber, BigNumberish, utils } from "ethers"
+
+/**
+ * Off-chain mirror of the reward accounting in RGStaking.sol.
+ *
+ * All arithmetic is done on BigNumbers with the same operation order as the contract, so integer division by `1 days`
+ * and the reward pool clamp produce results that match the chain to the wei.
+ */
+
+const ONE_TOKEN = utils.parseUnits("1", 18)
+export const INITIAL_DAILY_REWARDS_PER_ASSET = ONE_TOKEN.div(10)
+export const TOKENS_PER_ASSET = ONE_TOKEN.mul(10)
+export const DEFAULT_REWARD_POOL = ONE_TOKEN.mul(10_000)
+export const SECONDS_PER_DAY = 86_400
+
+/**
+ * Owner actions (`setRate`, `topUp`) take human RGT amounts and are sent by the owner, so they have no `account`.
+ */
+export type SimulationEvent =
+    | { type: "buy"; account: string; at: number; assets: BigNumberish }
+    | { type: "redeem"; account: string; at: number; assets: BigNumberish }
+    | { type: "claim"; account: string; at: number }
+    | { type: "setRate"; account?: undefined; at: number; dailyRewardsPerAsset: string }
+    | { type: "topUp"; account?: undefined; at: number; amount: string }
+
+/**
+ * A scenario as read from JSON. `at` is the number of seconds since the start of the scenario and `totalRewardPool`
+ * is a human RGT amount.
+ */
+export type Scenario = {
+    totalRewardPool?: string
+    endAt?: number
+    events: SimulationEvent[]
+}
+
+export type AccountReport = {
+    assets: BigNumber
+    rewards: BigNumber
+    lastUpdateTime: number
+    claimed: BigNumber
+    currentRewardsClaimable: BigNumber
+}
+
+export type EventResult = {
+    event: SimulationEvent
+    timestamp: number
+    revertedWith?: string
+    rewardsClaimed?: BigNumber
+    totalRewardPool: BigNumber
+}
+
+export type SimulationReport = {
+    startTimestamp: number
+    endTimestamp: number
+    accounts: { [account: string]: AccountReport }
+    events: EventResult[]
+    totalRewardPool: BigNumber
+    depletionTimestamp?: number
+}
+
+export type RateCheckpoint = {
+    startTime: number
+    dailyRewardsPerAsset: BigNumber
+}
+
+type UserData = {
+    assets: BigNumber
+    rewards: BigNumber
+    lastUpdateTime: number
+}
+
+/**
+ * Thrown for operations the contract would revert. The message is the name of the contract's custom error.
+ */
+export class SimulatedRevert extends Error {}
+
+export class RewardSimulator {
+    private readonly users = new Map<string, UserData>()
+    private readonly claimed = new Map<string, BigNumber>()
+    private readonly rateCheckpoints: RateCheckpoint[]
+    private depletedAt?: number
+
+    constructor(public totalRewardPool: BigNumber = DEFAULT_REWARD_POOL, deployedAt: number = 0) {
+        this.rateCheckpoints = [{ startTime: deployedAt, dailyRewardsPerAsset: INITIAL_DAILY_REWARDS_PER_ASSET }]
+    }
+
+    private getUserData(account: string): UserData {
+        let userData = this.users.get(account)
+        if (!userData) {
+            userData = { assets: BigNumber.from(0), rewards: BigNumber.from(0), lastUpdateTime: 0 }
+            this.users.set(account, userData)
+        }
+        return userData
+    }
+
+    /**
+     * Rewards accrued since the last update of the account, before the reward pool clamp.
+     */
+    private accruedRewards(account: string, timestamp: number): BigNumber {
+        const userData = this.getUserData(account)
+        let additionalRewards = BigNumber.from(0)
+        if (userData.assets.isZero()) return additionalRewards
+
+        let periodEnd = timestamp
+        for (let i = this.rateCheckpoints.length; i > 0; i--) {
+            const checkpoint = this.rateCheckpoints[i - 1]
+            const periodStart = Math.max(checkpoint.startTime, userData.lastUpdateTime)
+
+            additionalRewards = additionalRewards.add(
+                BigNumber.from(periodEnd - periodStart)
+                    .mul(userData.assets)
+                    .mul(checkpoint.dailyRewardsPerAsset)
+                    .div(SECONDS_PER_DAY)
+            )
+
+            if (periodStart === userData.lastUpdateTime) break
+            periodEnd = periodStart
+        }
+
+        return additionalRewards
+    }
+
+    /**
+     * Mirrors `calculateAdditionalRewards`.
+     */
+    calculateAdditionalRewards(account: string, timestamp: number): BigNumber {
+        const additionalRewards = this.accruedRewards(account, timestamp)
+
+        return additionalRewards.lt(this.totalRewardPool) ? additionalRewards : this.totalRewardPool
+    }
+
+    /**
+     * Mirrors the `updateRewards` modifier.
+     */
+    updateRewards(account: string, timestamp: number) {
+        const additionalRewards = this.calculateAdditionalRewards(account, timestamp)
+
+        const userData = this.getUserData(account)
+        userData.lastUpdateTime = timestamp
+        userData.rewards = userData.rewards.add(additionalRewards)
+        this.totalRewardPool = this.totalRewardPool.sub(additionalRewards)
+
+        if (this.depletedAt === undefined && this.totalRewardPool.isZero()) this.depletedAt = timestamp
+    }
+
+    buyAssets(account: string, amountOfAssets: BigNumberish, timestamp: number) {
+        if (BigNumber.from(amountOfAssets).isZero()) throw new SimulatedRevert("RGStaking__ZeroAmountNotAllowed")
+
+        this.updateRewards(account, timestamp)
+        const userData = this.getUserData(account)
+        userData.assets = userData.assets.add(amountOfAssets)
+    }
+
+    redeemAssets(account: string, amountOfAssets: BigNumberish, timestamp: number) {
+        const userData = this.getUserData(account)
+
+        if (BigNumber.from(amountOfAssets).isZero()) throw new SimulatedRevert("RGStaking__ZeroAmountNotAllowed")
+        if (userData.assets.lt(amountOfAssets)) throw new SimulatedRevert("RGStaking__InsufficientAssets")
+
+        this.updateRewards(account, timestamp)
+        userData.assets = userData.assets.sub(amountOfAssets)
+    }
+
+    claimRewards(account: string, timestamp: number): BigNumber {
+        const rewards = this.getUserData(account).rewards.add(this.calculateAdditionalRewards(account, timestamp))
+        if (rewards.isZero()) throw new SimulatedRevert("RGStaking__NoRewardsForSender")
+
+        this.updateRewards(account, timestamp)
+        const userData = this.getUserData(account)
+        userData.rewards = BigNumber.from(0)
+        this.claimed.set(account, this.getClaimed(account).add(rewards))
+
+        return rewards
+    }
+
+    setDailyRewardsPerAsset(newRate: BigNumberish, timestamp: number) {
+        const latest = this.rateCheckpoints[this.rateCheckpoints.length - 1]
+
+        if (latest.startTime === timestamp) latest.dailyRewardsPerAsset = BigNumber.from(newRate)
+        else this.rateCheckpoints.push({ startTime: timestamp, dailyRewardsPerAsset: BigNumber.from(newRate) })
+    }
+
+    topUpRewardPool(amount: BigNumberish) {
+        if (BigNumber.from(amount).isZero()) throw new SimulatedRevert("RGStaking__ZeroAmountNotAllowed")
+
+        this.totalRewardPool = this.totalRewardPool.add(amount)
+        this.depletedAt = undefined
+    }
+
+    currentRewardsClaimable(account: string, timestamp: number): BigNumber {
+        return this.getUserData(account).rewards.add(this.calculateAdditionalRewards(account, timestamp))
+    }
+
+    assetBalance(account: string): BigNumber {
+        return this.getUserData(account).assets
+    }
+
+    userData(account: string): UserData {
+        return { ...this.getUserData(account) }
+    }
+
+    getClaimed(account: string): BigNumber {
+        return this.claimed.get(account) ?? BigNumber.from(0)
+    }
+
+    accounts(): string[] {
+        return [...this.users.keys()]
+    }
+
+    /**
+     * Returns the first timestamp at which the rewards accrued by all stakers cover the remaining pool, assuming
+     * nobody interacts with the contract after `fromTimestamp`. Returns undefined if nothing is staked or the current
+     * rate is zero.
+     */
+    predictDepletion(fromTimestamp: number): number | undefined {
+        if (this.depletedAt !== undefined) return this.depletedAt
+        if (this.totalRewardPool.isZero()) return fromTimestamp
+
+        const stakers = this.accounts().filter((account) => !this.getUserData(account).assets.isZero())
+        if (stakers.length === 0) return undefined
+
+        if (this.rateCheckpoints[this.rateCheckpoints.length - 1].dailyRewardsPerAsset.isZero()) return undefined
+
+        const accrued = (timestamp: number) =>
+            stakers.reduce((total, account) => total.add(this.accruedRewards(account, timestamp)), BigNumber.from(0))
+        const isDepleted = (timestamp: number) => accrued(timestamp).gte(this.totalRewardPool)
+
+        let low = fromTimestamp
+        let step = SECONDS_PER_DAY
+        while (!isDepleted(low + step)) {
+            low += step
+            step *= 2
+        }
+
+        let high = low + step
+        while (high - low > 1) {
+            const middle = Math.floor((low + high) / 2)
+            if (isDepleted(middle)) high = middle
+            else low = middle
+        }
+
+        return high
+    }
+}
+
+export const parseScenario = (json: any): Scenario => {
+    if (!json || !Array.isArray(json.events)) throw new Error("Scenario must have an `events` array.")
+
+    let previousAt = -Infinity
+    for (const event of json.events) {
+        if (!["buy", "redeem", "claim", "setRate", "topUp"].includes(event.type)) {
+            throw new Error(`Unknown event type "${event.type}".`)
+        }
+        if (!Number.isInteger(event.at) || event.at < 0) throw new Error("`at` must be a non-negative integer.")
+        if (event.at <= previousAt) throw new Error("Events must be in strictly increasing `at` order.")
+        previousAt = event.at
+
+        if (event.type === "setRate") {
+            if (typeof event.dailyRewardsPerAsset !== "string")
+                throw new Error('"setRate" needs `dailyRewardsPerAsset`.')
+        } else if (event.type === "topUp") {
+            if (typeof event.amount !== "string") throw new Error('"topUp" needs `amount`.')
+        } else {
+            if (typeof event.account !== "string") throw new Error(`"${event.type}" needs an \`account\`.`)
+            if (event.type !== "claim" && event.assets === undefined)
+                throw new Error(`"${event.type}" needs \`assets\`.`)
+        }
+    }
+
+    return json as Scenario
+}
+
+/**
+ * Runs a scenario starting at `startTimestamp` and returns the resulting state of every account, the reward pool after
+ * each event and the predicted depletion timestamp.
+ */
+export const simulate = (scenario: Scenario, startTimestamp: number = 0): SimulationReport => {
+    const totalRewardPool =
+        scenario.totalRewardPool !== undefined ? utils.parseUnits(scenario.totalRewardPool, 18) : DEFAULT_REWARD_POOL
+    const simulator = new RewardSimulator(totalRewardPool, startTimestamp)
+    const events: EventResult[] = []
+
+    for (const event of scenario.events) {
+        const timestamp = startTimestamp + event.at
+        const result: EventResult = { event, timestamp, totalRewardPool: simulator.totalRewardPool }
+
+        try {
+            if (event.type === "buy") simulator.buyAssets(event.account, event.assets, timestamp)
+            else if (event.type === "redeem") simulator.redeemAssets(event.account, event.assets, timestamp)
+            else if (event.type === "claim") result.rewardsClaimed = simulator.claimRewards(event.account, timestamp)
+            else if (event.type === "setRate") {
+                simulator.setDailyRewardsPerAsset(utils.parseUnits(event.dailyRewardsPerAsset, 18), timestamp)
+            } else simulator.topUpRewardPool(utils.parseUnits(event.amount, 18))
+        } catch (e) {
+            if (!(e instanceof SimulatedRevert)) throw e
+            result.revertedWith = e.message
+        }
+
+        result.totalRewardPool = simulator.totalRewardPool
+        events.push(result)
+    }
+
+    const lastAt = scenario.events.length > 0 ? scenario.events[scenario.events.length - 1].at : 0
+    const endTimestamp = startTimestamp + Math.max(scenario.endAt ?? 0, lastAt)
+
+    const accounts: SimulationReport["accounts"] = {}
+    for (const account of simulator.accounts()) {
+        const userData = simulator.userData(account)
+        accounts[account] = {
+            ...userData,
+            claimed: simulator.getClaimed(account),
+            currentRewardsClaimable: simulator.currentRewardsClaimable(account, endTimestamp),
+        }
+    }
+
+    return {
+        startTimestamp,
+        endTimestamp,
+        accounts,
+        events,
+        totalRewardPool: simulator.totalRewardPool,
+        depletionTimestamp: simulator.predictDepletion(lastAt + startTimestamp),
+    }
+}
@@ -0,0 +1,248 @@
+import { BigNumberish, ethers } from "ethers"
+import fs from "fs-extra"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { normalizeArg } from "./deployment-manifest"
+
+/**
+ * Batches of admin transactions for a Safe to sign instead of a single hot key, in the JSON format the Safe Transaction
+ * Builder imports, and their simulation on the hardhat network before anyone signs.
+ */
+
+export type SafeBatchTransaction = {
+    to: string
+    value: string
+    data: string
+    // Left empty so the Transaction Builder uses `data` as is instead of re-encoding it from the inputs
+    contractMethod: null
+    contractInputsValues: null
+}
+
+export type SafeBatch = {
+    version: "1.0"
+    chainId: string
+    createdAt: number
+    meta: {
+        name: string
+        description: string
+        txBuilderVersion: string
+        createdFromSafeAddress: string
+        createdFromOwnerAddress: string
+        checksum?: string
+    }
+    transactions: SafeBatchTransaction[]
+}
+
+// Contracts a batch may call, to name them and read their state
+export type BatchContracts = { [name: string]: { address: string; abi: any[] } }
+
+export type SimulatedTransaction = {
+    to: string
+    call: string
+    status: "success" | "reverted" | "skipped"
+    gasUsed?: string
+    error?: string
+}
+
+export type SimulationResult = {
+    transactions: SimulatedTransaction[]
+    // Zero-argument views of the called contracts, as "<contract>.<view>", that differ after the batch
+    changes: { key: string; before: string; after: string }[]
+    // Expectations the state after the batch doesn't meet
+    failures: string[]
+}
+
+const TX_BUILDER_VERSION = "1.16.3"
+
+// JSON.stringify drops undefined properties, the Transaction Builder hashes them as null
+const stringifyReplacer = (_: string, value: unknown) => (value === undefined ? null : value)
+
+const serialize = (json: unknown): string => {
+    if (Array.isArray(json)) return `[${json.map(serialize).join(",")}]`
+    if (typeof json === "object" && json !== null) {
+        const keys = Object.keys(json).sort()
+        return `{${JSON.stringify(keys, stringifyReplacer)}${keys
+            .map((key) => `${serialize((json as { [key: string]: unknown })[key])},`)
+            .join("")}}`
+    }
+    return JSON.stringify(json, stringifyReplacer)
+}
+
+/**
+ * Computes `meta.checksum` the way the Transaction Builder does, so it imports the batch without warning that it was
+ * changed: the keccak256 of the batch serialized with sorted keys, without the checksum and with a null name.
+ */
+export const calculateChecksum = (batch: SafeBatch) => {
+    const { checksum, ...meta } = batch.meta
+    return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(serialize({ ...batch, meta: { ...meta, name: null } })))
+}
+
+export const readSafeBatch = (file: string): SafeBatch | undefined => {
+    if (!fs.existsSync(file)) return undefined
+    return fs.readJSONSync(file)
+}
+
+/**
+ * Appends a transaction to the batch at `file`, creating the batch for the Safe on the first transaction.
+ */
+export const appendToSafeBatch = (
+    file: string,
+    { chainId, safeAddress }: { chainId: number; safeAddress: string },
+    { to, value = 0, data }: { to: string; value?: BigNumberish; data: string },
+    description: string
+): SafeBatch => {
+    const existing = readSafeBatch(file)
+    if (
+        existing &&
+        (existing.chainId !== chainId.toString() ||
+            existing.meta.createdFromSafeAddress.toLowerCase() !== safeAddress.toLowerCase())
+    ) {
+        throw new Error(
+            `${file} is a batch for the Safe ${existing.meta.createdFromSafeAddress} on chain ${existing.chainId}, ` +
+                `not for ${safeAddress} on chain ${chainId}. Use another SAFE_BATCH file.`
+        )
+    }
+
+    const batch: SafeBatch = existing ?? {
+        version: "1.0",
+        chainId: chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+            name: "RG Staking admin transactions",
+            description: "",
+            txBuilderVersion: TX_BUILDER_VERSION,
+            createdFromSafeAddress: ethers.utils.getAddress(safeAddress),
+            createdFromOwnerAddress: "",
+        },
+        transactions: [],
+    }
+    batch.transactions.push({
+        to: ethers.utils.getAddress(to),
+        value: value.toString(),
+        data,
+        contractMethod: null,
+        contractInputsValues: null,
+    })
+    batch.meta.description = [batch.meta.description, description].filter(Boolean).join("\n")
+    batch.meta.checksum = calculateChecksum(batch)
+
+    fs.outputJSONSync(file, batch, { spaces: 4 })
+    return batch
+}
+
+const formatValue = (value: unknown) => {
+    const normalized = normalizeArg(value)
+    return typeof normalized === "object" ? JSON.stringify(normalized) : String(normalized)
+}
+
+// A proxy's deployment records share its address, the one with the most functions, e.g. hardhat-deploy's record that
+// merges the proxy's and the implementation's ABIs, names the address
+const byAddress = (contracts: BatchContracts) => {
+    const named: { [address: string]: [string, BatchContracts[string]] } = {}
+    for (const [name, contract] of Object.entries(contracts)) {
+        const address = contract.address.toLowerCase()
+        if (!named[address] || contract.abi.length > named[address][1].abi.length) named[address] = [name, contract]
+    }
+    return named
+}
+
+const describeCall = (contracts: BatchContracts, { to, data }: SafeBatchTransaction) => {
+    const [name, contract] = byAddress(contracts)[to.toLowerCase()] ?? []
+    if (!name) return `${to} ${data.slice(0, 10)}`
+
+    try {
+        const { name: method, args } = new ethers.utils.Interface(contract!.abi).parseTransaction({ data })
+        return `${name}.${method}(${args.map(formatValue).join(", ")})`
+    } catch (e) {
+        return `${name} ${data.slice(0, 10)}`
+    }
+}
+
+// Reads the zero-argument views of the contracts at the given addresses
+const readState = async (hre: HardhatRuntimeEnvironment, contracts: BatchContracts, addresses: string[]) => {
+    const state: { [key: string]: string } = {}
+    for (const [address, [name, { abi }]] of Object.entries(byAddress(contracts))) {
+        if (!addresses.includes(address)) continue
+
+        const contract = new hre.ethers.Contract(address, abi, hre.ethers.provider)
+        const views = contract.interface.fragments.filter(
+            (fragment): fragment is ethers.utils.FunctionFragment =>
+                fragment.type === "function" &&
+                ["view", "pure"].includes((fragment as ethers.utils.FunctionFragment).stateMutability) &&
+                fragment.inputs.length === 0
+        )
+        for (const view of views) {
+            const result = await contract.functions[view.format()]().catch(() => undefined)
+            if (result !== undefined)
+                state[`${name}.${view.name}`] = formatValue(result.length === 1 ? result[0] : result)
+        }
+    }
+    return state
+}
+
+/**
+ * Sends the transactions of a batch in order from the Safe, impersonated on the hardhat network, and reports what each
+ * did and how the state of the called contracts changed. The Safe executes a batch atomically, so the transactions
+ * after one that reverts are skipped. `expect` maps "<contract>.<view>" to the value it must have afterwards.
+ */
+export const simulateSafeBatch = async (
+    hre: HardhatRuntimeEnvironment,
+    batch: SafeBatch,
+    contracts: BatchContracts,
+    expect: { [key: string]: unknown } = {}
+): Promise<SimulationResult> => {
+    const { provider } = hre.ethers
+    const safeAddress = batch.meta.createdFromSafeAddress
+    const addresses = [
+        ...batch.transactions.map(({ to }) => to),
+        ...Object.keys(expect)
+            .map((key) => contracts[key.split(".")[0]]?.address)
+            .filter(Boolean),
+    ].map((address) => address.toLowerCase())
+
+    await provider.send("hardhat_impersonateAccount", [safeAddress])
+    await provider.send("hardhat_setBalance", [safeAddress, ethers.utils.hexValue(ethers.utils.parseEther("1000"))])
+    const safe = await hre.ethers.getSigner(safeAddress)
+
+    const before = await readState(hre, contracts, addresses)
+    const transactions: SimulatedTransaction[] = []
+    let reverted = false
+    for (const transaction of batch.transactions) {
+        const simulated: SimulatedTransaction = {
+            to: transaction.to,
+            call: describeCall(contracts, transaction),
+            status: "skipped",
+        }
+        transactions.push(simulated)
+        if (reverted) continue
+
+        try {
+            const tx = await safe.sendTransaction({
+                to: transaction.to,
+                data: transaction.data,
+                value: transaction.value,
+            })
+            const receipt = await tx.wait(1)
+            simulated.status = "success"
+            simulated.gasUsed = receipt.gasUsed.toString()
+        } catch (e) {
+            reverted = true
+            simulated.status = "reverted"
+            simulated.error = (e as Error).message
+        }
+    }
+    const after = await readState(hre, contracts, addresses)
+    await provider.send("hardhat_stopImpersonatingAccount", [safeAddress])
+
+    const changes = Object.keys(after)
+        .filter((key) => before[key] !== after[key])
+        .map((key) => ({ key, before: before[key], after: after[key] }))
+    const failures = Object.entries(expect)
+        .filter(([key, value]) => after[key] !== formatValue(value))
+        .map(([key, value]) =>
+            key in after ? `${key}: expected ${formatValue(value)}, found ${after[key]}` : `${key}: no such view`
+        )
+
+    return { transactions, changes, failures }
+}
@@ -0,0 +1,120 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Compares solc storage layouts to make sure an upgraded implementation keeps the storage of existing proxies intact.
+ *
+ * Every variable of the previous layout must keep its slot, offset, name and type. New variables may only use slots
+ * that were free before, i.e. they must be appended.
+ */
+
+type StorageLayoutItem = {
+    label: string
+    slot: string
+    offset: number
+    type: string
+}
+
+type StorageLayoutType = {
+    label: string
+    numberOfBytes: string
+    encoding: string
+    members?: StorageLayoutItem[]
+    key?: string
+    value?: string
+    base?: string
+}
+
+export type StorageLayout = {
+    storage: StorageLayoutItem[]
+    types: { [typeId: string]: StorageLayoutType } | null
+}
+
+/**
+ * Describes a type independently of AST ids and of the contract declaring it, e.g.
+ * `struct UserData inplace 64 {assets:uint256 ...,...}`.
+ */
+const describeType = (layout: StorageLayout, typeId: string | undefined): string => {
+    const type = typeId ? layout.types?.[typeId] : undefined
+    if (!type) return typeId ?? "unknown"
+
+    const members = type.members?.map((member) => `${member.label}:${describeType(layout, member.type)}`).join(",")
+    const label = type.label.replace(/(struct|enum) \w+\./g, "$1 ")
+    const parts = [label, type.encoding, type.numberOfBytes]
+    if (members) parts.push(`{${members}}`)
+    if (type.key) parts.push(`key=${describeType(layout, type.key)}`)
+    if (type.value) parts.push(`value=${describeType(layout, type.value)}`)
+    if (type.base) parts.push(`base=${describeType(layout, type.base)}`)
+
+    return parts.join(" ")
+}
+
+const slotRange = (layout: StorageLayout, item: StorageLayoutItem) => {
+    const start = BigInt(item.slot) * 32n + BigInt(item.offset)
+    const size = BigInt(layout.types?.[item.type]?.numberOfBytes ?? 32)
+    return { start, end: start + size }
+}
+
+/**
+ * Returns the incompatibilities between two layouts. An empty list means `next` can safely replace `previous`.
+ */
+export const compareStorageLayouts = (previous: StorageLayout, next: StorageLayout): string[] => {
+    const errors: string[] = []
+
+    for (const item of previous.storage) {
+        const match = next.storage.find((candidate) => candidate.slot === item.slot && candidate.offset === item.offset)
+
+        if (!match) {
+            errors.push(`"${item.label}" (slot ${item.slot}, offset ${item.offset}) was removed or moved`)
+        } else if (match.label !== item.label) {
+            errors.push(`"${item.label}" (slot ${item.slot}) was replaced by "${match.label}"`)
+        } else if (describeType(previous, item.type) !== describeType(next, match.type)) {
+            errors.push(
+                `"${item.label}" (slot ${item.slot}) changed type from ` +
+                    `"${previous.types?.[item.type]?.label}" to "${next.types?.[match.type]?.label}"`
+            )
+        }
+    }
+
+    const previousRanges = previous.storage.map((item) => slotRange(previous, item))
+    for (const item of next.storage) {
+        // Variables replacing an existing one are already reported above
+        const isExisting = previous.storage.some(
+            (previousItem) => previousItem.slot === item.slot && previousItem.offset === item.offset
+        )
+        if (isExisting) continue
+
+        const { start, end } = slotRange(next, item)
+        if (previousRanges.some((range) => start < range.end && range.start < end)) {
+            errors.push(`New variable "${item.label}" (slot ${item.slot}) overlaps existing storage; append it instead`)
+        }
+    }
+
+    return errors
+}
+
+/**
+ * Compares the storage layout of the recorded `<contractName>_Implementation` deployment with the current artifact.
+ * Returns no errors when nothing has been deployed behind a proxy yet. hardhat-deploy only records layouts of
+ * deployments it saves to disk, so in-memory hardhat network deployments can't be checked.
+ */
+export const checkUpgradeSafety = async (
+    { deployments }: HardhatRuntimeEnvironment,
+    contractName: string,
+    artifactName: string = contractName
+): Promise<{ implementation?: string; errors: string[] }> => {
+    const implementation = await deployments.getOrNull(`${contractName}_Implementation`)
+    if (!implementation) return { errors: [] }
+
+    if (!implementation.storageLayout) {
+        throw new Error(
+            `The ${contractName} implementation at ${implementation.address} has no recorded storage layout`
+        )
+    }
+
+    const { storageLayout } = await deployments.getExtendedArtifact(artifactName)
+
+    return {
+        implementation: implementation.address,
+        errors: compareStorageLayouts(implementation.storageLayout, storageLayout),
+    }
+}
@@ -0,0 +1,282 @@
+import { ethers } from "ethers"
+import fs from "fs-extra"
+import http from "http"
+import https from "https"
+import path from "path"
+
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+import { normalizeArg } from "./deployment-manifest"
+
+/**
+ * A persisted queue of contracts to verify. Deploy scripts only record what they deployed; `verify:pending` submits
+ * the queue to every explorer of the network through the Etherscan API, retrying with backoff, and records the outcome
+ * per explorer so a later run picks up where the last one stopped.
+ */
+
+export type VerificationStatus = "pending" | "done" | "failed"
+
+export type ExplorerVerification = {
+    status: VerificationStatus
+    attempts: number
+    lastError?: string
+}
+
+export type PendingVerification = {
+    network: string
+    address: string
+    // Fully qualified contract name, e.g. contracts/RGToken.sol:RGToken
+    contract: string
+    constructorArgs: unknown[]
+    // done once every explorer verified the contract, failed once an explorer ran out of attempts
+    status: VerificationStatus
+    queuedAt: string
+    explorers: { [name: string]: ExplorerVerification }
+}
+
+export type Explorer = {
+    name: string
+    apiUrl: string
+    apiKey: string
+}
+
+// What the Etherscan API needs to verify a contract from its standard JSON input
+export type VerificationRequest = {
+    sourceCode: string
+    contractName: string
+    compilerVersion: string
+    // ABI encoded, without the 0x prefix
+    constructorArguments: string
+}
+
+export type ProcessQueueOptions = {
+    // Explorers to verify on in this run
+    explorers: Explorer[]
+    // Names of all the explorers of the network, which an entry is only done once verified on. Defaults to `explorers`.
+    networkExplorers?: string[]
+    buildRequest: (entry: PendingVerification) => Promise<VerificationRequest>
+    maxAttempts?: number
+    // Delay before the first retry, doubled on every retry
+    backoffMs?: number
+    pollIntervalMs?: number
+    pollAttempts?: number
+    // Also retry the entries that failed on a previous run
+    retryFailed?: boolean
+    sleep?: (ms: number) => Promise<void>
+    log?: (message: string) => void
+}
+
+const REQUEST_TIMEOUT_MS = 30_000
+
+export const defaultVerificationQueueFile = (root: string, networkName: string) =>
+    path.resolve(root, ".verification", `${networkName}.json`)
+
+export const readVerificationQueue = (file: string): PendingVerification[] =>
+    fs.existsSync(file) ? fs.readJSONSync(file) : []
+
+const writeVerificationQueue = (file: string, queue: PendingVerification[]) =>
+    fs.outputJSONSync(file, queue, { spaces: 4 })
+
+const isSameContract = (entry: PendingVerification, network: string, address: string, contract: string) =>
+    entry.network === network && entry.address.toLowerCase() === address.toLowerCase() && entry.contract === contract
+
+/**
+ * Adds a deployment to the queue. Queuing a contract again resets it to pending, unless it's already verified.
+ */
+export const enqueueVerification = (
+    file: string,
+    {
+        network,
+        address,
+        contract,
+        constructorArgs,
+    }: Pick<PendingVerification, "network" | "address" | "contract" | "constructorArgs">
+): PendingVerification => {
+    const queue = readVerificationQueue(file)
+    const existing = queue.find((entry) => isSameContract(entry, network, address, contract))
+    if (existing?.status === "done") return existing
+
+    const entry: PendingVerification = {
+        network,
+        address,
+        contract,
+        constructorArgs: normalizeArg(constructorArgs) as unknown[],
+        status: "pending",
+        queuedAt: new Date().toISOString(),
+        explorers: {},
+    }
+    writeVerificationQueue(file, existing ? queue.map((item) => (item === existing ? entry : item)) : [...queue, entry])
+    return entry
+}
+
+/**
+ * Builds the request from the build info of the local artifact, so the contract must not have changed since it was
+ * deployed.
+ */
+export const buildVerificationRequest = async (
+    { artifacts }: HardhatRuntimeEnvironment,
+    { contract, constructorArgs }: PendingVerification
+): Promise<VerificationRequest> => {
+    const buildInfo = await artifacts.getBuildInfo(contract)
+    if (!buildInfo) throw new Error(`No build info for ${contract}. Compile the contracts first.`)
+
+    const { abi } = await artifacts.readArtifact(contract)
+    return {
+        sourceCode: JSON.stringify(buildInfo.input),
+        contractName: contract,
+        compilerVersion: `v${buildInfo.solcLongVersion}`,
+        constructorArguments: new ethers.utils.Interface(abi).encodeDeploy(constructorArgs).slice(2),
+    }
+}
+
+const callExplorer = (url: URL, form?: URLSearchParams): Promise<{ status: string; result: string }> =>
+    new Promise((resolve, reject) => {
+        const body = form?.toString()
+        const request = (url.protocol === "https:" ? https : http).request(
+            url,
+            {
+                method: body ? "POST" : "GET",
+                headers: body ? { "Content-Type": "application/x-www-form-urlencoded" } : {},
+                timeout: REQUEST_TIMEOUT_MS,
+            },
+            (response) => {
+                let data = ""
+                response.on("data", (chunk) => (data += chunk))
+                response.on("end", () => {
+                    if (response.statusCode !== 200) {
+                        return reject(new Error(`${url.host} responded with HTTP ${response.statusCode}`))
+                    }
+                    try {
+                        resolve(JSON.parse(data))
+                    } catch (e) {
+                        reject(new Error(`${url.host} responded with invalid JSON`))
+                    }
+                })
+            }
+        )
+        request.on("timeout", () => request.destroy(new Error(`${url.host} didn't respond in time`)))
+        request.on("error", reject)
+        request.end(body)
+    })
+
+const isAlreadyVerified = (result: string) => /already verified/i.test(result)
+
+/**
+ * Submits the contract to an explorer and polls until the explorer verified it. Throws with the explorer's reason
+ * otherwise.
+ */
+const verifyOnExplorer = async (
+    { apiUrl, apiKey }: Explorer,
+    address: string,
+    request: VerificationRequest,
+    {
+        pollIntervalMs,
+        pollAttempts,
+        sleep,
+    }: Required<Pick<ProcessQueueOptions, "pollIntervalMs" | "pollAttempts" | "sleep">>
+) => {
+    const submission = await callExplorer(
+        new URL(apiUrl),
+        new URLSearchParams({
+            apikey: apiKey,
+            module: "contract",
+            action: "verifysourcecode",
+            contractaddress: address,
+            sourceCode: request.sourceCode,
+            codeformat: "solidity-standard-json-input",
+            contractname: request.contractName,
+            compilerversion: request.compilerVersion,
+            // Misspelled in the Etherscan API
+            constructorArguements: request.constructorArguments,
+        })
+    )
+    if (submission.status !== "1") {
+        if (isAlreadyVerified(submission.result)) return
+        throw new Error(submission.result)
+    }
+
+    const statusUrl = new URL(apiUrl)
+    statusUrl.search = new URLSearchParams({
+        apikey: apiKey,
+        module: "contract",
+        action: "checkverifystatus",
+        guid: submission.result,
+    }).toString()
+
+    for (let poll = 0; poll < pollAttempts; poll++) {
+        await sleep(pollIntervalMs)
+        const { status, result } = await callExplorer(statusUrl)
+        if (status === "1" || isAlreadyVerified(result)) return
+        if (!/pending/i.test(result)) throw new Error(result)
+    }
+    throw new Error(`Still pending after ${pollAttempts} status checks`)
+}
+
+const entryStatus = (entry: PendingVerification, explorers: string[]): VerificationStatus => {
+    const statuses = explorers.map((name) => entry.explorers[name]?.status ?? "pending")
+    if (statuses.includes("failed")) return "failed"
+    return statuses.every((status) => status === "done") ? "done" : "pending"
+}
+
+/**
+ * Verifies the pending entries of the queue on every explorer, persisting the queue after each attempt. Returns the
+ * queue as it was left. The status of an entry covers all the `networkExplorers`, so running on some of them only
+ * leaves it pending until the others verified it too.
+ */
+export const processVerificationQueue = async (
+    file: string,
+    {
+        explorers,
+        networkExplorers = explorers.map(({ name }) => name),
+        buildRequest,
+        maxAttempts = 5,
+        backoffMs = 5_000,
+        pollIntervalMs = 5_000,
+        pollAttempts = 12,
+        retryFailed = false,
+        sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+        log = () => undefined,
+    }: ProcessQueueOptions
+): Promise<PendingVerification[]> => {
+    const queue = readVerificationQueue(file)
+    const explorerNames = explorers.map(({ name }) => name)
+
+    for (const entry of queue) {
+        // Recomputed rather than read, as the network may have more explorers than the entry was last processed for
+        entry.status = entryStatus(entry, networkExplorers)
+        // Whether anything is left to do on the explorers of this run, which a failure elsewhere doesn't block
+        const status = entryStatus(entry, explorerNames)
+        if (status === "done" || (status === "failed" && !retryFailed)) continue
+
+        const request = await buildRequest(entry)
+        for (const explorer of explorers) {
+            const state = entry.explorers[explorer.name] ?? { status: "pending", attempts: 0 }
+            if (state.status === "done") continue
+            if (state.status === "failed") Object.assign(state, { status: "pending", attempts: 0 })
+            entry.explorers[explorer.name] = state
+
+            while (state.status === "pending") {
+                if (state.attempts > 0) await sleep(backoffMs * 2 ** (state.attempts - 1))
+                state.attempts++
+
+                try {
+                    await verifyOnExplorer(explorer, entry.address, request, { pollIntervalMs, pollAttempts, sleep })
+                    state.status = "done"
+                    delete state.lastError
+                    log(`Verified ${entry.contract} at ${entry.address} on ${explorer.name}`)
+                } catch (e) {
+                    state.lastError = (e as Error).message
+                    if (state.attempts >= maxAttempts) state.status = "failed"
+                    log(
+                        `${explorer.name} attempt ${state.attempts}/${maxAttempts} for ${entry.contract}: ${state.lastError}`
+                    )
+                }
+
+                entry.status = entryStatus(entry, networkExplorers)
+                writeVerificationQueue(file, queue)
+            }
+        }
+    }
+
+    return queue
+}